@@ -0,0 +1,51 @@
+import { HttpError, NotFoundError, errorResponse } from "@/lib/api";
+import {
+  DERIVATIVE_KINDS,
+  DERIVATIVE_TYPES,
+  getDerivative,
+  type DerivativeKind,
+} from "@/lib/derivatives";
+import { hasBlob, readBlobBuffer } from "@/lib/storage";
+
+interface RouteContext {
+  params: Promise<{ hash: string; kind: string }>;
+}
+
+/**
+ * A preview of a media blob: `thumbnail` for images, `poster` for video, and
+ * `waveform` or `peaks` for audio. `?name=` is the file name, which decides
+ * the media type. Generated on first request if the commit hook hasn't got
+ * to it yet, then cached for good, since both blobs are immutable.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { hash, kind } = await params;
+    if (!DERIVATIVE_KINDS.includes(kind as DerivativeKind)) {
+      throw new NotFoundError(`Unknown preview ${kind}`);
+    }
+    if (!(await hasBlob(hash)))
+      throw new NotFoundError(`Blob ${hash} not found`);
+    const name = new URL(request.url).searchParams.get("name");
+    if (!name) throw new HttpError(400, "name is required");
+
+    const etag = `"${hash}-${kind}"`;
+    const headers = new Headers({
+      "Cache-Control": "public, max-age=31536000, immutable",
+      "Content-Type": DERIVATIVE_TYPES[kind as DerivativeKind],
+      ETag: etag,
+    });
+    if (request.headers.get("if-none-match") === etag) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    const derivative = await getDerivative(hash, name, kind as DerivativeKind);
+    if (derivative.status === "failed" || !derivative.hash) {
+      throw new HttpError(422, derivative.error ?? `No ${kind} for ${name}`);
+    }
+    const body = await readBlobBuffer(derivative.hash);
+    headers.set("Content-Length", String(body.length));
+    return new Response(new Uint8Array(body), { headers });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,103 @@
+import { Readable } from "stream";
+
+import { NotFoundError, errorResponse } from "@/lib/api";
+import {
+  isBlobHash,
+  isPassive,
+  mimeType,
+  readBlob,
+  statBlob,
+} from "@/lib/storage";
+
+interface RouteContext {
+  params: Promise<{ hash: string }>;
+}
+
+/**
+ * Serves a blob by SHA-256, with HTTP range support for media seeking and
+ * resumed downloads. Pass `?name=` to get a content type and a download name;
+ * only passive types are shown inline, everything else is downloaded.
+ */
+export async function GET(request: Request, context: RouteContext) {
+  return serveBlob(request, context, true);
+}
+
+export async function HEAD(request: Request, context: RouteContext) {
+  return serveBlob(request, context, false);
+}
+
+async function serveBlob(
+  request: Request,
+  { params }: RouteContext,
+  withBody: boolean,
+) {
+  try {
+    const { hash } = await params;
+    const stat = isBlobHash(hash) ? await statBlob(hash) : null;
+    if (!stat) throw new NotFoundError(`Blob ${hash} not found`);
+
+    const name = new URL(request.url).searchParams.get("name");
+    const headers = new Headers({
+      "Accept-Ranges": "bytes",
+      "Cache-Control": "public, max-age=31536000, immutable",
+      "Content-Type": name ? mimeType(name) : "application/octet-stream",
+      ETag: `"${hash}"`,
+      // Blobs are user uploads served from the app's origin; never let the
+      // browser sniff them into something active or run script in them.
+      "X-Content-Type-Options": "nosniff",
+      "Content-Security-Policy": "sandbox",
+    });
+    if (name) {
+      headers.set(
+        "Content-Disposition",
+        `${isPassive(name) ? "inline" : "attachment"}; filename*=UTF-8''${encodeURIComponent(name)}`,
+      );
+    }
+    if (request.headers.get("if-none-match") === `"${hash}"`) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    let status = 200;
+    let range: { start: number; end: number } | undefined;
+    const rangeHeader = request.headers.get("range");
+    if (rangeHeader) {
+      range = parseRange(rangeHeader, stat.size);
+      if (!range) {
+        headers.set("Content-Range", `bytes */${stat.size}`);
+        return new Response(null, { status: 416, headers });
+      }
+      status = 206;
+      headers.set(
+        "Content-Range",
+        `bytes ${range.start}-${range.end}/${stat.size}`,
+      );
+    }
+    const length = range ? range.end - range.start + 1 : stat.size;
+    headers.set("Content-Length", String(length));
+
+    if (!withBody || length === 0) {
+      return new Response(null, { status, headers });
+    }
+    const body = Readable.toWeb(readBlob(hash, range)) as ReadableStream;
+    return new Response(body, { status, headers });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** Parses a single `bytes=` range; multi-range requests are not supported. */
+function parseRange(header: string, size: number) {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return undefined;
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    start = Math.max(0, size - Number(match[2]));
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  }
+  if (start > end || start >= size) return undefined;
+  return { start, end };
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import { collectGarbage, storageStats } from "@/lib/storage";
+
+export async function GET() {
+  try {
+    return NextResponse.json(await storageStats());
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** Triggers garbage collection of unreferenced blobs. */
+export async function DELETE() {
+  try {
+    const removed = await collectGarbage();
+    return NextResponse.json({ removed });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import { audioIndex } from "@/lib/audio";
+import { checkout } from "@/lib/versioning";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Duration, sample rate and channels of every recording at `?ref=`, with
+ * paired transcripts and a duration histogram.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const searchParams = new URL(request.url).searchParams;
+    const commit = await checkout(id, searchParams.get("ref") ?? undefined);
+    return NextResponse.json(await audioIndex(commit));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
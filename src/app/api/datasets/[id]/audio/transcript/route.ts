@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+
+import { HttpError, errorResponse } from "@/lib/api";
+import { readTranscript } from "@/lib/audio";
+import { checkout } from "@/lib/versioning";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** The transcript paired with the recording `?path=` at `?ref=`. */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const searchParams = new URL(request.url).searchParams;
+    const path = searchParams.get("path");
+    if (!path) throw new HttpError(400, "path is required");
+
+    const commit = await checkout(id, searchParams.get("ref") ?? undefined);
+    return NextResponse.json(await readTranscript(commit, path));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import { createCommit, listHistory } from "@/lib/versioning";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** History reachable from `?ref=` (the default branch if omitted). */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const searchParams = new URL(request.url).searchParams;
+    const limit = Number(searchParams.get("limit")) || undefined;
+    const commits = await listHistory(
+      id,
+      searchParams.get("ref") ?? undefined,
+      limit,
+    );
+    return NextResponse.json({ commits });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const commit = await createCommit(id, await request.json());
+    return NextResponse.json({ commit }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
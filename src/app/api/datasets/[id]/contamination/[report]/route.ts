@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import {
+  getContaminatedExamples,
+  type ContaminatedPage,
+} from "@/lib/contamination";
+
+interface RouteContext {
+  params: Promise<{ id: string; report: string }>;
+}
+
+const MAX_PAGE_EXAMPLES = 200;
+
+/**
+ * Contaminated eval examples of a check of the version at `?ref=`, highest
+ * overlap first. `?eval=` keeps one eval dataset's, and `?offset=` and
+ * `?limit=` page through them.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id, report } = await params;
+    const searchParams = new URL(request.url).searchParams;
+    return NextResponse.json<ContaminatedPage>(
+      await getContaminatedExamples(id, report, {
+        ref: searchParams.get("ref") ?? undefined,
+        evalId: searchParams.get("eval") ?? undefined,
+        offset: Math.max(Number(searchParams.get("offset")) || 0, 0),
+        limit: Math.min(
+          Math.max(Number(searchParams.get("limit")) || 50, 1),
+          MAX_PAGE_EXAMPLES,
+        ),
+      }),
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import {
+  checkContamination,
+  listContamination,
+  type ContaminationList,
+  type ContaminationRecord,
+} from "@/lib/contamination";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Contamination checks recorded against the training version at `?ref=`.
+ * The status is `running` while any of them is; poll until it is `ready`.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const ref = new URL(request.url).searchParams.get("ref") ?? undefined;
+    return NextResponse.json<ContaminationList>(
+      await listContamination(id, ref),
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Checks the training version at `ref` against the eval datasets chosen.
+ * Answers 202 while the check runs, or 200 with the check already recorded.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const record = await checkContamination(id, await request.json());
+    return NextResponse.json<ContaminationRecord>(record, {
+      status: record.status === "running" ? 202 : 200,
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
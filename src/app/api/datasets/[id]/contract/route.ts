@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import {
+  deleteContract,
+  getContractCheck,
+  saveContract,
+  type ContractCheckResult,
+} from "@/lib/contracts";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * The dataset's contract and how the version at `?ref=` fares against it.
+ * Answers 202 while the version is being checked; poll until it is done.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const result = await getContractCheck(
+      id,
+      new URL(request.url).searchParams.get("ref") ?? undefined,
+    );
+    return NextResponse.json<ContractCheckResult>(result, {
+      status: result.status === "running" ? 202 : 200,
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** Replaces the dataset's contract. */
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const contract = await saveContract(id, await request.json());
+    return NextResponse.json({ contract });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await deleteContract(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import { importCsv } from "@/lib/csv-import";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Converts a staged CSV or TSV upload to Parquet and commits it. */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const result = await importCsv(id, await request.json());
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
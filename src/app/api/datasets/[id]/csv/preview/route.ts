@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import { previewCsv } from "@/lib/csv-import";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Sniffs the dialect and column types of a CSV or TSV upload staged through
+ * `/api/uploads`. Dialect fields in the body override the sniffed ones.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    return NextResponse.json(await previewCsv(id, await request.json()));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
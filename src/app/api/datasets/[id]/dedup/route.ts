@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+
+import { HttpError, errorResponse } from "@/lib/api";
+import {
+  getDuplicates,
+  resolveDuplicates,
+  type DedupApplyResult,
+  type DedupResult,
+} from "@/lib/dedup";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const MAX_PAGE_CLUSTERS = 200;
+
+/**
+ * Duplicate clusters of the version at `?ref=`, comparing `?columns=`
+ * (comma-separated; all text if omitted) by `?unit=` n-grams of `?ngram=`
+ * at `?threshold=`. `?kind=exact|near` filters the clusters, and `?offset=`
+ * and `?limit=` page through them. Answers 202 while the scan runs.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const searchParams = new URL(request.url).searchParams;
+    const kind = searchParams.get("kind") ?? undefined;
+    if (kind !== undefined && kind !== "exact" && kind !== "near") {
+      throw new HttpError(400, "kind must be exact or near");
+    }
+    const columns = searchParams.get("columns");
+    const result = await getDuplicates(id, {
+      ref: searchParams.get("ref") ?? undefined,
+      options: {
+        columns: columns ? columns.split(",") : [],
+        threshold: searchParams.get("threshold") ?? undefined,
+        unit: searchParams.get("unit") ?? undefined,
+        ngram: searchParams.get("ngram") ?? undefined,
+      },
+      kind,
+      offset: Math.max(Number(searchParams.get("offset")) || 0, 0),
+      limit: Math.min(
+        Math.max(Number(searchParams.get("limit")) || 50, 1),
+        MAX_PAGE_CLUSTERS,
+      ),
+    });
+    return NextResponse.json<DedupResult>(result, {
+      status: result.status === "running" ? 202 : 200,
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Commits the scanned branch head without the duplicates of the clusters
+ * resolved, keeping the member chosen for each.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    return NextResponse.json<DedupApplyResult>(
+      await resolveDuplicates(id, await request.json()),
+      { status: 201 },
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
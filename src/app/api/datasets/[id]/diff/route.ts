@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+
+import { HttpError, errorResponse } from "@/lib/api";
+import { diffRows } from "@/lib/diff";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Most examples kept per kind of change. */
+const MAX_DIFF_ROWS = 2000;
+
+/**
+ * Row-level diff of `?path=` between `?from=` and `?to=` refs. `?key=` takes
+ * comma-separated primary key columns; without it rows match by content.
+ * `?limit=` caps the examples kept per kind of change.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const searchParams = new URL(request.url).searchParams;
+    const from = searchParams.get("from");
+    const to = searchParams.get("to");
+    const path = searchParams.get("path");
+    if (!from || !to || !path) {
+      throw new HttpError(400, "from, to and path are required");
+    }
+    const limitParam = searchParams.get("limit");
+    const limit = limitParam === null ? undefined : Number(limitParam);
+    if (limit !== undefined && !(Number.isInteger(limit) && limit >= 1)) {
+      throw new HttpError(400, "limit must be a positive integer");
+    }
+    const diff = await diffRows(id, {
+      from,
+      to,
+      path,
+      toPath: searchParams.get("toPath") ?? undefined,
+      key: searchParams
+        .get("key")
+        ?.split(",")
+        .map((k) => k.trim()),
+      limit: limit && Math.min(limit, MAX_DIFF_ROWS),
+    });
+    return NextResponse.json(diff);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+
+import { HttpError, NotFoundError, errorResponse } from "@/lib/api";
+import {
+  CHAT_FORMATS,
+  convertChatFile,
+  convertToParquet,
+  detectFormat,
+  type ChatFormat,
+} from "@/lib/formats";
+import { checkout } from "@/lib/versioning";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const EXPORT_FORMATS: string[] = ["parquet", ...CHAT_FORMATS];
+
+/**
+ * Converts `?path=` at `?ref=` to `?format=` and redirects to the converted
+ * blob: `parquet`, or a chat layout (`openai`, `sharegpt`, `alpaca`) written
+ * as JSONL. Conversions are content-addressed, so exporting the same file
+ * twice stores it once.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const searchParams = new URL(request.url).searchParams;
+    const path = searchParams.get("path");
+    const format = searchParams.get("format") ?? "parquet";
+    if (!path) throw new HttpError(400, "path is required");
+    if (!EXPORT_FORMATS.includes(format)) {
+      throw new HttpError(400, `Cannot export to ${format}`);
+    }
+
+    const commit = await checkout(id, searchParams.get("ref") ?? undefined);
+    const file = commit.manifest.find((f) => f.path === path);
+    if (!file) throw new NotFoundError(`${path} does not exist at this ref`);
+    if (!detectFormat(file.path)) {
+      throw new HttpError(415, `${file.path} is not a tabular file`);
+    }
+
+    const base = file.path
+      .split("/")
+      .pop()!
+      .replace(/\.[^.]*$/, "");
+    const blob =
+      format === "parquet"
+        ? await convertToParquet(file)
+        : await convertChatFile(file, format as ChatFormat);
+    const name =
+      format === "parquet" ? `${base}.parquet` : `${base}.${format}.jsonl`;
+    return NextResponse.redirect(
+      new URL(
+        `/api/blobs/${blob.hash}?${new URLSearchParams({ name })}`,
+        request.url,
+      ),
+      303,
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import { deleteExport, getExport } from "@/lib/exports";
+import { collectGarbage } from "@/lib/storage";
+
+interface RouteContext {
+  params: Promise<{ id: string; export: string }>;
+}
+
+/** An export that has not expired, with the blobs it wrote. */
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id, export: exportId } = await params;
+    return NextResponse.json({ export: await getExport(id, exportId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** Deletes an export's files before it expires. */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id, export: exportId } = await params;
+    await deleteExport(id, exportId);
+    await collectGarbage();
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+
+import { HttpError, errorResponse } from "@/lib/api";
+import { getDataset } from "@/lib/datasets";
+import { datasetPathSchema } from "@/lib/schemas";
+import { collectGarbage, storeBlob } from "@/lib/storage";
+import { checkout, createCommit } from "@/lib/versioning";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Lists the files at `?ref=` (the default branch if omitted). */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const ref = new URL(request.url).searchParams.get("ref") ?? undefined;
+    const commit = await checkout(id, ref);
+    return NextResponse.json({ commit: commit.id, files: commit.manifest });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Adds files from a multipart form as one commit. Each `file` part is stored
+ * under its own name, optionally below the `prefix` field; `branch`,
+ * `message` and `author` fields describe the commit. Large files should go
+ * through the resumable upload endpoint instead.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await getDataset(id);
+    const form = await request.formData();
+    const field = (name: string) => {
+      const value = form.get(name);
+      return typeof value === "string" && value ? value : undefined;
+    };
+    const prefix = field("prefix");
+    const files = form
+      .getAll("file")
+      .filter((f): f is File => f instanceof File);
+    if (files.length === 0) throw new HttpError(400, "No files were uploaded");
+
+    const add = [];
+    for (const file of files) {
+      const name = prefix ? `${prefix}/${file.name}` : file.name;
+      const path = datasetPathSchema.parse(name);
+      const blob = await storeBlob(file.stream());
+      add.push({ path, hash: blob.hash });
+    }
+    const commit = await createCommit(id, {
+      branch: field("branch"),
+      author: field("author"),
+      message:
+        field("message") ??
+        `Add ${add.length === 1 ? add[0].path : `${add.length} files`}`,
+      add,
+    });
+    return NextResponse.json({ commit }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** Removes `?path=` from `?branch=` in a new commit. */
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const searchParams = new URL(request.url).searchParams;
+    const path = datasetPathSchema.parse(searchParams.get("path") ?? "");
+    const commit = await createCommit(id, {
+      branch: searchParams.get("branch") ?? undefined,
+      message: `Remove ${path}`,
+      remove: [path],
+    });
+    // Earlier commits still reference the file, so this only frees blobs that
+    // were orphaned some other way.
+    await collectGarbage();
+    return NextResponse.json({ commit });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import { exportHuggingFace } from "@/lib/huggingface";
+import { collectGarbage } from "@/lib/storage";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Writes a version in the Hugging Face `datasets` layout, archived as a tar,
+ * and returns the export it was recorded as. Exports expire, so each one also
+ * removes the files of those that have.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const result = await exportHuggingFace(id, await request.json());
+    await collectGarbage();
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import { importHuggingFace } from "@/lib/huggingface";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Commits a `datasets` folder whose files were staged through tus. */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const result = await importHuggingFace(id, await request.json());
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+
+import { imageIndex, type ImagePage } from "@/lib/annotations";
+import { errorResponse } from "@/lib/api";
+import { checkout } from "@/lib/versioning";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const MAX_PAGE_SAMPLES = 500;
+
+/**
+ * A page of the images at `?ref=` with their bounding boxes, optionally only
+ * those with a box of one of the `?label=` classes. Pass the returned
+ * `nextOffset` as `?offset=` to continue.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const searchParams = new URL(request.url).searchParams;
+    const offset = Math.max(Number(searchParams.get("offset")) || 0, 0);
+    const limit = Math.min(
+      Math.max(Number(searchParams.get("limit")) || 100, 1),
+      MAX_PAGE_SAMPLES,
+    );
+    const labels = new Set(searchParams.getAll("label"));
+
+    const commit = await checkout(id, searchParams.get("ref") ?? undefined);
+    const index = await imageIndex(commit);
+    const samples =
+      labels.size === 0
+        ? index.samples
+        : index.samples.filter((sample) =>
+            sample.boxes.some((box) => labels.has(box.label)),
+          );
+    const end = offset + limit;
+
+    return NextResponse.json<ImagePage>({
+      commit: commit.id,
+      total: samples.length,
+      labels: index.labels,
+      formats: index.formats,
+      samples: samples.slice(offset, end),
+      nextOffset: end < samples.length ? end : null,
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
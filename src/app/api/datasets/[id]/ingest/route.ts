@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import { ingestUpload } from "@/lib/ingest";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Validates a JSONL upload staged through `/api/uploads` (with `stage`
+ * metadata) and commits it. Send `dryRun: true` for the validation report
+ * alone, and `quarantine: true` to commit despite malformed lines.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const result = await ingestUpload(id, await request.json());
+    return NextResponse.json(result, { status: result.commit ? 201 : 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
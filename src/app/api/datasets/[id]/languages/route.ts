@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import {
+  carveLanguages,
+  getLanguageReport,
+  type LanguageCarveResult,
+  type LanguageReport,
+} from "@/lib/language/tags";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Language and script distribution of the version at `?ref=`. Answers 202
+ * while files are being tagged; poll until the status is `ready` or `failed`.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const searchParams = new URL(request.url).searchParams;
+    const report = await getLanguageReport(
+      id,
+      searchParams.get("ref") ?? undefined,
+    );
+    return NextResponse.json<LanguageReport>(report, {
+      status: report.status === "running" ? 202 : 200,
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** Creates a dataset from the rows of a tagged version in some languages. */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    return NextResponse.json<LanguageCarveResult>(
+      await carveLanguages(id, await request.json()),
+      { status: 201 },
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
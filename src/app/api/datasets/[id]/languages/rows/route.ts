@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+
+import { HttpError, errorResponse } from "@/lib/api";
+import { getLanguageRows, type LanguageRowPage } from "@/lib/language/tags";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const MAX_PAGE_ROWS = 2000;
+
+/**
+ * One page of rows of `?path=` at `?ref=` with their language, confidence
+ * and script as derived columns, only those in `?language=` if given and
+ * tagged with at least `?minConfidence=`. Pages and cursors work as for the
+ * rows endpoint, except that a filtered page may come back short.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const searchParams = new URL(request.url).searchParams;
+    const path = searchParams.get("path");
+    if (!path) throw new HttpError(400, "path is required");
+    const limit = Number(searchParams.get("limit") ?? 500);
+    if (!(Number.isInteger(limit) && limit >= 1)) {
+      throw new HttpError(400, "limit must be a positive integer");
+    }
+    const minConfidence = Number(searchParams.get("minConfidence") ?? 0);
+    if (!(minConfidence >= 0 && minConfidence <= 1)) {
+      throw new HttpError(400, "minConfidence must be between 0 and 1");
+    }
+    return NextResponse.json<LanguageRowPage>(
+      await getLanguageRows(id, path, {
+        ref: searchParams.get("ref") ?? undefined,
+        language: searchParams.get("language"),
+        minConfidence,
+        cursor: searchParams.get("cursor"),
+        limit: Math.min(limit, MAX_PAGE_ROWS),
+      }),
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+
+import { HttpError, errorResponse } from "@/lib/api";
+import {
+  getPiiReport,
+  redactPii,
+  type PiiRedactResult,
+  type PiiResult,
+} from "@/lib/pii";
+import { PII_TYPES, type PiiType } from "@/lib/schemas";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const MAX_PAGE_ROWS = 200;
+
+/**
+ * PII report of the version at `?ref=`, scanning `?columns=` (comma-separated;
+ * all text if omitted) for the kinds in `?types=` (comma-separated; all if
+ * omitted). `?type=` keeps the rows with findings of one kind, and `?offset=`
+ * and `?limit=` page through them. Answers 202 while the scan runs.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const searchParams = new URL(request.url).searchParams;
+    const type = searchParams.get("type") ?? undefined;
+    if (type !== undefined && !PII_TYPES.includes(type as PiiType)) {
+      throw new HttpError(400, `type must be one of ${PII_TYPES.join(", ")}`);
+    }
+    const columns = searchParams.get("columns");
+    const types = searchParams.get("types");
+    const result = await getPiiReport(id, {
+      ref: searchParams.get("ref") ?? undefined,
+      options: {
+        columns: columns ? columns.split(",") : [],
+        types: types ? types.split(",") : undefined,
+      },
+      type: type as PiiType | undefined,
+      offset: Math.max(Number(searchParams.get("offset")) || 0, 0),
+      limit: Math.min(
+        Math.max(Number(searchParams.get("limit")) || 50, 1),
+        MAX_PAGE_ROWS,
+      ),
+    });
+    return NextResponse.json<PiiResult>(result, {
+      status: result.status === "running" ? 202 : 200,
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** Commits the scanned branch head with the PII it found replaced. */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    return NextResponse.json<PiiRedactResult>(
+      await redactPii(id, await request.json()),
+      { status: 201 },
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import {
+  deletePipeline,
+  formatPipeline,
+  getPipeline,
+  parsePipeline,
+  savePipeline,
+} from "@/lib/pipelines";
+
+interface RouteContext {
+  params: Promise<{ id: string; pipeline: string }>;
+}
+
+/**
+ * A saved pipeline. With `?format=yaml` or `?format=json` its definition is
+ * sent as a file that can be imported into any dataset.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id, pipeline: pipelineId } = await params;
+    const pipeline = await getPipeline(id, pipelineId);
+    const format = new URL(request.url).searchParams.get("format");
+    if (format !== "yaml" && format !== "json") {
+      return NextResponse.json({ pipeline });
+    }
+    const name = `${pipeline.name}.pipeline.${format}`;
+    return new Response(formatPipeline(pipeline, format), {
+      headers: {
+        "Content-Type":
+          format === "yaml" ? "application/yaml" : "application/json",
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(name)}`,
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** Replaces a pipeline's definition with a JSON or YAML body. */
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    const { id, pipeline: pipelineId } = await params;
+    const pipeline = await savePipeline(
+      id,
+      parsePipeline(await request.text()),
+      pipelineId,
+    );
+    return NextResponse.json({ pipeline });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id, pipeline } = await params;
+    await deletePipeline(id, pipeline);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
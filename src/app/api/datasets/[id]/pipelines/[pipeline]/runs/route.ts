@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import { runPipeline, type PipelineRunResult } from "@/lib/pipelines";
+
+interface RouteContext {
+  params: Promise<{ id: string; pipeline: string }>;
+}
+
+/** Runs a pipeline against a version and commits its output. */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id, pipeline } = await params;
+    return NextResponse.json<PipelineRunResult>(
+      await runPipeline(id, pipeline, await request.json()),
+      { status: 201 },
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
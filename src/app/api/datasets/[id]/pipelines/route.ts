@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import {
+  listPipelineRuns,
+  listPipelines,
+  parsePipeline,
+  savePipeline,
+  type Pipeline,
+  type PipelineRun,
+} from "@/lib/pipelines";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** The dataset's saved pipelines and the commits they made. */
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const [pipelines, runs] = await Promise.all([
+      listPipelines(id),
+      listPipelineRuns(id),
+    ]);
+    return NextResponse.json<{ pipelines: Pipeline[]; runs: PipelineRun[] }>({
+      pipelines,
+      runs,
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/** Saves a pipeline, defined in a JSON or YAML body. */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const pipeline = await savePipeline(
+      id,
+      parsePipeline(await request.text()),
+    );
+    return NextResponse.json({ pipeline }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+
+import { HttpError, NotFoundError, errorResponse } from "@/lib/api";
+import { preferenceStats } from "@/lib/preferences";
+import { checkout } from "@/lib/versioning";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Validation results, degenerate pairs and length-bias statistics for the
+ * preference pairs in `?path=` at `?ref=`.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const searchParams = new URL(request.url).searchParams;
+    const path = searchParams.get("path");
+    if (!path) throw new HttpError(400, "path is required");
+
+    const commit = await checkout(id, searchParams.get("ref") ?? undefined);
+    const file = commit.manifest.find((f) => f.path === path);
+    if (!file) throw new NotFoundError(`${path} does not exist at this ref`);
+
+    return NextResponse.json({
+      commit: commit.id,
+      ...(await preferenceStats(file)),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
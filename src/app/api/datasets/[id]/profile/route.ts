@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import { getProfile, type ProfileResult } from "@/lib/profiles";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Column profile of the version at `?ref=`. Answers 202 while the version is
+ * being profiled; poll until the status is `ready` or `failed`.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const ref = new URL(request.url).searchParams.get("ref") ?? undefined;
+    const result = await getProfile(id, ref);
+    return NextResponse.json<ProfileResult>(result, {
+      status: result.status === "running" ? 202 : 200,
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
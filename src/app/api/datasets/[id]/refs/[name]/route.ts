@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import { deleteRef } from "@/lib/versioning";
+
+interface RouteContext {
+  params: Promise<{ id: string; name: string }>;
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id, name } = await params;
+    await deleteRef(id, name);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import { createRef, listRefs } from "@/lib/versioning";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    return NextResponse.json({ refs: await listRefs(id) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const ref = await createRef(id, await request.json());
+    return NextResponse.json({ ref }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
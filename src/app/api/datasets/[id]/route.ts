@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import { deleteDataset, getDataset, updateDataset } from "@/lib/datasets";
+import { collectGarbage } from "@/lib/storage";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    return NextResponse.json({ dataset: await getDataset(id) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const dataset = await updateDataset(id, await request.json());
+    return NextResponse.json({ dataset });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await deleteDataset(id);
+    await collectGarbage();
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
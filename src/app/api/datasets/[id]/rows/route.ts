@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+
+import { HttpError, NotFoundError, errorResponse } from "@/lib/api";
+import { readPage } from "@/lib/formats";
+import { checkout } from "@/lib/versioning";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const MAX_PAGE_ROWS = 2000;
+
+/**
+ * One page of rows from `?path=` at `?ref=`. Pass the returned `nextCursor`
+ * as `?cursor=` to continue; cursors stay valid for a given commit.
+ * `?limit=` rows are read, up to `MAX_PAGE_ROWS`.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const searchParams = new URL(request.url).searchParams;
+    const path = searchParams.get("path");
+    if (!path) throw new HttpError(400, "path is required");
+    const limit = Number(searchParams.get("limit") ?? 500);
+    if (!(Number.isInteger(limit) && limit >= 1)) {
+      throw new HttpError(400, "limit must be a positive integer");
+    }
+
+    const commit = await checkout(id, searchParams.get("ref") ?? undefined);
+    const file = commit.manifest.find((f) => f.path === path);
+    if (!file) throw new NotFoundError(`${path} does not exist at this ref`);
+
+    const page = await readPage(
+      file,
+      searchParams.get("cursor"),
+      Math.min(limit, MAX_PAGE_ROWS),
+    );
+    return NextResponse.json({ commit: commit.id, ...page });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+
+import { HttpError, NotFoundError, errorResponse } from "@/lib/api";
+import { readSchema } from "@/lib/formats";
+import { checkout } from "@/lib/versioning";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Arrow schema of `?path=` at `?ref=`. Parquet schemas come from the file
+ * footer; other formats are inferred from a sample of rows.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const searchParams = new URL(request.url).searchParams;
+    const path = searchParams.get("path");
+    if (!path) throw new HttpError(400, "path is required");
+
+    const commit = await checkout(id, searchParams.get("ref") ?? undefined);
+    const file = commit.manifest.find((f) => f.path === path);
+    if (!file) throw new NotFoundError(`${path} does not exist at this ref`);
+
+    return NextResponse.json({
+      commit: commit.id,
+      ...(await readSchema(file)),
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
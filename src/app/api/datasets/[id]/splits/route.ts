@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import { defineSplits, getSplits, type SplitReport } from "@/lib/splits";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Row counts and label distribution of the splits at `?ref=`. */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const ref = new URL(request.url).searchParams.get("ref") ?? undefined;
+    return NextResponse.json<SplitReport>(await getSplits(id, ref));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Commits a split definition (or `splits: null` to drop it) to `branch`.
+ * Send `dryRun: true` to see the resulting splits without committing.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const result = await defineSplits(id, await request.json());
+    return NextResponse.json(result, { status: result.commit ? 201 : 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
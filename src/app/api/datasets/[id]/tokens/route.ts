@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import { getTokenReport, type TokenReport } from "@/lib/tokenizers/counts";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Token counts of the version at `?ref=` per file and column, under
+ * `?tokenizer=` (the dataset's tokenizer if omitted). Answers 202 while files
+ * are being counted; poll until the status is `ready` or `failed`.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const searchParams = new URL(request.url).searchParams;
+    const report = await getTokenReport(
+      id,
+      searchParams.get("ref") ?? undefined,
+      searchParams.get("tokenizer") ?? undefined,
+    );
+    return NextResponse.json<TokenReport>(report, {
+      status: report.status === "running" ? 202 : 200,
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+
+import { HttpError, errorResponse } from "@/lib/api";
+import { getRowTokens, type RowTokenPage } from "@/lib/tokenizers/counts";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const MAX_PAGE_ROWS = 2000;
+
+/**
+ * Token counts of one page of rows of `?path=` at `?ref=`, per row and
+ * column. Pages and cursors work as for the rows endpoint.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const searchParams = new URL(request.url).searchParams;
+    const path = searchParams.get("path");
+    if (!path) throw new HttpError(400, "path is required");
+    const limit = Math.min(
+      Math.max(Number(searchParams.get("limit")) || 500, 1),
+      MAX_PAGE_ROWS,
+    );
+    return NextResponse.json<RowTokenPage>(
+      await getRowTokens(id, path, {
+        ref: searchParams.get("ref") ?? undefined,
+        tokenizerId: searchParams.get("tokenizer") ?? undefined,
+        cursor: searchParams.get("cursor"),
+        limit,
+      }),
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import { checkout } from "@/lib/versioning";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Checks out the manifest at `?ref=`: a branch, tag or commit id. The
+ * response pins every file by hash, so it can be stored alongside a training
+ * run and resolved again later.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const ref = new URL(request.url).searchParams.get("ref") ?? undefined;
+    return NextResponse.json({ commit: await checkout(id, ref) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
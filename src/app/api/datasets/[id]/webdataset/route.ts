@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import { collectGarbage } from "@/lib/storage";
+import { exportWebDataset } from "@/lib/webdataset";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Writes a version of the dataset as size-bounded WebDataset shards plus a
+ * shard list, all stored as blobs, and returns where to download them.
+ * Exports expire, so each one also removes the files of those that have.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const result = await exportWebDataset(id, await request.json());
+    await collectGarbage();
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import { createDataset, listDatasets } from "@/lib/datasets";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ datasets: await listDatasets() });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const dataset = await createDataset(await request.json());
+    return NextResponse.json({ dataset }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
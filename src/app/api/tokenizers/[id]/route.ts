@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+
+import { errorResponse } from "@/lib/api";
+import { collectGarbage } from "@/lib/storage";
+import { deleteTokenizer, getTokenizer } from "@/lib/tokenizers";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    return NextResponse.json({ tokenizer: await getTokenizer(id) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await deleteTokenizer(id);
+    await collectGarbage();
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
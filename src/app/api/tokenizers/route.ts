@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+
+import { HttpError, errorResponse } from "@/lib/api";
+import { addTokenizer, listTokenizers } from "@/lib/tokenizers";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ tokenizers: await listTokenizers() });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Adds a tokenizer from a multipart form: a `file` part holding a
+ * `tokenizer.json` or SentencePiece `.model` file, and a `name` field.
+ */
+export async function POST(request: Request) {
+  try {
+    const form = await request.formData();
+    const file = form.get("file");
+    if (!(file instanceof File)) {
+      throw new HttpError(400, "No tokenizer file was uploaded");
+    }
+    const name = form.get("name");
+    const tokenizer = await addTokenizer(file, {
+      name: typeof name === "string" && name ? name : file.name,
+    });
+    return NextResponse.json({ tokenizer }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
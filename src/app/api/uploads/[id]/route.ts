@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+
+import { HttpError, errorResponse } from "@/lib/api";
+import {
+  TUS_VERSION,
+  appendToUpload,
+  getUpload,
+  retryUpload,
+  terminateUpload,
+  tusHeaders,
+} from "@/lib/uploads";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** Reports how many bytes the server has, so the client knows where to resume. */
+export async function HEAD(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const upload = await getUpload(id);
+    if (upload.status === "failed") throw new HttpError(410, "Upload failed");
+    return new Response(null, {
+      status: 200,
+      headers: tusHeaders({
+        "Upload-Offset": String(upload.offset),
+        "Upload-Length": String(upload.length),
+        "Upload-Expires": new Date(upload.expiresAt).toUTCString(),
+      }),
+    });
+  } catch (error) {
+    // HEAD responses cannot carry the JSON error body.
+    const { status } = errorResponse(error);
+    return new Response(null, { status, headers: tusHeaders() });
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    if (request.headers.get("tus-resumable") !== TUS_VERSION) {
+      throw new HttpError(412, `Only tus ${TUS_VERSION} is supported`);
+    }
+    if (
+      request.headers.get("content-type") !== "application/offset+octet-stream"
+    ) {
+      throw new HttpError(
+        415,
+        "Content-Type must be application/offset+octet-stream",
+      );
+    }
+    const offset = Number(request.headers.get("upload-offset") ?? NaN);
+    if (!Number.isSafeInteger(offset) || offset < 0) {
+      throw new HttpError(400, "Upload-Offset must be a non-negative integer");
+    }
+    const upload = await appendToUpload(id, offset, request.body);
+    return new Response(null, {
+      status: 204,
+      headers: tusHeaders({
+        "Upload-Offset": String(upload.offset),
+        "Upload-Expires": new Date(upload.expiresAt).toUTCString(),
+      }),
+    });
+  } catch (error) {
+    const response = errorResponse(error);
+    response.headers.set("Tus-Resumable", TUS_VERSION);
+    return response;
+  }
+}
+
+/** tus termination: abandons the upload and frees its partial data. */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    await terminateUpload(id);
+    return new Response(null, { status: 204, headers: tusHeaders() });
+  } catch (error) {
+    const response = errorResponse(error);
+    response.headers.set("Tus-Resumable", TUS_VERSION);
+    return response;
+  }
+}
+
+/**
+ * Commits an upload again after its commit failed. Its data is already
+ * stored, so nothing is sent again.
+ */
+export async function POST(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    return NextResponse.json({ upload: await retryUpload(id) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
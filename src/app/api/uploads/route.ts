@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+
+import { HttpError, errorResponse } from "@/lib/api";
+import {
+  MAX_UPLOAD_BYTES,
+  TUS_EXTENSIONS,
+  TUS_VERSION,
+  createUpload,
+  listUploads,
+  parseUploadMetadata,
+  tusHeaders,
+} from "@/lib/uploads";
+
+/** tus discovery: advertises the protocol version and extensions. */
+export function OPTIONS() {
+  return new Response(null, {
+    status: 204,
+    headers: tusHeaders({
+      "Tus-Version": TUS_VERSION,
+      "Tus-Extension": TUS_EXTENSIONS,
+      "Tus-Max-Size": String(MAX_UPLOAD_BYTES),
+    }),
+  });
+}
+
+/**
+ * tus creation. Required metadata: `datasetId` and `filename` (or `path`);
+ * `sha256` is optional and, when present, is verified before the file is
+ * committed to the dataset.
+ */
+export async function POST(request: Request) {
+  try {
+    if (request.headers.get("tus-resumable") !== TUS_VERSION) {
+      throw new HttpError(412, `Only tus ${TUS_VERSION} is supported`);
+    }
+    if (request.headers.get("upload-defer-length")) {
+      throw new HttpError(400, "Deferred upload length is not supported");
+    }
+    const upload = await createUpload(
+      Number(request.headers.get("upload-length") ?? NaN),
+      parseUploadMetadata(request.headers.get("upload-metadata")),
+    );
+    return new Response(null, {
+      status: 201,
+      headers: tusHeaders({
+        Location: `/api/uploads/${upload.id}`,
+        "Upload-Expires": new Date(upload.expiresAt).toUTCString(),
+      }),
+    });
+  } catch (error) {
+    return withTusHeaders(errorResponse(error));
+  }
+}
+
+/** Lists unfinished uploads for a dataset so the UI can offer to resume them. */
+export async function GET(request: Request) {
+  try {
+    const datasetId = new URL(request.url).searchParams.get("datasetId");
+    if (!datasetId) throw new HttpError(400, "datasetId is required");
+    return NextResponse.json({ uploads: await listUploads(datasetId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+function withTusHeaders(response: Response) {
+  response.headers.set("Tus-Resumable", TUS_VERSION);
+  return response;
+}
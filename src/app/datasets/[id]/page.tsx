@@ -0,0 +1,320 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+
+import { DataViewer } from "@/components/datasets/data-viewer";
+import { AudioView } from "@/components/datasets/audio-view";
+import { ContaminationBadge } from "@/components/datasets/contamination-badge";
+import { ContaminationView } from "@/components/datasets/contamination-view";
+import { ContractBadge } from "@/components/datasets/contract-badge";
+import { ContractView } from "@/components/datasets/contract-view";
+import { CsvImportWizard } from "@/components/datasets/csv-import-wizard";
+import { DedupView } from "@/components/datasets/dedup-view";
+import { DiffView } from "@/components/datasets/diff-view";
+import { FileTable } from "@/components/datasets/file-table";
+import { HistoryView } from "@/components/datasets/history-view";
+import { HuggingFaceDialog } from "@/components/datasets/huggingface-dialog";
+import { ImageGallery } from "@/components/datasets/image-gallery";
+import { IngestDialog } from "@/components/datasets/ingest-dialog";
+import { LanguageView } from "@/components/datasets/language-view";
+import { PiiView } from "@/components/datasets/pii-view";
+import { PipelineView } from "@/components/datasets/pipeline-view";
+import { ProfileView } from "@/components/datasets/profile-view";
+import { RefSelector } from "@/components/datasets/ref-selector";
+import { SplitView } from "@/components/datasets/split-view";
+import { StorageSummary } from "@/components/datasets/storage-summary";
+import { TokenCount } from "@/components/datasets/token-count";
+import { UploadDialog } from "@/components/datasets/upload-dialog";
+import { WebDatasetExportDialog } from "@/components/datasets/webdataset-export-dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { NotFoundError } from "@/lib/api";
+import { listContamination } from "@/lib/contamination";
+import { getContractCheck, listContractStatuses } from "@/lib/contracts";
+import { getDataset, listDatasets } from "@/lib/datasets";
+import { detectFormat } from "@/lib/formats";
+import {
+  listPipelineRuns,
+  listPipelines,
+  pipelineLineage,
+} from "@/lib/pipelines";
+import { tabularFiles } from "@/lib/splits";
+import { datasetStorageStats, isImage, mediaType } from "@/lib/storage";
+import { getTokenizer } from "@/lib/tokenizers";
+import { checkout, listHistory, listRefs } from "@/lib/versioning";
+
+export const dynamic = "force-dynamic";
+
+interface DatasetPageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ ref?: string; tab?: string }>;
+}
+
+export default async function DatasetPage({
+  params,
+  searchParams,
+}: DatasetPageProps) {
+  const { id } = await params;
+  const { ref: requestedRef, tab = "files" } = await searchParams;
+  let page;
+  try {
+    const dataset = await getDataset(id);
+    const ref = requestedRef || dataset.defaultBranch;
+    const [
+      commit,
+      refs,
+      history,
+      stats,
+      tokenizer,
+      contamination,
+      datasets,
+      contract,
+      pipelines,
+      pipelineRuns,
+    ] = await Promise.all([
+      checkout(id, ref),
+      listRefs(id),
+      listHistory(id, ref),
+      datasetStorageStats(id),
+      dataset.tokenizerId ? getTokenizer(dataset.tokenizerId) : null,
+      listContamination(id, ref),
+      listDatasets(),
+      getContractCheck(id, ref),
+      listPipelines(id),
+      listPipelineRuns(id),
+    ]);
+    const historyIds = history.map((entry) => entry.id);
+    const [contractStatuses, lineage] = await Promise.all([
+      listContractStatuses(id, historyIds),
+      pipelineLineage(historyIds),
+    ]);
+    page = {
+      dataset,
+      ref,
+      commit,
+      refs,
+      history,
+      stats,
+      tokenizer,
+      contamination,
+      datasets,
+      contract,
+      contractStatuses,
+      pipelines,
+      pipelineRuns,
+      lineage,
+    };
+  } catch (error) {
+    if (error instanceof NotFoundError) notFound();
+    throw error;
+  }
+  const {
+    dataset,
+    ref,
+    commit,
+    refs,
+    history,
+    stats,
+    contamination,
+    contract,
+    contractStatuses,
+    pipelines,
+    pipelineRuns,
+    lineage,
+  } = page;
+  const tokenizer = page.tokenizer && {
+    id: page.tokenizer.id,
+    name: page.tokenizer.name,
+  };
+  const tabularPaths = commit.manifest
+    .filter((file) => detectFormat(file.path))
+    .map((file) => file.path);
+  const hasImages = commit.manifest.some((file) => isImage(file.path));
+  const hasAudio = commit.manifest.some(
+    (file) => mediaType(file.path) === "audio",
+  );
+  const evalDatasets = page.datasets
+    .filter((d) => d.id !== dataset.id)
+    .map(({ id, name }) => ({ id, name }));
+  const branches = refs.filter((r) => r.kind === "branch").map((r) => r.name);
+  // Files can only be added or removed when a branch is checked out.
+  const branch = refs.find((r) => r.name === ref && r.kind === "branch");
+
+  return (
+    <main className="mx-auto flex w-full max-w-6xl flex-col gap-8 p-8 sm:p-20 font-[family-name:var(--font-geist-sans)]">
+      <div className="flex flex-col gap-2">
+        <Link
+          href="/"
+          className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="size-4" /> All datasets
+        </Link>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold tracking-tight">
+              {dataset.name}
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              {dataset.description || `Owned by ${dataset.owner}`}
+            </p>
+            {tokenizer && (
+              <TokenCount
+                datasetId={dataset.id}
+                gitRef={commit.id}
+                tokenizer={tokenizer}
+              />
+            )}
+            <ContaminationBadge reports={contamination.reports} />
+            <ContractBadge check={contract} />
+          </div>
+          <div className="flex items-center gap-2">
+            <RefSelector refs={refs} current={ref} />
+            <WebDatasetExportDialog datasetId={dataset.id} gitRef={commit.id} />
+            <HuggingFaceDialog
+              datasetId={dataset.id}
+              gitRef={commit.id}
+              branch={branch?.name}
+            />
+            {branch && (
+              <>
+                <CsvImportWizard datasetId={dataset.id} branch={branch.name} />
+                <IngestDialog datasetId={dataset.id} branch={branch.name} />
+                <UploadDialog datasetId={dataset.id} branch={branch.name} />
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+      <StorageSummary
+        count={commit.manifest.length}
+        countLabel="Files"
+        logicalBytes={stats.logicalBytes}
+        physicalBytes={stats.physicalBytes}
+      />
+      <Tabs defaultValue={tab}>
+        <TabsList>
+          <TabsTrigger value="files">Files</TabsTrigger>
+          <TabsTrigger value="data">Data</TabsTrigger>
+          <TabsTrigger value="splits">Splits</TabsTrigger>
+          <TabsTrigger value="profile">Profile</TabsTrigger>
+          <TabsTrigger value="duplicates">Duplicates</TabsTrigger>
+          <TabsTrigger value="contamination">Contamination</TabsTrigger>
+          <TabsTrigger value="pii">PII</TabsTrigger>
+          <TabsTrigger value="languages">Languages</TabsTrigger>
+          <TabsTrigger value="contract">Contract</TabsTrigger>
+          <TabsTrigger value="pipelines">Pipelines</TabsTrigger>
+          {hasImages && <TabsTrigger value="gallery">Gallery</TabsTrigger>}
+          {hasAudio && <TabsTrigger value="audio">Audio</TabsTrigger>}
+          <TabsTrigger value="history">History</TabsTrigger>
+          <TabsTrigger value="compare">Compare</TabsTrigger>
+        </TabsList>
+        <TabsContent value="files">
+          <FileTable
+            datasetId={dataset.id}
+            files={commit.manifest}
+            gitRef={commit.id}
+            branch={branch?.name}
+          />
+        </TabsContent>
+        <TabsContent value="data">
+          <DataViewer
+            datasetId={dataset.id}
+            datasetType={dataset.type}
+            gitRef={commit.id}
+            paths={tabularPaths}
+          />
+        </TabsContent>
+        <TabsContent value="splits">
+          <SplitView
+            datasetId={dataset.id}
+            gitRef={commit.id}
+            branch={branch?.name}
+            files={tabularFiles(commit.manifest).map((file) => file.path)}
+          />
+        </TabsContent>
+        <TabsContent value="profile">
+          <ProfileView
+            datasetId={dataset.id}
+            gitRef={commit.id}
+            tokenizer={tokenizer}
+          />
+        </TabsContent>
+        <TabsContent value="duplicates">
+          <DedupView
+            datasetId={dataset.id}
+            gitRef={commit.id}
+            branch={branch?.name}
+          />
+        </TabsContent>
+        <TabsContent value="contamination">
+          <ContaminationView
+            datasetId={dataset.id}
+            gitRef={commit.id}
+            datasets={evalDatasets}
+          />
+        </TabsContent>
+        <TabsContent value="pii">
+          <PiiView
+            datasetId={dataset.id}
+            gitRef={commit.id}
+            branch={branch?.name}
+          />
+        </TabsContent>
+        <TabsContent value="languages">
+          <LanguageView
+            datasetId={dataset.id}
+            datasetName={dataset.name}
+            owner={dataset.owner}
+            gitRef={commit.id}
+          />
+        </TabsContent>
+        <TabsContent value="contract">
+          <ContractView
+            datasetId={dataset.id}
+            gitRef={commit.id}
+            contract={contract.contract}
+            branches={branches}
+          />
+        </TabsContent>
+        <TabsContent value="pipelines">
+          <PipelineView
+            datasetId={dataset.id}
+            gitRef={commit.id}
+            branch={branch?.name}
+            branches={branches}
+            datasets={page.datasets.map(({ id, name }) => ({ id, name }))}
+            pipelines={pipelines}
+            runs={pipelineRuns}
+          />
+        </TabsContent>
+        {hasImages && (
+          <TabsContent value="gallery">
+            <ImageGallery datasetId={dataset.id} gitRef={commit.id} />
+          </TabsContent>
+        )}
+        {hasAudio && (
+          <TabsContent value="audio">
+            <AudioView datasetId={dataset.id} gitRef={commit.id} />
+          </TabsContent>
+        )}
+        <TabsContent value="history">
+          <HistoryView
+            datasetId={dataset.id}
+            history={history}
+            refs={refs}
+            contractStatuses={contractStatuses}
+            lineage={lineage}
+          />
+        </TabsContent>
+        <TabsContent value="compare">
+          <DiffView
+            datasetId={dataset.id}
+            refs={refs}
+            history={history.map(({ id, message }) => ({ id, message }))}
+            paths={tabularPaths}
+            defaultTo={ref}
+          />
+        </TabsContent>
+      </Tabs>
+    </main>
+  );
+}
@@ -1,10 +1,48 @@
+import { Plus } from "lucide-react";
+
+import { DatasetFormDialog } from "@/components/datasets/dataset-form-dialog";
+import { DatasetTable } from "@/components/datasets/dataset-table";
+import { StorageSummary } from "@/components/datasets/storage-summary";
+import { TokenizerDialog } from "@/components/datasets/tokenizer-dialog";
 import { MadeWithDyad } from "@/components/made-with-dyad";
+import { Button } from "@/components/ui/button";
+import { listDatasets } from "@/lib/datasets";
+import { storageStats } from "@/lib/storage";
+
+// The catalog reads from the local database on every request.
+export const dynamic = "force-dynamic";
+
+export default async function Home() {
+  const [datasets, stats] = await Promise.all([listDatasets(), storageStats()]);
 
-export default function Home() {
   return (
-    <div className="grid grid-rows-[1fr_20px] items-center justify-items-center min-h-screen p-8 pb-20 sm:p-20 font-[family-name:var(--font-geist-sans)]">
-      <main className="flex flex-col gap-8 row-start-1 items-center sm:items-start">
-        <h1>Blank page</h1>
+    <div className="grid grid-rows-[1fr_20px] min-h-screen p-8 pb-20 sm:p-20 font-[family-name:var(--font-geist-sans)]">
+      <main className="mx-auto flex w-full max-w-6xl flex-col gap-8">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold tracking-tight">Datasets</h1>
+            <p className="text-sm text-muted-foreground">
+              Every dataset stored in this workspace.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <TokenizerDialog />
+            <DatasetFormDialog
+              trigger={
+                <Button>
+                  <Plus /> New dataset
+                </Button>
+              }
+            />
+          </div>
+        </div>
+        <StorageSummary
+          count={stats.blobCount}
+          countLabel="Distinct blobs"
+          logicalBytes={stats.logicalBytes}
+          physicalBytes={stats.physicalBytes}
+        />
+        <DatasetTable datasets={datasets} />
       </main>
       <MadeWithDyad />
     </div>
@@ -0,0 +1,362 @@
+"use client";
+
+import { useEffect, useRef, useState, type PointerEvent } from "react";
+import { FileText, Pause, Play } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { AudioFile, AudioIndex, Transcript } from "@/lib/audio";
+import { cn, fetchJson, formatNumber } from "@/lib/utils";
+
+const chartConfig = {
+  count: { label: "Recordings", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+/** `m:ss.s`, or `h:mm:ss` from an hour up. */
+function formatDuration(seconds: number) {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = seconds % 60;
+  if (hours > 0) {
+    return `${hours}:${String(minutes).padStart(2, "0")}:${String(Math.floor(rest)).padStart(2, "0")}`;
+  }
+  return `${minutes}:${rest.toFixed(1).padStart(4, "0")}`;
+}
+
+interface AudioViewProps {
+  datasetId: string;
+  gitRef: string;
+}
+
+/**
+ * Duration statistics for the recordings in a dataset version, and a player
+ * with a scrubbable waveform and the recording's transcript.
+ */
+export function AudioView({ datasetId, gitRef }: AudioViewProps) {
+  const [index, setIndex] = useState<AudioIndex | null>(null);
+  const [selected, setSelected] = useState<AudioFile | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIndex(null);
+    setSelected(null);
+    fetchJson<AudioIndex>(
+      `/api/datasets/${datasetId}/audio?${new URLSearchParams({ ref: gitRef })}`,
+    )
+      .then((result) => {
+        if (cancelled) return;
+        setIndex(result);
+        setSelected(result.files[0] ?? null);
+      })
+      .catch((error) => !cancelled && toast.error((error as Error).message));
+    return () => {
+      cancelled = true;
+    };
+  }, [datasetId, gitRef]);
+
+  if (!index) {
+    return (
+      <p className="text-sm text-muted-foreground">Reading audio headers…</p>
+    );
+  }
+
+  const readable = index.files.filter((file) => file.metadata).length;
+  const transcribed = index.files.filter((file) => file.transcript).length;
+  const tiles = [
+    { label: "Recordings", value: formatNumber(index.files.length) },
+    { label: "Total duration", value: formatDuration(index.totalDuration) },
+    {
+      label: "Mean duration",
+      value: readable ? formatDuration(index.totalDuration / readable) : "—",
+    },
+    { label: "With transcripts", value: formatNumber(transcribed) },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <dl className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        {tiles.map((tile) => (
+          <div key={tile.label} className="rounded-md border px-3 py-2">
+            <dt className="text-xs text-muted-foreground">{tile.label}</dt>
+            <dd className="text-lg font-semibold tabular-nums">{tile.value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Duration</h3>
+        <ChartContainer config={chartConfig} className="h-48 w-full">
+          <BarChart data={index.durations}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} />
+            <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+        <div className="flex flex-wrap gap-2">
+          {index.sampleRates.map(({ sampleRate, count }) => (
+            <Badge key={sampleRate} variant="outline" className="font-normal">
+              {formatNumber(sampleRate)} Hz: {formatNumber(count)}
+            </Badge>
+          ))}
+          {readable < index.files.length && (
+            <Badge variant="destructive" className="font-normal">
+              Unreadable: {formatNumber(index.files.length - readable)}
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+        <ScrollArea className="h-96 rounded-md border">
+          <ul className="p-1">
+            {index.files.map((file) => (
+              <li key={file.path}>
+                <button
+                  type="button"
+                  className={cn(
+                    "flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-xs hover:bg-muted",
+                    selected?.path === file.path && "bg-muted",
+                  )}
+                  onClick={() => setSelected(file)}
+                >
+                  <span className="min-w-0 flex-1 truncate font-mono">
+                    {file.path}
+                  </span>
+                  {file.transcript && (
+                    <FileText
+                      className="size-3.5 shrink-0 text-muted-foreground"
+                      aria-label="Has transcript"
+                    />
+                  )}
+                  <span
+                    className={cn(
+                      "shrink-0 tabular-nums",
+                      file.metadata
+                        ? "text-muted-foreground"
+                        : "text-destructive",
+                    )}
+                    title={file.error ?? undefined}
+                  >
+                    {file.metadata
+                      ? formatDuration(file.metadata.duration)
+                      : "error"}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+        {selected && (
+          <AudioPlayer
+            key={selected.path}
+            datasetId={datasetId}
+            gitRef={index.commit}
+            file={selected}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function AudioPlayer({
+  datasetId,
+  gitRef,
+  file,
+}: {
+  datasetId: string;
+  gitRef: string;
+  file: AudioFile;
+}) {
+  const audio = useRef<HTMLAudioElement>(null);
+  const [playing, setPlaying] = useState(false);
+  const [time, setTime] = useState(0);
+  const [duration, setDuration] = useState(file.metadata?.duration ?? 0);
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
+  const [hasWaveform, setHasWaveform] = useState(true);
+  const name = file.path.split("/").pop()!;
+
+  useEffect(() => {
+    if (!file.transcript) return;
+    let cancelled = false;
+    const params = new URLSearchParams({ path: file.path, ref: gitRef });
+    fetchJson<Transcript>(
+      `/api/datasets/${datasetId}/audio/transcript?${params}`,
+    )
+      .then((result) => !cancelled && setTranscript(result))
+      .catch((error) => !cancelled && toast.error((error as Error).message));
+    return () => {
+      cancelled = true;
+    };
+  }, [datasetId, gitRef, file]);
+
+  // `timeupdate` fires only a few times a second, too coarse for words.
+  useEffect(() => {
+    if (!playing) return;
+    let frame = requestAnimationFrame(function tick() {
+      setTime(audio.current?.currentTime ?? 0);
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [playing]);
+
+  function seek(seconds: number) {
+    if (!audio.current) return;
+    audio.current.currentTime = Math.min(Math.max(seconds, 0), duration);
+    setTime(audio.current.currentTime);
+  }
+
+  function seekToPointer(event: PointerEvent<HTMLDivElement>) {
+    const { left, width } = event.currentTarget.getBoundingClientRect();
+    seek(((event.clientX - left) / width) * duration);
+  }
+
+  function toggle() {
+    if (!audio.current) return;
+    if (audio.current.paused) {
+      audio.current
+        .play()
+        .catch((error) => toast.error((error as Error).message));
+    } else {
+      audio.current.pause();
+    }
+  }
+
+  const progress = duration > 0 ? (time / duration) * 100 : 0;
+
+  return (
+    <div className="space-y-3">
+      <audio
+        ref={audio}
+        src={`/api/blobs/${file.hash}?${new URLSearchParams({ name })}`}
+        preload="metadata"
+        onPlay={() => setPlaying(true)}
+        onPause={() => setPlaying(false)}
+        onEnded={() => setPlaying(false)}
+        onTimeUpdate={(event) => setTime(event.currentTarget.currentTime)}
+        onLoadedMetadata={(event) =>
+          Number.isFinite(event.currentTarget.duration) &&
+          setDuration(event.currentTarget.duration)
+        }
+      />
+      <div className="flex items-center gap-3">
+        <Button
+          variant="outline"
+          size="icon"
+          aria-label={playing ? "Pause" : "Play"}
+          onClick={toggle}
+        >
+          {playing ? <Pause /> : <Play />}
+        </Button>
+        <div className="min-w-0 flex-1">
+          <div className="truncate font-mono text-xs">{file.path}</div>
+          <div className="text-xs tabular-nums text-muted-foreground">
+            {formatDuration(time)} / {formatDuration(duration)}
+            {file.metadata &&
+              ` · ${formatNumber(file.metadata.sampleRate)} Hz · ${file.metadata.channels} ch`}
+          </div>
+        </div>
+      </div>
+      <div
+        role="slider"
+        aria-label="Seek"
+        aria-valuemin={0}
+        aria-valuemax={duration}
+        aria-valuenow={time}
+        tabIndex={0}
+        className="relative h-24 cursor-pointer touch-none overflow-hidden rounded-md border bg-muted/50"
+        onPointerDown={(event) => {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          seekToPointer(event);
+        }}
+        onPointerMove={(event) =>
+          event.currentTarget.hasPointerCapture(event.pointerId) &&
+          seekToPointer(event)
+        }
+        onKeyDown={(event) => {
+          if (event.key === "ArrowLeft") seek(time - 5);
+          else if (event.key === "ArrowRight") seek(time + 5);
+          else if (event.key === " ") {
+            event.preventDefault();
+            toggle();
+          }
+        }}
+      >
+        {hasWaveform && (
+          <img
+            src={`/api/blobs/${file.hash}/waveform?${new URLSearchParams({ name })}`}
+            alt=""
+            draggable={false}
+            className="pointer-events-none absolute inset-0 h-full w-full object-fill"
+            onError={() => setHasWaveform(false)}
+          />
+        )}
+        <div
+          className="pointer-events-none absolute inset-y-0 left-0 bg-primary/15"
+          style={{ width: `${progress}%` }}
+        />
+        <div
+          className="pointer-events-none absolute inset-y-0 w-px bg-primary"
+          style={{ left: `${progress}%` }}
+        />
+      </div>
+      {file.transcript && (
+        <TranscriptView transcript={transcript} time={time} onSeek={seek} />
+      )}
+    </div>
+  );
+}
+
+function TranscriptView({
+  transcript,
+  time,
+  onSeek,
+}: {
+  transcript: Transcript | null;
+  time: number;
+  onSeek: (seconds: number) => void;
+}) {
+  if (!transcript) {
+    return <p className="text-sm text-muted-foreground">Loading transcript…</p>;
+  }
+  return (
+    <div className="space-y-1 rounded-md border p-3">
+      <div className="font-mono text-xs text-muted-foreground">
+        {transcript.path}
+      </div>
+      {transcript.spans ? (
+        <p className="text-sm leading-relaxed">
+          {transcript.spans.map((span, i) => (
+            <button
+              key={i}
+              type="button"
+              title={`${formatDuration(span.start)}–${formatDuration(span.end)}`}
+              className={cn(
+                "mr-1 rounded-sm px-0.5 hover:bg-muted",
+                time >= span.start &&
+                  time < span.end &&
+                  "bg-primary text-primary-foreground hover:bg-primary",
+              )}
+              onClick={() => onSeek(span.start)}
+            >
+              {span.text}
+            </button>
+          ))}
+        </p>
+      ) : (
+        <p className="whitespace-pre-wrap text-sm">{transcript.text}</p>
+      )}
+    </div>
+  );
+}
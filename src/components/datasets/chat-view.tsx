@@ -0,0 +1,194 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { Row, RowPage } from "@/lib/formats";
+import {
+  toConversation,
+  type ChatFormat,
+  type ChatMessage,
+  type Conversation,
+} from "@/lib/formats/chat";
+import { cn, fetchJson, formatNumber } from "@/lib/utils";
+
+const PAGE_SIZE = 20;
+
+interface ChatViewProps {
+  datasetId: string;
+  path: string;
+  gitRef: string;
+  format: ChatFormat;
+}
+
+/** Renders chat records as conversations, a page at a time. */
+export function ChatView({ datasetId, path, gitRef, format }: ChatViewProps) {
+  const [rows, setRows] = useState<Row[]>([]);
+  const [commit, setCommit] = useState<string | null>(null);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [done, setDone] = useState(false);
+  const [loading, setLoading] = useState(false);
+  // Guards against a late response from a previous file overwriting state.
+  const requestId = useRef(0);
+
+  const loadPage = useCallback(
+    async (from: { commit: string | null; cursor: string | null }) => {
+      const id = requestId.current;
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({
+          path,
+          ref: from.commit ?? gitRef,
+          limit: String(PAGE_SIZE),
+        });
+        if (from.cursor) params.set("cursor", from.cursor);
+        const page = await fetchJson<RowPage & { commit: string }>(
+          `/api/datasets/${datasetId}/rows?${params}`,
+        );
+        if (id !== requestId.current) return;
+        setCommit(page.commit);
+        setRows((previous) => [...previous, ...page.rows]);
+        setCursor(page.nextCursor);
+        setDone(page.nextCursor === null);
+      } catch (error) {
+        if (id !== requestId.current) return;
+        setDone(true);
+        toast.error((error as Error).message);
+      } finally {
+        if (id === requestId.current) setLoading(false);
+      }
+    },
+    [datasetId, path, gitRef],
+  );
+
+  useEffect(() => {
+    requestId.current++;
+    setRows([]);
+    setCommit(null);
+    setCursor(null);
+    setDone(false);
+    loadPage({ commit: null, cursor: null });
+  }, [loadPage]);
+
+  return (
+    <div className="space-y-4">
+      {rows.map((row, index) => (
+        <ConversationCard key={index} index={index} row={row} format={format} />
+      ))}
+      <div className="flex items-center gap-3 text-xs text-muted-foreground">
+        <span>{formatNumber(rows.length)} conversations loaded</span>
+        {!done && (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={loading}
+            onClick={() => loadPage({ commit, cursor })}
+          >
+            {loading ? "Loading…" : "Load more"}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function readConversation(row: Row, format: ChatFormat): Conversation | null {
+  try {
+    return toConversation(row, format);
+  } catch {
+    return null;
+  }
+}
+
+function ConversationCard({
+  index,
+  row,
+  format,
+}: {
+  index: number;
+  row: Row;
+  format: ChatFormat;
+}) {
+  const conversation = readConversation(row, format);
+  const extra = conversation ? Object.entries(conversation.extra) : [];
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <span className="font-mono">Row {index + 1}</span>
+        {extra.map(([key, value]) => (
+          <Badge
+            key={key}
+            variant="outline"
+            className="max-w-64 truncate font-mono font-normal"
+            title={JSON.stringify(value)}
+          >
+            {key}: {typeof value === "string" ? value : JSON.stringify(value)}
+          </Badge>
+        ))}
+      </div>
+      {conversation ? (
+        conversation.messages.map((message, i) => (
+          <MessageBubble key={i} message={message} />
+        ))
+      ) : (
+        <pre className="whitespace-pre-wrap break-words rounded-md bg-muted p-3 font-mono text-xs">
+          {JSON.stringify(row, null, 2)}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+const BUBBLE_STYLES: Record<string, string> = {
+  user: "ml-auto bg-primary text-primary-foreground",
+  assistant: "bg-muted",
+  system: "mx-auto border border-dashed text-muted-foreground",
+};
+
+/** One chat message, aligned and coloured by role. */
+export function MessageBubble({ message }: { message: ChatMessage }) {
+  const extra = Object.keys(message.extra);
+  return (
+    <div
+      className={cn(
+        "w-fit max-w-[85%] space-y-1 rounded-lg px-3 py-2 text-sm",
+        BUBBLE_STYLES[message.role] ?? "border font-mono text-xs",
+      )}
+    >
+      <div className="text-xs font-medium opacity-70">
+        {message.role}
+        {extra.length > 0 && ` · ${extra.join(", ")}`}
+      </div>
+      <div className="whitespace-pre-wrap break-words">
+        <MessageContent content={message.content} />
+      </div>
+    </div>
+  );
+}
+
+/** String content, or the text of OpenAI content parts. */
+function MessageContent({ content }: { content: unknown }) {
+  if (typeof content === "string") return <>{content}</>;
+  if (content === null || content === undefined) {
+    return <span className="italic opacity-70">no content</span>;
+  }
+  if (Array.isArray(content)) {
+    return (
+      <>
+        {content.map((part, i) =>
+          part?.type === "text" ? (
+            <p key={i}>{part.text}</p>
+          ) : (
+            <p key={i} className="font-mono text-xs italic opacity-70">
+              [{part?.type ?? "part"}]
+            </p>
+          ),
+        )}
+      </>
+    );
+  }
+  return <span className="font-mono text-xs">{JSON.stringify(content)}</span>;
+}
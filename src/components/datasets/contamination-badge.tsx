@@ -0,0 +1,46 @@
+import Link from "next/link";
+
+import { Badge } from "@/components/ui/badge";
+import type { ContaminationRecord } from "@/lib/contamination";
+
+interface ContaminationBadgeProps {
+  /** Contamination checks of the version shown, newest first. */
+  reports: ContaminationRecord[];
+}
+
+/**
+ * Whether the version shown leaks eval data, by the checks run against it,
+ * linking to their details. Nothing until a check has finished.
+ */
+export function ContaminationBadge({ reports }: ContaminationBadgeProps) {
+  const ready = reports.filter((report) => report.summary);
+  if (ready.length === 0) return null;
+  const leaked = [
+    ...new Set(
+      ready.flatMap((report) =>
+        report
+          .summary!.evals.filter((e) => e.contaminated > 0)
+          .map(
+            (e) => report.evals.find((r) => r.datasetId === e.datasetId)!.name,
+          ),
+      ),
+    ),
+  ];
+  const checked = new Set(
+    ready.flatMap((report) => report.evals.map((e) => e.datasetId)),
+  );
+  return (
+    <Link href="?tab=contamination">
+      {leaked.length > 0 ? (
+        <Badge variant="destructive" className="mt-1 font-normal">
+          Contains examples of {leaked.join(", ")}
+        </Badge>
+      ) : (
+        <Badge variant="secondary" className="mt-1 font-normal">
+          No contamination found in {checked.size} eval set
+          {checked.size === 1 ? "" : "s"}
+        </Badge>
+      )}
+    </Link>
+  );
+}
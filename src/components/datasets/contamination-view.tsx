@@ -0,0 +1,529 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ChevronLeft, ChevronRight, ShieldAlert } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { usePolledJson } from "@/hooks/use-polled-json";
+import type {
+  ContaminatedPage,
+  ContaminationList,
+  ContaminationRecord,
+} from "@/lib/contamination";
+import { contaminationInputSchema } from "@/lib/schemas";
+import { fetchJson, formatNumber } from "@/lib/utils";
+
+const PAGE_SIZE = 25;
+
+// The form picks eval datasets by id and takes columns as one
+// comma-separated field.
+const checkFormSchema = contaminationInputSchema
+  .omit({ ref: true, evals: true })
+  .extend({
+    evals: z.array(z.string()).min(1, "Choose at least one eval dataset"),
+    columns: z.string().trim().max(2000),
+  });
+
+function percent(value: number) {
+  return `${(value * 100).toFixed(value > 0 && value < 0.01 ? 2 : 1)}%`;
+}
+
+interface ContaminationViewProps {
+  datasetId: string;
+  gitRef: string;
+  /** Datasets that can serve as eval sets. */
+  datasets: { id: string; name: string }[];
+}
+
+/**
+ * Checks of a training version for eval examples whose n-grams occur in it.
+ * Checks are recorded against the version, so every one run is listed here,
+ * with its contaminated examples a page at a time.
+ */
+export function ContaminationView({
+  datasetId,
+  gitRef,
+  datasets,
+}: ContaminationViewProps) {
+  // Remounts the list after a check is started, so it fetches it.
+  const [started, setStarted] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+  const form = useForm<
+    z.input<typeof checkFormSchema>,
+    unknown,
+    z.output<typeof checkFormSchema>
+  >({
+    resolver: zodResolver(checkFormSchema),
+    defaultValues: { evals: [], ngram: 13, threshold: 0, columns: "" },
+  });
+
+  async function onCheck(values: z.output<typeof checkFormSchema>) {
+    setSubmitting(true);
+    try {
+      await fetchJson<ContaminationRecord>(
+        `/api/datasets/${datasetId}/contamination`,
+        {
+          method: "POST",
+          body: JSON.stringify({
+            ...values,
+            ref: gitRef,
+            evals: values.evals.map((id) => ({ datasetId: id })),
+            columns: values.columns
+              .split(",")
+              .map((column) => column.trim())
+              .filter(Boolean),
+          }),
+        },
+      );
+      setStarted((count) => count + 1);
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Contamination check</CardTitle>
+          <CardDescription>
+            Flags eval examples whose word n-grams also occur in this version,
+            after normalizing case, punctuation and whitespace. Eval sets are
+            checked at their default branch.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onCheck)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="evals"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Eval datasets</FormLabel>
+                    {datasets.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">
+                        There are no other datasets to check against.
+                      </p>
+                    ) : (
+                      <div className="grid gap-2 sm:grid-cols-3">
+                        {datasets.map((dataset) => (
+                          <label
+                            key={dataset.id}
+                            className="flex items-center gap-2 text-sm"
+                          >
+                            <Checkbox
+                              checked={field.value.includes(dataset.id)}
+                              onCheckedChange={(checked) =>
+                                field.onChange(
+                                  checked
+                                    ? [...field.value, dataset.id]
+                                    : field.value.filter(
+                                        (id) => id !== dataset.id,
+                                      ),
+                                )
+                              }
+                            />
+                            {dataset.name}
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid gap-4 sm:grid-cols-[2fr_1fr_1fr_auto] sm:items-end">
+                <FormField
+                  control={form.control}
+                  name="columns"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Eval columns</FormLabel>
+                      <FormControl>
+                        <Input placeholder="All text" {...field} />
+                      </FormControl>
+                      <FormDescription>Comma-separated</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="ngram"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>N-gram size</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={8}
+                          max={50}
+                          {...field}
+                          value={String(field.value ?? "")}
+                        />
+                      </FormControl>
+                      <FormDescription>Words</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="threshold"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Threshold</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={1}
+                          step={0.05}
+                          {...field}
+                          value={String(field.value ?? "")}
+                        />
+                      </FormControl>
+                      <FormDescription>Share of n-grams</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="submit"
+                  className="sm:mb-7"
+                  disabled={submitting || datasets.length === 0}
+                >
+                  <ShieldAlert /> Check
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+      <ContaminationReports
+        key={started}
+        datasetId={datasetId}
+        gitRef={gitRef}
+      />
+    </div>
+  );
+}
+
+function ContaminationReports({
+  datasetId,
+  gitRef,
+}: {
+  datasetId: string;
+  gitRef: string;
+}) {
+  const [open, setOpen] = useState<string | null>(null);
+  const list = usePolledJson<ContaminationList>(
+    `/api/datasets/${datasetId}/contamination?${new URLSearchParams({ ref: gitRef })}`,
+  );
+
+  if (!list) {
+    return <p className="text-sm text-muted-foreground">Loading checks…</p>;
+  }
+  if (list.reports.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        This version has not been checked against any eval set.
+      </p>
+    );
+  }
+  return (
+    <div className="space-y-4">
+      {list.reports.map((report) => (
+        <ReportCard
+          key={report.id}
+          datasetId={datasetId}
+          gitRef={gitRef}
+          report={report}
+          open={open === report.id}
+          onToggle={() => setOpen(open === report.id ? null : report.id)}
+        />
+      ))}
+    </div>
+  );
+}
+
+function ReportCard({
+  datasetId,
+  gitRef,
+  report,
+  open,
+  onToggle,
+}: {
+  datasetId: string;
+  gitRef: string;
+  report: ContaminationRecord;
+  open: boolean;
+  onToggle: () => void;
+}) {
+  const { summary } = report;
+  const names = new Map(report.evals.map((e) => [e.datasetId, e.name]));
+  return (
+    <Card>
+      <CardHeader className="flex-row items-center gap-3 space-y-0">
+        <CardTitle className="text-base">
+          {report.evals.map((e) => e.name).join(", ")}
+        </CardTitle>
+        {report.status === "running" ? (
+          <Badge variant="outline">Checking…</Badge>
+        ) : report.status === "failed" ? (
+          <Badge variant="destructive">Failed</Badge>
+        ) : summary!.rate > 0 ? (
+          <Badge variant="destructive">
+            {percent(summary!.rate)} contaminated
+          </Badge>
+        ) : (
+          <Badge variant="secondary">Clean</Badge>
+        )}
+        <span className="text-sm text-muted-foreground">
+          {report.options.ngram}-grams
+          {report.options.threshold > 0 &&
+            ` · at least ${percent(report.options.threshold)} overlap`}
+          {report.options.columns.length > 0 &&
+            ` · ${report.options.columns.join(", ")}`}
+        </span>
+        {summary && summary.rate > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-auto"
+            onClick={onToggle}
+          >
+            {open ? "Hide examples" : "Show examples"}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {report.status === "failed" && (
+          <p className="text-sm text-destructive">
+            The check failed: {report.error}
+          </p>
+        )}
+        {summary && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Eval dataset</TableHead>
+                <TableHead className="text-right">Examples</TableHead>
+                <TableHead className="text-right">Checked</TableHead>
+                <TableHead className="text-right">Contaminated</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {summary.evals.map((e) => (
+                <TableRow key={e.datasetId}>
+                  <TableCell>{names.get(e.datasetId)}</TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatNumber(e.examples)}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatNumber(e.checked)}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatNumber(e.contaminated)}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {percent(e.rate)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        {summary && (
+          <p className="text-xs text-muted-foreground">
+            Against {formatNumber(summary.trainingRows)} training rows. Examples
+            shorter than one n-gram are not checked.
+          </p>
+        )}
+        {open && (
+          <ContaminatedExamples
+            datasetId={datasetId}
+            gitRef={gitRef}
+            report={report}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ContaminatedExamples({
+  datasetId,
+  gitRef,
+  report,
+}: {
+  datasetId: string;
+  gitRef: string;
+  report: ContaminationRecord;
+}) {
+  const [evalId, setEvalId] = useState("all");
+  const [offset, setOffset] = useState(0);
+  const [page, setPage] = useState<ContaminatedPage | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPage(null);
+    fetchJson<ContaminatedPage>(
+      `/api/datasets/${datasetId}/contamination/${report.id}?${new URLSearchParams(
+        {
+          ref: gitRef,
+          ...(evalId !== "all" && { eval: evalId }),
+          offset: String(offset),
+          limit: String(PAGE_SIZE),
+        },
+      )}`,
+    )
+      .then((result) => !cancelled && setPage(result))
+      .catch((error) => !cancelled && toast.error((error as Error).message));
+    return () => {
+      cancelled = true;
+    };
+  }, [datasetId, gitRef, report.id, evalId, offset]);
+
+  const names = new Map(report.evals.map((e) => [e.datasetId, e.name]));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {report.evals.length > 1 && (
+          <Select
+            value={evalId}
+            onValueChange={(value) => {
+              setEvalId(value);
+              setOffset(0);
+            }}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All eval datasets</SelectItem>
+              {report.evals.map((e) => (
+                <SelectItem key={e.datasetId} value={e.datasetId}>
+                  {e.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {page && (
+          <>
+            <span className="text-sm text-muted-foreground">
+              {page.total === 0
+                ? "No contaminated examples"
+                : `${formatNumber(offset + 1)}–${formatNumber(offset + page.examples.length)} of ${formatNumber(page.total)}`}
+            </span>
+            <Button
+              variant="outline"
+              size="icon"
+              aria-label="Previous examples"
+              disabled={offset === 0}
+              onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+            >
+              <ChevronLeft />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              aria-label="Next examples"
+              disabled={offset + PAGE_SIZE >= page.total}
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+            >
+              <ChevronRight />
+            </Button>
+          </>
+        )}
+      </div>
+      {!page ? (
+        <p className="text-sm text-muted-foreground">Loading examples…</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Eval example</TableHead>
+              <TableHead>Text</TableHead>
+              <TableHead className="text-right">Overlap</TableHead>
+              <TableHead>First training match</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {page.examples.map((example) => (
+              <TableRow
+                key={`${example.datasetId}:${example.path}:${example.row}`}
+              >
+                <TableCell className="align-top font-mono text-xs">
+                  {names.get(example.datasetId)}
+                  <br />
+                  {example.path} · row {formatNumber(example.row + 1)}
+                </TableCell>
+                <TableCell className="max-w-md align-top">
+                  <span className="line-clamp-4 whitespace-pre-wrap break-words">
+                    {example.text}
+                  </span>
+                </TableCell>
+                <TableCell className="text-right align-top tabular-nums">
+                  {percent(example.overlap)}
+                  <span className="block text-xs text-muted-foreground">
+                    {formatNumber(example.matched)} /{" "}
+                    {formatNumber(example.ngrams)}
+                  </span>
+                </TableCell>
+                <TableCell className="align-top font-mono text-xs">
+                  {example.source.path} · row{" "}
+                  {formatNumber(example.source.row + 1)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import Link from "next/link";
+
+import { Badge } from "@/components/ui/badge";
+import type { ContractCheckResult } from "@/lib/contracts";
+
+interface ContractBadgeProps {
+  check: ContractCheckResult;
+}
+
+/**
+ * Whether the version shown meets the dataset's contract, linking to the
+ * violations. Nothing when the dataset has no contract.
+ */
+export function ContractBadge({ check }: ContractBadgeProps) {
+  if (check.status === "none" || check.status === "unchecked") return null;
+  return (
+    <Link href="?tab=contract">
+      {check.status === "passed" ? (
+        <Badge variant="secondary" className="mt-1 font-normal">
+          Meets its data contract
+        </Badge>
+      ) : check.status === "running" ? (
+        <Badge variant="outline" className="mt-1 font-normal">
+          Checking the data contract…
+        </Badge>
+      ) : (
+        <Badge variant="destructive" className="mt-1 font-normal">
+          {check.status === "failing"
+            ? `Breaks its data contract (${check.violations.length} violation${check.violations.length === 1 ? "" : "s"})`
+            : "Data contract check failed"}
+        </Badge>
+      )}
+    </Link>
+  );
+}
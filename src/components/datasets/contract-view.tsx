@@ -0,0 +1,539 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Plus, X } from "lucide-react";
+import { toast } from "sonner";
+import type { z } from "zod";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { usePolledJson } from "@/hooks/use-polled-json";
+import type {
+  ContractCheckResult,
+  ContractRule,
+  DataContract,
+} from "@/lib/contracts";
+import {
+  CONTRACT_TYPES,
+  contractInputSchema,
+  type ContractSpec,
+  type ContractType,
+} from "@/lib/schemas";
+import { fetchJson, formatNumber } from "@/lib/utils";
+
+const TYPE_LABELS: Record<ContractType, string> = {
+  any: "Any type",
+  string: "String",
+  number: "Number",
+  integer: "Integer",
+  boolean: "Boolean",
+  array: "Array",
+  object: "Object",
+};
+
+const RULE_LABELS: Record<ContractRule, string> = {
+  required: "Required",
+  type: "Type",
+  range: "Range",
+  pattern: "Pattern",
+  nullRate: "Null rate",
+  unique: "Unique",
+  minRows: "Row count",
+};
+
+const NEW_COLUMN = {
+  name: "",
+  required: true,
+  type: "any",
+  min: null,
+  max: null,
+  pattern: "",
+  maxNullRate: null,
+  unique: false,
+} as const;
+
+interface ContractViewProps {
+  datasetId: string;
+  gitRef: string;
+  /** The dataset's contract, if it has one. */
+  contract: DataContract | null;
+  /** Branches the contract can protect. */
+  branches: string[];
+}
+
+/**
+ * The dataset's data contract and how the version shown fares against it.
+ * Versions are checked in the background, so the result is polled.
+ */
+export function ContractView({
+  datasetId,
+  gitRef,
+  contract,
+  branches,
+}: ContractViewProps) {
+  const [revision, setRevision] = useState(0);
+  return (
+    <div className="space-y-6">
+      {contract && (
+        <ContractStatusCard
+          key={`${contract.updatedAt}/${revision}`}
+          datasetId={datasetId}
+          gitRef={gitRef}
+        />
+      )}
+      <ContractForm
+        datasetId={datasetId}
+        contract={contract}
+        branches={branches}
+        onSaved={() => setRevision((value) => value + 1)}
+      />
+    </div>
+  );
+}
+
+function ContractStatusCard({
+  datasetId,
+  gitRef,
+}: {
+  datasetId: string;
+  gitRef: string;
+}) {
+  const result = usePolledJson<ContractCheckResult>(
+    `/api/datasets/${datasetId}/contract?${new URLSearchParams({ ref: gitRef })}`,
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          This version
+          {result?.status === "passed" && (
+            <Badge variant="secondary">Passing</Badge>
+          )}
+          {result?.status === "failing" && (
+            <Badge variant="destructive">
+              {result.violations.length} violation
+              {result.violations.length === 1 ? "" : "s"}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          {!result || result.status === "running"
+            ? "Checking the contract…"
+            : result.status === "failed"
+              ? `The check failed: ${result.error}`
+              : `${formatNumber(result.rows)} rows checked`}
+        </CardDescription>
+      </CardHeader>
+      {result && result.violations.length > 0 && (
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-28">Rule</TableHead>
+                <TableHead>Violation</TableHead>
+                <TableHead>Examples</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.violations.map((violation, index) => (
+                <TableRow key={index}>
+                  <TableCell>{RULE_LABELS[violation.rule]}</TableCell>
+                  <TableCell>{violation.message}</TableCell>
+                  <TableCell className="space-y-1">
+                    {violation.examples.map((example) => (
+                      <div
+                        key={`${example.path}/${example.row}`}
+                        className="truncate font-mono text-xs"
+                        title={`${example.path}, row ${example.row + 1}`}
+                      >
+                        <span className="text-muted-foreground">
+                          {example.path}:{example.row + 1}
+                        </span>{" "}
+                        {JSON.stringify(example.value)}
+                      </div>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+function ContractForm({
+  datasetId,
+  contract,
+  branches,
+  onSaved,
+}: {
+  datasetId: string;
+  contract: DataContract | null;
+  branches: string[];
+  onSaved: () => void;
+}) {
+  const router = useRouter();
+  const form = useForm<
+    z.input<typeof contractInputSchema>,
+    unknown,
+    ContractSpec
+  >({
+    resolver: zodResolver(contractInputSchema),
+    defaultValues: {
+      columns: contract?.columns ?? [],
+      minRows: contract?.minRows ?? null,
+      protectedBranches: contract?.protectedBranches ?? [],
+    },
+  });
+  const columns = useFieldArray({ control: form.control, name: "columns" });
+
+  async function onSubmit(values: ContractSpec) {
+    try {
+      await fetchJson(`/api/datasets/${datasetId}/contract`, {
+        method: "PUT",
+        body: JSON.stringify(values),
+      });
+      toast.success("Contract saved");
+      onSaved();
+      router.refresh();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  }
+
+  async function onRemove() {
+    try {
+      await fetchJson(`/api/datasets/${datasetId}/contract`, {
+        method: "DELETE",
+      });
+      toast.success("Contract removed");
+      form.reset({ columns: [], minRows: null, protectedBranches: [] });
+      router.refresh();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Data contract</CardTitle>
+        <CardDescription>
+          Rules every commit is checked against. Commits that break them are
+          marked failing, or refused on protected branches.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium">Columns</h3>
+              {columns.fields.map((item, index) => (
+                <div
+                  key={item.id}
+                  className="grid gap-3 rounded-md border p-3 sm:grid-cols-4"
+                >
+                  <FormField
+                    control={form.control}
+                    name={`columns.${index}.name`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Column</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`columns.${index}.type`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Type</FormLabel>
+                        <Select
+                          value={field.value}
+                          onValueChange={field.onChange}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {CONTRACT_TYPES.map((value) => (
+                              <SelectItem key={value} value={value}>
+                                {TYPE_LABELS[value]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`columns.${index}.min`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Minimum</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="any"
+                            placeholder="None"
+                            {...field}
+                            value={String(field.value ?? "")}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`columns.${index}.max`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Maximum</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="any"
+                            placeholder="None"
+                            {...field}
+                            value={String(field.value ?? "")}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`columns.${index}.pattern`}
+                    render={({ field }) => (
+                      <FormItem className="sm:col-span-2">
+                        <FormLabel>Pattern</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="^[A-Z]{2}-\d+$"
+                            className="font-mono"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Regular expression values must match
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`columns.${index}.maxNullRate`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Max null rate</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={1}
+                            step={0.01}
+                            placeholder="Any"
+                            {...field}
+                            value={String(field.value ?? "")}
+                          />
+                        </FormControl>
+                        <FormDescription>Share of rows, 0–1</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="flex items-start justify-between gap-2 sm:pt-8">
+                    <div className="space-y-2">
+                      <FormField
+                        control={form.control}
+                        name={`columns.${index}.required`}
+                        render={({ field }) => (
+                          <FormItem className="flex items-center gap-2 space-y-0">
+                            <FormControl>
+                              <Checkbox
+                                checked={field.value}
+                                onCheckedChange={field.onChange}
+                              />
+                            </FormControl>
+                            <FormLabel className="font-normal">
+                              Required
+                            </FormLabel>
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`columns.${index}.unique`}
+                        render={({ field }) => (
+                          <FormItem className="flex items-center gap-2 space-y-0">
+                            <FormControl>
+                              <Checkbox
+                                checked={field.value}
+                                onCheckedChange={field.onChange}
+                              />
+                            </FormControl>
+                            <FormLabel className="font-normal">
+                              Unique
+                            </FormLabel>
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Remove column"
+                      onClick={() => columns.remove(index)}
+                    >
+                      <X />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <FormField
+                control={form.control}
+                name="columns"
+                render={() => (
+                  <FormItem>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => columns.append({ ...NEW_COLUMN })}
+              >
+                <Plus /> Add column
+              </Button>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="minRows"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum rows</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        placeholder="None"
+                        {...field}
+                        value={String(field.value ?? "")}
+                      />
+                    </FormControl>
+                    <FormDescription>Across all tabular files</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="protectedBranches"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Protected branches</FormLabel>
+                    <div className="flex flex-wrap gap-x-4 gap-y-2">
+                      {branches.map((name) => (
+                        <label
+                          key={name}
+                          className="flex items-center gap-2 text-sm"
+                        >
+                          <Checkbox
+                            checked={field.value?.includes(name)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...(field.value ?? []), name]
+                                  : field.value?.filter((b) => b !== name),
+                              )
+                            }
+                          />
+                          {name}
+                        </label>
+                      ))}
+                    </div>
+                    <FormDescription>
+                      Commits breaking the contract are refused
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex flex-wrap justify-end gap-2">
+              {contract && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  disabled={form.formState.isSubmitting}
+                  onClick={onRemove}
+                >
+                  Remove contract
+                </Button>
+              )}
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                Save contract
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
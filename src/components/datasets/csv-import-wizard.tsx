@@ -0,0 +1,606 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { FileSpreadsheet } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { CsvImportResult, CsvPreview } from "@/lib/csv-import";
+import {
+  CSV_COLUMN_TYPES,
+  CSV_ENCODINGS,
+  csvImportSchema,
+  type CsvDialect,
+  type CsvImportInput,
+} from "@/lib/schemas";
+import { discardUpload, stageUpload } from "@/lib/staging";
+import { cn, fetchJson, formatBytes, formatNumber } from "@/lib/utils";
+
+type Step = "file" | "format" | "columns";
+
+const STEPS: { id: Step; label: string }[] = [
+  { id: "file", label: "File" },
+  { id: "format", label: "Format" },
+  { id: "columns", label: "Columns" },
+];
+
+const DELIMITER_OPTIONS = [
+  { value: ",", label: "Comma" },
+  { value: "\t", label: "Tab" },
+  { value: ";", label: "Semicolon" },
+  { value: "|", label: "Pipe" },
+];
+
+const QUOTE_OPTIONS = [
+  { value: '"', label: 'Double quote (")' },
+  { value: "'", label: "Single quote (')" },
+];
+
+const DIALECT_FIELDS = ["delimiter", "quote", "encoding", "header"] as const;
+
+const EMPTY_VALUES: CsvImportInput = {
+  uploadId: "",
+  delimiter: ",",
+  quote: '"',
+  encoding: "utf-8",
+  header: true,
+  path: "",
+  message: "",
+  columns: [],
+};
+
+interface CsvImportWizardProps {
+  datasetId: string;
+  /** Branch the converted file is committed to. */
+  branch: string;
+}
+
+/**
+ * Uploads a CSV or TSV file without committing it, lets the user confirm the
+ * sniffed dialect against a preview and adjust column names and types, then
+ * commits the file converted to Parquet.
+ */
+export function CsvImportWizard({ datasetId, branch }: CsvImportWizardProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<Step>("file");
+  const [file, setFile] = useState<File | null>(null);
+  const [bytes, setBytes] = useState(0);
+  const [preview, setPreview] = useState<CsvPreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const abort = useRef<AbortController | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const form = useForm<CsvImportInput>({
+    resolver: zodResolver(csvImportSchema),
+    defaultValues: EMPTY_VALUES,
+  });
+  const columns = useFieldArray({ control: form.control, name: "columns" });
+  const [delimiter, quote, encoding, header] = form.watch([...DIALECT_FIELDS]);
+
+  function reset() {
+    abort.current = null;
+    setStep("file");
+    setFile(null);
+    setBytes(0);
+    setPreview(null);
+    form.reset(EMPTY_VALUES);
+  }
+
+  function onOpenChange(next: boolean) {
+    if (!next && !form.formState.isSubmitting) {
+      abort.current?.abort();
+      if (preview) discardUpload(preview.uploadId).catch(() => undefined);
+      reset();
+    }
+    setOpen(next);
+  }
+
+  async function onFileSelected(event: React.ChangeEvent<HTMLInputElement>) {
+    const selected = event.target.files?.[0];
+    event.target.value = "";
+    if (!selected) return;
+    const controller = new AbortController();
+    abort.current = controller;
+    setFile(selected);
+    let uploadId: string | null = null;
+    try {
+      uploadId = await stageUpload(selected, {
+        datasetId,
+        branch,
+        signal: controller.signal,
+        onProgress: (_, sent) => setBytes(sent),
+      });
+      const sniffed = await fetchJson<CsvPreview>(
+        `/api/datasets/${datasetId}/csv/preview`,
+        { method: "POST", body: JSON.stringify({ uploadId }) },
+      );
+      form.reset({
+        ...EMPTY_VALUES,
+        ...sniffed.dialect,
+        uploadId: sniffed.uploadId,
+        path: sniffed.path,
+        columns: includeAll(sniffed),
+      });
+      setPreview(sniffed);
+      setStep("format");
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      toast.error((error as Error).message);
+      if (uploadId) discardUpload(uploadId).catch(() => undefined);
+      reset();
+    }
+  }
+
+  // Re-read the preview with the user's dialect whenever it changes.
+  useEffect(() => {
+    if (!preview) return;
+    const dialect: CsvDialect = { delimiter, quote, encoding, header };
+    if (DIALECT_FIELDS.every((key) => preview.dialect[key] === dialect[key])) {
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    fetchJson<CsvPreview>(`/api/datasets/${datasetId}/csv/preview`, {
+      method: "POST",
+      body: JSON.stringify({ uploadId: preview.uploadId, ...dialect }),
+    })
+      .then((next) => {
+        if (cancelled) return;
+        setPreview(next);
+        form.setValue("columns", includeAll(next));
+      })
+      .catch((error) => !cancelled && toast.error((error as Error).message))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [datasetId, form, preview, delimiter, quote, encoding, header]);
+
+  async function next() {
+    if (await form.trigger([...DIALECT_FIELDS])) setStep("columns");
+  }
+
+  async function onSubmit(values: CsvImportInput) {
+    try {
+      const result = await fetchJson<CsvImportResult>(
+        `/api/datasets/${datasetId}/csv/import`,
+        { method: "POST", body: JSON.stringify(values) },
+      );
+      toast.success(
+        `Imported ${formatNumber(result.rows)} rows to ${result.path}`,
+      );
+      reset();
+      setOpen(false);
+      router.refresh();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  }
+
+  const submitting = form.formState.isSubmitting;
+  const columnsError = form.formState.errors.columns?.root?.message;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <FileSpreadsheet /> Import CSV
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import CSV</DialogTitle>
+          <DialogDescription>
+            The file is converted to Parquet with typed columns and committed to{" "}
+            {branch}.
+          </DialogDescription>
+        </DialogHeader>
+        <ol className="flex gap-4 text-sm">
+          {STEPS.map((item, index) => (
+            <li
+              key={item.id}
+              className={cn(
+                "text-muted-foreground",
+                item.id === step && "font-medium text-foreground",
+              )}
+            >
+              {index + 1}. {item.label}
+            </li>
+          ))}
+        </ol>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.tsv,.tab,text/csv,text/tab-separated-values"
+          hidden
+          onChange={onFileSelected}
+        />
+
+        {step === "file" &&
+          (file ? (
+            <div className="space-y-1.5 text-sm">
+              <div className="flex justify-between gap-2">
+                <span className="truncate font-medium">{file.name}</span>
+                <span className="shrink-0 text-muted-foreground">
+                  {bytes < file.size ? "Uploading" : "Detecting format"}
+                </span>
+              </div>
+              <Progress value={(bytes / (file.size || 1)) * 100} />
+              <p className="text-xs text-muted-foreground tabular-nums">
+                {formatBytes(bytes)} / {formatBytes(file.size)}
+              </p>
+            </div>
+          ) : (
+            <Button variant="outline" onClick={() => inputRef.current?.click()}>
+              Choose a file
+            </Button>
+          ))}
+
+        <Form {...form}>
+          <form
+            id="csv-import-form"
+            onSubmit={form.handleSubmit(onSubmit)}
+            className="space-y-4"
+          >
+            {step === "format" && preview && (
+              <>
+                <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+                  <FormField
+                    control={form.control}
+                    name="delimiter"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Delimiter</FormLabel>
+                        <Select
+                          value={field.value}
+                          onValueChange={field.onChange}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {DELIMITER_OPTIONS.map((option) => (
+                              <SelectItem
+                                key={option.label}
+                                value={option.value}
+                              >
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="quote"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Quote</FormLabel>
+                        <Select
+                          value={field.value}
+                          onValueChange={field.onChange}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {QUOTE_OPTIONS.map((option) => (
+                              <SelectItem
+                                key={option.value}
+                                value={option.value}
+                              >
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="encoding"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Encoding</FormLabel>
+                        <Select
+                          value={field.value}
+                          onValueChange={field.onChange}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {CSV_ENCODINGS.map((value) => (
+                              <SelectItem key={value} value={value}>
+                                {value}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="header"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Header row</FormLabel>
+                        <FormControl>
+                          <Switch
+                            checked={field.value}
+                            onCheckedChange={field.onChange}
+                            className="block"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <PreviewTable preview={preview} loading={loading} />
+              </>
+            )}
+
+            {step === "columns" && preview && (
+              <>
+                <ScrollArea className="h-72 rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-12">Keep</TableHead>
+                        <TableHead>Column</TableHead>
+                        <TableHead className="w-52">Type</TableHead>
+                        <TableHead>First value</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {columns.fields.map((column, index) => (
+                        <TableRow key={column.id} className="align-top">
+                          <TableCell>
+                            <FormField
+                              control={form.control}
+                              name={`columns.${index}.include`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormControl>
+                                    <Checkbox
+                                      checked={field.value}
+                                      onCheckedChange={field.onChange}
+                                      aria-label="Include column"
+                                    />
+                                  </FormControl>
+                                </FormItem>
+                              )}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <FormField
+                              control={form.control}
+                              name={`columns.${index}.name`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormControl>
+                                    <Input
+                                      className="h-8 font-mono text-xs"
+                                      {...field}
+                                    />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <FormField
+                              control={form.control}
+                              name={`columns.${index}.type`}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <Select
+                                    value={field.value}
+                                    onValueChange={field.onChange}
+                                  >
+                                    <FormControl>
+                                      <SelectTrigger className="h-8 font-mono text-xs">
+                                        <SelectValue />
+                                      </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                      {CSV_COLUMN_TYPES.map((type) => (
+                                        <SelectItem key={type} value={type}>
+                                          {type}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          </TableCell>
+                          <TableCell
+                            className="max-w-48 truncate font-mono text-xs text-muted-foreground"
+                            title={preview.rows[0]?.[index]}
+                          >
+                            {preview.rows[0]?.[index]}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+                {columnsError && (
+                  <p className="text-[0.8rem] font-medium text-destructive">
+                    {columnsError}
+                  </p>
+                )}
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <FormField
+                    control={form.control}
+                    name="path"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Save as</FormLabel>
+                        <FormControl>
+                          <Input className="font-mono" {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          Converted from {preview.source}
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="message"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Commit message</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder={`Import ${preview.source}`}
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </>
+            )}
+          </form>
+        </Form>
+
+        <DialogFooter>
+          {step === "columns" && (
+            <Button
+              variant="outline"
+              onClick={() => setStep("format")}
+              disabled={submitting}
+            >
+              Back
+            </Button>
+          )}
+          {step === "columns" ? (
+            <Button type="submit" form="csv-import-form" disabled={submitting}>
+              {submitting ? "Converting…" : "Import"}
+            </Button>
+          ) : (
+            <Button onClick={next} disabled={step !== "format" || loading}>
+              Next
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function includeAll(preview: CsvPreview): CsvImportInput["columns"] {
+  return preview.columns.map((column) => ({ ...column, include: true }));
+}
+
+function PreviewTable({
+  preview,
+  loading,
+}: {
+  preview: CsvPreview;
+  loading: boolean;
+}) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        {loading
+          ? "Reading the file again…"
+          : `First ${formatNumber(preview.rows.length)} of ${formatNumber(preview.sampledRows)} sampled rows`}
+      </p>
+      <ScrollArea className="h-64 rounded-md border">
+        <Table className={cn(loading && "opacity-50")}>
+          <TableHeader>
+            <TableRow>
+              {preview.columns.map((column) => (
+                <TableHead key={column.name} className="whitespace-nowrap">
+                  <div>{column.name}</div>
+                  <div className="font-mono text-xs font-normal">
+                    {column.type}
+                  </div>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {preview.rows.map((row, rowIndex) => (
+              <TableRow key={rowIndex}>
+                {preview.columns.map((column, index) => (
+                  <TableCell
+                    key={column.name}
+                    className="max-w-48 truncate font-mono text-xs"
+                    title={row[index]}
+                  >
+                    {row[index]}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,437 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Pin, PinOff } from "lucide-react";
+import { toast } from "sonner";
+
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { useScrollViewport, useVirtualizer } from "@/hooks/use-virtualizer";
+import type { Row, RowPage } from "@/lib/formats";
+import { cn, fetchJson, formatNumber } from "@/lib/utils";
+
+const ROW_HEIGHT = 32;
+const HEADER_HEIGHT = 36;
+const INDEX_WIDTH = 72;
+const DEFAULT_COLUMN_WIDTH = 180;
+const MIN_COLUMN_WIDTH = 60;
+const PAGE_SIZE = 500;
+/** Fetch pages this many rows ahead of and behind the viewport. */
+const PREFETCH_ROWS = 200;
+/** Pages of rows held at once; the farthest are dropped and fetched again. */
+const MAX_LOADED_PAGES = 20;
+
+interface DataGridProps {
+  datasetId: string;
+  path: string;
+  /** Ref to read; pages after the first are pinned to the resolved commit. */
+  gitRef: string;
+  /**
+   * When set, rows are read with their language tags as extra columns: all
+   * of them for null, only those in the language with this code otherwise.
+   */
+  language?: string | null;
+}
+
+/** Where a page that has been read sits: its cursor and rows of the file. */
+interface PageSpan {
+  cursor: string | null;
+  start: number;
+  end: number;
+}
+
+interface SelectedCell {
+  rowIndex: number;
+  column: string;
+  row: Row;
+}
+
+/**
+ * Spreadsheet-style preview of a dataset file. Rows stream in pages from the
+ * rows API as the user scrolls, only the pages around the viewport are kept,
+ * and only the rows and columns intersecting it are in the DOM, so
+ * multi-million-row files stay responsive.
+ */
+export function DataGrid({ datasetId, path, gitRef, language }: DataGridProps) {
+  const [pages, setPages] = useState<Map<number, Row[]>>(new Map());
+  const [rowCount, setRowCount] = useState(0);
+  const [columns, setColumns] = useState<string[]>([]);
+  const [commit, setCommit] = useState<string | null>(null);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [done, setDone] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [widths, setWidths] = useState<Record<string, number>>({});
+  const [pinned, setPinned] = useState<string[]>([]);
+  const [selected, setSelected] = useState<SelectedCell | null>(null);
+  const [scrollRef, viewport] = useScrollViewport<HTMLDivElement>();
+  // Guards against a late response from a previous file overwriting state.
+  const requestId = useRef(0);
+  // Every page read so far, in order; appended to as the file is read.
+  const spans = useRef<PageSpan[]>([]);
+
+  useEffect(() => {
+    requestId.current++;
+    spans.current = [];
+    setPages(new Map());
+    setRowCount(0);
+    setColumns([]);
+    setCommit(null);
+    setCursor(null);
+    setDone(false);
+    setFailed(false);
+    setLoading(false);
+    setPinned([]);
+  }, [datasetId, path, gitRef, language]);
+
+  /** Reads page `index`: again if it was dropped, or the next one. */
+  const loadPage = useCallback(
+    async (index: number) => {
+      if (loading) return;
+      const id = requestId.current;
+      const known = spans.current[index];
+      const pageCursor = known ? known.cursor : cursor;
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({
+          path,
+          ref: commit ?? gitRef,
+          limit: String(PAGE_SIZE),
+        });
+        if (pageCursor) params.set("cursor", pageCursor);
+        if (language) params.set("language", language);
+        const page = await fetchJson<RowPage & { commit: string }>(
+          language === undefined
+            ? `/api/datasets/${datasetId}/rows?${params}`
+            : `/api/datasets/${datasetId}/languages/rows?${params}`,
+        );
+        if (id !== requestId.current) return;
+        if (!known) {
+          const start = spans.current.at(-1)?.end ?? 0;
+          const end = start + page.rows.length;
+          spans.current.push({ cursor: pageCursor, start, end });
+          setRowCount(end);
+          setCursor(page.nextCursor);
+          setDone(page.nextCursor === null);
+        }
+        setCommit(page.commit);
+        setPages((previous) => keepNear(previous, index, page.rows));
+        setColumns((previous) => [
+          ...previous,
+          ...page.columns.filter((column) => !previous.includes(column)),
+        ]);
+      } catch (error) {
+        if (id !== requestId.current) return;
+        setFailed(true);
+        toast.error((error as Error).message);
+      } finally {
+        if (id === requestId.current) setLoading(false);
+      }
+    },
+    [loading, path, commit, gitRef, cursor, datasetId, language],
+  );
+
+  const ordered = useMemo(
+    () => [...pinned, ...columns.filter((c) => !pinned.includes(c))],
+    [pinned, columns],
+  );
+  const widthOf = useCallback(
+    (column: string) => widths[column] ?? DEFAULT_COLUMN_WIDTH,
+    [widths],
+  );
+  const pinnedWidth = pinned.reduce((sum, c) => sum + widthOf(c), 0);
+  const scrollable = ordered.slice(pinned.length);
+
+  const rowRange = useVirtualizer({
+    count: rowCount,
+    size: ROW_HEIGHT,
+    scrollOffset: Math.max(0, viewport.top - HEADER_HEIGHT),
+    viewportSize: viewport.height,
+    overscan: 10,
+  });
+  const columnSize = useCallback(
+    (index: number) => widthOf(scrollable[index]),
+    [scrollable, widthOf],
+  );
+  const columnRange = useVirtualizer({
+    count: scrollable.length,
+    size: columnSize,
+    scrollOffset: Math.max(0, viewport.left - INDEX_WIDTH - pinnedWidth),
+    viewportSize: viewport.width,
+    overscan: 2,
+  });
+
+  useEffect(() => {
+    if (loading || failed) return;
+    if (rowCount > 0) {
+      const first = pageAt(
+        spans.current,
+        Math.max(0, rowRange.start - PREFETCH_ROWS),
+      );
+      const last = pageAt(
+        spans.current,
+        Math.min(rowCount, rowRange.end + PREFETCH_ROWS) - 1,
+      );
+      for (let index = first; index <= last; index++) {
+        const span = spans.current[index];
+        if (span.end > span.start && !pages.has(index)) {
+          loadPage(index);
+          return;
+        }
+      }
+    }
+    if (!done && rowRange.end > rowCount - PREFETCH_ROWS) {
+      loadPage(spans.current.length);
+    }
+  }, [
+    loading,
+    failed,
+    done,
+    rowCount,
+    rowRange.start,
+    rowRange.end,
+    pages,
+    loadPage,
+  ]);
+
+  function rowAt(rowIndex: number): Row | undefined {
+    const index = pageAt(spans.current, rowIndex);
+    return pages.get(index)?.[rowIndex - spans.current[index].start];
+  }
+
+  function togglePin(column: string) {
+    setPinned((previous) =>
+      previous.includes(column)
+        ? previous.filter((c) => c !== column)
+        : [...previous, column],
+    );
+  }
+
+  function startResize(column: string, event: React.PointerEvent) {
+    event.preventDefault();
+    event.stopPropagation();
+    const startX = event.clientX;
+    const startWidth = widthOf(column);
+    const target = event.currentTarget as HTMLElement;
+    target.setPointerCapture(event.pointerId);
+    const onMove = (move: PointerEvent) =>
+      setWidths((previous) => ({
+        ...previous,
+        [column]: Math.max(
+          MIN_COLUMN_WIDTH,
+          startWidth + move.clientX - startX,
+        ),
+      }));
+    const onUp = () => {
+      target.removeEventListener("pointermove", onMove);
+      target.removeEventListener("pointerup", onUp);
+    };
+    target.addEventListener("pointermove", onMove);
+    target.addEventListener("pointerup", onUp);
+  }
+
+  const totalWidth = INDEX_WIDTH + pinnedWidth + columnRange.totalSize;
+  const leadingSpace = columnRange.offsetOf(columnRange.start);
+  const visibleColumns = scrollable.slice(columnRange.start, columnRange.end);
+
+  function renderCells(
+    render: (column: string, left?: number) => React.ReactNode,
+  ) {
+    let left = INDEX_WIDTH;
+    return (
+      <>
+        {pinned.map((column) => {
+          const cell = render(column, left);
+          left += widthOf(column);
+          return cell;
+        })}
+        <div style={{ width: leadingSpace }} className="shrink-0" />
+        {visibleColumns.map((column) => render(column))}
+      </>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div
+        ref={scrollRef}
+        className="relative h-[600px] overflow-auto rounded-md border text-sm"
+      >
+        <div style={{ width: totalWidth }}>
+          <div
+            className="sticky top-0 z-20 flex border-b bg-muted"
+            style={{ height: HEADER_HEIGHT, width: totalWidth }}
+          >
+            <div
+              className="sticky left-0 z-10 shrink-0 bg-muted"
+              style={{ width: INDEX_WIDTH }}
+            />
+            {renderCells((column, left) => (
+              <div
+                key={column}
+                className={cn(
+                  "group relative flex shrink-0 items-center gap-1 border-r px-2 font-medium",
+                  left !== undefined && "sticky z-10 bg-muted",
+                )}
+                style={{ width: widthOf(column), left }}
+              >
+                <span className="truncate" title={column}>
+                  {column}
+                </span>
+                <button
+                  type="button"
+                  aria-label={
+                    left !== undefined ? "Unpin column" : "Pin column"
+                  }
+                  className={cn(
+                    "ml-auto shrink-0 text-muted-foreground hover:text-foreground",
+                    left === undefined && "opacity-0 group-hover:opacity-100",
+                  )}
+                  onClick={() => togglePin(column)}
+                >
+                  {left !== undefined ? (
+                    <PinOff className="size-3.5" />
+                  ) : (
+                    <Pin className="size-3.5" />
+                  )}
+                </button>
+                <div
+                  role="separator"
+                  aria-orientation="vertical"
+                  className="absolute inset-y-0 -right-1 z-10 w-2 cursor-col-resize hover:bg-primary/30"
+                  onPointerDown={(event) => startResize(column, event)}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="relative" style={{ height: rowRange.totalSize }}>
+            {Array.from(
+              { length: rowRange.end - rowRange.start },
+              (_, i) => rowRange.start + i,
+            ).map((rowIndex) => {
+              const row = rowAt(rowIndex);
+              return (
+                <div
+                  key={rowIndex}
+                  className="absolute flex border-b hover:bg-muted/50"
+                  style={{
+                    top: rowRange.offsetOf(rowIndex),
+                    height: ROW_HEIGHT,
+                    width: totalWidth,
+                  }}
+                >
+                  <div
+                    className="sticky left-0 z-10 shrink-0 bg-background px-2 py-1.5 text-right font-mono text-xs text-muted-foreground tabular-nums"
+                    style={{ width: INDEX_WIDTH }}
+                  >
+                    {rowIndex + 1}
+                  </div>
+                  {row &&
+                    renderCells((column, left) => (
+                      <button
+                        type="button"
+                        key={column}
+                        className={cn(
+                          "shrink-0 truncate border-r px-2 text-left hover:bg-accent",
+                          left !== undefined && "sticky z-10 bg-background",
+                        )}
+                        style={{ width: widthOf(column), left }}
+                        onClick={() => setSelected({ rowIndex, column, row })}
+                      >
+                        <CellValue value={row[column]} />
+                      </button>
+                    ))}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {formatNumber(rowCount)} rows read
+        {loading ? ", loading more…" : done ? "" : ", scroll for more"}
+      </p>
+      <CellSheet selected={selected} onClose={() => setSelected(null)} />
+    </div>
+  );
+}
+
+/** Index of the page holding a row that has been read. */
+function pageAt(spans: PageSpan[], rowIndex: number): number {
+  let low = 0;
+  let high = spans.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (spans[mid].end > rowIndex) high = mid;
+    else low = mid + 1;
+  }
+  return low;
+}
+
+/** Adds a page, dropping those farthest from it past the limit. */
+function keepNear(
+  pages: Map<number, Row[]>,
+  index: number,
+  rows: Row[],
+): Map<number, Row[]> {
+  const next = new Map(pages).set(index, rows);
+  const farthest = [...next.keys()].sort(
+    (a, b) => Math.abs(b - index) - Math.abs(a - index),
+  );
+  const excess = Math.max(0, next.size - MAX_LOADED_PAGES);
+  for (const key of farthest.slice(0, excess)) next.delete(key);
+  return next;
+}
+
+function CellValue({ value }: { value: unknown }) {
+  if (value === null || value === undefined) {
+    return <span className="text-muted-foreground/60">null</span>;
+  }
+  if (typeof value === "object") {
+    return (
+      <span className="font-mono text-xs text-muted-foreground">
+        {JSON.stringify(value)}
+      </span>
+    );
+  }
+  return <>{String(value)}</>;
+}
+
+/** Full value of a clicked cell, plus the rest of its row. */
+function CellSheet({
+  selected,
+  onClose,
+}: {
+  selected: SelectedCell | null;
+  onClose: () => void;
+}) {
+  const value = selected?.row[selected.column];
+  return (
+    <Sheet open={selected !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-2xl">
+        {selected && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="break-all">{selected.column}</SheetTitle>
+              <SheetDescription>Row {selected.rowIndex + 1}</SheetDescription>
+            </SheetHeader>
+            <pre className="mt-4 whitespace-pre-wrap break-words rounded-md bg-muted p-3 text-sm">
+              {typeof value === "string"
+                ? value
+                : JSON.stringify(value, null, 2)}
+            </pre>
+            <h3 className="mt-6 text-sm font-medium">Full row</h3>
+            <pre className="mt-2 whitespace-pre-wrap break-words rounded-md bg-muted p-3 font-mono text-xs">
+              {JSON.stringify(selected.row, null, 2)}
+            </pre>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,206 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { FileDown } from "lucide-react";
+import { toast } from "sonner";
+
+import { ChatView } from "@/components/datasets/chat-view";
+import { DataGrid } from "@/components/datasets/data-grid";
+import { PreferenceView } from "@/components/datasets/preference-view";
+import { SchemaView } from "@/components/datasets/schema-view";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { usePolledJson } from "@/hooks/use-polled-json";
+import { CHAT_FORMAT_LABELS, CHAT_FORMATS } from "@/lib/formats/chat";
+import type { FileSchema } from "@/lib/formats/schema";
+import { languageName } from "@/lib/language/names";
+import type { LanguageReport } from "@/lib/language/tags";
+import type { DatasetType } from "@/lib/schemas";
+import { fetchJson, formatNumber } from "@/lib/utils";
+
+/** Language filter values besides language codes. */
+const ALL_ROWS = "__all__";
+const TAGGED_ROWS = "__tagged__";
+
+interface DataViewerProps {
+  datasetId: string;
+  datasetType: DatasetType;
+  gitRef: string;
+  /** Files at `gitRef` that can be read as rows. */
+  paths: string[];
+}
+
+export function DataViewer({
+  datasetId,
+  datasetType,
+  gitRef,
+  paths,
+}: DataViewerProps) {
+  const [path, setPath] = useState(paths[0]);
+  const [schema, setSchema] = useState<FileSchema | null>(null);
+  const [filter, setFilter] = useState(ALL_ROWS);
+  // Languages are identified on first use, not whenever the data is viewed.
+  const [languagesWanted, setLanguagesWanted] = useState(false);
+  const languages = usePolledJson<LanguageReport>(
+    languagesWanted
+      ? `/api/datasets/${datasetId}/languages?${new URLSearchParams({ ref: gitRef })}`
+      : null,
+  );
+
+  useEffect(() => {
+    if (!path) return;
+    let cancelled = false;
+    setSchema(null);
+    const params = new URLSearchParams({ path, ref: gitRef });
+    fetchJson<FileSchema>(`/api/datasets/${datasetId}/schema?${params}`)
+      .then((result) => !cancelled && setSchema(result))
+      .catch((error) => !cancelled && toast.error((error as Error).message));
+    return () => {
+      cancelled = true;
+    };
+  }, [datasetId, path, gitRef]);
+
+  if (!path) {
+    return (
+      <p className="py-12 text-center text-sm text-muted-foreground">
+        No previewable files at this version.
+      </p>
+    );
+  }
+
+  const grid = (
+    <DataGrid
+      datasetId={datasetId}
+      path={path}
+      gitRef={gitRef}
+      language={
+        filter === ALL_ROWS ? undefined : filter === TAGGED_ROWS ? null : filter
+      }
+    />
+  );
+  const chat = schema?.chat;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Select value={path} onValueChange={setPath}>
+          <SelectTrigger className="w-80">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {paths.map((p) => (
+              <SelectItem key={p} value={p}>
+                {p}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={filter}
+          onValueChange={setFilter}
+          onOpenChange={(open) => open && setLanguagesWanted(true)}
+        >
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_ROWS}>All rows</SelectItem>
+            <SelectItem
+              value={TAGGED_ROWS}
+              disabled={languages?.status !== "ready"}
+            >
+              All rows, with languages
+            </SelectItem>
+            {languages?.status === "running" && (
+              <SelectItem value="__running__" disabled>
+                Identifying languages…
+              </SelectItem>
+            )}
+            {languages?.status === "failed" && (
+              <SelectItem value="__failed__" disabled>
+                Language identification failed
+              </SelectItem>
+            )}
+            {languages?.status === "ready" &&
+              languages.languages.map(({ code, rows }) => (
+                <SelectItem key={code} value={code}>
+                  {languageName(code)} ({formatNumber(rows)})
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+        {chat && (
+          <>
+            <Badge variant="secondary">{CHAT_FORMAT_LABELS[chat]}</Badge>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="ml-auto">
+                  <FileDown /> Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Export as JSONL</DropdownMenuLabel>
+                {CHAT_FORMATS.map((format) => (
+                  <DropdownMenuItem key={format} asChild>
+                    <a
+                      href={`/api/datasets/${datasetId}/export?${new URLSearchParams({ path, ref: gitRef, format })}`}
+                      download
+                    >
+                      {CHAT_FORMAT_LABELS[format]}
+                    </a>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </>
+        )}
+      </div>
+      {schema && <SchemaView schema={schema} />}
+      {datasetType === "preference" ? (
+        <Tabs key={path} defaultValue="pairs">
+          <TabsList>
+            <TabsTrigger value="pairs">Pairs</TabsTrigger>
+            <TabsTrigger value="table">Table</TabsTrigger>
+          </TabsList>
+          <TabsContent value="pairs">
+            <PreferenceView datasetId={datasetId} path={path} gitRef={gitRef} />
+          </TabsContent>
+          <TabsContent value="table">{grid}</TabsContent>
+        </Tabs>
+      ) : chat ? (
+        <Tabs key={path} defaultValue="conversations">
+          <TabsList>
+            <TabsTrigger value="conversations">Conversations</TabsTrigger>
+            <TabsTrigger value="table">Table</TabsTrigger>
+          </TabsList>
+          <TabsContent value="conversations">
+            <ChatView
+              datasetId={datasetId}
+              path={path}
+              gitRef={gitRef}
+              format={chat}
+            />
+          </TabsContent>
+          <TabsContent value="table">{grid}</TabsContent>
+        </Tabs>
+      ) : (
+        grid
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { MoreHorizontal, Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { DatasetFormDialog } from "@/components/datasets/dataset-form-dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { Dataset } from "@/lib/datasets";
+import { fetchJson } from "@/lib/utils";
+
+export function DatasetActions({ dataset }: { dataset: Dataset }) {
+  const router = useRouter();
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  async function onDelete() {
+    try {
+      await fetchJson(`/api/datasets/${dataset.id}`, { method: "DELETE" });
+      toast.success(`Deleted ${dataset.name}`);
+      router.refresh();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" aria-label="Dataset actions">
+            <MoreHorizontal />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DatasetFormDialog
+            dataset={dataset}
+            trigger={
+              <DropdownMenuItem onSelect={(event) => event.preventDefault()}>
+                <Pencil /> Edit
+              </DropdownMenuItem>
+            }
+          />
+          <DropdownMenuItem
+            className="text-destructive focus:text-destructive"
+            onSelect={() => setConfirmOpen(true)}
+          >
+            <Trash2 /> Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {dataset.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This removes the dataset and its metadata. It cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={onDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
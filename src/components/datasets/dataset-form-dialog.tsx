@@ -0,0 +1,226 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import type { Dataset } from "@/lib/datasets";
+import {
+  DATASET_TYPE_LABELS,
+  DATASET_TYPES,
+  datasetInputSchema,
+  type DatasetInput,
+} from "@/lib/schemas";
+import type { TokenizerRecord } from "@/lib/tokenizers";
+import { fetchJson } from "@/lib/utils";
+
+/** Select value for counting tokens without a tokenizer. */
+const NO_TOKENIZER = "__none__";
+
+interface DatasetFormDialogProps {
+  /** When set, the dialog edits this dataset instead of creating a new one. */
+  dataset?: Dataset;
+  trigger: React.ReactNode;
+}
+
+export function DatasetFormDialog({
+  dataset,
+  trigger,
+}: DatasetFormDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [tokenizers, setTokenizers] = useState<TokenizerRecord[]>([]);
+  const form = useForm<DatasetInput>({
+    resolver: zodResolver(datasetInputSchema),
+    defaultValues: {
+      name: dataset?.name ?? "",
+      description: dataset?.description ?? "",
+      owner: dataset?.owner ?? "",
+      type: dataset?.type ?? "generic",
+      tokenizerId: dataset?.tokenizerId ?? null,
+    },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    fetchJson<{ tokenizers: TokenizerRecord[] }>("/api/tokenizers")
+      .then((result) => !cancelled && setTokenizers(result.tokenizers))
+      .catch((error) => !cancelled && toast.error((error as Error).message));
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  async function onSubmit(values: DatasetInput) {
+    try {
+      await fetchJson(
+        dataset ? `/api/datasets/${dataset.id}` : "/api/datasets",
+        {
+          method: dataset ? "PATCH" : "POST",
+          body: JSON.stringify(values),
+        },
+      );
+      toast.success(dataset ? "Dataset updated" : "Dataset created");
+      setOpen(false);
+      if (!dataset) form.reset();
+      router.refresh();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{dataset ? "Edit dataset" : "New dataset"}</DialogTitle>
+          <DialogDescription>
+            Datasets group the files, versions and metadata for one corpus.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="web-crawl-2024" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="owner"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Owner</FormLabel>
+                  <FormControl>
+                    <Input placeholder="data-team" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Type</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {DATASET_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {DATASET_TYPE_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="tokenizerId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tokenizer</FormLabel>
+                  <Select
+                    value={field.value ?? NO_TOKENIZER}
+                    onValueChange={(value) =>
+                      field.onChange(value === NO_TOKENIZER ? null : value)
+                    }
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_TOKENIZER}>None</SelectItem>
+                      {tokenizers.map((tokenizer) => (
+                        <SelectItem key={tokenizer.id} value={tokenizer.id}>
+                          {tokenizer.name}
+                        </SelectItem>
+                      ))}
+                      {/* Keep the current choice labelled until the list loads. */}
+                      {field.value &&
+                        !tokenizers.some((t) => t.id === field.value) && (
+                          <SelectItem value={field.value}>Loading…</SelectItem>
+                        )}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Token counts of this dataset use it.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {dataset ? "Save" : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,83 @@
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+
+import { DatasetActions } from "@/components/datasets/dataset-actions";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { Dataset } from "@/lib/datasets";
+import { DATASET_TYPE_LABELS } from "@/lib/schemas";
+import { formatBytes, formatNumber } from "@/lib/utils";
+
+export function DatasetTable({ datasets }: { datasets: Dataset[] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          <TableHead>Owner</TableHead>
+          <TableHead className="text-right">Size</TableHead>
+          <TableHead className="text-right">Rows</TableHead>
+          <TableHead>Last updated</TableHead>
+          <TableHead className="w-12" />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {datasets.length === 0 ? (
+          <TableRow>
+            <TableCell
+              colSpan={6}
+              className="h-24 text-center text-muted-foreground"
+            >
+              No datasets yet. Create one to get started.
+            </TableCell>
+          </TableRow>
+        ) : (
+          datasets.map((dataset) => (
+            <TableRow key={dataset.id}>
+              <TableCell>
+                <Link
+                  href={`/datasets/${dataset.id}`}
+                  className="font-medium hover:underline"
+                >
+                  {dataset.name}
+                </Link>
+                {dataset.type !== "generic" && (
+                  <Badge variant="secondary" className="ml-2 font-normal">
+                    {DATASET_TYPE_LABELS[dataset.type]}
+                  </Badge>
+                )}
+                {dataset.description && (
+                  <div className="max-w-md truncate text-xs text-muted-foreground">
+                    {dataset.description}
+                  </div>
+                )}
+              </TableCell>
+              <TableCell>{dataset.owner}</TableCell>
+              <TableCell className="text-right tabular-nums">
+                {formatBytes(dataset.sizeBytes)}
+              </TableCell>
+              <TableCell className="text-right tabular-nums">
+                {formatNumber(dataset.rowCount)}
+              </TableCell>
+              <TableCell title={dataset.updatedAt}>
+                {formatDistanceToNow(new Date(dataset.updatedAt), {
+                  addSuffix: true,
+                })}
+              </TableCell>
+              <TableCell>
+                <DatasetActions dataset={dataset} />
+              </TableCell>
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,470 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ChevronLeft, ChevronRight, Search } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { usePolledJson } from "@/hooks/use-polled-json";
+import type { DedupApplyResult, DedupCluster, DedupResult } from "@/lib/dedup";
+import {
+  DEDUP_UNITS,
+  dedupOptionsSchema,
+  type DedupOptions,
+  type DedupUnit,
+} from "@/lib/schemas";
+import { fetchJson, formatNumber } from "@/lib/utils";
+
+const PAGE_SIZE = 20;
+
+const UNIT_LABELS: Record<DedupUnit, string> = {
+  words: "Word n-grams",
+  characters: "Character n-grams",
+};
+
+const KIND_FILTERS = ["all", "exact", "near"] as const;
+
+type KindFilter = (typeof KIND_FILTERS)[number];
+
+const KIND_LABELS: Record<KindFilter, string> = {
+  all: "All clusters",
+  exact: "Exact duplicates",
+  near: "Near duplicates",
+};
+
+// The form takes columns as one comma-separated field.
+const scanFormSchema = dedupOptionsSchema.extend({
+  columns: z.string().trim().max(2000),
+});
+
+function percent(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
+
+interface DedupViewProps {
+  datasetId: string;
+  gitRef: string;
+  /** Branch resolutions are committed to; reviewing only without one. */
+  branch?: string;
+}
+
+/**
+ * Exact and near-duplicate clusters of a dataset version, scanned in the
+ * background with the chosen options. Each cluster can be resolved by
+ * keeping one member, and the resolutions committed as a new version.
+ */
+export function DedupView({ datasetId, gitRef, branch }: DedupViewProps) {
+  const router = useRouter();
+  const [options, setOptions] = useState<DedupOptions | null>(null);
+  const [kind, setKind] = useState<KindFilter>("all");
+  const [offset, setOffset] = useState(0);
+  // Clusters to resolve, by id, with the index of the member to keep.
+  const [resolutions, setResolutions] = useState<Map<number, number>>(
+    new Map(),
+  );
+  const [committing, setCommitting] = useState(false);
+  const form = useForm<
+    z.input<typeof scanFormSchema>,
+    unknown,
+    z.output<typeof scanFormSchema>
+  >({
+    resolver: zodResolver(scanFormSchema),
+    defaultValues: { columns: "", threshold: 0.8, unit: "words", ngram: 5 },
+  });
+
+  const result = usePolledJson<DedupResult>(
+    options &&
+      `/api/datasets/${datasetId}/dedup?${new URLSearchParams({
+        ref: gitRef,
+        columns: options.columns.join(","),
+        threshold: String(options.threshold),
+        unit: options.unit,
+        ngram: String(options.ngram),
+        ...(kind !== "all" && { kind }),
+        offset: String(offset),
+        limit: String(PAGE_SIZE),
+      })}`,
+  );
+
+  function onScan(values: z.output<typeof scanFormSchema>) {
+    setOptions({
+      ...values,
+      columns: values.columns
+        .split(",")
+        .map((column) => column.trim())
+        .filter(Boolean),
+    });
+    setOffset(0);
+    setResolutions(new Map());
+  }
+
+  function setKept(cluster: number, member: number | null) {
+    setResolutions((current) => {
+      const next = new Map(current);
+      if (member === null) next.delete(cluster);
+      else next.set(cluster, member);
+      return next;
+    });
+  }
+
+  async function commit(all: boolean) {
+    if (!result || !options) return;
+    setCommitting(true);
+    try {
+      const applied = await fetchJson<DedupApplyResult>(
+        `/api/datasets/${datasetId}/dedup`,
+        {
+          method: "POST",
+          body: JSON.stringify({
+            commit: result.commit,
+            options,
+            branch,
+            all,
+            resolutions: [...resolutions].map(([cluster, keep]) => ({
+              cluster,
+              keep,
+            })),
+          }),
+        },
+      );
+      toast.success(applied.commit.message);
+      setResolutions(new Map());
+      router.refresh();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setCommitting(false);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Duplicate scan</CardTitle>
+          <CardDescription>
+            Rows with the same text after normalizing case, punctuation and
+            whitespace are exact duplicates; rows whose n-grams overlap by at
+            least the threshold are near duplicates.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form
+              onSubmit={form.handleSubmit(onScan)}
+              className="grid gap-4 sm:grid-cols-[2fr_1fr_1fr_1fr_auto] sm:items-end"
+            >
+              <FormField
+                control={form.control}
+                name="columns"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Columns</FormLabel>
+                    <FormControl>
+                      <Input placeholder="All text" {...field} />
+                    </FormControl>
+                    <FormDescription>Comma-separated</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="unit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Compare</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {DEDUP_UNITS.map((unit) => (
+                          <SelectItem key={unit} value={unit}>
+                            {UNIT_LABELS[unit]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>&nbsp;</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="ngram"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>N-gram size</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={20}
+                        {...field}
+                        value={String(field.value ?? "")}
+                      />
+                    </FormControl>
+                    <FormDescription>&nbsp;</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="threshold"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Threshold</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0.5}
+                        max={1}
+                        step={0.05}
+                        {...field}
+                        value={String(field.value ?? "")}
+                      />
+                    </FormControl>
+                    <FormDescription>Jaccard similarity</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="sm:mb-7">
+                <Search /> Scan
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      {options &&
+        (!result || result.status === "running" ? (
+          <p className="text-sm text-muted-foreground">
+            {result ? "Scanning for duplicates…" : "Loading duplicates…"}
+          </p>
+        ) : !result.summary ? (
+          <p className="text-sm text-destructive">
+            The scan failed: {result.error}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <dl className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+              {[
+                { label: "Rows", value: result.summary.rows },
+                { label: "Rows with text", value: result.summary.compared },
+                {
+                  label: "Clusters (exact / near)",
+                  value: `${formatNumber(result.summary.exactClusters)} / ${formatNumber(result.summary.nearClusters)}`,
+                },
+                {
+                  label: "Duplicate rows",
+                  value: result.summary.duplicates,
+                },
+              ].map((tile) => (
+                <div key={tile.label} className="rounded-md border px-3 py-2">
+                  <dt className="text-xs text-muted-foreground">
+                    {tile.label}
+                  </dt>
+                  <dd className="text-lg font-semibold tabular-nums">
+                    {typeof tile.value === "number"
+                      ? formatNumber(tile.value)
+                      : tile.value}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+            <div className="flex flex-wrap items-center gap-2">
+              <Select
+                value={kind}
+                onValueChange={(value) => {
+                  setKind(value as KindFilter);
+                  setOffset(0);
+                }}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {KIND_FILTERS.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {KIND_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-muted-foreground">
+                {result.total === 0
+                  ? "No clusters"
+                  : `${formatNumber(offset + 1)}–${formatNumber(offset + result.clusters.length)} of ${formatNumber(result.total)}`}
+              </span>
+              <Button
+                variant="outline"
+                size="icon"
+                aria-label="Previous clusters"
+                disabled={offset === 0}
+                onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+              >
+                <ChevronLeft />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                aria-label="Next clusters"
+                disabled={offset + PAGE_SIZE >= result.total}
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+              >
+                <ChevronRight />
+              </Button>
+              {branch && result.summary.duplicates > 0 && (
+                <div className="ml-auto flex gap-2">
+                  <Button
+                    variant="outline"
+                    disabled={committing || resolutions.size === 0}
+                    onClick={() => commit(false)}
+                  >
+                    Resolve {formatNumber(resolutions.size)} selected
+                  </Button>
+                  <Button disabled={committing} onClick={() => commit(true)}>
+                    Resolve all
+                  </Button>
+                </div>
+              )}
+            </div>
+            {branch && result.summary.duplicates > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Resolving commits {branch} without the other members of each
+                cluster. Resolve all keeps the first member of clusters not
+                selected.
+              </p>
+            )}
+            {result.clusters.map((cluster) => (
+              <ClusterCard
+                key={cluster.id}
+                cluster={cluster}
+                kept={resolutions.get(cluster.id) ?? null}
+                editable={!!branch}
+                onKeep={(member) => setKept(cluster.id, member)}
+              />
+            ))}
+          </div>
+        ))}
+    </div>
+  );
+}
+
+function ClusterCard({
+  cluster,
+  kept,
+  editable,
+  onKeep,
+}: {
+  cluster: DedupCluster;
+  /** Member chosen to keep when the cluster is selected for resolving. */
+  kept: number | null;
+  editable: boolean;
+  onKeep: (member: number | null) => void;
+}) {
+  const hidden = cluster.size - cluster.members.length;
+  return (
+    <Card>
+      <CardHeader className="flex-row items-center gap-3 space-y-0">
+        {editable && (
+          <Checkbox
+            checked={kept !== null}
+            onCheckedChange={(checked) => onKeep(checked ? 0 : null)}
+            aria-label={`Resolve cluster ${cluster.id + 1}`}
+          />
+        )}
+        <CardTitle className="text-base">
+          Cluster {formatNumber(cluster.id + 1)}
+        </CardTitle>
+        <Badge variant={cluster.kind === "exact" ? "secondary" : "outline"}>
+          {cluster.kind === "exact" ? "Exact" : "Near"}
+        </Badge>
+        <span className="text-sm text-muted-foreground">
+          {formatNumber(cluster.size)} rows
+          {cluster.kind === "near" &&
+            ` · at least ${percent(cluster.similarity)} similar`}
+        </span>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <RadioGroup
+          value={String(kept ?? "")}
+          onValueChange={(value) => onKeep(Number(value))}
+          disabled={!editable}
+        >
+          {cluster.members.map((member, index) => {
+            const id = `cluster-${cluster.id}-${index}`;
+            return (
+              <div
+                key={`${member.path}:${member.row}`}
+                className="flex items-start gap-3 rounded-md border p-3"
+              >
+                {editable && (
+                  <RadioGroupItem
+                    value={String(index)}
+                    id={id}
+                    className="mt-0.5"
+                  />
+                )}
+                <Label htmlFor={id} className="min-w-0 flex-1 space-y-1">
+                  <span className="flex gap-2 font-mono text-xs text-muted-foreground">
+                    {member.path} · row {formatNumber(member.row + 1)}
+                    {index > 0 && <span>{percent(member.similarity)}</span>}
+                    {kept === index && <Badge>Keep</Badge>}
+                  </span>
+                  <span className="block whitespace-pre-wrap break-words font-normal">
+                    {member.text}
+                  </span>
+                </Label>
+              </div>
+            );
+          })}
+        </RadioGroup>
+        {hidden > 0 && (
+          <p className="text-xs text-muted-foreground">
+            And {formatNumber(hidden)} more rows, dropped with the rest when the
+            cluster is resolved.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,356 @@
+"use client";
+
+import { useState } from "react";
+import { useForm, type Control } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import { Button } from "@/components/ui/button";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  ResizableHandle,
+  ResizablePanel,
+  ResizablePanelGroup,
+} from "@/components/ui/resizable";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { RowDiff } from "@/lib/diff";
+import type { Row } from "@/lib/formats/rows";
+import { cn, fetchJson, formatNumber } from "@/lib/utils";
+import type { Commit, Ref } from "@/lib/versioning";
+
+const chartConfig = {
+  count: { label: "Rows" },
+  added: { label: "Added", color: "hsl(142 71% 45%)" },
+  removed: { label: "Removed", color: "hsl(0 84% 60%)" },
+  modified: { label: "Modified", color: "hsl(38 92% 50%)" },
+  unchanged: { label: "Unchanged", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+const formSchema = z.object({
+  from: z.string().min(1, "Choose a version"),
+  to: z.string().min(1, "Choose a version"),
+  path: z.string().min(1, "Choose a file"),
+  key: z.string().trim(),
+});
+
+type DiffFormValues = z.infer<typeof formSchema>;
+
+type Side = "before" | "after";
+
+interface DiffLine {
+  kind: "added" | "removed" | "modified";
+  before?: Row;
+  after?: Row;
+  changedColumns?: string[];
+}
+
+interface DiffViewProps {
+  datasetId: string;
+  refs: Ref[];
+  history: Pick<Commit, "id" | "message">[];
+  /** Tabular files in the checked-out version, offered as diff targets. */
+  paths: string[];
+  defaultTo: string;
+}
+
+/** Compares one file between two versions, row by row. */
+export function DiffView({
+  datasetId,
+  refs,
+  history,
+  paths,
+  defaultTo,
+}: DiffViewProps) {
+  const [diff, setDiff] = useState<RowDiff | null>(null);
+  const form = useForm<DiffFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      from: history[1]?.id ?? defaultTo,
+      to: defaultTo,
+      path: paths[0] ?? "",
+      key: "",
+    },
+  });
+
+  async function onSubmit({ from, to, path, key }: DiffFormValues) {
+    try {
+      const params = new URLSearchParams({ from, to, path });
+      if (key) params.set("key", key);
+      setDiff(
+        await fetchJson<RowDiff>(`/api/datasets/${datasetId}/diff?${params}`),
+      );
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  }
+
+  const versions = [
+    ...refs.map((ref) => ({ value: ref.name, label: ref.name })),
+    ...history.map((commit) => ({
+      value: commit.id,
+      label: `${commit.id.slice(0, 8)} · ${commit.message}`,
+    })),
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Form {...form}>
+        <form
+          onSubmit={form.handleSubmit(onSubmit)}
+          className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5 lg:items-end"
+        >
+          <VersionField
+            control={form.control}
+            name="from"
+            label="From"
+            versions={versions}
+          />
+          <VersionField
+            control={form.control}
+            name="to"
+            label="To"
+            versions={versions}
+          />
+          <FormField
+            control={form.control}
+            name="path"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>File</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="No tabular files" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {paths.map((p) => (
+                      <SelectItem key={p} value={p}>
+                        {p}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="key"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Primary key</FormLabel>
+                <FormControl>
+                  <Input placeholder="id (blank: content hash)" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button
+            type="submit"
+            disabled={form.formState.isSubmitting || paths.length === 0}
+          >
+            {form.formState.isSubmitting ? "Comparing…" : "Compare"}
+          </Button>
+        </form>
+      </Form>
+
+      {diff && <DiffResult diff={diff} />}
+    </div>
+  );
+}
+
+function VersionField({
+  control,
+  name,
+  label,
+  versions,
+}: {
+  control: Control<DiffFormValues>;
+  name: "from" | "to";
+  label: string;
+  versions: { value: string; label: string }[];
+}) {
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select value={field.value} onValueChange={field.onChange}>
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {versions.map((version) => (
+                <SelectItem key={version.value} value={version.value}>
+                  <span className="block max-w-64 truncate">
+                    {version.label}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+function DiffResult({ diff }: { diff: RowDiff }) {
+  const { summary } = diff;
+  const chartData = (
+    ["added", "removed", "modified", "unchanged"] as const
+  ).map((kind) => ({
+    kind,
+    count: summary[kind],
+    fill: `var(--color-${kind})`,
+  }));
+  // Modified rows first so both sides line up, then one-sided changes with a
+  // placeholder on the other side.
+  const lines: DiffLine[] = [
+    ...diff.modified.map((m) => ({ kind: "modified" as const, ...m })),
+    ...diff.removed.map((row) => ({ kind: "removed" as const, before: row })),
+    ...diff.added.map((row) => ({ kind: "added" as const, after: row })),
+  ];
+
+  return (
+    <div className="space-y-4">
+      <ChartContainer config={chartConfig} className="h-40 w-full">
+        <BarChart data={chartData} layout="vertical" margin={{ left: 24 }}>
+          <CartesianGrid horizontal={false} />
+          <YAxis
+            dataKey="kind"
+            type="category"
+            tickLine={false}
+            axisLine={false}
+            tickFormatter={(kind: keyof typeof chartConfig) =>
+              chartConfig[kind].label
+            }
+          />
+          <XAxis type="number" hide />
+          <ChartTooltip
+            content={<ChartTooltipContent hideLabel nameKey="kind" />}
+          />
+          <Bar dataKey="count" radius={4} />
+        </BarChart>
+      </ChartContainer>
+      <p className="text-sm text-muted-foreground">
+        {formatNumber(summary.added)} added, {formatNumber(summary.removed)}{" "}
+        removed, {formatNumber(summary.modified)} modified,{" "}
+        {formatNumber(summary.unchanged)} unchanged
+        {diff.key.length > 0 ? ` by ${diff.key.join(", ")}` : " by content"}.
+        {summary.duplicateKeys > 0 &&
+          ` ${formatNumber(summary.duplicateKeys)} rows had duplicate keys and were skipped.`}
+        {diff.truncated && " Showing the first examples of each change."}
+      </p>
+
+      {lines.length > 0 && (
+        <div className="max-h-[70vh] overflow-y-auto rounded-md border">
+          <ResizablePanelGroup direction="horizontal">
+            <ResizablePanel defaultSize={50} minSize={20}>
+              <DiffColumn title="Before" side="before" lines={lines} />
+            </ResizablePanel>
+            <ResizableHandle withHandle />
+            <ResizablePanel defaultSize={50} minSize={20}>
+              <DiffColumn title="After" side="after" lines={lines} />
+            </ResizablePanel>
+          </ResizablePanelGroup>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const SIDE_STYLES = {
+  added: "bg-emerald-50 dark:bg-emerald-950/40",
+  removed: "bg-red-50 dark:bg-red-950/40",
+  modified: "bg-amber-50 dark:bg-amber-950/40",
+};
+
+/** One side of the diff. Cells have a fixed height so both sides align. */
+function DiffColumn({
+  title,
+  side,
+  lines,
+}: {
+  title: string;
+  side: Side;
+  lines: DiffLine[];
+}) {
+  return (
+    <div className="min-w-0">
+      <div className="sticky top-0 z-10 border-b bg-background px-3 py-2 text-sm font-medium">
+        {title}
+      </div>
+      {lines.map((line, index) => {
+        const row = line[side];
+        return (
+          <div
+            key={index}
+            className={cn(
+              "h-36 overflow-auto border-b px-3 py-2 font-mono text-xs",
+              row && SIDE_STYLES[line.kind],
+            )}
+          >
+            {row ? (
+              <dl className="space-y-0.5">
+                {Object.entries(row).map(([column, value]) => (
+                  <div
+                    key={column}
+                    className={cn(
+                      "flex gap-2",
+                      line.changedColumns?.includes(column) &&
+                        "rounded bg-amber-200/60 dark:bg-amber-800/60",
+                    )}
+                  >
+                    <dt className="shrink-0 text-muted-foreground">
+                      {column}:
+                    </dt>
+                    <dd className="break-all">
+                      {typeof value === "string"
+                        ? value
+                        : JSON.stringify(value)}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            ) : (
+              <span className="text-muted-foreground/60">
+                {line.kind === "added" ? "(not present)" : "(removed)"}
+              </span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Download, FileDown, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { DatasetFile } from "@/lib/datasets";
+import { detectFormat } from "@/lib/formats/detect";
+import { mediaType } from "@/lib/storage/mime";
+import { cn, fetchJson, formatBytes } from "@/lib/utils";
+
+interface FileTableProps {
+  datasetId: string;
+  files: DatasetFile[];
+  /** Commit the files belong to, for conversions. */
+  gitRef: string;
+  /** Branch to commit removals to; files are read-only without one. */
+  branch?: string;
+}
+
+export function FileTable({
+  datasetId,
+  files,
+  gitRef,
+  branch,
+}: FileTableProps) {
+  const router = useRouter();
+
+  async function onRemove(path: string, branch: string) {
+    try {
+      await fetchJson(
+        `/api/datasets/${datasetId}/files?${new URLSearchParams({ path, branch })}`,
+        { method: "DELETE" },
+      );
+      toast.success(`Removed ${path}`);
+      router.refresh();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Path</TableHead>
+          <TableHead>SHA-256</TableHead>
+          <TableHead className="text-right">Size</TableHead>
+          <TableHead className="w-32" />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {files.length === 0 ? (
+          <TableRow>
+            <TableCell
+              colSpan={4}
+              className="h-24 text-center text-muted-foreground"
+            >
+              This dataset has no files yet.
+            </TableCell>
+          </TableRow>
+        ) : (
+          files.map((file) => (
+            <TableRow key={file.path}>
+              <TableCell className="font-mono text-xs">
+                <div className="flex items-center gap-2">
+                  <FilePreview file={file} />
+                  {file.path}
+                </div>
+              </TableCell>
+              <TableCell
+                className="font-mono text-xs text-muted-foreground"
+                title={file.hash}
+              >
+                {file.hash.slice(0, 12)}
+              </TableCell>
+              <TableCell className="text-right tabular-nums">
+                {formatBytes(file.size)}
+              </TableCell>
+              <TableCell className="flex justify-end gap-1">
+                <Button variant="ghost" size="icon" asChild>
+                  <a
+                    href={`/api/blobs/${file.hash}?name=${encodeURIComponent(file.path.split("/").pop()!)}`}
+                    download
+                    aria-label={`Download ${file.path}`}
+                  >
+                    <Download />
+                  </a>
+                </Button>
+                {detectFormat(file.path) &&
+                  detectFormat(file.path) !== "parquet" && (
+                    <Button variant="ghost" size="icon" asChild>
+                      <a
+                        href={`/api/datasets/${datasetId}/export?${new URLSearchParams({ path: file.path, ref: gitRef, format: "parquet" })}`}
+                        download
+                        aria-label={`Download ${file.path} as Parquet`}
+                        title="Download as Parquet"
+                      >
+                        <FileDown />
+                      </a>
+                    </Button>
+                  )}
+                {branch && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Remove ${file.path}`}
+                    onClick={() => onRemove(file.path, branch)}
+                  >
+                    <Trash2 />
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+    </Table>
+  );
+}
+
+const PREVIEWS = {
+  image: { kind: "thumbnail", className: "size-8 object-cover" },
+  video: { kind: "poster", className: "size-8 object-cover" },
+  audio: { kind: "waveform", className: "h-8 w-20 object-fill" },
+} as const;
+
+/** A small preview for media files; hidden if none can be made. */
+function FilePreview({ file }: { file: DatasetFile }) {
+  const [failed, setFailed] = useState(false);
+  const type = mediaType(file.path);
+  if (!type || failed) return null;
+  const { kind, className } = PREVIEWS[type];
+  const name = file.path.split("/").pop()!;
+  return (
+    <img
+      src={`/api/blobs/${file.hash}/${kind}?${new URLSearchParams({ name })}`}
+      alt=""
+      loading="lazy"
+      className={cn("shrink-0 rounded-sm bg-muted", className)}
+      onError={() => setFailed(true)}
+    />
+  );
+}
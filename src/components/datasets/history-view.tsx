@@ -0,0 +1,159 @@
+"use client";
+
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { FolderOpen, GitBranch, Tag, Workflow } from "lucide-react";
+
+import { RefFormDialog } from "@/components/datasets/ref-form-dialog";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { ContractStatus } from "@/lib/contracts";
+import { cn, formatBytes } from "@/lib/utils";
+import type { FileChange, HistoryEntry, Ref } from "@/lib/versioning";
+
+interface HistoryViewProps {
+  datasetId: string;
+  history: HistoryEntry[];
+  refs: Ref[];
+  /** How each commit fares against the dataset's contract, when it has one. */
+  contractStatuses?: Record<string, ContractStatus>;
+  /** Names of the pipelines that made commits, by commit id. */
+  lineage?: Record<string, string>;
+}
+
+const STATUS_STYLES: Record<FileChange["status"], string> = {
+  added: "text-emerald-600",
+  removed: "text-red-600",
+  modified: "text-amber-600",
+};
+
+export function HistoryView({
+  datasetId,
+  history,
+  refs,
+  contractStatuses = {},
+  lineage = {},
+}: HistoryViewProps) {
+  return (
+    <Accordion type="multiple" className="w-full">
+      {history.map((commit) => {
+        const labels = refs.filter((ref) => ref.commitId === commit.id);
+        return (
+          <AccordionItem key={commit.id} value={commit.id}>
+            <AccordionTrigger className="gap-4 hover:no-underline">
+              <div className="flex min-w-0 flex-1 flex-col items-start gap-1 text-left">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{commit.message}</span>
+                  {labels.map((ref) => (
+                    <Badge key={ref.name} variant="secondary" className="gap-1">
+                      {ref.kind === "tag" ? (
+                        <Tag className="size-3" />
+                      ) : (
+                        <GitBranch className="size-3" />
+                      )}
+                      {ref.name}
+                    </Badge>
+                  ))}
+                  {lineage[commit.id] && (
+                    <Badge variant="outline" className="gap-1 font-normal">
+                      <Workflow className="size-3" />
+                      {lineage[commit.id]}
+                    </Badge>
+                  )}
+                  {contractStatuses[commit.id] === "passed" && (
+                    <Badge variant="outline" className="font-normal">
+                      Contract passed
+                    </Badge>
+                  )}
+                  {contractStatuses[commit.id] === "failing" && (
+                    <Badge variant="destructive" className="font-normal">
+                      Contract failing
+                    </Badge>
+                  )}
+                </div>
+                <span className="text-xs font-normal text-muted-foreground">
+                  {commit.author} committed{" "}
+                  {formatDistanceToNow(new Date(commit.createdAt), {
+                    addSuffix: true,
+                  })}{" "}
+                  · {commit.changes.length} file change(s)
+                </span>
+              </div>
+              <span
+                className="font-mono text-xs text-muted-foreground"
+                title={commit.id}
+              >
+                {commit.id.slice(0, 12)}
+              </span>
+            </AccordionTrigger>
+            <AccordionContent className="space-y-3">
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" asChild>
+                  <Link href={`/datasets/${datasetId}?ref=${commit.id}`}>
+                    <FolderOpen /> Browse files
+                  </Link>
+                </Button>
+                <RefFormDialog
+                  datasetId={datasetId}
+                  commitId={commit.id}
+                  trigger={
+                    <Button variant="outline" size="sm">
+                      <Tag /> Tag or branch
+                    </Button>
+                  }
+                />
+              </div>
+              {commit.changes.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-24">Change</TableHead>
+                      <TableHead>Path</TableHead>
+                      <TableHead className="text-right">Size</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {commit.changes.map((change) => (
+                      <TableRow key={change.path}>
+                        <TableCell
+                          className={cn(
+                            "capitalize",
+                            STATUS_STYLES[change.status],
+                          )}
+                        >
+                          {change.status}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">
+                          {change.path}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {change.size !== undefined
+                            ? formatBytes(change.size)
+                            : "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </AccordionContent>
+          </AccordionItem>
+        );
+      })}
+    </Accordion>
+  );
+}
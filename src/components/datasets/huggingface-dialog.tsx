@@ -0,0 +1,215 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { formatDistanceToNow } from "date-fns";
+import { Download, FolderUp } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import { Separator } from "@/components/ui/separator";
+import type {
+  HuggingFaceExport,
+  HuggingFaceImportResult,
+} from "@/lib/huggingface";
+import { discardUpload, stageUpload } from "@/lib/staging";
+import { fetchJson, formatBytes, formatNumber } from "@/lib/utils";
+
+interface HuggingFaceDialogProps {
+  datasetId: string;
+  /** Commit that is exported. */
+  gitRef: string;
+  /** Branch an imported folder is committed to; import is hidden without one. */
+  branch?: string;
+}
+
+/**
+ * Moves data to and from Hugging Face tooling: downloads a version as a
+ * `datasets` folder, and imports such a folder, picked whole from disk.
+ */
+export function HuggingFaceDialog({
+  datasetId,
+  gitRef,
+  branch,
+}: HuggingFaceDialogProps) {
+  const router = useRouter();
+  const [exporting, setExporting] = useState(false);
+  const [exported, setExported] = useState<HuggingFaceExport | null>(null);
+  const [progress, setProgress] = useState<{
+    files: number;
+    total: number;
+    bytes: number;
+    totalBytes: number;
+  } | null>(null);
+  const abort = useRef<AbortController | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  async function onExport() {
+    setExporting(true);
+    try {
+      setExported(
+        await fetchJson<HuggingFaceExport>(
+          `/api/datasets/${datasetId}/huggingface/export`,
+          { method: "POST", body: JSON.stringify({ ref: gitRef }) },
+        ),
+      );
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  async function onFolderSelected(event: React.ChangeEvent<HTMLInputElement>) {
+    const files = [...(event.target.files ?? [])];
+    event.target.value = "";
+    if (!branch || files.length === 0) return;
+    const controller = new AbortController();
+    abort.current = controller;
+    const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+    const staged: { uploadId: string; path: string }[] = [];
+    let done = 0;
+    setProgress({ files: 0, total: files.length, bytes: 0, totalBytes });
+    try {
+      for (const file of files) {
+        const uploadId = await stageUpload(file, {
+          datasetId,
+          branch,
+          signal: controller.signal,
+          onProgress: (phase, bytes) =>
+            phase === "uploading" &&
+            setProgress({
+              files: staged.length,
+              total: files.length,
+              bytes: done + bytes,
+              totalBytes,
+            }),
+        });
+        // Paths are relative to the picked folder, which is not part of them.
+        staged.push({
+          uploadId,
+          path: file.webkitRelativePath.split("/").slice(1).join("/"),
+        });
+        done += file.size;
+      }
+      const result = await fetchJson<HuggingFaceImportResult>(
+        `/api/datasets/${datasetId}/huggingface`,
+        { method: "POST", body: JSON.stringify({ files: staged }) },
+      );
+      toast.success(
+        `Imported ${result.splits.map((split) => `${split.name} (${formatNumber(split.files.length)} files)`).join(", ")}`,
+      );
+      router.refresh();
+    } catch (error) {
+      if (!controller.signal.aborted) toast.error((error as Error).message);
+      for (const { uploadId } of staged) {
+        discardUpload(uploadId).catch(() => undefined);
+      }
+    } finally {
+      abort.current = null;
+      setProgress(null);
+    }
+  }
+
+  return (
+    <Dialog
+      onOpenChange={(open) => {
+        if (!open) {
+          abort.current?.abort();
+          setExported(null);
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">Hugging Face</Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Hugging Face datasets</DialogTitle>
+          <DialogDescription>
+            The layout <span className="font-mono">datasets</span> loads and the
+            Hub serves: Parquet files per split and a README.md dataset card.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Export</h3>
+          <p className="text-sm text-muted-foreground">
+            Each split of this version becomes one Parquet file, as shown on the
+            Splits tab.
+          </p>
+          {exported ? (
+            <div className="space-y-1.5">
+              <Button variant="outline" asChild>
+                <a
+                  href={`/api/blobs/${exported.archive.hash}?${new URLSearchParams({ name: exported.archive.name })}`}
+                  download={exported.archive.name}
+                >
+                  <Download /> {exported.archive.name} (
+                  {formatBytes(exported.archive.size)})
+                </a>
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                Kept for {formatDistanceToNow(new Date(exported.expiresAt))}.
+              </p>
+            </div>
+          ) : (
+            <Button variant="outline" onClick={onExport} disabled={exporting}>
+              <Download /> {exporting ? "Exporting…" : "Export folder as tar"}
+            </Button>
+          )}
+        </div>
+        {branch && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Import</h3>
+              <p className="text-sm text-muted-foreground">
+                Splits are read from the dataset card, or from file names
+                without one, and committed to {branch}.
+              </p>
+              <input
+                ref={(input) => {
+                  inputRef.current = input;
+                  // React has no prop for picking directories.
+                  input?.setAttribute("webkitdirectory", "");
+                }}
+                type="file"
+                hidden
+                onChange={onFolderSelected}
+              />
+              {progress ? (
+                <div className="space-y-1.5">
+                  <Progress
+                    value={(progress.bytes / (progress.totalBytes || 1)) * 100}
+                  />
+                  <p className="text-xs tabular-nums text-muted-foreground">
+                    {formatNumber(progress.files)} /{" "}
+                    {formatNumber(progress.total)} files ·{" "}
+                    {formatBytes(progress.bytes)} /{" "}
+                    {formatBytes(progress.totalBytes)}
+                  </p>
+                </div>
+              ) : (
+                <Button
+                  variant="outline"
+                  onClick={() => inputRef.current?.click()}
+                >
+                  <FolderUp /> Choose a folder
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,378 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+
+import { AspectRatio } from "@/components/ui/aspect-ratio";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type {
+  AnnotationFormat,
+  ImageLabel,
+  ImagePage,
+  ImageSample,
+} from "@/lib/annotations";
+import { fetchJson, formatNumber } from "@/lib/utils";
+
+const PAGE_SIZE = 60;
+/** Slides left before the end of the carousel at which the next page loads. */
+const PREFETCH_SLIDES = 3;
+
+const FORMAT_LABELS: Record<AnnotationFormat, string> = {
+  coco: "COCO",
+  voc: "Pascal VOC",
+  yolo: "YOLO",
+};
+
+interface ImageGalleryProps {
+  datasetId: string;
+  gitRef: string;
+}
+
+/**
+ * A grid of the images in a dataset version with their bounding boxes drawn
+ * over them, filterable by class, and a full-screen carousel for stepping
+ * through them one at a time.
+ */
+export function ImageGallery({ datasetId, gitRef }: ImageGalleryProps) {
+  const [samples, setSamples] = useState<ImageSample[]>([]);
+  const [labels, setLabels] = useState<ImageLabel[]>([]);
+  const [formats, setFormats] = useState<AnnotationFormat[]>([]);
+  const [total, setTotal] = useState<number | null>(null);
+  const [commit, setCommit] = useState<string | null>(null);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [filter, setFilter] = useState<string[]>([]);
+  const [showBoxes, setShowBoxes] = useState(true);
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  // Guards against a late response from a previous filter overwriting state.
+  const requestId = useRef(0);
+  const sentinel = useRef<HTMLDivElement>(null);
+
+  const loadPage = useCallback(
+    async (from: { commit: string | null; offset: number }) => {
+      const id = requestId.current;
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({
+          ref: from.commit ?? gitRef,
+          offset: String(from.offset),
+          limit: String(PAGE_SIZE),
+        });
+        for (const label of filter) params.append("label", label);
+        const page = await fetchJson<ImagePage>(
+          `/api/datasets/${datasetId}/images?${params}`,
+        );
+        if (id !== requestId.current) return;
+        setCommit(page.commit);
+        setLabels(page.labels);
+        setFormats(page.formats);
+        setTotal(page.total);
+        setSamples((previous) => [...previous, ...page.samples]);
+        setNextOffset(page.nextOffset);
+      } catch (error) {
+        if (id !== requestId.current) return;
+        setNextOffset(null);
+        toast.error((error as Error).message);
+      } finally {
+        if (id === requestId.current) setLoading(false);
+      }
+    },
+    [datasetId, gitRef, filter],
+  );
+
+  useEffect(() => {
+    requestId.current++;
+    setSamples([]);
+    setTotal(null);
+    setCommit(null);
+    setNextOffset(null);
+    setOpenIndex(null);
+    loadPage({ commit: null, offset: 0 });
+  }, [loadPage]);
+
+  const loadMore = useCallback(() => {
+    if (!loading && nextOffset !== null) {
+      loadPage({ commit, offset: nextOffset });
+    }
+  }, [loading, nextOffset, commit, loadPage]);
+
+  useEffect(() => {
+    const element = sentinel.current;
+    if (!element) return;
+    const observer = new IntersectionObserver(
+      ([entry]) => entry.isIntersecting && loadMore(),
+      { rootMargin: "400px" },
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [loadMore]);
+
+  function toggleLabel(name: string) {
+    setFilter((current) =>
+      current.includes(name)
+        ? current.filter((label) => label !== name)
+        : [...current, name],
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
+        <span>
+          {total === null
+            ? "Indexing images…"
+            : `${formatNumber(total)} images`}
+          {formats.length > 0 &&
+            ` · ${formats.map((format) => FORMAT_LABELS[format]).join(", ")} annotations`}
+        </span>
+        <div className="ml-auto flex items-center gap-2">
+          <Switch
+            id="gallery-show-boxes"
+            checked={showBoxes}
+            onCheckedChange={setShowBoxes}
+          />
+          <Label htmlFor="gallery-show-boxes">Show boxes</Label>
+        </div>
+      </div>
+
+      {labels.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {labels.map((label) => {
+            const active = filter.includes(label.name);
+            return (
+              <button
+                key={label.name}
+                type="button"
+                aria-pressed={active}
+                onClick={() => toggleLabel(label.name)}
+              >
+                <Badge
+                  variant={active ? "default" : "outline"}
+                  className="gap-1.5 font-normal"
+                >
+                  <span
+                    className="size-2 rounded-full"
+                    style={{ backgroundColor: labelColor(label.name) }}
+                  />
+                  {label.name}
+                  <span className="tabular-nums opacity-70">
+                    {formatNumber(label.images)}
+                  </span>
+                </Badge>
+              </button>
+            );
+          })}
+          {filter.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => setFilter([])}>
+              Clear filter
+            </Button>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-4 lg:grid-cols-6">
+        {samples.map((sample, index) => (
+          <button
+            key={sample.path}
+            type="button"
+            title={sample.path}
+            className="overflow-hidden rounded-md border bg-muted"
+            onClick={() => setOpenIndex(index)}
+          >
+            <AspectRatio ratio={1}>
+              <AnnotatedImage sample={sample} showBoxes={showBoxes} thumbnail />
+            </AspectRatio>
+          </button>
+        ))}
+      </div>
+      <div ref={sentinel} className="text-xs text-muted-foreground">
+        {loading && "Loading…"}
+      </div>
+
+      <Dialog
+        open={openIndex !== null}
+        onOpenChange={(open) => !open && setOpenIndex(null)}
+      >
+        <DialogContent className="flex h-[90vh] max-w-[90vw] flex-col">
+          {openIndex !== null && (
+            <SampleCarousel
+              samples={samples}
+              total={total ?? samples.length}
+              startIndex={openIndex}
+              showBoxes={showBoxes}
+              onNearEnd={loadMore}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function SampleCarousel({
+  samples,
+  total,
+  startIndex,
+  showBoxes,
+  onNearEnd,
+}: {
+  samples: ImageSample[];
+  total: number;
+  startIndex: number;
+  showBoxes: boolean;
+  onNearEnd: () => void;
+}) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [index, setIndex] = useState(startIndex);
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => setIndex(api.selectedScrollSnap());
+    api.on("select", onSelect);
+    return () => {
+      api.off("select", onSelect);
+    };
+  }, [api]);
+
+  useEffect(() => {
+    if (index >= samples.length - PREFETCH_SLIDES) onNearEnd();
+  }, [index, samples.length, onNearEnd]);
+
+  const sample = samples[index];
+
+  return (
+    <>
+      <div className="space-y-1 pr-8">
+        <DialogTitle className="truncate font-mono text-sm">
+          {sample?.path}
+        </DialogTitle>
+        <DialogDescription className="tabular-nums">
+          {formatNumber(index + 1)} of {formatNumber(total)}
+          {sample && ` · ${formatNumber(sample.boxes.length)} boxes`}
+        </DialogDescription>
+      </div>
+      <Carousel
+        setApi={setApi}
+        opts={{ startIndex }}
+        className="min-h-0 flex-1 [&>div]:h-full"
+      >
+        <CarouselContent className="h-full">
+          {samples.map((sample) => (
+            <CarouselItem key={sample.path} className="h-full">
+              <AnnotatedImage
+                sample={sample}
+                showBoxes={showBoxes}
+                showLabels
+              />
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        <CarouselPrevious className="left-2" />
+        <CarouselNext className="right-2" />
+      </Carousel>
+    </>
+  );
+}
+
+/**
+ * An image scaled to fit its container, with its boxes drawn over it. With
+ * `thumbnail`, the stored preview is shown instead of the original, falling
+ * back to the original if there is none.
+ */
+function AnnotatedImage({
+  sample,
+  showBoxes,
+  showLabels = false,
+  thumbnail = false,
+}: {
+  sample: ImageSample;
+  showBoxes: boolean;
+  showLabels?: boolean;
+  thumbnail?: boolean;
+}) {
+  const [useThumbnail, setUseThumbnail] = useState(thumbnail);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(
+    null,
+  );
+  const name = sample.path.split("/").pop()!;
+  // Label text is sized relative to the image so it scales with the boxes.
+  const fontSize = size ? Math.max(size.width, size.height) * 0.025 : 0;
+
+  return (
+    <div className="relative h-full w-full">
+      <img
+        src={`/api/blobs/${sample.hash}${useThumbnail ? "/thumbnail" : ""}?${new URLSearchParams({ name })}`}
+        alt={sample.path}
+        loading="lazy"
+        className="h-full w-full object-contain"
+        onError={() => setUseThumbnail(false)}
+        onLoad={(event) =>
+          setSize({
+            width: event.currentTarget.naturalWidth,
+            height: event.currentTarget.naturalHeight,
+          })
+        }
+      />
+      {showBoxes && size && sample.boxes.length > 0 && (
+        // Matches `object-contain`, so box coordinates stay in image pixels.
+        <svg
+          className="pointer-events-none absolute inset-0 h-full w-full"
+          viewBox={`0 0 ${size.width} ${size.height}`}
+          preserveAspectRatio="xMidYMid meet"
+        >
+          {sample.boxes.map((box, i) => (
+            <g key={i} stroke={labelColor(box.label)}>
+              <rect
+                x={box.x * size.width}
+                y={box.y * size.height}
+                width={box.width * size.width}
+                height={box.height * size.height}
+                fill="none"
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              >
+                <title>{box.label}</title>
+              </rect>
+              {showLabels && (
+                <text
+                  x={box.x * size.width}
+                  y={box.y * size.height - fontSize * 0.3}
+                  fontSize={fontSize}
+                  fill={labelColor(box.label)}
+                  stroke="none"
+                  className="font-sans font-medium"
+                >
+                  {box.label}
+                </text>
+              )}
+            </g>
+          ))}
+        </svg>
+      )}
+    </div>
+  );
+}
+
+/** A stable colour per class name. */
+function labelColor(label: string): string {
+  let hash = 0;
+  for (const char of label) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return `hsl(${Math.abs(hash) % 360} 90% 55%)`;
+}
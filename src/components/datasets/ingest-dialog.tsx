@@ -0,0 +1,314 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { AlertTriangle, FileJson } from "lucide-react";
+import { toast } from "sonner";
+
+import { SchemaTable } from "@/components/datasets/schema-view";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { IngestReport, IngestResult } from "@/lib/ingest";
+import { discardUpload, stageUpload } from "@/lib/staging";
+import { fetchJson, formatBytes, formatNumber } from "@/lib/utils";
+
+type Step =
+  "select" | "hashing" | "uploading" | "validating" | "report" | "committing";
+
+const STEP_LABELS: Partial<Record<Step, string>> = {
+  hashing: "Computing checksum",
+  uploading: "Uploading",
+  validating: "Validating lines",
+};
+
+interface IngestDialogProps {
+  datasetId: string;
+  /** Branch the ingested file is committed to. */
+  branch: string;
+}
+
+/**
+ * Uploads a JSONL file without committing it, shows the per-line validation
+ * report, and commits it once the user has reviewed malformed lines.
+ */
+export function IngestDialog({ datasetId, branch }: IngestDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<Step>("select");
+  const [file, setFile] = useState<File | null>(null);
+  const [bytes, setBytes] = useState(0);
+  const [report, setReport] = useState<IngestReport | null>(null);
+  const [quarantine, setQuarantine] = useState(true);
+  const abort = useRef<AbortController | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  function reset() {
+    abort.current = null;
+    setStep("select");
+    setFile(null);
+    setBytes(0);
+    setReport(null);
+    setQuarantine(true);
+  }
+
+  /** Stops a running upload or drops the staged one so it is not kept. */
+  function discard() {
+    abort.current?.abort();
+    if (report) discardUpload(report.uploadId).catch(() => undefined);
+    reset();
+  }
+
+  function onOpenChange(next: boolean) {
+    if (!next && step !== "committing") discard();
+    setOpen(next);
+  }
+
+  async function onFileSelected(event: React.ChangeEvent<HTMLInputElement>) {
+    const selected = event.target.files?.[0];
+    event.target.value = "";
+    if (!selected) return;
+    const controller = new AbortController();
+    abort.current = controller;
+    setFile(selected);
+    setStep("hashing");
+    let uploadId: string | null = null;
+    try {
+      uploadId = await stageUpload(selected, {
+        datasetId,
+        branch,
+        signal: controller.signal,
+        onProgress: (phase, sent) => {
+          setStep(phase);
+          setBytes(sent);
+        },
+      });
+      setStep("validating");
+      const { report } = await fetchJson<IngestResult>(
+        `/api/datasets/${datasetId}/ingest`,
+        {
+          method: "POST",
+          body: JSON.stringify({ uploadId, dryRun: true }),
+        },
+      );
+      setReport(report);
+      setStep("report");
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      toast.error((error as Error).message);
+      if (uploadId) discardUpload(uploadId).catch(() => undefined);
+      reset();
+    }
+  }
+
+  async function commit() {
+    if (!report) return;
+    setStep("committing");
+    try {
+      const result = await fetchJson<IngestResult>(
+        `/api/datasets/${datasetId}/ingest`,
+        {
+          method: "POST",
+          body: JSON.stringify({ uploadId: report.uploadId, quarantine }),
+        },
+      );
+      toast.success(
+        result.quarantinePath
+          ? `Committed ${report.path}; malformed lines are in ${result.quarantinePath}`
+          : `Committed ${report.path}`,
+      );
+      reset();
+      setOpen(false);
+      router.refresh();
+    } catch (error) {
+      toast.error((error as Error).message);
+      setStep("report");
+    }
+  }
+
+  const busy = STEP_LABELS[step];
+  const blocked = !!report && report.invalidLines > 0 && !quarantine;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <FileJson /> Import JSONL
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import JSONL</DialogTitle>
+          <DialogDescription>
+            Every line is checked before anything is committed to {branch}.
+          </DialogDescription>
+        </DialogHeader>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".jsonl,.ndjson"
+          hidden
+          onChange={onFileSelected}
+        />
+
+        {step === "select" && (
+          <Button variant="outline" onClick={() => inputRef.current?.click()}>
+            Choose a file
+          </Button>
+        )}
+
+        {busy && file && (
+          <div className="space-y-1.5 text-sm">
+            <div className="flex justify-between gap-2">
+              <span className="truncate font-medium">{file.name}</span>
+              <span className="shrink-0 text-muted-foreground">{busy}</span>
+            </div>
+            <Progress
+              value={
+                step === "validating" ? 100 : (bytes / (file.size || 1)) * 100
+              }
+            />
+            <p className="text-xs text-muted-foreground tabular-nums">
+              {formatBytes(bytes)} / {formatBytes(file.size)}
+            </p>
+          </div>
+        )}
+
+        {report && (step === "report" || step === "committing") && (
+          <IngestReportView report={report} />
+        )}
+
+        {report && report.invalidLines > 0 && (
+          <div className="flex items-start gap-3">
+            <Switch
+              id="ingest-quarantine"
+              checked={quarantine}
+              onCheckedChange={setQuarantine}
+            />
+            <div className="space-y-1">
+              <Label htmlFor="ingest-quarantine">
+                Quarantine malformed lines
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Valid lines are committed to {report.path}; malformed ones go to
+                quarantine/{report.path} with their line numbers and errors.
+              </p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={commit}
+            disabled={step !== "report" || blocked}
+            title={blocked ? "Quarantine or fix the malformed lines" : ""}
+          >
+            {step === "committing"
+              ? "Committing…"
+              : report?.invalidLines && quarantine
+                ? `Commit ${formatNumber(report.validRows)} rows`
+                : "Commit"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function IngestReportView({ report }: { report: IngestReport }) {
+  const stats = [
+    { label: "Lines", value: report.totalLines },
+    { label: "Valid rows", value: report.validRows },
+    { label: "Malformed", value: report.invalidLines },
+    { label: "Blank", value: report.blankLines },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <dl className="grid grid-cols-4 gap-2">
+        {stats.map((stat) => (
+          <div key={stat.label} className="rounded-md border px-3 py-2">
+            <dt className="text-xs text-muted-foreground">{stat.label}</dt>
+            <dd className="text-lg font-semibold tabular-nums">
+              {formatNumber(stat.value)}
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      {report.invalidLines > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="size-4" />
+          <AlertTitle>
+            {formatNumber(report.invalidLines)} malformed lines
+          </AlertTitle>
+          <AlertDescription>
+            {report.truncated
+              ? `Showing the first ${formatNumber(report.issues.length)}.`
+              : "Each line must be a single JSON object."}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {report.issues.length > 0 && (
+        <ScrollArea className="h-56 rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-20">Line</TableHead>
+                <TableHead>Error</TableHead>
+                <TableHead>Snippet</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.issues.map((issue) => (
+                <TableRow key={issue.line}>
+                  <TableCell className="tabular-nums">{issue.line}</TableCell>
+                  <TableCell className="text-xs">{issue.error}</TableCell>
+                  <TableCell
+                    className="max-w-64 truncate font-mono text-xs"
+                    title={issue.snippet}
+                  >
+                    {issue.snippet}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      )}
+
+      {report.fields.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Unified schema</h3>
+          <ScrollArea className="h-48 rounded-md border">
+            <SchemaTable fields={report.fields} />
+          </ScrollArea>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,393 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Scissors } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { usePolledJson } from "@/hooks/use-polled-json";
+import { languageName } from "@/lib/language/names";
+import type {
+  LanguageCarveResult,
+  LanguageCount,
+  LanguageReport,
+} from "@/lib/language/tags";
+import { languageCarveSchema } from "@/lib/schemas";
+import { fetchJson, formatNumber } from "@/lib/utils";
+
+const languageConfig = {
+  rows: { label: "Rows", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const scriptConfig = {
+  rows: { label: "Rows", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+// The version is the report's; the rest is filled in by the user.
+const carveFormSchema = languageCarveSchema.omit({
+  commit: true,
+  type: true,
+  tokenizerId: true,
+});
+
+function formatPercent(part: number, whole: number) {
+  return `${(whole > 0 ? (part / whole) * 100 : 0).toFixed(1)}%`;
+}
+
+interface LanguageViewProps {
+  datasetId: string;
+  datasetName: string;
+  /** Owner new datasets carved from this one default to. */
+  owner: string;
+  gitRef: string;
+}
+
+/**
+ * Language and script distribution of a dataset version, identified row by
+ * row in the background on first view. Rows in chosen languages can be
+ * carved out into a new dataset.
+ */
+export function LanguageView({
+  datasetId,
+  datasetName,
+  owner,
+  gitRef,
+}: LanguageViewProps) {
+  const report = usePolledJson<LanguageReport>(
+    `/api/datasets/${datasetId}/languages?${new URLSearchParams({ ref: gitRef })}`,
+  );
+
+  if (!report || report.status === "running") {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {report ? "Identifying languages…" : "Loading languages…"}
+      </p>
+    );
+  }
+  if (report.status === "failed") {
+    return (
+      <p className="text-sm text-destructive">
+        Language identification failed: {report.error}
+      </p>
+    );
+  }
+  if (report.rows === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        This version has no rows to identify.
+      </p>
+    );
+  }
+
+  const languages = report.languages.map((count) => ({
+    ...count,
+    name: languageName(count.code),
+  }));
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 lg:grid-cols-[2fr_1fr]">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Languages</CardTitle>
+            <CardDescription>
+              {formatNumber(report.rows)} rows in{" "}
+              {formatNumber(report.languages.length)} languages
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={languageConfig} className="h-64 w-full">
+              <BarChart data={languages}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="code" tickLine={false} axisLine={false} />
+                <YAxis
+                  allowDecimals={false}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) => payload[0]?.payload.name}
+                    />
+                  }
+                />
+                <Bar dataKey="rows" fill="var(--color-rows)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Scripts</CardTitle>
+            <CardDescription>
+              Writing system most of a row&apos;s letters are in
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={scriptConfig} className="h-64 w-full">
+              <BarChart data={report.scripts}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="script" tickLine={false} axisLine={false} />
+                <YAxis
+                  allowDecimals={false}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="rows" fill="var(--color-rows)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Language</TableHead>
+            <TableHead className="text-right">Rows</TableHead>
+            <TableHead className="text-right">Share</TableHead>
+            <TableHead className="text-right">Mean confidence</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {languages.map((count) => (
+            <TableRow key={count.code}>
+              <TableCell>
+                {count.name}{" "}
+                <span className="font-mono text-xs text-muted-foreground">
+                  {count.code}
+                </span>
+              </TableCell>
+              <TableCell className="text-right tabular-nums">
+                {formatNumber(count.rows)}
+              </TableCell>
+              <TableCell className="text-right tabular-nums">
+                {formatPercent(count.rows, report.rows)}
+              </TableCell>
+              <TableCell className="text-right tabular-nums">
+                {count.meanConfidence.toFixed(2)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <CarveCard
+        datasetId={datasetId}
+        datasetName={datasetName}
+        owner={owner}
+        commit={report.commit}
+        languages={report.languages}
+      />
+    </div>
+  );
+}
+
+function CarveCard({
+  datasetId,
+  datasetName,
+  owner,
+  commit,
+  languages,
+}: {
+  datasetId: string;
+  datasetName: string;
+  owner: string;
+  commit: string;
+  languages: LanguageCount[];
+}) {
+  const router = useRouter();
+  const form = useForm<
+    z.input<typeof carveFormSchema>,
+    unknown,
+    z.output<typeof carveFormSchema>
+  >({
+    resolver: zodResolver(carveFormSchema),
+    defaultValues: {
+      name: "",
+      description: "",
+      owner,
+      languages: [],
+      minConfidence: 0,
+    },
+  });
+
+  async function onSubmit(values: z.output<typeof carveFormSchema>) {
+    try {
+      const carved = await fetchJson<LanguageCarveResult>(
+        `/api/datasets/${datasetId}/languages`,
+        { method: "POST", body: JSON.stringify({ ...values, commit }) },
+      );
+      toast.success(
+        `Created ${carved.dataset.name} with ${formatNumber(carved.rows)} rows`,
+        {
+          action: {
+            label: "Open",
+            onClick: () => router.push(`/datasets/${carved.dataset.id}`),
+          },
+        },
+      );
+      form.reset();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Carve out</CardTitle>
+        <CardDescription>
+          Creates a dataset from the rows of this version in the languages
+          chosen. Files keep their paths and formats.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="languages"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Languages</FormLabel>
+                  <div className="grid gap-2 sm:grid-cols-4">
+                    {languages.map(({ code }) => (
+                      <label
+                        key={code}
+                        className="flex items-center gap-2 text-sm"
+                      >
+                        <Checkbox
+                          checked={field.value?.includes(code)}
+                          onCheckedChange={(checked) => {
+                            const next = checked
+                              ? [...(field.value ?? []), code]
+                              : (field.value ?? []).filter((c) => c !== code);
+                            field.onChange(next);
+                            if (!form.getFieldState("name").isDirty) {
+                              form.setValue(
+                                "name",
+                                next.length > 0
+                                  ? `${datasetName}-${next.join("-")}`
+                                  : "",
+                              );
+                            }
+                          }}
+                        />
+                        {languageName(code)}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid gap-4 sm:grid-cols-3">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="owner"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Owner</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="minConfidence"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum confidence</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        {...field}
+                        value={String(field.value ?? "")}
+                      />
+                    </FormControl>
+                    <FormDescription>0 keeps every tagged row</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" disabled={form.formState.isSubmitting}>
+              <Scissors /> Create dataset
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,470 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ChevronLeft, ChevronRight, ScanSearch } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { usePolledJson } from "@/hooks/use-polled-json";
+import type { PiiRedactResult, PiiResult, PiiRow } from "@/lib/pii";
+import {
+  DEFAULT_PII_TOKENS,
+  PII_REPLACEMENTS,
+  PII_TYPES,
+  piiOptionsSchema,
+  type PiiOptions,
+  type PiiReplacement,
+  type PiiType,
+} from "@/lib/schemas";
+import { fetchJson, formatNumber } from "@/lib/utils";
+
+const PAGE_SIZE = 20;
+
+const TYPE_LABELS: Record<PiiType, string> = {
+  email: "Email addresses",
+  phone: "Phone numbers",
+  ip_address: "IP addresses",
+  credit_card: "Card numbers",
+  national_id: "National IDs",
+  secret: "Secrets",
+};
+
+const REPLACEMENT_LABELS: Record<PiiReplacement, string> = {
+  token: "Replace with a token",
+  hash: "Replace with a digest",
+  mask: "Mask characters",
+};
+
+// The form takes columns as one comma-separated field.
+const scanFormSchema = piiOptionsSchema.extend({
+  columns: z.string().trim().max(2000),
+});
+
+interface PiiViewProps {
+  datasetId: string;
+  gitRef: string;
+  /** Branch redactions are committed to; reviewing only without one. */
+  branch?: string;
+}
+
+/**
+ * PII report of a dataset version, scanned in the background for the kinds
+ * chosen, with each flagged row's findings highlighted. The findings can be
+ * redacted into a new commit.
+ */
+export function PiiView({ datasetId, gitRef, branch }: PiiViewProps) {
+  const router = useRouter();
+  const [options, setOptions] = useState<PiiOptions | null>(null);
+  const [type, setType] = useState<PiiType | "all">("all");
+  const [offset, setOffset] = useState(0);
+  const [replacement, setReplacement] = useState<PiiReplacement>("token");
+  const [tokens, setTokens] = useState<Partial<Record<PiiType, string>>>({});
+  const [committing, setCommitting] = useState(false);
+  const form = useForm<
+    z.input<typeof scanFormSchema>,
+    unknown,
+    z.output<typeof scanFormSchema>
+  >({
+    resolver: zodResolver(scanFormSchema),
+    defaultValues: { columns: "", types: [...PII_TYPES] },
+  });
+
+  const result = usePolledJson<PiiResult>(
+    options &&
+      `/api/datasets/${datasetId}/pii?${new URLSearchParams({
+        ref: gitRef,
+        columns: options.columns.join(","),
+        types: options.types.join(","),
+        ...(type !== "all" && { type }),
+        offset: String(offset),
+        limit: String(PAGE_SIZE),
+      })}`,
+  );
+
+  function onScan(values: z.output<typeof scanFormSchema>) {
+    setOptions({
+      ...values,
+      columns: values.columns
+        .split(",")
+        .map((column) => column.trim())
+        .filter(Boolean),
+    });
+    setType("all");
+    setOffset(0);
+  }
+
+  async function redact() {
+    if (!result || !options) return;
+    setCommitting(true);
+    try {
+      const redacted = await fetchJson<PiiRedactResult>(
+        `/api/datasets/${datasetId}/pii`,
+        {
+          method: "POST",
+          body: JSON.stringify({
+            commit: result.commit,
+            options,
+            branch,
+            replacement,
+            tokens: Object.fromEntries(
+              Object.entries(tokens).filter(([, token]) => token?.trim()),
+            ),
+          }),
+        },
+      );
+      toast.success(redacted.commit.message);
+      router.refresh();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setCommitting(false);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>PII scan</CardTitle>
+          <CardDescription>
+            Finds personal data and secrets in the text of every row with local
+            rules. Card numbers are Luhn-checked and CPF numbers checksummed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onScan)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="types"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Look for</FormLabel>
+                    <div className="grid gap-2 sm:grid-cols-3">
+                      {PII_TYPES.map((value) => (
+                        <label
+                          key={value}
+                          className="flex items-center gap-2 text-sm"
+                        >
+                          <Checkbox
+                            checked={field.value?.includes(value)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...(field.value ?? []), value]
+                                  : field.value?.filter((t) => t !== value),
+                              )
+                            }
+                          />
+                          {TYPE_LABELS[value]}
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid gap-4 sm:grid-cols-[1fr_auto] sm:items-end">
+                <FormField
+                  control={form.control}
+                  name="columns"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Columns</FormLabel>
+                      <FormControl>
+                        <Input placeholder="All text" {...field} />
+                      </FormControl>
+                      <FormDescription>Comma-separated</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="sm:mb-7">
+                  <ScanSearch /> Scan
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      {options &&
+        (!result || result.status === "running" ? (
+          <p className="text-sm text-muted-foreground">
+            {result ? "Scanning for PII…" : "Loading the report…"}
+          </p>
+        ) : !result.summary ? (
+          <p className="text-sm text-destructive">
+            The scan failed: {result.error}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <dl className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+              {[
+                { label: "Rows", value: result.summary.rows },
+                { label: "Rows with PII", value: result.summary.flaggedRows },
+                { label: "Findings", value: result.summary.findings },
+                {
+                  label: "Columns affected",
+                  value: result.summary.byColumn.length,
+                },
+              ].map((tile) => (
+                <div key={tile.label} className="rounded-md border px-3 py-2">
+                  <dt className="text-xs text-muted-foreground">
+                    {tile.label}
+                  </dt>
+                  <dd className="text-lg font-semibold tabular-nums">
+                    {formatNumber(tile.value)}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+            <div className="flex flex-wrap gap-2">
+              {result.options.types.map((value) => (
+                <Badge
+                  key={value}
+                  variant={
+                    result.summary!.byType[value] > 0
+                      ? "destructive"
+                      : "secondary"
+                  }
+                  className="font-normal"
+                >
+                  {TYPE_LABELS[value]}:{" "}
+                  {formatNumber(result.summary!.byType[value])}
+                </Badge>
+              ))}
+              {result.summary.byColumn.map(({ column, count }) => (
+                <Badge key={column} variant="outline" className="font-normal">
+                  {column}: {formatNumber(count)}
+                </Badge>
+              ))}
+            </div>
+
+            {branch && result.summary.findings > 0 && (
+              <RedactCard
+                types={result.options.types}
+                replacement={replacement}
+                tokens={tokens}
+                committing={committing}
+                branch={branch}
+                onReplacement={setReplacement}
+                onTokens={setTokens}
+                onRedact={redact}
+              />
+            )}
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Select
+                value={type}
+                onValueChange={(value) => {
+                  setType(value as PiiType | "all");
+                  setOffset(0);
+                }}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All findings</SelectItem>
+                  {result.options.types.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {TYPE_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-muted-foreground">
+                {result.total === 0
+                  ? "No rows"
+                  : `${formatNumber(offset + 1)}–${formatNumber(offset + result.rows.length)} of ${formatNumber(result.total)} rows`}
+              </span>
+              <Button
+                variant="outline"
+                size="icon"
+                aria-label="Previous rows"
+                disabled={offset === 0}
+                onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+              >
+                <ChevronLeft />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                aria-label="Next rows"
+                disabled={offset + PAGE_SIZE >= result.total}
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+              >
+                <ChevronRight />
+              </Button>
+            </div>
+            {result.rows.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-56">Row</TableHead>
+                    <TableHead>Findings</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.rows.map((row) => (
+                    <FindingRow key={`${row.path}:${row.row}`} row={row} />
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        ))}
+    </div>
+  );
+}
+
+function FindingRow({ row }: { row: PiiRow }) {
+  const hidden = row.count - row.findings.length;
+  return (
+    <TableRow>
+      <TableCell className="align-top font-mono text-xs">
+        {row.path} · row {formatNumber(row.row + 1)}
+      </TableCell>
+      <TableCell className="space-y-2">
+        {row.findings.map((finding) => (
+          <div
+            key={`${finding.field}:${finding.start}`}
+            className="flex items-start gap-2 text-sm"
+          >
+            <Badge variant="outline" className="shrink-0 font-normal">
+              {finding.rule}
+            </Badge>
+            <span className="min-w-0 break-words">
+              <span className="font-mono text-xs text-muted-foreground">
+                {finding.field}:{" "}
+              </span>
+              {finding.before}
+              <mark className="rounded bg-destructive/20 px-0.5 text-foreground">
+                {finding.value}
+              </mark>
+              {finding.after}
+            </span>
+          </div>
+        ))}
+        {hidden > 0 && (
+          <p className="text-xs text-muted-foreground">
+            And {formatNumber(hidden)} more, redacted with the rest.
+          </p>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+}
+
+function RedactCard({
+  types,
+  replacement,
+  tokens,
+  committing,
+  branch,
+  onReplacement,
+  onTokens,
+  onRedact,
+}: {
+  types: PiiType[];
+  replacement: PiiReplacement;
+  tokens: Partial<Record<PiiType, string>>;
+  committing: boolean;
+  branch: string;
+  onReplacement: (replacement: PiiReplacement) => void;
+  onTokens: (tokens: Partial<Record<PiiType, string>>) => void;
+  onRedact: () => void;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Redact</CardTitle>
+        <CardDescription>
+          Commits {branch} with every finding replaced. Digests are the same for
+          the same value, so redacted rows can still be joined on them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-2">
+          <Select
+            value={replacement}
+            onValueChange={(value) => onReplacement(value as PiiReplacement)}
+          >
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PII_REPLACEMENTS.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {REPLACEMENT_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button disabled={committing} onClick={onRedact}>
+            Redact and commit
+          </Button>
+        </div>
+        {replacement === "token" && (
+          <div className="grid gap-3 sm:grid-cols-3">
+            {types.map((value) => (
+              <div key={value} className="space-y-1">
+                <Label htmlFor={`pii-token-${value}`}>
+                  {TYPE_LABELS[value]}
+                </Label>
+                <Input
+                  id={`pii-token-${value}`}
+                  placeholder={DEFAULT_PII_TOKENS[value]}
+                  value={tokens[value] ?? ""}
+                  onChange={(event) =>
+                    onTokens({ ...tokens, [value]: event.target.value })
+                  }
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,1154 @@
+"use client";
+
+import { useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  useFieldArray,
+  useForm,
+  useWatch,
+  type Control,
+} from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { formatDistanceToNow } from "date-fns";
+import {
+  ArrowDown,
+  ArrowUp,
+  Download,
+  Play,
+  Plus,
+  Upload,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+import type { z } from "zod";
+
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import type { Pipeline, PipelineRun, PipelineRunResult } from "@/lib/pipelines";
+import {
+  FILTER_OPERATORS,
+  PII_REPLACEMENTS,
+  PII_TYPES,
+  PIPELINE_FORMATS,
+  PIPELINE_STEP_KINDS,
+  PIPELINE_STEP_LABELS,
+  pipelineInputSchema,
+  pipelineRunSchema,
+  type FilterOperator,
+  type PiiReplacement,
+  type PiiType,
+  type PipelineSpec,
+  type PipelineStepInput,
+  type PipelineStepKind,
+} from "@/lib/schemas";
+import { fetchJson, formatNumber } from "@/lib/utils";
+
+type PipelineFormValues = z.input<typeof pipelineInputSchema>;
+
+const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  equals: "equals",
+  not_equals: "does not equal",
+  contains: "contains",
+  matches: "matches pattern",
+  greater_than: "is greater than",
+  less_than: "is less than",
+  is_null: "is empty",
+  is_not_null: "is not empty",
+};
+
+const PII_TYPE_LABELS: Record<PiiType, string> = {
+  email: "Email addresses",
+  phone: "Phone numbers",
+  ip_address: "IP addresses",
+  credit_card: "Card numbers",
+  national_id: "National IDs",
+  secret: "Secrets",
+};
+
+const REPLACEMENT_LABELS: Record<PiiReplacement, string> = {
+  token: "A token",
+  hash: "A digest",
+  mask: "Masked characters",
+};
+
+const NEW_STEPS: Record<PipelineStepKind, PipelineStepInput> = {
+  filter: { kind: "filter", column: "", operator: "equals", value: "" },
+  map: { kind: "map", rename: [], drop: [] },
+  dedup: { kind: "dedup", columns: [], normalize: false },
+  redact: {
+    kind: "redact",
+    columns: [],
+    types: [...PII_TYPES],
+    replacement: "token",
+  },
+  sample: { kind: "sample", fraction: 0.1, seed: 0, limit: null },
+  join: {
+    kind: "join",
+    datasetId: "",
+    ref: "",
+    on: "",
+    rightOn: "",
+    how: "inner",
+  },
+  convert: { kind: "convert", format: "parquet" },
+};
+
+// The version run is the one shown.
+const runFormSchema = pipelineRunSchema.omit({ ref: true });
+
+/** Column lists are edited as comma-separated text. */
+function listText(value: unknown): string {
+  return Array.isArray(value) ? value.join(", ") : String(value ?? "");
+}
+
+interface PipelineViewProps {
+  datasetId: string;
+  gitRef: string;
+  /** Branch checked out, if any; runs commit to it by default. */
+  branch?: string;
+  branches: string[];
+  /** Datasets a join step can read. */
+  datasets: { id: string; name: string }[];
+  pipelines: Pipeline[];
+  runs: PipelineRun[];
+}
+
+/**
+ * Saved transformation pipelines: an editor for their steps, runs against
+ * the version shown, and the commits earlier runs made. Definitions export
+ * as YAML or JSON and import into any dataset.
+ */
+export function PipelineView({
+  datasetId,
+  gitRef,
+  branch,
+  branches,
+  datasets,
+  pipelines,
+  runs,
+}: PipelineViewProps) {
+  const router = useRouter();
+  const fileRef = useRef<HTMLInputElement>(null);
+  // An id, or null while a new pipeline is drafted.
+  const [selectedId, setSelectedId] = useState<string | null>(
+    pipelines[0]?.id ?? null,
+  );
+  const selected = pipelines.find((p) => p.id === selectedId) ?? null;
+
+  async function onImport(file: File) {
+    try {
+      const { pipeline } = await fetchJson<{ pipeline: Pipeline }>(
+        `/api/datasets/${datasetId}/pipelines`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/yaml" },
+          body: await file.text(),
+        },
+      );
+      toast.success(`Imported ${pipeline.name}`);
+      setSelectedId(pipeline.id);
+      router.refresh();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  }
+
+  async function onDelete(pipeline: Pipeline) {
+    try {
+      await fetchJson(`/api/datasets/${datasetId}/pipelines/${pipeline.id}`, {
+        method: "DELETE",
+      });
+      toast.success(`Deleted ${pipeline.name}`);
+      if (selectedId === pipeline.id) setSelectedId(null);
+      router.refresh();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Pipelines</CardTitle>
+            <CardDescription>
+              Steps that rows go through, run against any version and committed
+              as a new one.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".yaml,.yml,.json"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) onImport(file);
+              }}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileRef.current?.click()}
+            >
+              <Upload /> Import
+            </Button>
+            <Button size="sm" onClick={() => setSelectedId(null)}>
+              <Plus /> New pipeline
+            </Button>
+          </div>
+        </CardHeader>
+        {pipelines.length > 0 && (
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead className="text-right">Steps</TableHead>
+                  <TableHead>Updated</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pipelines.map((pipeline) => (
+                  <TableRow
+                    key={pipeline.id}
+                    data-state={
+                      pipeline.id === selectedId ? "selected" : undefined
+                    }
+                  >
+                    <TableCell>
+                      <button
+                        type="button"
+                        className="font-medium hover:underline"
+                        onClick={() => setSelectedId(pipeline.id)}
+                      >
+                        {pipeline.name}
+                      </button>
+                      {pipeline.description && (
+                        <p className="text-xs text-muted-foreground">
+                          {pipeline.description}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {pipeline.steps.length}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {formatDistanceToNow(new Date(pipeline.updatedAt), {
+                        addSuffix: true,
+                      })}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" asChild>
+                        <a
+                          href={`/api/datasets/${datasetId}/pipelines/${pipeline.id}?format=yaml`}
+                        >
+                          <Download /> YAML
+                        </a>
+                      </Button>
+                      <Button variant="ghost" size="sm" asChild>
+                        <a
+                          href={`/api/datasets/${datasetId}/pipelines/${pipeline.id}?format=json`}
+                        >
+                          <Download /> JSON
+                        </a>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Delete ${pipeline.name}`}
+                        onClick={() => onDelete(pipeline)}
+                      >
+                        <X />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        )}
+      </Card>
+
+      <PipelineEditor
+        key={selected ? `${selected.id}/${selected.updatedAt}` : "new"}
+        datasetId={datasetId}
+        pipeline={selected}
+        datasets={datasets}
+        onSaved={setSelectedId}
+      />
+
+      {selected && (
+        <RunCard
+          key={selected.id}
+          datasetId={datasetId}
+          gitRef={gitRef}
+          pipeline={selected}
+          branch={branch}
+          branches={branches}
+        />
+      )}
+
+      {runs.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Runs</CardTitle>
+            <CardDescription>
+              Commits made by pipelines, with the version each one read
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Commit</TableHead>
+                  <TableHead>Pipeline</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead className="text-right">Rows in</TableHead>
+                  <TableHead className="text-right">Rows out</TableHead>
+                  <TableHead>Run</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => (
+                  <TableRow key={run.commit}>
+                    <TableCell className="font-mono text-xs">
+                      <Link
+                        href={`/datasets/${datasetId}?ref=${run.commit}`}
+                        className="hover:underline"
+                      >
+                        {run.commit.slice(0, 12)}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{run.definition.name}</TableCell>
+                    <TableCell className="font-mono text-xs">
+                      <Link
+                        href={`/datasets/${datasetId}?ref=${run.source}`}
+                        className="hover:underline"
+                      >
+                        {run.source.slice(0, 12)}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatNumber(run.rowsIn)}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatNumber(run.rowsOut)}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {formatDistanceToNow(new Date(run.createdAt), {
+                        addSuffix: true,
+                      })}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function PipelineEditor({
+  datasetId,
+  pipeline,
+  datasets,
+  onSaved,
+}: {
+  datasetId: string;
+  pipeline: Pipeline | null;
+  datasets: { id: string; name: string }[];
+  onSaved: (id: string) => void;
+}) {
+  const router = useRouter();
+  const form = useForm<PipelineFormValues, unknown, PipelineSpec>({
+    resolver: zodResolver(pipelineInputSchema),
+    defaultValues: {
+      name: pipeline?.name ?? "",
+      description: pipeline?.description ?? "",
+      steps: pipeline?.steps ?? [],
+    },
+  });
+  const steps = useFieldArray({ control: form.control, name: "steps" });
+
+  async function onSubmit(values: PipelineSpec) {
+    try {
+      const saved = await fetchJson<{ pipeline: Pipeline }>(
+        pipeline
+          ? `/api/datasets/${datasetId}/pipelines/${pipeline.id}`
+          : `/api/datasets/${datasetId}/pipelines`,
+        {
+          method: pipeline ? "PUT" : "POST",
+          body: JSON.stringify(values),
+        },
+      );
+      toast.success(`Saved ${saved.pipeline.name}`);
+      onSaved(saved.pipeline.id);
+      router.refresh();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">
+          {pipeline ? `Edit ${pipeline.name}` : "New pipeline"}
+        </CardTitle>
+        <CardDescription>
+          Steps run in order on every row of every tabular file.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="grid gap-4 sm:grid-cols-[1fr_2fr]">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="clean-train" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea rows={1} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-3">
+              {steps.fields.map((item, index) => (
+                <Card key={item.id}>
+                  <CardHeader className="flex-row items-center gap-3 space-y-0 p-4 pb-0">
+                    <span className="text-sm font-medium text-muted-foreground tabular-nums">
+                      {index + 1}
+                    </span>
+                    <Select
+                      value={item.kind}
+                      onValueChange={(kind) =>
+                        steps.update(index, {
+                          ...NEW_STEPS[kind as PipelineStepKind],
+                        })
+                      }
+                    >
+                      <SelectTrigger className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PIPELINE_STEP_KINDS.map((kind) => (
+                          <SelectItem key={kind} value={kind}>
+                            {PIPELINE_STEP_LABELS[kind]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="ml-auto flex">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Move step up"
+                        disabled={index === 0}
+                        onClick={() => steps.move(index, index - 1)}
+                      >
+                        <ArrowUp />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Move step down"
+                        disabled={index === steps.fields.length - 1}
+                        onClick={() => steps.move(index, index + 1)}
+                      >
+                        <ArrowDown />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Remove step"
+                        onClick={() => steps.remove(index)}
+                      >
+                        <X />
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="p-4">
+                    <StepFields
+                      control={form.control}
+                      index={index}
+                      kind={item.kind}
+                      datasets={datasets}
+                    />
+                  </CardContent>
+                </Card>
+              ))}
+              <FormField
+                control={form.control}
+                name="steps"
+                render={() => (
+                  <FormItem>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Select
+                value=""
+                onValueChange={(kind) =>
+                  steps.append({ ...NEW_STEPS[kind as PipelineStepKind] })
+                }
+              >
+                <SelectTrigger className="w-56">
+                  <span className="flex items-center gap-2">
+                    <Plus className="size-4" /> Add step
+                  </span>
+                </SelectTrigger>
+                <SelectContent>
+                  {PIPELINE_STEP_KINDS.map((kind) => (
+                    <SelectItem key={kind} value={kind}>
+                      {PIPELINE_STEP_LABELS[kind]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                Save pipeline
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
+
+/** The settings of one step, by its kind. */
+function StepFields({
+  control,
+  index,
+  kind,
+  datasets,
+}: {
+  control: Control<PipelineFormValues>;
+  index: number;
+  kind: PipelineStepKind;
+  datasets: { id: string; name: string }[];
+}) {
+  const operator = useWatch({ control, name: `steps.${index}.operator` });
+  switch (kind) {
+    case "filter":
+      return (
+        <div className="grid gap-4 sm:grid-cols-3">
+          <FormField
+            control={control}
+            name={`steps.${index}.column`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Column</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`steps.${index}.operator`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Keep rows where it</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {FILTER_OPERATORS.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {OPERATOR_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {operator !== "is_null" && operator !== "is_not_null" && (
+            <FormField
+              control={control}
+              name={`steps.${index}.value`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Value</FormLabel>
+                  <FormControl>
+                    <Input
+                      className={operator === "matches" ? "font-mono" : ""}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+      );
+    case "map":
+      return (
+        <div className="space-y-4">
+          <RenameFields control={control} index={index} />
+          <FormField
+            control={control}
+            name={`steps.${index}.drop`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Drop columns</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="meta, source_url"
+                    {...field}
+                    value={listText(field.value)}
+                  />
+                </FormControl>
+                <FormDescription>
+                  Comma-separated; dropped before any are renamed
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+      );
+    case "dedup":
+      return (
+        <div className="grid gap-4 sm:grid-cols-[2fr_1fr]">
+          <ColumnsField control={control} index={index} />
+          <FormField
+            control={control}
+            name={`steps.${index}.normalize`}
+            render={({ field }) => (
+              <FormItem className="flex items-center gap-2 space-y-0 sm:pt-8">
+                <FormControl>
+                  <Checkbox
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                  />
+                </FormControl>
+                <FormLabel className="font-normal">
+                  Ignore case, accents and punctuation
+                </FormLabel>
+              </FormItem>
+            )}
+          />
+        </div>
+      );
+    case "redact":
+      return (
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-[2fr_1fr]">
+            <ColumnsField control={control} index={index} />
+            <FormField
+              control={control}
+              name={`steps.${index}.replacement`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Replace with</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {PII_REPLACEMENTS.map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {REPLACEMENT_LABELS[value]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <FormField
+            control={control}
+            name={`steps.${index}.types`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Kinds of PII</FormLabel>
+                <div className="flex flex-wrap gap-x-4 gap-y-2">
+                  {PII_TYPES.map((type) => (
+                    <label
+                      key={type}
+                      className="flex items-center gap-2 text-sm"
+                    >
+                      <Checkbox
+                        checked={field.value?.includes(type)}
+                        onCheckedChange={(checked) =>
+                          field.onChange(
+                            checked
+                              ? [...(field.value ?? []), type]
+                              : field.value?.filter((t) => t !== type),
+                          )
+                        }
+                      />
+                      {PII_TYPE_LABELS[type]}
+                    </label>
+                  ))}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+      );
+    case "sample":
+      return (
+        <div className="grid gap-4 sm:grid-cols-3">
+          <FormField
+            control={control}
+            name={`steps.${index}.fraction`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Fraction kept</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    {...field}
+                    value={String(field.value ?? "")}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`steps.${index}.seed`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Seed</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={0}
+                    {...field}
+                    value={String(field.value ?? "")}
+                  />
+                </FormControl>
+                <FormDescription>Same seed, same rows</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`steps.${index}.limit`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>At most</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="No limit"
+                    {...field}
+                    value={String(field.value ?? "")}
+                  />
+                </FormControl>
+                <FormDescription>Rows, across all files</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+      );
+    case "join":
+      return (
+        <div className="grid gap-4 sm:grid-cols-3">
+          <FormField
+            control={control}
+            name={`steps.${index}.datasetId`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Dataset</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a dataset" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {datasets.map((dataset) => (
+                      <SelectItem key={dataset.id} value={dataset.id}>
+                        {dataset.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`steps.${index}.ref`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Version</FormLabel>
+                <FormControl>
+                  <Input placeholder="Default branch" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`steps.${index}.how`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Rows without a match</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="inner">Drop them</SelectItem>
+                    <SelectItem value="left">Keep them</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`steps.${index}.on`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Key column</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`steps.${index}.rightOn`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Key column there</FormLabel>
+                <FormControl>
+                  <Input placeholder="Same name" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+      );
+    case "convert":
+      return (
+        <FormField
+          control={control}
+          name={`steps.${index}.format`}
+          render={({ field }) => (
+            <FormItem className="sm:w-56">
+              <FormLabel>Write files as</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {PIPELINE_FORMATS.map((format) => (
+                    <SelectItem key={format} value={format}>
+                      {format.toUpperCase()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>Must be the last step</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      );
+  }
+}
+
+function ColumnsField({
+  control,
+  index,
+}: {
+  control: Control<PipelineFormValues>;
+  index: number;
+}) {
+  return (
+    <FormField
+      control={control}
+      name={`steps.${index}.columns`}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>Columns</FormLabel>
+          <FormControl>
+            <Input
+              placeholder="All text columns"
+              {...field}
+              value={listText(field.value)}
+            />
+          </FormControl>
+          <FormDescription>Comma-separated; blank for all</FormDescription>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+function RenameFields({
+  control,
+  index,
+}: {
+  control: Control<PipelineFormValues>;
+  index: number;
+}) {
+  const renames = useFieldArray({ control, name: `steps.${index}.rename` });
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">Rename columns</h4>
+      {renames.fields.map((item, i) => (
+        <div key={item.id} className="flex items-start gap-2">
+          <FormField
+            control={control}
+            name={`steps.${index}.rename.${i}.from`}
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <FormControl>
+                  <Input placeholder="From" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`steps.${index}.rename.${i}.to`}
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <FormControl>
+                  <Input placeholder="To" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            aria-label="Remove rename"
+            onClick={() => renames.remove(i)}
+          >
+            <X />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => renames.append({ from: "", to: "" })}
+      >
+        <Plus /> Add rename
+      </Button>
+    </div>
+  );
+}
+
+function RunCard({
+  datasetId,
+  gitRef,
+  pipeline,
+  branch,
+  branches,
+}: {
+  datasetId: string;
+  gitRef: string;
+  pipeline: Pipeline;
+  branch?: string;
+  branches: string[];
+}) {
+  const router = useRouter();
+  const form = useForm<
+    z.input<typeof runFormSchema>,
+    unknown,
+    z.output<typeof runFormSchema>
+  >({
+    resolver: zodResolver(runFormSchema),
+    defaultValues: { branch: branch ?? branches[0], message: "" },
+  });
+
+  async function onSubmit(values: z.output<typeof runFormSchema>) {
+    try {
+      const { commit, run } = await fetchJson<PipelineRunResult>(
+        `/api/datasets/${datasetId}/pipelines/${pipeline.id}/runs`,
+        { method: "POST", body: JSON.stringify({ ...values, ref: gitRef }) },
+      );
+      toast.success(
+        `Committed ${formatNumber(run.rowsOut)} of ${formatNumber(run.rowsIn)} rows as ${commit.id.slice(0, 12)}`,
+        {
+          action: {
+            label: "Open",
+            onClick: () =>
+              router.push(`/datasets/${datasetId}?ref=${values.branch}`),
+          },
+        },
+      );
+      form.reset({ ...values, message: "" });
+      router.refresh();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Run {pipeline.name}</CardTitle>
+        <CardDescription>
+          Reads version <span className="font-mono">{gitRef.slice(0, 12)}</span>{" "}
+          and commits the output in place of the files it read.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(onSubmit)}
+            className="grid gap-4 sm:grid-cols-[1fr_2fr_auto] sm:items-end"
+          >
+            <FormField
+              control={form.control}
+              name="branch"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Commit to</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {branches.map((name) => (
+                        <SelectItem key={name} value={name}>
+                          {name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="message"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Message</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder={`Run pipeline ${pipeline.name}`}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" disabled={form.formState.isSubmitting}>
+              <Play />{" "}
+              {form.formState.isSubmitting ? "Running…" : "Run pipeline"}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,386 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { AlertTriangle, ChevronLeft, ChevronRight } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { toast } from "sonner";
+
+import { MessageBubble } from "@/components/datasets/chat-view";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Label } from "@/components/ui/label";
+import {
+  ResizableHandle,
+  ResizablePanel,
+  ResizablePanelGroup,
+} from "@/components/ui/resizable";
+import { Switch } from "@/components/ui/switch";
+import type { Row, RowPage } from "@/lib/formats";
+import {
+  PAIR_ISSUE_LABELS,
+  PAIR_ISSUES,
+  pairIssues,
+  preferencePairSchema,
+  responseText,
+  type PreferencePair,
+} from "@/lib/formats/preference";
+import type { PreferenceStats } from "@/lib/preferences";
+import { fetchJson, formatNumber } from "@/lib/utils";
+
+const PAGE_SIZE = 100;
+/** Invalid rows listed in the validation alert. */
+const LISTED_INVALID = 5;
+
+const chartConfig = {
+  count: { label: "Pairs", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+interface PreferenceViewProps {
+  datasetId: string;
+  path: string;
+  gitRef: string;
+}
+
+/**
+ * Validation, degenerate-pair and length-bias statistics for a file of
+ * preference pairs, above a side-by-side browser of the pairs themselves.
+ */
+export function PreferenceView({
+  datasetId,
+  path,
+  gitRef,
+}: PreferenceViewProps) {
+  const [stats, setStats] = useState<PreferenceStats | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setStats(null);
+    const params = new URLSearchParams({ path, ref: gitRef });
+    fetchJson<PreferenceStats>(
+      `/api/datasets/${datasetId}/preferences?${params}`,
+    )
+      .then((result) => !cancelled && setStats(result))
+      .catch((error) => !cancelled && toast.error((error as Error).message));
+    return () => {
+      cancelled = true;
+    };
+  }, [datasetId, path, gitRef]);
+
+  return (
+    <div className="space-y-6">
+      {stats ? (
+        <PreferenceStatsView stats={stats} />
+      ) : (
+        <p className="text-sm text-muted-foreground">Checking every pair…</p>
+      )}
+      <PairBrowser datasetId={datasetId} path={path} gitRef={gitRef} />
+    </div>
+  );
+}
+
+function PreferenceStatsView({ stats }: { stats: PreferenceStats }) {
+  const flagged = PAIR_ISSUES.reduce(
+    (sum, issue) => sum + stats.issueCounts[issue],
+    0,
+  );
+  const tiles = [
+    { label: "Pairs", value: formatNumber(stats.validPairs) },
+    { label: "Invalid rows", value: formatNumber(stats.invalidCount) },
+    { label: "Issues", value: formatNumber(flagged) },
+    {
+      label: "Chosen is longer",
+      value: `${(stats.length.chosenLongerShare * 100).toFixed(1)}%`,
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <dl className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        {tiles.map((tile) => (
+          <div key={tile.label} className="rounded-md border px-3 py-2">
+            <dt className="text-xs text-muted-foreground">{tile.label}</dt>
+            <dd className="text-lg font-semibold tabular-nums">{tile.value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {stats.invalidCount > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="size-4" />
+          <AlertTitle>
+            {formatNumber(stats.invalidCount)} rows are not preference pairs
+          </AlertTitle>
+          <AlertDescription>
+            <ul className="mt-1 space-y-0.5 font-mono text-xs">
+              {stats.invalid.slice(0, LISTED_INVALID).map((item) => (
+                <li key={item.row}>
+                  Row {item.row}: {item.error}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {flagged > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {PAIR_ISSUES.filter((issue) => stats.issueCounts[issue] > 0).map(
+            (issue) => (
+              <Badge key={issue} variant="outline" className="font-normal">
+                {PAIR_ISSUE_LABELS[issue]}:{" "}
+                {formatNumber(stats.issueCounts[issue])}
+              </Badge>
+            ),
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Length ratio, chosen / rejected</h3>
+        <ChartContainer config={chartConfig} className="h-48 w-full">
+          <BarChart data={stats.length.ratioBuckets}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} />
+            <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+        <p className="text-sm text-muted-foreground">
+          Chosen responses average{" "}
+          {formatNumber(Math.round(stats.length.chosenMean))} characters and
+          rejected ones {formatNumber(Math.round(stats.length.rejectedMean))}.
+          {stats.scoredPairs > 0 &&
+            ` ${formatNumber(stats.scoredPairs)} pairs have scores.`}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+function isFlagged(row: Row) {
+  const parsed = preferencePairSchema.safeParse(row);
+  return !parsed.success || pairIssues(parsed.data).length > 0;
+}
+
+/** Steps through pairs, optionally only the invalid or degenerate ones. */
+function PairBrowser({ datasetId, path, gitRef }: PreferenceViewProps) {
+  const [rows, setRows] = useState<Row[]>([]);
+  const [index, setIndex] = useState(0);
+  const [onlyFlagged, setOnlyFlagged] = useState(false);
+  const [busy, setBusy] = useState(false);
+  // Pages are appended here so navigation can read them without a render.
+  const source = useRef({
+    commit: null as string | null,
+    cursor: null as string | null,
+    done: false,
+    rows: [] as Row[],
+  });
+  // Guards against a late response from a previous file overwriting state.
+  const requestId = useRef(0);
+
+  const loadMore = useCallback(async (): Promise<Row[]> => {
+    const current = source.current;
+    const id = requestId.current;
+    const params = new URLSearchParams({
+      path,
+      ref: current.commit ?? gitRef,
+      limit: String(PAGE_SIZE),
+    });
+    if (current.cursor) params.set("cursor", current.cursor);
+    const page = await fetchJson<RowPage & { commit: string }>(
+      `/api/datasets/${datasetId}/rows?${params}`,
+    );
+    if (id !== requestId.current) return current.rows;
+    current.commit = page.commit;
+    current.cursor = page.nextCursor;
+    current.done = page.nextCursor === null;
+    current.rows = [...current.rows, ...page.rows];
+    setRows(current.rows);
+    return current.rows;
+  }, [datasetId, path, gitRef]);
+
+  useEffect(() => {
+    requestId.current++;
+    source.current = { commit: null, cursor: null, done: false, rows: [] };
+    setRows([]);
+    setIndex(0);
+    loadMore().catch((error) => toast.error((error as Error).message));
+  }, [loadMore]);
+
+  async function go(direction: 1 | -1) {
+    setBusy(true);
+    try {
+      let loaded = source.current.rows;
+      for (let i = index + direction; i >= 0; i += direction) {
+        if (i >= loaded.length) {
+          if (source.current.done) break;
+          const more = await loadMore();
+          if (more.length === loaded.length) break;
+          loaded = more;
+          i -= direction;
+          continue;
+        }
+        if (!onlyFlagged || isFlagged(loaded[i])) {
+          setIndex(i);
+          return;
+        }
+      }
+      toast.info(
+        onlyFlagged ? "No more flagged pairs this way" : "No more pairs",
+      );
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const row = rows[index];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="icon"
+          aria-label="Previous pair"
+          disabled={busy || index === 0}
+          onClick={() => go(-1)}
+        >
+          <ChevronLeft />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          aria-label="Next pair"
+          disabled={busy || !row}
+          onClick={() => go(1)}
+        >
+          <ChevronRight />
+        </Button>
+        <span className="text-sm tabular-nums text-muted-foreground">
+          {row ? `Row ${formatNumber(index + 1)}` : "Loading…"}
+        </span>
+        <div className="ml-auto flex items-center gap-2">
+          <Switch
+            id="pairs-only-flagged"
+            checked={onlyFlagged}
+            onCheckedChange={setOnlyFlagged}
+          />
+          <Label htmlFor="pairs-only-flagged">Only flagged pairs</Label>
+        </div>
+      </div>
+      {row && <PairCard row={row} />}
+    </div>
+  );
+}
+
+function PairCard({ row }: { row: Row }) {
+  const parsed = preferencePairSchema.safeParse(row);
+  if (!parsed.success) {
+    return (
+      <div className="space-y-2">
+        <Alert variant="destructive">
+          <AlertTriangle className="size-4" />
+          <AlertTitle>Not a preference pair</AlertTitle>
+          <AlertDescription>{parsed.error.issues[0].message}</AlertDescription>
+        </Alert>
+        <pre className="whitespace-pre-wrap break-words rounded-md bg-muted p-3 font-mono text-xs">
+          {JSON.stringify(row, null, 2)}
+        </pre>
+      </div>
+    );
+  }
+
+  const pair = parsed.data;
+  const issues = pairIssues(pair);
+  return (
+    <div className="space-y-3">
+      {issues.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {issues.map((issue) => (
+            <Badge key={issue} variant="destructive" className="font-normal">
+              {PAIR_ISSUE_LABELS[issue]}
+            </Badge>
+          ))}
+        </div>
+      )}
+      <div className="rounded-md border p-3">
+        <div className="mb-2 text-xs font-medium text-muted-foreground">
+          Prompt
+        </div>
+        <PairText value={pair.prompt} />
+      </div>
+      <ResizablePanelGroup
+        direction="horizontal"
+        className="min-h-64 rounded-md border"
+      >
+        <ResizablePanel defaultSize={50} minSize={20}>
+          <ResponsePanel
+            label="Chosen"
+            value={pair.chosen}
+            score={pair.score_chosen}
+          />
+        </ResizablePanel>
+        <ResizableHandle withHandle />
+        <ResizablePanel defaultSize={50} minSize={20}>
+          <ResponsePanel
+            label="Rejected"
+            value={pair.rejected}
+            score={pair.score_rejected}
+          />
+        </ResizablePanel>
+      </ResizablePanelGroup>
+    </div>
+  );
+}
+
+function ResponsePanel({
+  label,
+  value,
+  score,
+}: {
+  label: string;
+  value: PreferencePair["chosen"];
+  score: number | null | undefined;
+}) {
+  return (
+    <div className="h-full space-y-2 overflow-auto p-3">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">{label}</span>
+        <span className="tabular-nums">
+          {formatNumber(responseText(value).length)} chars
+        </span>
+        {typeof score === "number" && (
+          <Badge variant="secondary" className="font-mono font-normal">
+            score {score}
+          </Badge>
+        )}
+      </div>
+      <PairText value={value} />
+    </div>
+  );
+}
+
+function PairText({ value }: { value: PreferencePair["chosen"] }) {
+  if (typeof value === "string") {
+    return (
+      <div className="whitespace-pre-wrap break-words text-sm">{value}</div>
+    );
+  }
+  return (
+    <div className="flex flex-col gap-2">
+      {value.map(({ role, content, ...extra }, i) => (
+        <MessageBubble key={i} message={{ role, content, extra }} />
+      ))}
+    </div>
+  );
+}
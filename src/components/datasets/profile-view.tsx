@@ -0,0 +1,339 @@
+"use client";
+
+import { useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { usePolledJson } from "@/hooks/use-polled-json";
+import type {
+  ColumnProfile,
+  LengthStats,
+  ProfileResult,
+  ValueKind,
+} from "@/lib/profiles";
+import type { ColumnTokenCount, TokenReport } from "@/lib/tokenizers/counts";
+import { formatNumber } from "@/lib/utils";
+
+const lengthConfig = {
+  count: { label: "Values", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const tokenConfig = {
+  count: { label: "Values", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+function formatStat(value: number | string | null) {
+  if (value === null) return "—";
+  if (typeof value === "string") return value;
+  return new Intl.NumberFormat("en-US", { maximumFractionDigits: 2 }).format(
+    value,
+  );
+}
+
+function formatPercent(part: number, whole: number) {
+  return `${(whole > 0 ? (part / whole) * 100 : 0).toFixed(1)}%`;
+}
+
+interface ProfileViewProps {
+  datasetId: string;
+  gitRef: string;
+  /** Tokenizer the dataset counts with; token charts are approximate without. */
+  tokenizer: { id: string; name: string } | null;
+}
+
+/**
+ * Per-column statistics of the tabular files in a dataset version. Versions
+ * are profiled, and counted with the dataset's tokenizer, in the background
+ * on first view, so this polls until both are ready.
+ */
+export function ProfileView({
+  datasetId,
+  gitRef,
+  tokenizer,
+}: ProfileViewProps) {
+  const [path, setPath] = useState<string | null>(null);
+  const result = usePolledJson<ProfileResult>(
+    `/api/datasets/${datasetId}/profile?${new URLSearchParams({ ref: gitRef })}`,
+  );
+  const tokens = usePolledJson<TokenReport>(
+    tokenizer
+      ? `/api/datasets/${datasetId}/tokens?${new URLSearchParams({ ref: gitRef, tokenizer: tokenizer.id })}`
+      : null,
+  );
+
+  if (!result || result.status === "running") {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {result ? "Profiling columns…" : "Loading profile…"}
+      </p>
+    );
+  }
+  if (!result.profile) {
+    return (
+      <p className="text-sm text-destructive">
+        Profiling failed: {result.error}
+      </p>
+    );
+  }
+
+  const { profile } = result;
+  if (profile.files.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        This version has no tabular files to profile.
+      </p>
+    );
+  }
+  const file =
+    profile.files.find((candidate) => candidate.path === path) ??
+    profile.files[0];
+  const fileTokens =
+    tokens?.status === "ready"
+      ? tokens.files.find((candidate) => candidate.path === file.path)
+      : undefined;
+  const tiles = [
+    { label: "Rows", value: formatNumber(file.rows) },
+    { label: "Columns", value: formatNumber(file.columns.length) },
+    {
+      label: "Complete columns",
+      value: formatNumber(
+        file.columns.filter((column) => column.nulls === 0).length,
+      ),
+    },
+    tokenizer
+      ? {
+          label: `Tokens (${tokenizer.name})`,
+          value: fileTokens
+            ? formatNumber(fileTokens.tokens)
+            : tokens?.status === "failed"
+              ? "Failed"
+              : "Counting…",
+        }
+      : {
+          label: "Text columns",
+          value: formatNumber(
+            file.columns.filter((column) => column.lengths).length,
+          ),
+        },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        {profile.files.length > 1 && (
+          <Select value={file.path} onValueChange={setPath}>
+            <SelectTrigger className="w-72">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {profile.files.map((candidate) => (
+                <SelectItem key={candidate.path} value={candidate.path}>
+                  {candidate.path}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <span className="text-sm text-muted-foreground">
+          {formatNumber(profile.rows)} rows in{" "}
+          {formatNumber(profile.files.length)} files · profiled in{" "}
+          {(profile.duration / 1000).toFixed(1)}s
+        </span>
+      </div>
+      {file.error && (
+        <p className="text-sm text-destructive">
+          Profile stops at row {formatNumber(file.rows)}: {file.error}
+        </p>
+      )}
+      <dl className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        {tiles.map((tile) => (
+          <div key={tile.label} className="rounded-md border px-3 py-2">
+            <dt className="text-xs text-muted-foreground">{tile.label}</dt>
+            <dd className="text-lg font-semibold tabular-nums">{tile.value}</dd>
+          </div>
+        ))}
+      </dl>
+      {tokens?.status === "failed" && (
+        <p className="text-sm text-destructive">
+          Token counting failed: {tokens.error}
+        </p>
+      )}
+      {fileTokens?.perRow && (
+        <LengthChart
+          title={`Tokens per row (${tokenizer!.name})`}
+          stats={fileTokens.perRow}
+          config={tokenConfig}
+        />
+      )}
+      <div className="grid gap-4 lg:grid-cols-2">
+        {file.columns.map((column) => (
+          <ColumnCard
+            key={column.name}
+            column={column}
+            rows={file.rows}
+            tokenizer={fileTokens && tokenizer!.name}
+            tokens={fileTokens?.columns.find((c) => c.name === column.name)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ColumnCard({
+  column,
+  rows,
+  tokenizer,
+  tokens,
+}: {
+  column: ColumnProfile;
+  rows: number;
+  /** Name of the tokenizer `tokens` was counted with. */
+  tokenizer?: string;
+  tokens?: ColumnTokenCount;
+}) {
+  const kinds = Object.entries(column.kinds) as [ValueKind, number][];
+  const stats = [
+    {
+      label: "Nulls",
+      value: `${formatNumber(column.nulls)} (${formatPercent(column.nulls, rows)})`,
+    },
+    {
+      label: "Distinct",
+      value: `${column.distinctExact ? "" : "≈ "}${formatNumber(column.distinct)}`,
+    },
+    { label: "Mean", value: formatStat(column.mean) },
+    { label: "Min", value: formatStat(column.min) },
+    { label: "Max", value: formatStat(column.max) },
+    ...(tokens
+      ? [{ label: "Tokens", value: formatNumber(tokens.tokens) }]
+      : []),
+  ];
+
+  return (
+    <Card className="min-w-0">
+      <CardHeader className="pb-3">
+        <CardTitle className="truncate font-mono text-base">
+          {column.name}
+        </CardTitle>
+        <CardDescription className="flex flex-wrap gap-1.5">
+          {kinds.map(([kind, count]) => (
+            <Badge key={kind} variant="outline" className="font-normal">
+              {kind}
+              {kinds.length > 1 && `: ${formatNumber(count)}`}
+            </Badge>
+          ))}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <dl className="grid grid-cols-3 gap-x-4 gap-y-2 text-sm">
+          {stats.map((stat) => (
+            <div key={stat.label} className="min-w-0">
+              <dt className="text-xs text-muted-foreground">{stat.label}</dt>
+              <dd className="truncate tabular-nums" title={stat.value}>
+                {stat.value}
+              </dd>
+            </div>
+          ))}
+        </dl>
+        {column.top.length > 0 && (
+          <div className="space-y-1.5">
+            <h4 className="text-xs font-medium text-muted-foreground">
+              Most common{!column.topExact && " (approximate)"}
+            </h4>
+            <ul className="space-y-1 text-xs">
+              {column.top.map(({ value, count }) => (
+                <li key={value} className="relative rounded-sm px-2 py-1">
+                  <span
+                    className="absolute inset-y-0 left-0 rounded-sm bg-muted"
+                    style={{ width: formatPercent(count, rows) }}
+                  />
+                  <span className="relative flex gap-2">
+                    <span className="min-w-0 flex-1 truncate font-mono">
+                      {value === "" ? "(empty)" : value}
+                    </span>
+                    <span className="shrink-0 tabular-nums text-muted-foreground">
+                      {formatNumber(count)}
+                    </span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {column.lengths && (
+          <LengthChart
+            title="Length (characters)"
+            stats={column.lengths}
+            config={lengthConfig}
+          />
+        )}
+        {tokenizer && tokens?.lengths ? (
+          <LengthChart
+            title={`Length (tokens, ${tokenizer})`}
+            stats={tokens.lengths}
+            config={tokenConfig}
+          />
+        ) : (
+          column.tokens && (
+            <LengthChart
+              title="Length (tokens, approximate)"
+              stats={column.tokens}
+              config={tokenConfig}
+            />
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function LengthChart({
+  title,
+  stats,
+  config,
+}: {
+  title: string;
+  stats: LengthStats;
+  config: ChartConfig;
+}) {
+  return (
+    <div className="space-y-1.5">
+      <h4 className="flex justify-between gap-2 text-xs font-medium text-muted-foreground">
+        {title}
+        <span className="font-normal tabular-nums">
+          mean {formatStat(stats.mean)} · max {formatNumber(stats.max)}
+        </span>
+      </h4>
+      <ChartContainer config={config} className="h-32 w-full">
+        <BarChart data={stats.histogram}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="label" tickLine={false} axisLine={false} />
+          <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+        </BarChart>
+      </ChartContainer>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { refNameSchema } from "@/lib/schemas";
+import { fetchJson } from "@/lib/utils";
+
+const formSchema = z.object({
+  name: refNameSchema,
+  kind: z.enum(["branch", "tag"]),
+});
+
+type RefFormValues = z.infer<typeof formSchema>;
+
+interface RefFormDialogProps {
+  datasetId: string;
+  /** Commit the new branch or tag will point at. */
+  commitId: string;
+  trigger: React.ReactNode;
+}
+
+export function RefFormDialog({
+  datasetId,
+  commitId,
+  trigger,
+}: RefFormDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const form = useForm<RefFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { name: "", kind: "tag" },
+  });
+
+  async function onSubmit(values: RefFormValues) {
+    try {
+      await fetchJson(`/api/datasets/${datasetId}/refs`, {
+        method: "POST",
+        body: JSON.stringify({ ...values, from: commitId }),
+      });
+      toast.success(`Created ${values.kind} ${values.name}`);
+      setOpen(false);
+      form.reset();
+      router.refresh();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Create branch or tag</DialogTitle>
+          <DialogDescription>
+            Points at commit{" "}
+            <span className="font-mono">{commitId.slice(0, 12)}</span>. Tags
+            never move; use them to mark releases like{" "}
+            <span className="font-mono">v1.0-train</span>.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="kind"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Type</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="tag">Tag</SelectItem>
+                      <SelectItem value="branch">Branch</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="v1.0-train" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                Create
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
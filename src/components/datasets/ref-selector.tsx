@@ -0,0 +1,77 @@
+"use client";
+
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { GitBranch, Tag } from "lucide-react";
+
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Ref } from "@/lib/versioning";
+
+interface RefSelectorProps {
+  refs: Ref[];
+  /** The ref currently checked out; may be a bare commit id. */
+  current: string;
+}
+
+/** Switches the dataset page between branches, tags and commits via `?ref=`. */
+export function RefSelector({ refs, current }: RefSelectorProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const branches = refs.filter((ref) => ref.kind === "branch");
+  const tags = refs.filter((ref) => ref.kind === "tag");
+  const isNamed = refs.some((ref) => ref.name === current);
+
+  function onChange(ref: string) {
+    const params = new URLSearchParams(searchParams);
+    params.set("ref", ref);
+    router.push(`${pathname}?${params}`);
+  }
+
+  return (
+    <Select value={current} onValueChange={onChange}>
+      <SelectTrigger className="w-56">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectGroup>
+          <SelectLabel>Branches</SelectLabel>
+          {branches.map((ref) => (
+            <SelectItem key={ref.name} value={ref.name}>
+              <span className="flex items-center gap-2">
+                <GitBranch className="size-3.5" /> {ref.name}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectGroup>
+        {tags.length > 0 && (
+          <SelectGroup>
+            <SelectLabel>Tags</SelectLabel>
+            {tags.map((ref) => (
+              <SelectItem key={ref.name} value={ref.name}>
+                <span className="flex items-center gap-2">
+                  <Tag className="size-3.5" /> {ref.name}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        )}
+        {!isNamed && (
+          <SelectGroup>
+            <SelectLabel>Commit</SelectLabel>
+            <SelectItem value={current} className="font-mono text-xs">
+              {current.slice(0, 12)}
+            </SelectItem>
+          </SelectGroup>
+        )}
+      </SelectContent>
+    </Select>
+  );
+}
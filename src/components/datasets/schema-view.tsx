@@ -0,0 +1,103 @@
+"use client";
+
+import { ChevronRight } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  formatType,
+  type FileSchema,
+  type SchemaField,
+} from "@/lib/formats/schema";
+import { formatBytes, formatNumber } from "@/lib/utils";
+
+/** Collapsible schema of a tabular file. */
+export function SchemaView({ schema }: { schema: FileSchema }) {
+  return (
+    <Collapsible className="rounded-md border">
+      <CollapsibleTrigger className="group flex w-full items-center gap-2 px-3 py-2 text-left text-sm">
+        <ChevronRight className="size-4 transition-transform group-data-[state=open]:rotate-90" />
+        <span className="font-medium">Schema</span>
+        <span className="text-muted-foreground">
+          {formatNumber(schema.fields.length)} columns · {describe(schema)}
+        </span>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <SchemaTable fields={schema.fields} />
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+/** Columns, types and nullability, with nested fields indented. */
+export function SchemaTable({ fields }: { fields: SchemaField[] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Column</TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead className="w-24">Nullable</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {fields.map((field) => (
+          <FieldRows key={field.name} field={field} depth={0} />
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function describe(schema: FileSchema): string {
+  if (schema.inferred) {
+    return schema.numRows === null
+      ? `inferred from the first ${formatNumber(schema.sampledRows ?? 0)} rows`
+      : `inferred from all ${formatNumber(schema.numRows)} rows`;
+  }
+  const groups = schema.rowGroups ?? [];
+  const bytes = groups.reduce((sum, group) => sum + group.compressedBytes, 0);
+  return `${formatNumber(schema.numRows ?? 0)} rows in ${formatNumber(groups.length)} row groups (${formatBytes(bytes)} compressed)`;
+}
+
+function FieldRows({ field, depth }: { field: SchemaField; depth: number }) {
+  return (
+    <>
+      <TableRow>
+        <TableCell
+          className="font-mono text-xs"
+          style={{ paddingLeft: `${0.5 + depth * 1.25}rem` }}
+        >
+          {field.name}
+        </TableCell>
+        <TableCell>
+          <Badge
+            variant="secondary"
+            className="font-mono font-normal"
+            title={formatType(field)}
+          >
+            {field.type}
+          </Badge>
+        </TableCell>
+        <TableCell className="text-muted-foreground">
+          {field.nullable ? "yes" : "no"}
+        </TableCell>
+      </TableRow>
+      {field.children?.map((child) => (
+        <FieldRows key={child.name} field={child} depth={depth + 1} />
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,544 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Plus, X } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { toast } from "sonner";
+import type { z } from "zod";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  SPLIT_METHODS,
+  splitSpecSchema,
+  type SplitMethod,
+  type SplitSpec,
+} from "@/lib/schemas";
+import type { SplitReport, SplitsResult } from "@/lib/splits";
+import { fetchJson, formatNumber } from "@/lib/utils";
+
+const METHOD_LABELS: Record<SplitMethod, string> = {
+  files: "By file",
+  random: "Seeded random",
+  stratified: "Stratified by label",
+  grouped: "Grouped by column",
+};
+
+/** Select value for files left out of every split. */
+const UNASSIGNED = "__none__";
+
+function splitColor(index: number) {
+  return `hsl(var(--chart-${(index % 5) + 1}))`;
+}
+
+function percent(part: number, whole: number) {
+  return whole > 0 ? (part / whole) * 100 : 0;
+}
+
+interface SplitViewProps {
+  datasetId: string;
+  gitRef: string;
+  /** Branch definitions are committed to; editing is hidden without one. */
+  branch?: string;
+  /** Tabular files of the version, which splits are made of. */
+  files: string[];
+}
+
+/**
+ * The train/validation/test splits of a dataset version with their sizes
+ * and label balance, and a form to define them by file or by a seeded rule.
+ */
+export function SplitView({
+  datasetId,
+  gitRef,
+  branch,
+  files,
+}: SplitViewProps) {
+  const router = useRouter();
+  const [report, setReport] = useState<SplitReport | null>(null);
+  const [preview, setPreview] = useState<SplitReport | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setReport(null);
+    setPreview(null);
+    fetchJson<SplitReport>(
+      `/api/datasets/${datasetId}/splits?${new URLSearchParams({ ref: gitRef })}`,
+    )
+      .then((result) => !cancelled && setReport(result))
+      .catch((error) => !cancelled && toast.error((error as Error).message));
+    return () => {
+      cancelled = true;
+    };
+  }, [datasetId, gitRef]);
+
+  async function submit(splits: SplitSpec | null, dryRun: boolean) {
+    try {
+      const result = await fetchJson<SplitsResult>(
+        `/api/datasets/${datasetId}/splits`,
+        {
+          method: "POST",
+          body: JSON.stringify({ branch, splits, dryRun }),
+        },
+      );
+      if (dryRun) {
+        setPreview(result.report);
+        return;
+      }
+      toast.success(result.commit!.message);
+      router.refresh();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  }
+
+  if (!report) {
+    return <p className="text-sm text-muted-foreground">Counting splits…</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <SplitSummary report={preview ?? report} preview={!!preview} />
+      {branch && (
+        <SplitEditor
+          key={report.commit}
+          spec={report.spec}
+          defined={report.defined}
+          branch={branch}
+          files={files}
+          onPreview={(spec) => submit(spec, true)}
+          onCommit={(spec) => submit(spec, false)}
+        />
+      )}
+    </div>
+  );
+}
+
+function describeSpec(spec: SplitSpec) {
+  const parts = [METHOD_LABELS[spec.method]];
+  if (spec.column) parts.push(`on ${spec.column}`);
+  if (spec.method !== "files") parts.push(`seed ${spec.seed}`);
+  return parts.join(" · ");
+}
+
+function SplitSummary({
+  report,
+  preview,
+}: {
+  report: SplitReport;
+  preview: boolean;
+}) {
+  const chartConfig = Object.fromEntries(
+    report.splits.map((split, index) => [
+      split.name,
+      { label: split.name, color: splitColor(index) },
+    ]),
+  ) satisfies ChartConfig;
+  // Shares within each split, so splits of different sizes compare.
+  const labelData = report.labels.map(({ label, counts }) => ({
+    label,
+    ...Object.fromEntries(
+      report.splits.map((split) => [
+        split.name,
+        Number(percent(counts[split.name] ?? 0, split.rows).toFixed(1)),
+      ]),
+    ),
+  }));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {preview && <Badge>Preview</Badge>}
+        <Badge variant={report.defined ? "secondary" : "outline"}>
+          {report.defined ? describeSpec(report.spec) : "From file names"}
+        </Badge>
+        <span className="text-sm text-muted-foreground">
+          {formatNumber(report.totalRows)} rows
+        </span>
+      </div>
+      <dl className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        {report.splits.map((split, index) => (
+          <div key={split.name} className="rounded-md border px-3 py-2">
+            <dt className="flex items-center gap-1.5 text-xs text-muted-foreground">
+              <span
+                className="size-2 rounded-full"
+                style={{ background: splitColor(index) }}
+              />
+              {split.name}
+            </dt>
+            <dd className="text-lg font-semibold tabular-nums">
+              {formatNumber(split.rows)}
+              <span className="ml-1.5 text-xs font-normal text-muted-foreground">
+                {percent(split.rows, report.totalRows).toFixed(1)}%
+              </span>
+            </dd>
+          </div>
+        ))}
+      </dl>
+      {report.labelColumn && labelData.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">
+            {report.labelColumn} by split (% of split rows)
+          </h3>
+          <ChartContainer config={chartConfig} className="h-64 w-full">
+            <BarChart data={labelData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <YAxis unit="%" tickLine={false} axisLine={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {report.splits.map((split) => (
+                <Bar
+                  key={split.name}
+                  dataKey={split.name}
+                  fill={`var(--color-${split.name})`}
+                  radius={4}
+                />
+              ))}
+            </BarChart>
+          </ChartContainer>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const RULE_DEFAULTS: SplitSpec["splits"] = [
+  { name: "train", files: [], percent: 80 },
+  { name: "validation", files: [], percent: 10 },
+  { name: "test", files: [], percent: 10 },
+];
+
+function SplitEditor({
+  spec,
+  defined,
+  branch,
+  files,
+  onPreview,
+  onCommit,
+}: {
+  spec: SplitSpec;
+  defined: boolean;
+  branch: string;
+  files: string[];
+  onPreview: (spec: SplitSpec) => Promise<void>;
+  onCommit: (spec: SplitSpec | null) => Promise<void>;
+}) {
+  const form = useForm<z.input<typeof splitSpecSchema>, unknown, SplitSpec>({
+    resolver: zodResolver(splitSpecSchema),
+    defaultValues: spec,
+  });
+  const splits = useFieldArray({ control: form.control, name: "splits" });
+  const method = form.watch("method");
+  const values = form.watch("splits");
+  const [action, setAction] = useState<"preview" | "commit" | null>(null);
+
+  async function run(kind: "preview" | "commit", values: SplitSpec) {
+    setAction(kind);
+    await (kind === "preview" ? onPreview(values) : onCommit(values));
+    setAction(null);
+  }
+
+  function onMethodChange(next: SplitMethod) {
+    form.setValue("method", next);
+    if (next !== "files" && values.every((split) => !split.percent)) {
+      form.setValue("splits", RULE_DEFAULTS);
+    }
+  }
+
+  function assignFile(file: string, target: string) {
+    form.setValue(
+      "splits",
+      values.map((split) => ({
+        ...split,
+        files:
+          split.name === target
+            ? [...(split.files ?? []).filter((path) => path !== file), file]
+            : (split.files ?? []).filter((path) => path !== file),
+      })),
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Split definition</CardTitle>
+        <CardDescription>
+          Committed to {branch} and kept by later commits. The same definition
+          over the same files always gives the same rows.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((values) => run("commit", values))}
+            className="space-y-4"
+          >
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="method"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Method</FormLabel>
+                    <Select value={field.value} onValueChange={onMethodChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {SPLIT_METHODS.map((value) => (
+                          <SelectItem key={value} value={value}>
+                            {METHOD_LABELS[value]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {method !== "files" && (
+                <FormField
+                  control={form.control}
+                  name="seed"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Seed</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              {(method === "stratified" || method === "grouped") && (
+                <FormField
+                  control={form.control}
+                  name="column"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        {method === "stratified"
+                          ? "Label column"
+                          : "Group column"}
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder={
+                            method === "stratified" ? "label" : "user_id"
+                          }
+                          {...field}
+                          value={field.value ?? ""}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        {method === "stratified"
+                          ? "Each split gets every value in proportion."
+                          : "Rows sharing a value never straddle two splits."}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <FormField
+                control={form.control}
+                name="labelColumn"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Chart column</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Optional"
+                        {...field}
+                        value={field.value ?? ""}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Its distribution is charted per split.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Splits</h3>
+              {splits.fields.map((item, index) => (
+                <div key={item.id} className="flex items-start gap-2">
+                  <FormField
+                    control={form.control}
+                    name={`splits.${index}.name`}
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <FormControl>
+                          <Input aria-label="Split name" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {method !== "files" && (
+                    <FormField
+                      control={form.control}
+                      name={`splits.${index}.percent`}
+                      render={({ field }) => (
+                        <FormItem className="w-28">
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={0}
+                              max={100}
+                              step="any"
+                              aria-label="Percent"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove split"
+                    disabled={splits.fields.length === 1}
+                    onClick={() => splits.remove(index)}
+                  >
+                    <X />
+                  </Button>
+                </div>
+              ))}
+              <FormField
+                control={form.control}
+                name="splits"
+                render={() => (
+                  <FormItem>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  splits.append({
+                    name: `split_${splits.fields.length + 1}`,
+                    files: [],
+                    percent: 0,
+                  })
+                }
+              >
+                <Plus /> Add split
+              </Button>
+            </div>
+
+            {method === "files" && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Files</h3>
+                {files.map((file) => (
+                  <div key={file} className="flex items-center gap-2">
+                    <span className="min-w-0 flex-1 truncate font-mono text-xs">
+                      {file}
+                    </span>
+                    <Select
+                      value={
+                        values.find((split) => split.files?.includes(file))
+                          ?.name ?? UNASSIGNED
+                      }
+                      onValueChange={(target) => assignFile(file, target)}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNASSIGNED}>No split</SelectItem>
+                        {values
+                          .filter((split) => split.name)
+                          .map((split, index) => (
+                            <SelectItem key={index} value={split.name}>
+                              {split.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex flex-wrap justify-end gap-2">
+              {defined && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  disabled={action !== null}
+                  onClick={async () => {
+                    setAction("commit");
+                    await onCommit(null);
+                    setAction(null);
+                  }}
+                >
+                  Remove definition
+                </Button>
+              )}
+              <Button
+                type="button"
+                variant="outline"
+                disabled={action !== null}
+                onClick={form.handleSubmit((values) => run("preview", values))}
+              >
+                {action === "preview" ? "Counting…" : "Preview"}
+              </Button>
+              <Button type="submit" disabled={action !== null}>
+                {action === "commit" ? "Committing…" : "Commit"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,52 @@
+import {
+  Card,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { formatBytes } from "@/lib/utils";
+
+interface StorageSummaryProps {
+  logicalBytes: number;
+  physicalBytes: number;
+  count: number;
+  countLabel: string;
+}
+
+/**
+ * Logical size (every file of every version) vs on-disk size, so
+ * deduplication savings are visible.
+ */
+export function StorageSummary({
+  logicalBytes,
+  physicalBytes,
+  count,
+  countLabel,
+}: StorageSummaryProps) {
+  const saved = logicalBytes - physicalBytes;
+  const stats = [
+    { label: countLabel, value: count.toLocaleString("en-US") },
+    { label: "Logical size, all versions", value: formatBytes(logicalBytes) },
+    { label: "Stored on disk", value: formatBytes(physicalBytes) },
+    {
+      label: "Saved by deduplication",
+      value:
+        logicalBytes > 0
+          ? `${formatBytes(saved)} (${Math.round((saved / logicalBytes) * 100)}%)`
+          : formatBytes(0),
+    },
+  ];
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+      {stats.map((stat) => (
+        <Card key={stat.label}>
+          <CardHeader className="p-4">
+            <CardDescription>{stat.label}</CardDescription>
+            <CardTitle className="text-xl tabular-nums">{stat.value}</CardTitle>
+          </CardHeader>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { usePolledJson } from "@/hooks/use-polled-json";
+import type { TokenReport } from "@/lib/tokenizers/counts";
+import { formatNumber } from "@/lib/utils";
+
+interface TokenCountProps {
+  datasetId: string;
+  gitRef: string;
+  tokenizer: { id: string; name: string };
+}
+
+/** Tokens in a dataset version under the dataset's tokenizer. */
+export function TokenCount({ datasetId, gitRef, tokenizer }: TokenCountProps) {
+  const report = usePolledJson<TokenReport>(
+    `/api/datasets/${datasetId}/tokens?${new URLSearchParams({ ref: gitRef, tokenizer: tokenizer.id })}`,
+  );
+
+  return (
+    <Badge
+      variant="secondary"
+      className="mt-1 font-normal tabular-nums"
+      title={`Counted with ${tokenizer.name}`}
+    >
+      {!report || report.status === "running"
+        ? "Counting tokens…"
+        : report.status === "failed"
+          ? "Token count failed"
+          : `${formatNumber(report.tokens)} tokens`}
+      <span className="ml-1 text-muted-foreground">· {tokenizer.name}</span>
+    </Badge>
+  );
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Trash2, Type, Upload } from "lucide-react";
+import { toast } from "sonner";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { tokenizerInputSchema, type TokenizerInput } from "@/lib/schemas";
+import type { TokenizerRecord } from "@/lib/tokenizers";
+import { fetchJson, formatBytes, formatNumber } from "@/lib/utils";
+
+/**
+ * The workspace's tokenizers: `tokenizer.json` and SentencePiece `.model`
+ * files that datasets count tokens with.
+ */
+export function TokenizerDialog() {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [tokenizers, setTokenizers] = useState<TokenizerRecord[] | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const form = useForm<TokenizerInput>({
+    resolver: zodResolver(tokenizerInputSchema),
+    defaultValues: { name: "" },
+  });
+
+  async function load() {
+    try {
+      const result = await fetchJson<{ tokenizers: TokenizerRecord[] }>(
+        "/api/tokenizers",
+      );
+      setTokenizers(result.tokenizers);
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  }
+
+  useEffect(() => {
+    if (open) load();
+  }, [open]);
+
+  async function onSubmit(values: TokenizerInput) {
+    if (!file) {
+      toast.error("Choose a tokenizer file");
+      return;
+    }
+    const body = new FormData();
+    body.set("file", file);
+    body.set("name", values.name);
+    // Not fetchJson: the browser sets the multipart content type.
+    const response = await fetch("/api/tokenizers", { method: "POST", body });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      toast.error(result.error ?? `Upload failed with ${response.status}`);
+      return;
+    }
+    toast.success(`Added ${values.name}`);
+    form.reset();
+    setFile(null);
+    if (fileRef.current) fileRef.current.value = "";
+    await load();
+    router.refresh();
+  }
+
+  async function onDelete(tokenizer: TokenizerRecord) {
+    try {
+      await fetchJson(`/api/tokenizers/${tokenizer.id}`, { method: "DELETE" });
+      toast.success(`Deleted ${tokenizer.name}`);
+      await load();
+      router.refresh();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Type /> Tokenizers
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Tokenizers</DialogTitle>
+          <DialogDescription>
+            Token counts use these files, stored in the workspace and run
+            locally. Choose one per dataset when editing it.
+          </DialogDescription>
+        </DialogHeader>
+        {tokenizers === null ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : tokenizers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No tokenizers yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Model</TableHead>
+                <TableHead className="text-right">Vocabulary</TableHead>
+                <TableHead className="text-right">Size</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tokenizers.map((tokenizer) => (
+                <TableRow key={tokenizer.id}>
+                  <TableCell>
+                    <div className="font-medium">{tokenizer.name}</div>
+                    <div className="font-mono text-xs text-muted-foreground">
+                      {tokenizer.fileName}
+                    </div>
+                  </TableCell>
+                  <TableCell>{tokenizer.model}</TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatNumber(tokenizer.vocabSize)}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatBytes(tokenizer.size)}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Delete ${tokenizer.name}`}
+                      onClick={() => onDelete(tokenizer)}
+                    >
+                      <Trash2 />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        <Separator />
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(onSubmit)}
+            className="grid gap-4 sm:grid-cols-[1fr_1fr_auto] sm:items-end"
+          >
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="llama-3" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="space-y-2">
+              <Label htmlFor="tokenizer-file">File</Label>
+              <Input
+                id="tokenizer-file"
+                ref={fileRef}
+                type="file"
+                accept=".json,.model"
+                onChange={(event) => {
+                  const chosen = event.target.files?.[0] ?? null;
+                  setFile(chosen);
+                  if (chosen && !form.getValues("name")) {
+                    form.setValue("name", chosen.name.replace(/\.[^.]*$/, ""));
+                  }
+                }}
+              />
+            </div>
+            <Button type="submit" disabled={form.formState.isSubmitting}>
+              <Upload /> {form.formState.isSubmitting ? "Adding…" : "Add"}
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
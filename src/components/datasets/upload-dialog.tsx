@@ -0,0 +1,313 @@
+"use client";
+
+import { useCallback, useEffect, useReducer, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Pause, Play, Upload as UploadIcon, X } from "lucide-react";
+import { toast } from "sonner";
+import * as tus from "tus-js-client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Progress } from "@/components/ui/progress";
+import { sha256File } from "@/lib/checksum";
+import type { UploadState } from "@/lib/uploads";
+import { fetchJson, formatBytes } from "@/lib/utils";
+
+const CHUNK_BYTES = 64 * 1024 * 1024;
+
+type Phase =
+  "hashing" | "uploading" | "paused" | "verifying" | "done" | "error";
+
+interface UploadItem {
+  key: string;
+  file: File;
+  phase: Phase;
+  /** Bytes hashed or uploaded, depending on the phase. */
+  bytes: number;
+  resumed: boolean;
+  error?: string;
+}
+
+type Action =
+  | { type: "add"; items: UploadItem[] }
+  | { type: "update"; key: string; changes: Partial<UploadItem> }
+  | { type: "remove"; key: string };
+
+function reducer(items: UploadItem[], action: Action): UploadItem[] {
+  switch (action.type) {
+    case "add":
+      return [...items, ...action.items];
+    case "update":
+      return items.map((item) =>
+        item.key === action.key ? { ...item, ...action.changes } : item,
+      );
+    case "remove":
+      return items.filter((item) => item.key !== action.key);
+  }
+}
+
+const PHASE_LABELS: Record<Phase, string> = {
+  hashing: "Computing checksum",
+  uploading: "Uploading",
+  paused: "Paused",
+  verifying: "Verifying checksum",
+  done: "Committed",
+  error: "Failed",
+};
+
+/**
+ * Resumable upload dialog speaking tus to `/api/uploads`. Upload URLs are
+ * remembered in localStorage, so after a refresh selecting the same file
+ * again picks up where the previous attempt stopped.
+ */
+interface UploadDialogProps {
+  datasetId: string;
+  /** Branch each finished upload is committed to. */
+  branch: string;
+}
+
+export function UploadDialog({ datasetId, branch }: UploadDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [items, dispatch] = useReducer(reducer, []);
+  const [interrupted, setInterrupted] = useState<UploadState[]>([]);
+  const uploads = useRef(new Map<string, tus.Upload>());
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const update = useCallback(
+    (key: string, changes: Partial<UploadItem>) =>
+      dispatch({ type: "update", key, changes }),
+    [],
+  );
+
+  useEffect(() => {
+    if (!open) return;
+    fetchJson<{ uploads: UploadState[] }>(`/api/uploads?datasetId=${datasetId}`)
+      .then(({ uploads }) => setInterrupted(uploads))
+      .catch(() => setInterrupted([]));
+  }, [open, datasetId]);
+
+  async function startUpload(item: UploadItem) {
+    const upload = new tus.Upload(item.file, {
+      endpoint: "/api/uploads",
+      chunkSize: CHUNK_BYTES,
+      retryDelays: [0, 1000, 3000, 5000, 10000],
+      removeFingerprintOnSuccess: true,
+      metadata: {
+        datasetId,
+        branch,
+        filename: item.file.webkitRelativePath || item.file.name,
+        filetype: item.file.type,
+      },
+      onProgress: (sent, total) =>
+        update(item.key, {
+          phase: sent === total ? "verifying" : "uploading",
+          bytes: sent,
+        }),
+      onSuccess: () => {
+        update(item.key, { phase: "done", bytes: item.file.size });
+        uploads.current.delete(item.key);
+        router.refresh();
+      },
+      onError: (error) => {
+        const response = (error as tus.DetailedError).originalResponse;
+        const message = response?.getStatus()
+          ? (JSON.parse(response.getBody() || "{}").error ?? error.message)
+          : error.message;
+        update(item.key, { phase: "error", error: message });
+        toast.error(`${item.file.name}: ${message}`);
+      },
+      // A failed checksum or a rejected request will not succeed on retry.
+      onShouldRetry: (error) => {
+        const status = error.originalResponse?.getStatus() ?? 0;
+        return status === 0 || status === 423 || status >= 500;
+      },
+    });
+    uploads.current.set(item.key, upload);
+
+    try {
+      const [previous] = await upload.findPreviousUploads();
+      if (previous) {
+        upload.resumeFromPreviousUpload(previous);
+        update(item.key, { phase: "uploading", resumed: true });
+      } else {
+        const sha256 = await sha256File(item.file, (bytes) =>
+          update(item.key, { bytes }),
+        );
+        upload.options.metadata = { ...upload.options.metadata, sha256 };
+        update(item.key, { phase: "uploading", bytes: 0 });
+      }
+      upload.start();
+    } catch (error) {
+      update(item.key, { phase: "error", error: (error as Error).message });
+    }
+  }
+
+  function onFilesSelected(event: React.ChangeEvent<HTMLInputElement>) {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    const added = files.map((file) => ({
+      key: `${file.name}-${file.size}-${file.lastModified}-${Math.random()}`,
+      file,
+      phase: "hashing" as const,
+      bytes: 0,
+      resumed: false,
+    }));
+    dispatch({ type: "add", items: added });
+    added.forEach(startUpload);
+  }
+
+  function pause(item: UploadItem) {
+    uploads.current.get(item.key)?.abort();
+    update(item.key, { phase: "paused" });
+  }
+
+  async function resume(item: UploadItem) {
+    const upload = uploads.current.get(item.key);
+    // Once every byte has arrived, only the commit is tried again.
+    if (
+      item.phase === "error" &&
+      upload?.url &&
+      item.bytes === item.file.size
+    ) {
+      update(item.key, { phase: "verifying", error: undefined });
+      try {
+        await fetchJson(upload.url, { method: "POST" });
+        update(item.key, { phase: "done" });
+        uploads.current.delete(item.key);
+        router.refresh();
+      } catch (error) {
+        const message = (error as Error).message;
+        update(item.key, { phase: "error", error: message });
+        toast.error(`${item.file.name}: ${message}`);
+      }
+      return;
+    }
+    upload?.start();
+    update(item.key, { phase: "uploading", error: undefined });
+  }
+
+  function cancel(item: UploadItem) {
+    const upload = uploads.current.get(item.key);
+    // Terminating frees the partial data on the server.
+    if (upload?.url) upload.abort(true).catch(() => undefined);
+    else upload?.abort();
+    uploads.current.delete(item.key);
+    dispatch({ type: "remove", key: item.key });
+  }
+
+  const pendingInterrupted = interrupted.filter(
+    (upload) =>
+      !items.some(
+        (item) =>
+          (item.file.webkitRelativePath || item.file.name) === upload.path,
+      ),
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <UploadIcon /> Upload files
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Upload files</DialogTitle>
+          <DialogDescription>
+            Uploads are resumable. If the page is closed, select the same file
+            again to continue where it stopped.
+          </DialogDescription>
+        </DialogHeader>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          hidden
+          onChange={onFilesSelected}
+        />
+        <Button variant="outline" onClick={() => inputRef.current?.click()}>
+          Choose files
+        </Button>
+        {pendingInterrupted.length > 0 && (
+          <div className="rounded-md border border-dashed p-3 text-sm">
+            <p className="mb-2 font-medium">Interrupted uploads</p>
+            <ul className="space-y-1 text-muted-foreground">
+              {pendingInterrupted.map((upload) => (
+                <li key={upload.id} className="flex justify-between gap-2">
+                  <span className="truncate font-mono text-xs">
+                    {upload.path}
+                  </span>
+                  <span className="shrink-0 tabular-nums">
+                    {formatBytes(upload.offset)} / {formatBytes(upload.length)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <ul className="max-h-80 space-y-4 overflow-y-auto">
+          {items.map((item) => (
+            <li key={item.key} className="space-y-1.5">
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate font-medium">{item.file.name}</span>
+                <div className="flex shrink-0 items-center gap-1">
+                  {item.phase === "uploading" && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Pause"
+                      onClick={() => pause(item)}
+                    >
+                      <Pause />
+                    </Button>
+                  )}
+                  {(item.phase === "paused" ||
+                    (item.phase === "error" &&
+                      uploads.current.has(item.key))) && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Resume"
+                      onClick={() => resume(item)}
+                    >
+                      <Play />
+                    </Button>
+                  )}
+                  {item.phase !== "done" && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Cancel"
+                      onClick={() => cancel(item)}
+                    >
+                      <X />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <Progress
+                value={
+                  item.file.size ? (item.bytes / item.file.size) * 100 : 100
+                }
+              />
+              <p className="text-xs text-muted-foreground">
+                {item.error ?? PHASE_LABELS[item.phase]}
+                {item.resumed && item.phase === "uploading" && " (resumed)"}
+                {" · "}
+                {formatBytes(item.bytes)} of {formatBytes(item.file.size)}
+              </p>
+            </li>
+          ))}
+        </ul>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,195 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { formatDistanceToNow } from "date-fns";
+import { Download, PackageOpen } from "lucide-react";
+import { toast } from "sonner";
+import { z } from "zod";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { webDatasetExportSchema } from "@/lib/schemas";
+import { fetchJson, formatBytes, formatNumber } from "@/lib/utils";
+import type { WebDatasetExport } from "@/lib/webdataset";
+
+const formSchema = webDatasetExportSchema.omit({ ref: true });
+
+type ExportFormValues = z.infer<typeof formSchema>;
+
+interface WebDatasetExportDialogProps {
+  datasetId: string;
+  /** Commit that is exported. */
+  gitRef: string;
+}
+
+function blobUrl(hash: string, name: string) {
+  return `/api/blobs/${hash}?${new URLSearchParams({ name })}`;
+}
+
+/** Exports a dataset version as WebDataset shards and lists their downloads. */
+export function WebDatasetExportDialog({
+  datasetId,
+  gitRef,
+}: WebDatasetExportDialogProps) {
+  const [result, setResult] = useState<WebDatasetExport | null>(null);
+  const form = useForm<ExportFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { name: "shard", maxShardMegabytes: 256 },
+  });
+
+  async function onSubmit(values: ExportFormValues) {
+    try {
+      setResult(
+        await fetchJson<WebDatasetExport>(
+          `/api/datasets/${datasetId}/webdataset`,
+          {
+            method: "POST",
+            body: JSON.stringify({ ...values, ref: gitRef }),
+          },
+        ),
+      );
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  }
+
+  async function onDelete(exportId: string) {
+    try {
+      await fetchJson(`/api/datasets/${datasetId}/exports/${exportId}`, {
+        method: "DELETE",
+      });
+      setResult(null);
+      toast.success("Deleted the exported files");
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  }
+
+  return (
+    <Dialog onOpenChange={(open) => !open && setResult(null)}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <PackageOpen /> WebDataset
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export WebDataset shards</DialogTitle>
+          <DialogDescription>
+            Writes commit{" "}
+            <span className="font-mono">{gitRef.slice(0, 12)}</span> as tar
+            shards of whole samples, with a shard list for indexed readers.
+          </DialogDescription>
+        </DialogHeader>
+        {result ? (
+          <div className="space-y-3 text-sm">
+            <p>
+              {formatNumber(result.samples)} samples in{" "}
+              {formatNumber(result.shards.length)} shards, kept for{" "}
+              {formatDistanceToNow(new Date(result.expiresAt))}.
+            </p>
+            <ScrollArea className="max-h-64 rounded-md border">
+              <ul className="p-1">
+                {[
+                  { ...result.manifest, size: null, samples: null },
+                  ...result.shards,
+                ].map((file) => (
+                  <li key={file.name}>
+                    <a
+                      href={blobUrl(file.hash, file.name)}
+                      download={file.name}
+                      className="flex items-center gap-2 rounded-sm px-2 py-1.5 text-xs hover:bg-muted"
+                    >
+                      <Download className="size-3.5 shrink-0" />
+                      <span className="min-w-0 flex-1 truncate font-mono">
+                        {file.name}
+                      </span>
+                      {file.size !== null && (
+                        <span className="shrink-0 tabular-nums text-muted-foreground">
+                          {formatNumber(file.samples)} ·{" "}
+                          {formatBytes(file.size)}
+                        </span>
+                      )}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => onDelete(result.exportId)}
+              >
+                Delete files
+              </Button>
+              <Button variant="outline" onClick={() => setResult(null)}>
+                Export again
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Shard name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="train" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Shards are named {field.value || "shard"}-000000.tar and
+                      up.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="maxShardMegabytes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Maximum shard size (MB)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? "Exporting…" : "Export"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,41 @@
+import * as React from "react"
+import { toast } from "sonner"
+
+import { fetchJson } from "@/lib/utils"
+
+const POLL_INTERVAL = 2000
+
+/**
+ * Fetches a background job's result from `url`, fetching again every few
+ * seconds while its `status` is `running`. Null until the first response, and
+ * whenever `url` is null.
+ */
+export function usePolledJson<T extends { status: string }>(
+  url: string | null
+): T | null {
+  const [result, setResult] = React.useState<T | null>(null)
+
+  React.useEffect(() => {
+    setResult(null)
+    if (!url) return
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const load = () =>
+      fetchJson<T>(url)
+        .then((next) => {
+          if (cancelled) return
+          setResult(next)
+          if (next.status === "running") {
+            timer = setTimeout(load, POLL_INTERVAL)
+          }
+        })
+        .catch((error) => !cancelled && toast.error((error as Error).message))
+    load()
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [url])
+
+  return result
+}
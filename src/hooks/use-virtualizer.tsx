@@ -0,0 +1,122 @@
+import * as React from "react"
+
+export interface VirtualRange {
+  /** First index to render, inclusive. */
+  start: number
+  /** Last index to render, exclusive. */
+  end: number
+  /** Position to render an item at. */
+  offsetOf: (index: number) => number
+  /** Size to give the scrolled content. */
+  totalSize: number
+}
+
+/**
+ * Largest size given to scrolled content. Browsers cap element sizes, at
+ * about 17.9M px in Firefox and 33.5M px in Chrome.
+ */
+const MAX_SCROLL_SIZE = 15_000_000
+
+/**
+ * Computes which items of a long list intersect the viewport. Fixed sizes are
+ * computed directly; varying sizes are summed once per change, so should only
+ * be used for short lists. `overscan` extra items are rendered on each side
+ * to hide blanking during fast scrolls. Lists longer than browsers can scroll
+ * get a shorter scroll extent, which scroll positions are scaled up from.
+ */
+export function useVirtualizer({
+  count,
+  size,
+  scrollOffset,
+  viewportSize,
+  overscan = 3,
+}: {
+  count: number
+  size: number | ((index: number) => number)
+  scrollOffset: number
+  viewportSize: number
+  overscan?: number
+}): VirtualRange {
+  const offsets = React.useMemo(() => {
+    if (typeof size === "number") return null
+    const result = new Array<number>(count + 1)
+    result[0] = 0
+    for (let i = 0; i < count; i++) result[i + 1] = result[i] + size(i)
+    return result
+  }, [count, size])
+  const fixed = typeof size === "number" ? size : 0
+  const offsetOf = (index: number) => (offsets ? offsets[index] : index * fixed)
+  const indexAt = (position: number) =>
+    offsets ? findIndex(offsets, position) : Math.floor(position / fixed)
+
+  const fullSize = offsetOf(count)
+  const totalSize = Math.min(fullSize, MAX_SCROLL_SIZE)
+  const scale =
+    fullSize > totalSize
+      ? (fullSize - viewportSize) / (totalSize - viewportSize)
+      : 1
+  const position = scrollOffset * scale
+  // Items move with the scaled position, so shift them back into view.
+  const shift = position - scrollOffset
+
+  return {
+    start: Math.max(0, indexAt(position) - overscan),
+    end: Math.min(count, indexAt(position + viewportSize) + 1 + overscan),
+    offsetOf: (index) => offsetOf(index) - shift,
+    totalSize,
+  }
+}
+
+/** Index of the item containing `position`, by binary search over offsets. */
+function findIndex(offsets: number[], position: number) {
+  let low = 0
+  let high = offsets.length - 2
+  while (low < high) {
+    const mid = (low + high + 1) >> 1
+    if (offsets[mid] <= position) low = mid
+    else high = mid - 1
+  }
+  return Math.max(0, low)
+}
+
+/**
+ * Tracks the scroll position and size of a scroll container, throttled to
+ * one update per animation frame.
+ */
+export function useScrollViewport<T extends HTMLElement>() {
+  const ref = React.useRef<T>(null)
+  const [viewport, setViewport] = React.useState({
+    top: 0,
+    left: 0,
+    width: 0,
+    height: 0,
+  })
+
+  React.useEffect(() => {
+    const element = ref.current
+    if (!element) return
+    let frame = 0
+    const measure = () => {
+      cancelAnimationFrame(frame)
+      frame = requestAnimationFrame(() =>
+        setViewport({
+          top: element.scrollTop,
+          left: element.scrollLeft,
+          width: element.clientWidth,
+          height: element.clientHeight,
+        })
+      )
+    }
+    measure()
+    element.addEventListener("scroll", measure, { passive: true })
+    const observer = new ResizeObserver(measure)
+    observer.observe(element)
+    return () => {
+      cancelAnimationFrame(frame)
+      element.removeEventListener("scroll", measure)
+      observer.disconnect()
+    }
+  }, [])
+
+  return [ref, viewport] as const
+}
@@ -0,0 +1,342 @@
+import path from "path";
+
+import type { DatasetFile } from "@/lib/datasets";
+import { isImage, readBlobBuffer } from "@/lib/storage";
+import type { Commit } from "@/lib/versioning";
+
+/**
+ * Object-detection annotations for the images in a dataset version, read
+ * from whichever of the common layouts the version contains:
+ *
+ * - COCO: JSON files with `images`, `annotations` and `categories`, matched
+ *   to images by `file_name`
+ * - Pascal VOC: one XML file per image, in `Annotations/` beside
+ *   `JPEGImages/` or next to the image
+ * - YOLO: one text file per image, in `labels/` beside `images/` or next to
+ *   the image, with class names from `classes.txt`, `obj.names` or the
+ *   `names` key of a dataset YAML file
+ *
+ * Boxes are normalised to fractions of the image size so they can be drawn
+ * over a thumbnail of any size.
+ */
+
+export const ANNOTATION_FORMATS = ["coco", "voc", "yolo"] as const;
+
+export type AnnotationFormat = (typeof ANNOTATION_FORMATS)[number];
+
+export interface BoundingBox {
+  label: string;
+  /** Left edge, as a fraction of the image width. */
+  x: number;
+  /** Top edge, as a fraction of the image height. */
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageSample {
+  path: string;
+  hash: string;
+  size: number;
+  boxes: BoundingBox[];
+  /** Where the boxes came from; null for unannotated images. */
+  format: AnnotationFormat | null;
+}
+
+export interface ImageLabel {
+  name: string;
+  /** Images with at least one box of this label. */
+  images: number;
+}
+
+export interface ImageIndex {
+  commit: string;
+  samples: ImageSample[];
+  labels: ImageLabel[];
+  formats: AnnotationFormat[];
+}
+
+/** A page of `ImageIndex.samples`, as served to the gallery. */
+export interface ImagePage extends Omit<ImageIndex, "samples"> {
+  /** Samples matching the label filter. */
+  total: number;
+  samples: ImageSample[];
+  nextOffset: number | null;
+}
+
+/** COCO files larger than this are skipped rather than parsed in one piece. */
+const MAX_COCO_BYTES = 256 * 1024 * 1024;
+/** Indexes kept in memory, keyed by commit. */
+const INDEX_CACHE_SIZE = 8;
+const YOLO_NAME_FILES = ["classes.txt", "obj.names"];
+
+const indexCache = new Map<string, Promise<ImageIndex>>();
+
+/** Annotated images of a commit, built once per commit and cached. */
+export function imageIndex(commit: Commit): Promise<ImageIndex> {
+  let index = indexCache.get(commit.id);
+  if (!index) {
+    index = buildIndex(commit);
+    index.catch(() => indexCache.delete(commit.id));
+    indexCache.set(commit.id, index);
+    if (indexCache.size > INDEX_CACHE_SIZE) {
+      indexCache.delete(indexCache.keys().next().value!);
+    }
+  }
+  return index;
+}
+
+async function buildIndex(commit: Commit): Promise<ImageIndex> {
+  const files = new Map(commit.manifest.map((file) => [file.path, file]));
+  const images = commit.manifest.filter((file) => isImage(file.path));
+  const coco = await readCoco(commit.manifest, images);
+  let yoloNames: string[] | null = null;
+
+  const samples: ImageSample[] = [];
+  for (const image of images) {
+    let boxes = coco.get(image.path) ?? null;
+    let format: AnnotationFormat | null = boxes ? "coco" : null;
+    const voc = boxes
+      ? undefined
+      : findSidecar(files, image, "Annotations", ".xml");
+    if (voc) {
+      boxes = parseVoc((await readBlobBuffer(voc.hash)).toString("utf8"));
+      if (boxes) format = "voc";
+    }
+    const yolo = boxes
+      ? undefined
+      : findSidecar(files, image, "labels", ".txt");
+    if (yolo) {
+      yoloNames ??= await readYoloNames(commit.manifest);
+      boxes = parseYolo(
+        (await readBlobBuffer(yolo.hash)).toString("utf8"),
+        yoloNames,
+      );
+      format = "yolo";
+    }
+    samples.push({
+      path: image.path,
+      hash: image.hash,
+      size: image.size,
+      boxes: boxes ?? [],
+      format,
+    });
+  }
+
+  const counts = new Map<string, number>();
+  for (const sample of samples) {
+    for (const label of new Set(sample.boxes.map((box) => box.label))) {
+      counts.set(label, (counts.get(label) ?? 0) + 1);
+    }
+  }
+  return {
+    commit: commit.id,
+    samples,
+    labels: [...counts]
+      .map(([name, images]) => ({ name, images }))
+      .sort((a, b) => b.images - a.images || a.name.localeCompare(b.name)),
+    formats: ANNOTATION_FORMATS.filter((format) =>
+      samples.some((sample) => sample.format === format),
+    ),
+  };
+}
+
+/**
+ * The per-image annotation file for `image`: in a `directory` sibling of the
+ * image's nearest `images`/`JPEGImages` directory, or next to the image.
+ */
+function findSidecar(
+  files: Map<string, DatasetFile>,
+  image: DatasetFile,
+  directory: string,
+  extension: string,
+): DatasetFile | undefined {
+  const stem = image.path.slice(0, -path.posix.extname(image.path).length);
+  const parts = stem.split("/");
+  const imageDir = parts.findLastIndex(
+    (part, i) => i < parts.length - 1 && /^(images|JPEGImages)$/i.test(part),
+  );
+  const candidates = [`${stem}${extension}`];
+  if (imageDir !== -1) {
+    candidates.unshift(
+      [...parts.slice(0, imageDir), directory, ...parts.slice(imageDir + 1)]
+        .join("/")
+        .concat(extension),
+    );
+  }
+  return candidates.map((c) => files.get(c)).find(Boolean);
+}
+
+interface CocoFile {
+  images: { id: number; file_name: string; width: number; height: number }[];
+  annotations: { image_id: number; category_id: number; bbox: number[] }[];
+  categories: { id: number; name: string }[];
+}
+
+function isCoco(value: unknown): value is CocoFile {
+  const coco = value as Partial<CocoFile> | null;
+  return (
+    Array.isArray(coco?.images) &&
+    Array.isArray(coco.annotations) &&
+    Array.isArray(coco.categories)
+  );
+}
+
+/** Boxes from every COCO file in the manifest, keyed by image path. */
+async function readCoco(
+  manifest: DatasetFile[],
+  images: DatasetFile[],
+): Promise<Map<string, BoundingBox[]>> {
+  const boxes = new Map<string, BoundingBox[]>();
+  const candidates = manifest.filter(
+    (file) => file.path.endsWith(".json") && file.size <= MAX_COCO_BYTES,
+  );
+  for (const file of candidates) {
+    let coco: unknown;
+    try {
+      coco = JSON.parse((await readBlobBuffer(file.hash)).toString("utf8"));
+    } catch {
+      continue;
+    }
+    if (!isCoco(coco)) continue;
+
+    const categories = new Map(coco.categories.map((c) => [c.id, c.name]));
+    const byId = new Map<
+      number,
+      { path: string; width: number; height: number }
+    >();
+    for (const entry of coco.images) {
+      const match = matchImage(images, file.path, entry.file_name);
+      if (match && entry.width > 0 && entry.height > 0) {
+        byId.set(entry.id, { ...entry, path: match.path });
+        if (!boxes.has(match.path)) boxes.set(match.path, []);
+      }
+    }
+    for (const annotation of coco.annotations) {
+      const image = byId.get(annotation.image_id);
+      if (!image || annotation.bbox?.length !== 4) continue;
+      const [x, y, width, height] = annotation.bbox;
+      boxes.get(image.path)!.push({
+        label:
+          categories.get(annotation.category_id) ??
+          String(annotation.category_id),
+        x: x / image.width,
+        y: y / image.height,
+        width: width / image.width,
+        height: height / image.height,
+      });
+    }
+  }
+  return boxes;
+}
+
+/**
+ * The image a COCO `file_name` refers to. Names are relative to an image
+ * directory the file doesn't record, so prefer the closest match to the
+ * annotation file among images whose path ends with the name.
+ */
+function matchImage(
+  images: DatasetFile[],
+  annotationPath: string,
+  fileName: string,
+): DatasetFile | undefined {
+  const name = fileName.replace(/\\/g, "/").replace(/^\.?\//, "");
+  const matches = images.filter(
+    (image) => image.path === name || image.path.endsWith(`/${name}`),
+  );
+  if (matches.length <= 1) return matches[0];
+  const root = path.posix.dirname(path.posix.dirname(annotationPath));
+  return (
+    matches.find((image) => image.path.startsWith(`${root}/`)) ?? matches[0]
+  );
+}
+
+function xmlText(xml: string, tag: string): string | undefined {
+  return new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`).exec(xml)?.[1];
+}
+
+/** Boxes from a Pascal VOC file, or null if it doesn't record the image size. */
+function parseVoc(xml: string): BoundingBox[] | null {
+  const size = /<size>[\s\S]*?<\/size>/.exec(xml)?.[0] ?? "";
+  const width = Number(xmlText(size, "width"));
+  const height = Number(xmlText(size, "height"));
+  if (!(width > 0 && height > 0)) return null;
+  const boxes: BoundingBox[] = [];
+  for (const [object] of xml.matchAll(/<object>[\s\S]*?<\/object>/g)) {
+    const box = /<bndbox>[\s\S]*?<\/bndbox>/.exec(object)?.[0];
+    if (!box) continue;
+    const [xmin, ymin, xmax, ymax] = ["xmin", "ymin", "xmax", "ymax"].map(
+      (tag) => Number(xmlText(box, tag)),
+    );
+    boxes.push({
+      label: xmlText(object, "name") ?? "object",
+      x: xmin / width,
+      y: ymin / height,
+      width: (xmax - xmin) / width,
+      height: (ymax - ymin) / height,
+    });
+  }
+  return boxes;
+}
+
+function parseYolo(text: string, names: string[]): BoundingBox[] {
+  const boxes: BoundingBox[] = [];
+  for (const line of text.split("\n")) {
+    const [classId, cx, cy, width, height] = line
+      .trim()
+      .split(/\s+/)
+      .map(Number);
+    if (![classId, cx, cy, width, height].every(Number.isFinite)) continue;
+    boxes.push({
+      label: names[classId] ?? String(classId),
+      x: cx - width / 2,
+      y: cy - height / 2,
+      width,
+      height,
+    });
+  }
+  return boxes;
+}
+
+/** Class names for YOLO labels, or none if the dataset doesn't list them. */
+async function readYoloNames(manifest: DatasetFile[]): Promise<string[]> {
+  const byDepth = [...manifest].sort(
+    (a, b) => a.path.split("/").length - b.path.split("/").length,
+  );
+  const list = byDepth.find((file) =>
+    YOLO_NAME_FILES.includes(path.posix.basename(file.path)),
+  );
+  if (list) {
+    return (await readBlobBuffer(list.hash))
+      .toString("utf8")
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean);
+  }
+  for (const file of byDepth.filter((f) => /\.ya?ml$/.test(f.path))) {
+    const names = parseYamlNames((await readBlobBuffer(file.hash)).toString());
+    if (names) return names;
+  }
+  return [];
+}
+
+/**
+ * The `names` key of an Ultralytics dataset YAML file: a flow list
+ * (`names: [a, b]`), a block list (`- a`) or a map of ids (`0: a`).
+ */
+function parseYamlNames(yaml: string): string[] | null {
+  const unquote = (value: string) =>
+    value.trim().replace(/^(['"])(.*)\1$/, "$2");
+  const flow = /^names:\s*\[(.*)\]\s*$/m.exec(yaml);
+  if (flow) return flow[1].split(",").map(unquote).filter(Boolean);
+  const block = /^names:\s*\n((?:[ \t]+.*(?:\n|$))+)/m.exec(yaml);
+  if (!block) return null;
+  const names: string[] = [];
+  for (const line of block[1].split("\n")) {
+    const item = /^\s*(?:-\s*(.+)|(\d+)\s*:\s*(.+))$/.exec(line);
+    if (!item) continue;
+    if (item[1] !== undefined) names.push(unquote(item[1]));
+    else names[Number(item[2])] = unquote(item[3]);
+  }
+  return names;
+}
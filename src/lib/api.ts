@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { ZodError } from "zod";
+
+/** An error that maps directly onto an HTTP status in route handlers. */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message = "Not found") {
+    super(404, message);
+    this.name = "NotFoundError";
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message: string) {
+    super(409, message);
+    this.name = "ConflictError";
+  }
+}
+
+/** Converts a thrown value into the JSON error body the UI expects. */
+export function errorResponse(error: unknown) {
+  if (error instanceof HttpError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.status },
+    );
+  }
+  if (error instanceof ZodError) {
+    return NextResponse.json(
+      { error: "Invalid request", issues: error.flatten().fieldErrors },
+      { status: 400 },
+    );
+  }
+  if (error instanceof SyntaxError) {
+    return NextResponse.json({ error: "Malformed JSON body" }, { status: 400 });
+  }
+  console.error(error);
+  return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+}
@@ -0,0 +1,386 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { z } from "zod";
+
+import { HttpError, NotFoundError } from "@/lib/api";
+import type { DatasetFile } from "@/lib/datasets";
+import { readWavFormat } from "@/lib/media";
+import { blobPath, mediaType, readBlobBuffer } from "@/lib/storage";
+import type { Commit } from "@/lib/versioning";
+
+/**
+ * Speech dataset support: duration, sample rate and channel count read from
+ * WAV, FLAC and MP3 headers without decoding the audio, and transcripts
+ * paired with recordings by file name. A transcript is a `.txt` or `.lab`
+ * file of plain text, or a `.json` file with word or segment timestamps in
+ * the shape Whisper and most forced aligners write:
+ *
+ *     { "text": "...", "words": [{ "word": "hi", "start": 0.1, "end": 0.3 }] }
+ *     { "text": "...", "segments": [{ "text": "...", "start": 0, "end": 2.5,
+ *       "words": [...] }] }
+ */
+
+export const AUDIO_FORMATS = ["wav", "flac", "mp3"] as const;
+
+export type AudioFormat = (typeof AUDIO_FORMATS)[number];
+
+export interface AudioMetadata {
+  format: AudioFormat;
+  /** Seconds. */
+  duration: number;
+  sampleRate: number;
+  channels: number;
+  /** Null for lossy formats. */
+  bitsPerSample: number | null;
+}
+
+export interface AudioFile {
+  path: string;
+  hash: string;
+  size: number;
+  /** Null when the header couldn't be read; see `error`. */
+  metadata: AudioMetadata | null;
+  error: string | null;
+  /** Path of the paired transcript, if there is one. */
+  transcript: string | null;
+}
+
+export interface AudioIndex {
+  commit: string;
+  files: AudioFile[];
+  /** Seconds across files whose duration is known. */
+  totalDuration: number;
+  /** Files per `DURATION_BUCKETS` entry. */
+  durations: { label: string; count: number }[];
+  /** Files per sample rate, most common first. */
+  sampleRates: { sampleRate: number; count: number }[];
+}
+
+export interface TimedSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface Transcript {
+  path: string;
+  text: string;
+  /** Word timestamps, or segment ones if the file has no words. */
+  spans: TimedSpan[] | null;
+}
+
+/** Histogram buckets for recording length, in seconds. */
+export const DURATION_BUCKETS = [
+  { label: "< 1s", max: 1 },
+  { label: "1–2s", max: 2 },
+  { label: "2–5s", max: 5 },
+  { label: "5–10s", max: 10 },
+  { label: "10–20s", max: 20 },
+  { label: "20–30s", max: 30 },
+  { label: "30–60s", max: 60 },
+  { label: "1–5 min", max: 300 },
+  { label: "> 5 min", max: Infinity },
+] as const;
+
+const TRANSCRIPT_EXTENSIONS = [".json", ".txt", ".lab"];
+/** Bytes read from the start of a file to find its header. */
+const HEADER_BYTES = 64 * 1024;
+const MAX_TRANSCRIPT_BYTES = 16 * 1024 * 1024;
+/** Indexes kept in memory, keyed by commit. */
+const INDEX_CACHE_SIZE = 8;
+
+const indexCache = new Map<string, Promise<AudioIndex>>();
+
+/** Metadata for the recordings of a commit, built once per commit and cached. */
+export function audioIndex(commit: Commit): Promise<AudioIndex> {
+  let index = indexCache.get(commit.id);
+  if (!index) {
+    index = buildIndex(commit);
+    index.catch(() => indexCache.delete(commit.id));
+    indexCache.set(commit.id, index);
+    if (indexCache.size > INDEX_CACHE_SIZE) {
+      indexCache.delete(indexCache.keys().next().value!);
+    }
+  }
+  return index;
+}
+
+async function buildIndex(commit: Commit): Promise<AudioIndex> {
+  const paths = new Set(commit.manifest.map((file) => file.path));
+  const files: AudioFile[] = [];
+  for (const file of commit.manifest) {
+    if (mediaType(file.path) !== "audio") continue;
+    let metadata: AudioMetadata | null = null;
+    let error: string | null = null;
+    try {
+      metadata = await readAudioMetadata(file);
+    } catch (cause) {
+      error = (cause as Error).message;
+    }
+    const stem = file.path.slice(0, -path.posix.extname(file.path).length);
+    const transcript =
+      TRANSCRIPT_EXTENSIONS.map((extension) => stem + extension).find(
+        (candidate) => paths.has(candidate),
+      ) ?? null;
+    files.push({ ...file, metadata, error, transcript });
+  }
+
+  const durations = DURATION_BUCKETS.map(({ label }) => ({ label, count: 0 }));
+  const sampleRates = new Map<number, number>();
+  let totalDuration = 0;
+  for (const { metadata } of files) {
+    if (!metadata) continue;
+    totalDuration += metadata.duration;
+    const bucket = DURATION_BUCKETS.findIndex(
+      ({ max }) => metadata.duration < max,
+    );
+    durations[bucket].count++;
+    sampleRates.set(
+      metadata.sampleRate,
+      (sampleRates.get(metadata.sampleRate) ?? 0) + 1,
+    );
+  }
+  return {
+    commit: commit.id,
+    files,
+    totalDuration,
+    durations,
+    sampleRates: [...sampleRates]
+      .map(([sampleRate, count]) => ({ sampleRate, count }))
+      .sort((a, b) => b.count - a.count),
+  };
+}
+
+async function readHeader(hash: string, start = 0): Promise<Buffer> {
+  const handle = await fs.open(blobPath(hash));
+  try {
+    const buffer = Buffer.alloc(HEADER_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, HEADER_BYTES, start);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/** Reads duration, sample rate and channels from a file's header. */
+export async function readAudioMetadata(
+  file: Pick<DatasetFile, "path" | "hash" | "size">,
+): Promise<AudioMetadata> {
+  const extension = path.posix.extname(file.path).slice(1).toLowerCase();
+  let header = await readHeader(file.hash);
+  switch (extension) {
+    case "wav": {
+      const wav = readWavFormat(header, file.size);
+      const bytesPerSecond =
+        (wav.sampleRate * wav.channels * wav.bitsPerSample) / 8;
+      return {
+        format: "wav",
+        duration: bytesPerSecond ? wav.dataLength / bytesPerSecond : 0,
+        sampleRate: wav.sampleRate,
+        channels: wav.channels,
+        bitsPerSample: wav.bitsPerSample,
+      };
+    }
+    case "flac":
+    case "mp3": {
+      // Tags can hold cover art, so the audio may start well past the header.
+      const start = id3Size(header);
+      if (start > 0) header = await readHeader(file.hash, start);
+      return extension === "flac"
+        ? readFlac(header)
+        : readMp3(header, file.size - start);
+    }
+    default:
+      throw new HttpError(422, `Can't read .${extension} audio headers`);
+  }
+}
+
+/** Length of a leading ID3v2 tag, or 0 if there isn't one. */
+function id3Size(buffer: Buffer): number {
+  if (buffer.length < 10 || buffer.toString("latin1", 0, 3) !== "ID3") return 0;
+  // Sizes are "syncsafe": 7 bits per byte.
+  const size =
+    (buffer[6] << 21) | (buffer[7] << 14) | (buffer[8] << 7) | buffer[9];
+  const hasFooter = (buffer[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+function readFlac(buffer: Buffer): AudioMetadata {
+  // "fLaC", then the STREAMINFO block, which must come first.
+  if (buffer.length < 26 || buffer.toString("latin1", 0, 4) !== "fLaC") {
+    throw new HttpError(422, "Not a FLAC file");
+  }
+  if ((buffer[4] & 0x7f) !== 0) {
+    throw new HttpError(422, "FLAC file has no STREAMINFO block");
+  }
+  const info = 8;
+  const sampleRate =
+    (buffer[info + 10] << 12) |
+    (buffer[info + 11] << 4) |
+    (buffer[info + 12] >> 4);
+  const channels = ((buffer[info + 12] >> 1) & 0x07) + 1;
+  const bitsPerSample =
+    (((buffer[info + 12] & 0x01) << 4) | (buffer[info + 13] >> 4)) + 1;
+  const totalSamples =
+    (buffer[info + 13] & 0x0f) * 2 ** 32 + buffer.readUInt32BE(info + 14);
+  return {
+    format: "flac",
+    duration: sampleRate ? totalSamples / sampleRate : 0,
+    sampleRate,
+    channels,
+    bitsPerSample,
+  };
+}
+
+// MPEG audio frame header tables, indexed by the header's bit fields.
+const MP3_BITRATES = {
+  v1: [
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  ],
+  v2: [
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  ],
+};
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000], // MPEG-2.5
+};
+
+/**
+ * Reads the first MPEG audio frame. Duration comes from a Xing/Info or VBRI
+ * frame count when the encoder wrote one, else from the bitrate, which is
+ * exact for constant-bitrate files.
+ */
+function readMp3(buffer: Buffer, audioBytes: number): AudioMetadata {
+  for (let offset = 0; offset + 4 <= buffer.length; offset++) {
+    if (buffer[offset] !== 0xff || (buffer[offset + 1] & 0xe0) !== 0xe0) {
+      continue;
+    }
+    const version = (buffer[offset + 1] >> 3) & 0x03;
+    const layer = 4 - ((buffer[offset + 1] >> 1) & 0x03);
+    const bitrateIndex = buffer[offset + 2] >> 4;
+    const rateIndex = (buffer[offset + 2] >> 2) & 0x03;
+    if (
+      version === 1 ||
+      layer === 4 ||
+      bitrateIndex === 15 ||
+      rateIndex === 3
+    ) {
+      continue;
+    }
+    const mpeg1 = version === 3;
+    const sampleRate = MP3_SAMPLE_RATES[version][rateIndex];
+    const bitrate =
+      MP3_BITRATES[mpeg1 ? "v1" : "v2"][layer - 1][bitrateIndex] * 1000;
+    const mono = buffer[offset + 3] >> 6 === 3;
+    const samplesPerFrame =
+      layer === 1 ? 384 : layer === 2 || mpeg1 ? 1152 : 576;
+
+    const sideInfo = mpeg1 ? (mono ? 17 : 32) : mono ? 9 : 17;
+    let frames: number | null = null;
+    const xing = offset + 4 + sideInfo;
+    const tag = buffer.toString("latin1", xing, xing + 4);
+    if (
+      (tag === "Xing" || tag === "Info") &&
+      buffer.length >= xing + 12 &&
+      buffer.readUInt32BE(xing + 4) & 0x01
+    ) {
+      frames = buffer.readUInt32BE(xing + 8);
+    } else if (
+      buffer.toString("latin1", offset + 36, offset + 40) === "VBRI" &&
+      buffer.length >= offset + 54
+    ) {
+      frames = buffer.readUInt32BE(offset + 50);
+    }
+
+    let duration: number;
+    if (frames !== null) duration = (frames * samplesPerFrame) / sampleRate;
+    else if (bitrate) duration = ((audioBytes - offset) * 8) / bitrate;
+    else continue;
+    return {
+      format: "mp3",
+      duration,
+      sampleRate,
+      channels: mono ? 1 : 2,
+      bitsPerSample: null,
+    };
+  }
+  throw new HttpError(422, "No MPEG audio frame found");
+}
+
+const timedSchema = z.object({
+  start: z.number(),
+  end: z.number(),
+});
+
+const wordSchema = timedSchema.extend({
+  word: z.string().optional(),
+  text: z.string().optional(),
+});
+
+const segmentSchema = timedSchema.extend({
+  text: z.string(),
+  words: z.array(wordSchema).optional(),
+});
+
+const transcriptJsonSchema = z.object({
+  text: z.string().optional(),
+  words: z.array(wordSchema).optional(),
+  segments: z.array(segmentSchema).optional(),
+});
+
+/** The transcript paired with the recording at `audioPath`. */
+export async function readTranscript(
+  commit: Commit,
+  audioPath: string,
+): Promise<Transcript> {
+  const index = await audioIndex(commit);
+  const audio = index.files.find((file) => file.path === audioPath);
+  if (!audio) throw new NotFoundError(`${audioPath} is not a recording here`);
+  if (!audio.transcript) {
+    throw new NotFoundError(`${audioPath} has no transcript`);
+  }
+  const file = commit.manifest.find((f) => f.path === audio.transcript)!;
+  if (file.size > MAX_TRANSCRIPT_BYTES) {
+    throw new HttpError(413, `${file.path} is too large to show`);
+  }
+  const content = (await readBlobBuffer(file.hash)).toString("utf8");
+  if (!file.path.endsWith(".json")) {
+    return { path: file.path, text: content.trim(), spans: null };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    throw new HttpError(422, `${file.path} is not valid JSON`);
+  }
+  const parsed = transcriptJsonSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new HttpError(422, `${file.path} is not a timestamped transcript`);
+  }
+  const { text, words, segments } = parsed.data;
+  const segmentWords = segments?.flatMap((segment) => segment.words ?? []);
+  const timedWords = words ?? (segmentWords?.length ? segmentWords : null);
+  const spans: TimedSpan[] | null = timedWords
+    ? timedWords.map(({ word, text, start, end }) => ({
+        text: (word ?? text ?? "").trim(),
+        start,
+        end,
+      }))
+    : (segments?.map(({ text, start, end }) => ({
+        text: text.trim(),
+        start,
+        end,
+      })) ?? null);
+  return {
+    path: file.path,
+    text: text?.trim() ?? spans?.map((span) => span.text).join(" ") ?? "",
+    spans,
+  };
+}
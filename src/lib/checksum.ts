@@ -0,0 +1,23 @@
+import { createSHA256 } from "hash-wasm";
+
+const HASH_CHUNK_BYTES = 8 * 1024 * 1024;
+
+/**
+ * Computes the SHA-256 of a browser `File` incrementally, so multi-gigabyte
+ * files are never held in memory at once.
+ */
+export async function sha256File(
+  file: Blob,
+  onProgress?: (bytesHashed: number) => void,
+  signal?: AbortSignal,
+): Promise<string> {
+  const hasher = await createSHA256();
+  hasher.init();
+  for (let offset = 0; offset < file.size; offset += HASH_CHUNK_BYTES) {
+    signal?.throwIfAborted();
+    const chunk = file.slice(offset, offset + HASH_CHUNK_BYTES);
+    hasher.update(new Uint8Array(await chunk.arrayBuffer()));
+    onProgress?.(Math.min(offset + HASH_CHUNK_BYTES, file.size));
+  }
+  return hasher.digest("hex");
+}
@@ -0,0 +1,435 @@
+import { createHash } from "crypto";
+
+import { NotFoundError } from "@/lib/api";
+import { query, transact } from "@/lib/db";
+import { readRows, stableStringify } from "@/lib/formats";
+import { isJobPending, runJob } from "@/lib/jobs";
+import {
+  contaminationInputSchema,
+  type ContaminationInput,
+} from "@/lib/schemas";
+import { tabularFiles } from "@/lib/splits";
+import { readBlobBuffer, storeBlob } from "@/lib/storage";
+import { hashText, normalizeText, rowText } from "@/lib/text";
+import { checkout, type Commit } from "@/lib/versioning";
+
+/**
+ * Benchmark contamination of a training version: how much of each eval
+ * example's text occurs in the training data. Texts are normalized as for
+ * duplicate scans and split into word n-grams (13 by default); an eval
+ * example's overlap is the share of its n-grams found in any training row.
+ * Examples shorter than one n-gram are counted but not checked.
+ *
+ * The eval n-grams are the ones held in memory, since eval sets are small
+ * next to training data, and the training version is streamed past them
+ * once. Checks run in the background and are recorded against the training
+ * commit, so every view of that version lists them.
+ */
+
+export interface ContaminationEval {
+  datasetId: string;
+  name: string;
+  /** Ref asked for, and the commit it resolved to. */
+  ref: string;
+  commit: string;
+}
+
+export interface ContaminationOptions {
+  ngram: number;
+  threshold: number;
+  columns: string[];
+}
+
+export interface EvalSummary {
+  datasetId: string;
+  examples: number;
+  /** Examples with at least one n-gram. */
+  checked: number;
+  contaminated: number;
+  /** Contaminated share of the checked examples. */
+  rate: number;
+}
+
+export interface ContaminationSummary {
+  trainingRows: number;
+  evals: EvalSummary[];
+  /** Contaminated share of every checked example. */
+  rate: number;
+  duration: number;
+}
+
+export interface ContaminationRecord {
+  /** Digest of the evals and options; unique per training commit. */
+  id: string;
+  commit: string;
+  evals: ContaminationEval[];
+  options: ContaminationOptions;
+  status: "running" | "ready" | "failed";
+  summary: ContaminationSummary | null;
+  hash: string | null;
+  error: string | null;
+  createdAt: string;
+}
+
+export interface ContaminationList {
+  commit: string;
+  /** `running` while any check of the version is. */
+  status: "running" | "ready";
+  reports: ContaminationRecord[];
+}
+
+export interface ContaminatedExample {
+  datasetId: string;
+  path: string;
+  /** 0-based row index within the eval file. */
+  row: number;
+  ngrams: number;
+  matched: number;
+  overlap: number;
+  /** Start of the example's text. */
+  text: string;
+  /** First training row found sharing an n-gram with the example. */
+  source: { path: string; row: number };
+}
+
+export interface ContaminatedPage {
+  report: ContaminationRecord;
+  /** The page asked for, highest overlap first. */
+  examples: ContaminatedExample[];
+  /** Contaminated examples of the eval asked for, across all pages. */
+  total: number;
+}
+
+interface StoredExample {
+  eval: number;
+  file: number;
+  row: number;
+  ngrams: number;
+  matched: number;
+  text: string;
+  sourceFile: number;
+  sourceRow: number;
+}
+
+interface ContaminationScan {
+  /** File paths of each eval, then of the training version. */
+  evalFiles: string[][];
+  trainingFiles: string[];
+  examples: StoredExample[];
+}
+
+interface EvalExample {
+  eval: number;
+  file: number;
+  row: number;
+  text: string;
+  ngrams: number[];
+}
+
+const PREVIEW_CHARS = 500;
+const INTERRUPTED = "The check stopped before it finished; run it again";
+
+/**
+ * 52-bit hash of an n-gram, from two 32-bit hashes, so collisions stay rare
+ * across the millions of n-grams of a training version.
+ */
+function ngramHash(text: string): number {
+  return hashText(text) * 0x200000 + (hashText(text, 0x050c5d1f) >>> 11);
+}
+
+/** Hashes of the distinct word n-grams of a normalized text. */
+function ngramHashes(text: string, n: number): number[] {
+  const words = text.split(" ");
+  const hashes = new Set<number>();
+  for (let i = 0; i + n <= words.length; i++) {
+    hashes.add(ngramHash(words.slice(i, i + n).join(" ")));
+  }
+  return [...hashes];
+}
+
+function reportId(
+  evals: ContaminationEval[],
+  options: ContaminationOptions,
+): string {
+  const evalCommits = evals.map((e) => [e.datasetId, e.commit]);
+  return createHash("sha256")
+    .update(stableStringify({ evals: evalCommits, options }))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+async function checkVersion(
+  training: Commit,
+  evals: Commit[],
+  options: ContaminationOptions,
+): Promise<{ scan: ContaminationScan; summary: ContaminationSummary }> {
+  const started = Date.now();
+  const columns = options.columns.length > 0 ? options.columns : undefined;
+
+  const evalFiles = evals.map((commit) => tabularFiles(commit.manifest));
+  const examples: EvalExample[] = [];
+  const counts = evals.map(() => ({ examples: 0, checked: 0 }));
+  // Eval n-grams, mapped to where they were first seen in training once they
+  // are; -1 until then.
+  const seen = new Map<number, number>();
+  for (const [evalIndex, files] of evalFiles.entries()) {
+    for (const [fileIndex, file] of files.entries()) {
+      let rowIndex = 0;
+      for await (const row of readRows(file, { columns })) {
+        const index = rowIndex++;
+        counts[evalIndex].examples++;
+        const text = rowText(row);
+        const ngrams = ngramHashes(normalizeText(text), options.ngram);
+        if (ngrams.length === 0) continue;
+        counts[evalIndex].checked++;
+        for (const hash of ngrams) seen.set(hash, -1);
+        examples.push({
+          eval: evalIndex,
+          file: fileIndex,
+          row: index,
+          text: text.slice(0, PREVIEW_CHARS),
+          ngrams,
+        });
+      }
+    }
+  }
+
+  // Training rows by id, for the matches' first sources.
+  const sources: [number, number][] = [];
+  const trainingFiles = tabularFiles(training.manifest);
+  let trainingRows = 0;
+  for (const [fileIndex, file] of trainingFiles.entries()) {
+    let rowIndex = 0;
+    for await (const row of readRows(file)) {
+      const index = rowIndex++;
+      trainingRows++;
+      if (seen.size === 0) continue;
+      const words = normalizeText(rowText(row)).split(" ");
+      let source = -1;
+      for (let i = 0; i + options.ngram <= words.length; i++) {
+        const hash = ngramHash(words.slice(i, i + options.ngram).join(" "));
+        if (seen.get(hash) !== -1) continue;
+        if (source === -1) {
+          source = sources.length;
+          sources.push([fileIndex, index]);
+        }
+        seen.set(hash, source);
+      }
+    }
+  }
+
+  const contaminated: StoredExample[] = [];
+  for (const example of examples) {
+    let matched = 0;
+    let source = -1;
+    for (const hash of example.ngrams) {
+      const first = seen.get(hash)!;
+      if (first === -1) continue;
+      matched++;
+      if (source === -1 || first < source) source = first;
+    }
+    if (matched === 0) continue;
+    if (matched / example.ngrams.length < options.threshold) continue;
+    contaminated.push({
+      eval: example.eval,
+      file: example.file,
+      row: example.row,
+      ngrams: example.ngrams.length,
+      matched,
+      text: example.text,
+      sourceFile: sources[source][0],
+      sourceRow: sources[source][1],
+    });
+  }
+  contaminated.sort(
+    (a, b) =>
+      b.matched / b.ngrams - a.matched / a.ngrams ||
+      a.eval - b.eval ||
+      a.file - b.file ||
+      a.row - b.row,
+  );
+
+  const perEval = counts.map(({ examples, checked }, evalIndex) => {
+    const flagged = contaminated.filter((e) => e.eval === evalIndex).length;
+    return {
+      examples,
+      checked,
+      contaminated: flagged,
+      rate: checked > 0 ? flagged / checked : 0,
+    };
+  });
+  const checked = perEval.reduce((sum, e) => sum + e.checked, 0);
+  return {
+    scan: {
+      evalFiles: evalFiles.map((files) => files.map((file) => file.path)),
+      trainingFiles: trainingFiles.map((file) => file.path),
+      examples: contaminated,
+    },
+    summary: {
+      trainingRows,
+      evals: perEval.map((e, evalIndex) => ({
+        datasetId: evals[evalIndex].datasetId,
+        ...e,
+      })),
+      rate: checked > 0 ? contaminated.length / checked : 0,
+      duration: Date.now() - started,
+    },
+  };
+}
+
+function recordKey(record: Pick<ContaminationRecord, "commit" | "id">) {
+  return `${record.commit}/${record.id}`;
+}
+
+async function runCheck(
+  record: ContaminationRecord,
+  training: Commit,
+  evals: Commit[],
+) {
+  let finished: ContaminationRecord;
+  try {
+    const { scan, summary } = await checkVersion(
+      training,
+      evals,
+      record.options,
+    );
+    const blob = await storeBlob(Buffer.from(JSON.stringify(scan)));
+    finished = { ...record, status: "ready", summary, hash: blob.hash };
+  } catch (error) {
+    finished = { ...record, status: "failed", error: (error as Error).message };
+  }
+  await transact((db) => {
+    db.contaminationReports[recordKey(finished)] = finished;
+  });
+}
+
+/** A running record whose job is gone was cut short by a restart. */
+function current(record: ContaminationRecord): ContaminationRecord {
+  if (
+    record.status !== "running" ||
+    isJobPending("contamination", recordKey(record))
+  ) {
+    return record;
+  }
+  return { ...record, status: "failed", error: INTERRUPTED };
+}
+
+/**
+ * Starts checking the training version at `ref` against the eval versions
+ * chosen, unless the same check of those versions is already recorded or
+ * running; a failed one runs again.
+ */
+export async function checkContamination(
+  datasetId: string,
+  input: ContaminationInput,
+): Promise<ContaminationRecord> {
+  const fields = contaminationInputSchema.parse(input);
+  const training = await checkout(datasetId, fields.ref);
+  const evalCommits: Commit[] = [];
+  const evals: ContaminationEval[] = [];
+  for (const { datasetId: evalId, ref } of fields.evals) {
+    const dataset = await query((db) =>
+      db.datasets.find((d) => d.id === evalId),
+    );
+    if (!dataset) throw new NotFoundError(`Dataset ${evalId} not found`);
+    const commit = await checkout(evalId, ref);
+    evalCommits.push(commit);
+    evals.push({
+      datasetId: evalId,
+      name: dataset.name,
+      ref: ref ?? dataset.defaultBranch,
+      commit: commit.id,
+    });
+  }
+  const options: ContaminationOptions = {
+    ngram: fields.ngram,
+    threshold: fields.threshold,
+    columns: [...new Set(fields.columns)].sort(),
+  };
+  const record: ContaminationRecord = {
+    id: reportId(evals, options),
+    commit: training.id,
+    evals,
+    options,
+    status: "running",
+    summary: null,
+    hash: null,
+    error: null,
+    createdAt: new Date().toISOString(),
+  };
+  const key = recordKey(record);
+  const existing = await query((db) => db.contaminationReports[key]);
+  if (existing && current(existing).status !== "failed") return existing;
+
+  // Queued before the record is saved, so it is never seen running unqueued.
+  runJob("contamination", key, () =>
+    runCheck(record, training, evalCommits),
+  ).catch((error) => console.error(error));
+  await transact((db) => {
+    db.contaminationReports[key] = record;
+  });
+  return record;
+}
+
+/** Contamination checks of the training version at `ref`, newest first. */
+export async function listContamination(
+  datasetId: string,
+  ref?: string,
+): Promise<ContaminationList> {
+  const commit = await checkout(datasetId, ref);
+  const reports = await query((db) =>
+    Object.values(db.contaminationReports).filter(
+      (r) => r.commit === commit.id,
+    ),
+  );
+  const listed = reports
+    .map(current)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return {
+    commit: commit.id,
+    status: listed.some((r) => r.status === "running") ? "running" : "ready",
+    reports: listed,
+  };
+}
+
+/**
+ * Contaminated examples of a finished check, a page at a time, optionally of
+ * one eval dataset only.
+ */
+export async function getContaminatedExamples(
+  datasetId: string,
+  reportId: string,
+  input: { ref?: string; evalId?: string; offset: number; limit: number },
+): Promise<ContaminatedPage> {
+  const commit = await checkout(datasetId, input.ref);
+  const record = await query(
+    (db) => db.contaminationReports[`${commit.id}/${reportId}`],
+  );
+  if (!record) {
+    throw new NotFoundError(`Contamination check ${reportId} not found`);
+  }
+  const report = current(record);
+  if (!report.hash) return { report, examples: [], total: 0 };
+  const scan: ContaminationScan = JSON.parse(
+    (await readBlobBuffer(report.hash)).toString("utf8"),
+  );
+  const matching = scan.examples.filter(
+    (e) => !input.evalId || report.evals[e.eval].datasetId === input.evalId,
+  );
+  return {
+    report,
+    examples: matching
+      .slice(input.offset, input.offset + input.limit)
+      .map((e) => ({
+        datasetId: report.evals[e.eval].datasetId,
+        path: scan.evalFiles[e.eval][e.file],
+        row: e.row,
+        ngrams: e.ngrams,
+        matched: e.matched,
+        overlap: e.matched / e.ngrams,
+        text: e.text,
+        source: { path: scan.trainingFiles[e.sourceFile], row: e.sourceRow },
+      })),
+    total: matching.length,
+  };
+}
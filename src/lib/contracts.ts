@@ -0,0 +1,549 @@
+import { createHash } from "crypto";
+
+import { HttpError } from "@/lib/api";
+import { getDataset, type DatasetFile } from "@/lib/datasets";
+import { query, transact, type Database } from "@/lib/db";
+import {
+  detectFormat,
+  hashRow,
+  readRows,
+  stableStringify,
+} from "@/lib/formats";
+import { isJobPending, runJob, storedResult } from "@/lib/jobs";
+import {
+  contractInputSchema,
+  type ContractColumn,
+  type ContractInput,
+  type ContractSpec,
+  type ContractType,
+} from "@/lib/schemas";
+import { tabularFiles } from "@/lib/splits";
+import { checkout, type Commit } from "@/lib/versioning";
+
+/**
+ * Data contracts: rules a dataset's owners declare about its columns and
+ * size. Every new commit is checked against the dataset's contract in the
+ * background and marked failing when it breaks a rule. Commits to a branch
+ * the contract protects are checked before they are made, and refused.
+ */
+
+export const CONTRACT_RULES = [
+  "required",
+  "type",
+  "range",
+  "pattern",
+  "nullRate",
+  "unique",
+  "minRows",
+] as const;
+
+export type ContractRule = (typeof CONTRACT_RULES)[number];
+
+export interface DataContract extends ContractSpec {
+  datasetId: string;
+  updatedAt: string;
+}
+
+export interface ContractViolation {
+  rule: ContractRule;
+  column: string | null;
+  message: string;
+  /** Values breaking the rule, for rules checked value by value. */
+  count: number;
+  /** The first values breaking the rule, by file and 0-based row. */
+  examples: { path: string; row: number; value: unknown }[];
+}
+
+export interface ContractCheckRecord {
+  commit: string;
+  /** Digest of the rules the commit was checked against. */
+  contract: string;
+  /** `failed` when the version could not be read to check it. */
+  status: "passed" | "failing" | "failed";
+  rows: number;
+  violations: ContractViolation[];
+  error: string | null;
+  createdAt: string;
+}
+
+/**
+ * `none` when the dataset has no contract, and `unchecked` for versions the
+ * contract has not been checked against yet.
+ */
+export type ContractStatus =
+  "none" | "unchecked" | "running" | ContractCheckRecord["status"];
+
+export interface ContractCheckResult {
+  commit: string;
+  contract: DataContract | null;
+  status: ContractStatus;
+  rows: number;
+  violations: ContractViolation[];
+  error: string | null;
+  checkedAt: string | null;
+}
+
+/** A version that passed the contract before it was committed. */
+export interface PassedCheck {
+  contract: string;
+  rows: number;
+}
+
+const MAX_EXAMPLES = 5;
+const MAX_EXAMPLE_CHARS = 200;
+/** Most values of a column held in memory to check it is unique. */
+const MAX_UNIQUE_VALUES = 5_000_000;
+/** Violations named in the error refusing a commit to a protected branch. */
+const MAX_LISTED = 3;
+
+const INTEGER_TEXT = /^[-+]?\d+$/;
+const NUMBER_TEXT = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+const BOOLEAN_TEXT = /^(true|false)$/i;
+
+/** Raised when a commit to a protected branch would break the contract. */
+export class ContractViolationError extends HttpError {
+  constructor(
+    branch: string,
+    readonly violations: ContractViolation[],
+  ) {
+    const listed = violations.slice(0, MAX_LISTED).map((v) => v.message);
+    const more = violations.length - listed.length;
+    super(
+      422,
+      `The contract protects ${branch} and this commit breaks it: ${listed.join("; ")}${more > 0 ? `; and ${more} more` : ""}`,
+    );
+    this.name = "ContractViolationError";
+  }
+}
+
+/** Digest of the rules of a contract; protected branches do not count. */
+function contractDigest(spec: ContractSpec): string {
+  return createHash("sha256")
+    .update(stableStringify({ columns: spec.columns, minRows: spec.minRows }))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+function checkKey(commit: string, contract: string) {
+  return `${commit}/${contract}`;
+}
+
+export function getContract(datasetId: string): Promise<DataContract | null> {
+  return query((db) => db.contracts[datasetId] ?? null);
+}
+
+/**
+ * Sets the contract of a dataset. Versions are checked against the new rules
+ * as they are viewed, and new commits as they are made.
+ */
+export async function saveContract(
+  datasetId: string,
+  input: ContractInput,
+): Promise<DataContract> {
+  const fields = contractInputSchema.parse(input);
+  await getDataset(datasetId);
+  return transact((db) => {
+    const contract: DataContract = {
+      datasetId,
+      ...fields,
+      updatedAt: new Date().toISOString(),
+    };
+    db.contracts[datasetId] = contract;
+    return contract;
+  });
+}
+
+export async function deleteContract(datasetId: string): Promise<void> {
+  await getDataset(datasetId);
+  await transact((db) => {
+    delete db.contracts[datasetId];
+  });
+}
+
+interface ColumnState {
+  column: ContractColumn;
+  pattern: RegExp | null;
+  nulls: number;
+  /** Files the column does not appear in. */
+  missingFrom: string[];
+  /** SHA-256 of the values seen, when they must be unique. */
+  seen: Set<string> | null;
+  breaches: Map<ContractRule, Omit<ContractViolation, "message">>;
+}
+
+/** A scalar's number, counting numeric text in delimited files. */
+function numericValue(value: unknown, textual: boolean): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (textual && typeof value === "string" && NUMBER_TEXT.test(value.trim())) {
+    return Number(value);
+  }
+  return null;
+}
+
+function typeMatches(
+  value: unknown,
+  type: ContractType,
+  textual: boolean,
+): boolean {
+  const text = textual && typeof value === "string" ? value.trim() : null;
+  switch (type) {
+    case "any":
+      return true;
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return numericValue(value, textual) !== null;
+    case "integer":
+      return (
+        Number.isInteger(value) || (text !== null && INTEGER_TEXT.test(text))
+      );
+    case "boolean":
+      return (
+        typeof value === "boolean" || (text !== null && BOOLEAN_TEXT.test(text))
+      );
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && !Array.isArray(value);
+  }
+}
+
+function preview(value: unknown): unknown {
+  if (typeof value === "string" && value.length > MAX_EXAMPLE_CHARS) {
+    return `${value.slice(0, MAX_EXAMPLE_CHARS)}…`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const text = JSON.stringify(value);
+    return text.length > MAX_EXAMPLE_CHARS
+      ? `${text.slice(0, MAX_EXAMPLE_CHARS)}…`
+      : value;
+  }
+  return value;
+}
+
+function breach(
+  state: ColumnState,
+  rule: ContractRule,
+  value: unknown,
+  at: { path: string; row: number },
+) {
+  let found = state.breaches.get(rule);
+  if (!found) {
+    found = { rule, column: state.column.name, count: 0, examples: [] };
+    state.breaches.set(rule, found);
+  }
+  found.count++;
+  if (found.examples.length < MAX_EXAMPLES) {
+    found.examples.push({ ...at, value: preview(value) });
+  }
+}
+
+function checkValue(
+  state: ColumnState,
+  value: unknown,
+  textual: boolean,
+  at: { path: string; row: number },
+) {
+  const { column } = state;
+  if (!typeMatches(value, column.type, textual)) {
+    breach(state, "type", value, at);
+  }
+  const number = numericValue(value, textual);
+  if (
+    number !== null &&
+    ((column.min !== null && number < column.min) ||
+      (column.max !== null && number > column.max))
+  ) {
+    breach(state, "range", value, at);
+  }
+  if (
+    state.pattern &&
+    (typeof value !== "object" || value === null) &&
+    !state.pattern.test(String(value))
+  ) {
+    breach(state, "pattern", value, at);
+  }
+  if (state.seen) {
+    const hash = hashRow(value);
+    if (state.seen.has(hash)) {
+      breach(state, "unique", value, at);
+    } else if (state.seen.size >= MAX_UNIQUE_VALUES) {
+      throw new HttpError(
+        422,
+        `${column.name} has more than ${MAX_UNIQUE_VALUES.toLocaleString("en-US")} values to check for uniqueness`,
+      );
+    } else {
+      state.seen.add(hash);
+    }
+  }
+}
+
+function formatRate(rate: number) {
+  return `${Number((rate * 100).toFixed(2))}%`;
+}
+
+function rangeText(column: ContractColumn) {
+  if (column.min !== null && column.max !== null) {
+    return `outside ${column.min}–${column.max}`;
+  }
+  return column.min !== null ? `below ${column.min}` : `above ${column.max}`;
+}
+
+function countValues(count: number) {
+  return `${count} value${count === 1 ? "" : "s"}`;
+}
+
+function columnViolations(
+  state: ColumnState,
+  rows: number,
+): ContractViolation[] {
+  const { column } = state;
+  const violations: ContractViolation[] = [];
+  if (column.required && state.missingFrom.length > 0) {
+    violations.push({
+      rule: "required",
+      column: column.name,
+      message: `${column.name} is missing from ${state.missingFrom.join(", ")}`,
+      count: 0,
+      examples: [],
+    });
+  }
+  const messages: Partial<Record<ContractRule, (count: number) => string>> = {
+    type: (count) =>
+      `${column.name} has ${countValues(count)} of another type than ${column.type}`,
+    range: (count) =>
+      `${column.name} has ${countValues(count)} ${rangeText(column)}`,
+    pattern: (count) =>
+      `${column.name} has ${countValues(count)} not matching /${column.pattern}/`,
+    unique: (count) =>
+      `${column.name} has ${countValues(count)} seen in an earlier row`,
+  };
+  for (const found of state.breaches.values()) {
+    violations.push({ ...found, message: messages[found.rule]!(found.count) });
+  }
+  const nullRate = rows > 0 ? state.nulls / rows : 0;
+  if (column.maxNullRate !== null && nullRate > column.maxNullRate) {
+    violations.push({
+      rule: "nullRate",
+      column: column.name,
+      message: `${column.name} is null in ${formatRate(nullRate)} of rows, more than the ${formatRate(column.maxNullRate)} allowed`,
+      count: state.nulls,
+      examples: [],
+    });
+  }
+  return violations;
+}
+
+/**
+ * Checks the rows of `files` against a contract in one streaming pass.
+ * Empty cells of CSV and TSV files count as null.
+ */
+async function checkFiles(
+  files: DatasetFile[],
+  spec: ContractSpec,
+): Promise<{ rows: number; violations: ContractViolation[] }> {
+  const states: ColumnState[] = spec.columns.map((column) => ({
+    column,
+    pattern: column.pattern ? new RegExp(column.pattern, "u") : null,
+    nulls: 0,
+    missingFrom: [],
+    seen: column.unique ? new Set() : null,
+    breaches: new Map(),
+  }));
+  let rows = 0;
+  for (const file of files) {
+    const format = detectFormat(file.path);
+    const textual = format === "csv" || format === "tsv";
+    const present = new Set<string>();
+    let row = 0;
+    for await (const record of readRows(file)) {
+      for (const state of states) {
+        const { name } = state.column;
+        if (Object.hasOwn(record, name)) present.add(name);
+        const value = record[name];
+        if (
+          value === null ||
+          value === undefined ||
+          (textual && value === "")
+        ) {
+          state.nulls++;
+        } else {
+          checkValue(state, value, textual, { path: file.path, row });
+        }
+      }
+      row++;
+    }
+    rows += row;
+    for (const state of states) {
+      if (!present.has(state.column.name)) state.missingFrom.push(file.path);
+    }
+  }
+
+  const violations = states.flatMap((state) => columnViolations(state, rows));
+  if (spec.minRows !== null && rows < spec.minRows) {
+    violations.push({
+      rule: "minRows",
+      column: null,
+      message: `The version has ${rows} rows, fewer than the ${spec.minRows} required`,
+      count: 0,
+      examples: [],
+    });
+  }
+  return { rows, violations };
+}
+
+function generate(
+  commit: Commit,
+  contract: DataContract,
+): Promise<ContractCheckRecord> {
+  return runJob(
+    "contract-check",
+    checkKey(commit.id, contractDigest(contract)),
+    () => createCheck(commit, contract),
+  );
+}
+
+async function createCheck(
+  commit: Commit,
+  contract: DataContract,
+): Promise<ContractCheckRecord> {
+  const base = {
+    commit: commit.id,
+    contract: contractDigest(contract),
+    createdAt: new Date().toISOString(),
+  };
+  let record: ContractCheckRecord;
+  try {
+    const { rows, violations } = await checkFiles(
+      tabularFiles(commit.manifest),
+      contract,
+    );
+    record = {
+      ...base,
+      status: violations.length > 0 ? "failing" : "passed",
+      rows,
+      violations,
+      error: null,
+    };
+  } catch (error) {
+    record = {
+      ...base,
+      status: "failed",
+      rows: 0,
+      violations: [],
+      error: (error as Error).message,
+    };
+  }
+  await transact((db) => {
+    db.contractChecks[checkKey(record.commit, record.contract)] = record;
+  });
+  return record;
+}
+
+/** Checks a new commit against its dataset's contract, if it has one. */
+export async function scheduleContractCheck(commit: Commit): Promise<void> {
+  const contract = await getContract(commit.datasetId);
+  if (!contract) return;
+  const key = checkKey(commit.id, contractDigest(contract));
+  if (storedResult(await query((db) => db.contractChecks[key]))) return;
+  await generate(commit, contract);
+}
+
+/**
+ * Checks the files a commit to `branch` would leave, when the dataset's
+ * contract protects that branch, and throws if they break it. Returns the
+ * passed check to record with the commit, or null for other branches.
+ */
+export async function enforceContract(
+  datasetId: string,
+  branch: string,
+  manifest: DatasetFile[],
+): Promise<PassedCheck | null> {
+  const contract = await getContract(datasetId);
+  if (!contract?.protectedBranches.includes(branch)) return null;
+  const { rows, violations } = await checkFiles(
+    tabularFiles(manifest),
+    contract,
+  );
+  if (violations.length > 0) {
+    throw new ContractViolationError(branch, violations);
+  }
+  return { contract: contractDigest(contract), rows };
+}
+
+/** Records inside an open transaction that `commit` passed the contract. */
+export function recordPassedCheck(
+  db: Database,
+  commit: Commit,
+  check: PassedCheck,
+) {
+  db.contractChecks[checkKey(commit.id, check.contract)] = {
+    commit: commit.id,
+    contract: check.contract,
+    status: "passed",
+    rows: check.rows,
+    violations: [],
+    error: null,
+    createdAt: commit.createdAt,
+  };
+}
+
+/**
+ * The contract of a dataset and how the version at `ref` fares against it.
+ * The first request for a version not checked yet starts checking it.
+ */
+export async function getContractCheck(
+  datasetId: string,
+  ref?: string,
+): Promise<ContractCheckResult> {
+  const commit = await checkout(datasetId, ref);
+  const contract = await getContract(datasetId);
+  const result: ContractCheckResult = {
+    commit: commit.id,
+    contract,
+    status: "none",
+    rows: 0,
+    violations: [],
+    error: null,
+    checkedAt: null,
+  };
+  if (!contract) return result;
+  const record = storedResult(
+    await query(
+      (db) => db.contractChecks[checkKey(commit.id, contractDigest(contract))],
+    ),
+  );
+  if (!record) {
+    generate(commit, contract).catch((error) => console.error(error));
+    return { ...result, status: "running" };
+  }
+  return {
+    ...result,
+    status: record.status,
+    rows: record.rows,
+    violations: record.violations,
+    error: record.error,
+    checkedAt: record.createdAt,
+  };
+}
+
+/** How each of `commits` fares against the dataset's contract, if known. */
+export async function listContractStatuses(
+  datasetId: string,
+  commits: string[],
+): Promise<Record<string, ContractStatus>> {
+  const contract = await getContract(datasetId);
+  if (!contract) return {};
+  const digest = contractDigest(contract);
+  return query((db) =>
+    Object.fromEntries(
+      commits.map((commit) => {
+        const key = checkKey(commit, digest);
+        const status: ContractStatus = isJobPending("contract-check", key)
+          ? "running"
+          : (db.contractChecks[key]?.status ?? "unchecked");
+        return [commit, status];
+      }),
+    ),
+  );
+}
@@ -0,0 +1,388 @@
+import { Readable } from "stream";
+
+import { HttpError } from "@/lib/api";
+import { isBlankRecord, parseDelimited } from "@/lib/formats/csv";
+import { detectFormat, writeParquet, type Row } from "@/lib/formats";
+import {
+  CSV_ENCODINGS,
+  csvImportSchema,
+  csvPreviewSchema,
+  type CsvColumnType,
+  type CsvDialect,
+  type CsvImportInput,
+  type CsvPreviewInput,
+} from "@/lib/schemas";
+import { readBlob } from "@/lib/storage";
+import { completeStagedUpload, getStagedUpload } from "@/lib/uploads";
+import { createCommit, type Commit } from "@/lib/versioning";
+
+/**
+ * CSV/TSV import. A staged upload is sniffed for its dialect (delimiter,
+ * quote character, encoding and header row) and column types from its first
+ * bytes; the user reviews or overrides the guesses, and the whole file is then
+ * cast column by column and committed as Parquet, so typed columns are fixed
+ * once at import instead of re-guessed by every reader.
+ */
+
+export type CsvEncoding = (typeof CSV_ENCODINGS)[number];
+
+export interface CsvColumn {
+  name: string;
+  type: CsvColumnType;
+}
+
+export interface CsvPreview {
+  uploadId: string;
+  /** Path the file was uploaded as. */
+  source: string;
+  /** Suggested path of the converted file. */
+  path: string;
+  size: number;
+  dialect: CsvDialect;
+  columns: CsvColumn[];
+  /** The first data rows, as raw strings. */
+  rows: string[][];
+  /** Data rows the column types were inferred from. */
+  sampledRows: number;
+}
+
+export interface CsvImportResult {
+  commit: Commit;
+  path: string;
+  rows: number;
+}
+
+/** Bytes read from the start of the file to sniff the dialect and types. */
+const SAMPLE_BYTES = 64 * 1024;
+const PREVIEW_ROWS = 20;
+const DELIMITERS = [",", "\t", ";", "|"];
+/** Records the delimiter sniffer compares field counts across. */
+const SNIFF_RECORDS = 50;
+
+const INTEGER = /^[+-]?\d+$/;
+const DECIMAL = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const TIMESTAMP =
+  /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i;
+const BOOLEANS: Record<string, boolean> = {
+  true: true,
+  false: false,
+  t: true,
+  f: false,
+  yes: true,
+  no: false,
+};
+
+/** Types tried in order when inferring a column; `string` always fits. */
+const INFERRED_TYPES: CsvColumnType[] = [
+  "int64",
+  "double",
+  "date32[day]",
+  "timestamp[ms, tz=UTC]",
+  "bool",
+];
+
+const INVALID = Symbol("invalid");
+
+/**
+ * Converts a non-empty cell to the value `writeParquet` expects for `type`,
+ * or `INVALID` when it doesn't parse.
+ */
+function castCell(value: string, type: CsvColumnType): unknown {
+  const text = value.trim();
+  switch (type) {
+    case "string":
+      return value;
+    case "int64":
+      return INTEGER.test(text) ? text.replace(/^\+/, "") : INVALID;
+    case "double":
+      return DECIMAL.test(text) ? Number(text) : INVALID;
+    case "bool":
+      return BOOLEANS[text.toLowerCase()] ?? INVALID;
+    case "date32[day]":
+      return DATE.test(text) && !Number.isNaN(Date.parse(text))
+        ? text
+        : INVALID;
+    case "timestamp[ms, tz=UTC]": {
+      if (!TIMESTAMP.test(text)) return INVALID;
+      // Timestamps without an offset are taken to be UTC.
+      const iso = text.replace(" ", "T");
+      const time = Date.parse(
+        /(Z|[+-]\d{2}:?\d{2})$/i.test(iso) ? iso : `${iso}Z`,
+      );
+      return Number.isNaN(time) ? INVALID : new Date(time).toISOString();
+    }
+  }
+}
+
+function inferType(values: string[]): CsvColumnType {
+  const present = values.filter((value) => value.trim() !== "");
+  if (present.length === 0) return "string";
+  return (
+    INFERRED_TYPES.find((type) =>
+      present.every((value) => castCell(value, type) !== INVALID),
+    ) ?? "string"
+  );
+}
+
+function sniffEncoding(sample: Buffer): CsvEncoding {
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) {
+    return "utf-8";
+  }
+  if (sample[0] === 0xff && sample[1] === 0xfe) return "utf-16le";
+  if (sample[0] === 0xfe && sample[1] === 0xff) return "utf-16be";
+
+  // ASCII text in UTF-16 has a zero in every other byte.
+  let evenZeros = 0;
+  let oddZeros = 0;
+  const scanned = Math.min(sample.length, 4096);
+  for (let i = 0; i < scanned; i++) {
+    if (sample[i] !== 0) continue;
+    if (i % 2 === 0) evenZeros++;
+    else oddZeros++;
+  }
+  if (oddZeros > scanned / 4 && oddZeros > evenZeros * 4) return "utf-16le";
+  if (evenZeros > scanned / 4 && evenZeros > oddZeros * 4) return "utf-16be";
+
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(sample, { stream: true });
+    return "utf-8";
+  } catch {
+    return "windows-1252";
+  }
+}
+
+/** The quote character that more often opens a field. */
+function sniffQuote(text: string): string {
+  const count = (quote: string) =>
+    text.match(new RegExp(`(^|[\\n,\\t;|])${quote}`, "g"))?.length ?? 0;
+  return count("'") > count('"') ? "'" : '"';
+}
+
+async function parseText(
+  text: string,
+  delimiter: string,
+  quote: string,
+): Promise<string[][]> {
+  const records: string[][] = [];
+  for await (const record of parseDelimited(
+    Readable.from([Buffer.from(text)]),
+    delimiter,
+    0,
+    quote,
+  )) {
+    if (!isBlankRecord(record)) records.push(record.fields);
+  }
+  return records;
+}
+
+/**
+ * Picks the delimiter that splits the sample into the most consistent number
+ * of fields per record, preferring more fields on ties.
+ */
+async function sniffDelimiter(
+  text: string,
+  quote: string,
+  fallback: string,
+): Promise<string> {
+  let best = { delimiter: fallback, consistency: 0, fields: 1 };
+  for (const delimiter of DELIMITERS) {
+    const records = (await parseText(text, delimiter, quote)).slice(
+      0,
+      SNIFF_RECORDS,
+    );
+    if (records.length === 0) continue;
+    const counts = new Map<number, number>();
+    for (const record of records) {
+      counts.set(record.length, (counts.get(record.length) ?? 0) + 1);
+    }
+    const [fields, matching] = [...counts].sort((a, b) => b[1] - a[1])[0];
+    const consistency = matching / records.length;
+    if (fields < 2) continue;
+    if (
+      consistency > best.consistency ||
+      (consistency === best.consistency && fields > best.fields)
+    ) {
+      best = { delimiter, consistency, fields };
+    }
+  }
+  return best.delimiter;
+}
+
+/**
+ * A first row is taken to be data only when every typed column accepts it;
+ * all-string files can't be told apart, so they are assumed to have a header.
+ */
+function sniffHeader(records: string[][]): boolean {
+  if (records.length < 2) return true;
+  const [first, ...rest] = records;
+  if (
+    new Set(first).size < first.length ||
+    first.some((cell) => !cell.trim())
+  ) {
+    return false;
+  }
+  let typed = 0;
+  for (let column = 0; column < first.length; column++) {
+    const type = inferType(rest.map((record) => record[column] ?? ""));
+    if (type === "string") continue;
+    typed++;
+    if (castCell(first[column], type) === INVALID) return true;
+  }
+  return typed === 0;
+}
+
+function columnNames(records: string[][], header: boolean): string[] {
+  const width = Math.max(0, ...records.map((record) => record.length));
+  const names: string[] = [];
+  const seen = new Set<string>();
+  for (let column = 0; column < width; column++) {
+    const base =
+      (header ? records[0]?.[column]?.trim() : "") || `column_${column + 1}`;
+    let name = base;
+    for (let suffix = 2; seen.has(name); suffix++) name = `${base}_${suffix}`;
+    seen.add(name);
+    names.push(name);
+  }
+  return names;
+}
+
+/** Re-encodes a byte stream as UTF-8, dropping any byte order mark. */
+async function* transcode(
+  stream: Readable,
+  encoding: CsvEncoding,
+): AsyncGenerator<Buffer> {
+  const decoder = new TextDecoder(encoding);
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    yield Buffer.from(decoder.decode(chunk, { stream: true }));
+  }
+  yield Buffer.from(decoder.decode());
+}
+
+async function readSample(hash: string, size: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  const end = Math.min(size, SAMPLE_BYTES) - 1;
+  if (end < 0) return Buffer.alloc(0);
+  for await (const chunk of readBlob(hash, { start: 0, end })) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function getCsvUpload(datasetId: string, uploadId: string) {
+  const upload = await getStagedUpload(datasetId, uploadId);
+  const format = detectFormat(upload.path);
+  if (format !== "csv" && format !== "tsv") {
+    throw new HttpError(415, `${upload.path} is not a CSV or TSV file`);
+  }
+  return { ...upload, format };
+}
+
+/**
+ * Sniffs the dialect and column types of a staged CSV or TSV upload and
+ * returns its first rows. Dialect fields given in `input` are used as is.
+ */
+export async function previewCsv(
+  datasetId: string,
+  input: CsvPreviewInput,
+): Promise<CsvPreview> {
+  const options = csvPreviewSchema.parse(input);
+  const upload = await getCsvUpload(datasetId, options.uploadId);
+  const sample = await readSample(upload.hash, upload.length);
+
+  const encoding = options.encoding ?? sniffEncoding(sample);
+  let text = new TextDecoder(encoding).decode(sample, { stream: true });
+  // Drop the last, probably cut off, record of a partial sample.
+  if (sample.length < upload.length) {
+    text = text.slice(0, text.lastIndexOf("\n") + 1);
+  }
+  const quote = options.quote ?? sniffQuote(text);
+  const delimiter =
+    options.delimiter ??
+    (await sniffDelimiter(text, quote, upload.format === "tsv" ? "\t" : ","));
+  const records = await parseText(text, delimiter, quote);
+  const header = options.header ?? sniffHeader(records);
+
+  const names = columnNames(records, header);
+  const data = header ? records.slice(1) : records;
+  return {
+    uploadId: upload.id,
+    source: upload.path,
+    path: upload.path.replace(/\.[^./]+$/, "") + ".parquet",
+    size: upload.length,
+    dialect: { delimiter, quote, encoding, header },
+    columns: names.map((name, column) => ({
+      name,
+      type: inferType(data.map((record) => record[column] ?? "")),
+    })),
+    rows: data.slice(0, PREVIEW_ROWS),
+    sampledRows: data.length,
+  };
+}
+
+/**
+ * Converts a staged CSV or TSV upload to Parquet with the given dialect and
+ * column types, and commits it to the branch the upload was staged for. A
+ * cell that doesn't parse as its column's type fails the whole import.
+ */
+export async function importCsv(
+  datasetId: string,
+  input: CsvImportInput,
+): Promise<CsvImportResult> {
+  const options = csvImportSchema.parse(input);
+  const upload = await getCsvUpload(datasetId, options.uploadId);
+  const columns = options.columns
+    .map((column, index) => ({ ...column, index }))
+    .filter((column) => column.include);
+
+  let count = 0;
+  async function* rows(): AsyncGenerator<Row> {
+    let record = 0;
+    for await (const parsed of parseDelimited(
+      transcode(readBlob(upload.hash), options.encoding),
+      options.delimiter,
+      0,
+      options.quote,
+    )) {
+      if (isBlankRecord(parsed)) continue;
+      const { fields } = parsed;
+      record++;
+      if (options.header && record === 1) continue;
+      const row: Row = {};
+      for (const column of columns) {
+        const cell = fields[column.index] ?? "";
+        if (cell === "" && column.type !== "string") {
+          row[column.name] = null;
+          continue;
+        }
+        const value = castCell(cell, column.type);
+        if (value === INVALID) {
+          throw new HttpError(
+            422,
+            `Record ${record}, column ${column.name}: ${JSON.stringify(cell.slice(0, 100))} is not a valid ${column.type}`,
+          );
+        }
+        row[column.name] = value;
+      }
+      count++;
+      yield row;
+    }
+  }
+
+  const blob = await writeParquet(
+    rows(),
+    columns.map((column) => ({
+      name: column.name,
+      type: column.type,
+      nullable: true,
+    })),
+  );
+  const commit = await createCommit(datasetId, {
+    branch: upload.metadata.branch || undefined,
+    author: upload.metadata.author || undefined,
+    message: options.message || `Import ${upload.path} as ${options.path}`,
+    add: [{ path: options.path, hash: blob.hash }],
+  });
+  await completeStagedUpload(upload.id);
+  return { commit, path: options.path, rows: count };
+}
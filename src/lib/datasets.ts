@@ -0,0 +1,128 @@
+import { randomUUID } from "crypto";
+
+import { ConflictError, HttpError, NotFoundError } from "@/lib/api";
+import { query, transact, type Database } from "@/lib/db";
+import {
+  datasetInputSchema,
+  datasetUpdateSchema,
+  type DatasetInput,
+  type DatasetType,
+  type DatasetUpdate,
+} from "@/lib/schemas";
+import { DEFAULT_BRANCH, dropHistory, initHistory } from "@/lib/versioning";
+
+export interface DatasetFile {
+  /** Path of the file inside the dataset, e.g. `train/part-0001.jsonl`. */
+  path: string;
+  hash: string;
+  size: number;
+}
+
+export interface Dataset {
+  id: string;
+  name: string;
+  description: string;
+  owner: string;
+  type: DatasetType;
+  /** Tokenizer token counts use; none until one is chosen. */
+  tokenizerId: string | null;
+  sizeBytes: number;
+  /** Rows in the head of the default branch, counted once it is profiled. */
+  rowCount: number;
+  /** Branch whose head is shown by default and sizes the dataset. */
+  defaultBranch: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export function listDatasets(): Promise<Dataset[]> {
+  return query((db) =>
+    db.datasets
+      .map(withDefaults)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)),
+  );
+}
+
+export async function getDataset(id: string): Promise<Dataset> {
+  const dataset = await query((db) => db.datasets.find((d) => d.id === id));
+  if (!dataset) throw new NotFoundError(`Dataset ${id} not found`);
+  return withDefaults(dataset);
+}
+
+export function createDataset(input: DatasetInput): Promise<Dataset> {
+  const fields = datasetInputSchema.parse(input);
+  return transact((db) => {
+    assertUniqueName(db.datasets, fields.name);
+    assertTokenizer(db, fields.tokenizerId);
+    const now = new Date().toISOString();
+    const dataset: Dataset = {
+      id: randomUUID(),
+      ...fields,
+      description: fields.description ?? "",
+      type: fields.type ?? "generic",
+      tokenizerId: fields.tokenizerId ?? null,
+      sizeBytes: 0,
+      rowCount: 0,
+      defaultBranch: DEFAULT_BRANCH,
+      createdAt: now,
+      updatedAt: now,
+    };
+    db.datasets.push(dataset);
+    initHistory(db, dataset);
+    return dataset;
+  });
+}
+
+export function updateDataset(
+  id: string,
+  input: DatasetUpdate,
+): Promise<Dataset> {
+  const fields = datasetUpdateSchema.parse(input);
+  return transact((db) => {
+    const dataset = db.datasets.find((d) => d.id === id);
+    if (!dataset) throw new NotFoundError(`Dataset ${id} not found`);
+    if (fields.name !== undefined && fields.name !== dataset.name) {
+      assertUniqueName(db.datasets, fields.name);
+    }
+    assertTokenizer(db, fields.tokenizerId);
+    Object.assign(dataset, fields, { updatedAt: new Date().toISOString() });
+    return withDefaults(dataset);
+  });
+}
+
+export function deleteDataset(id: string): Promise<void> {
+  return transact((db) => {
+    const index = db.datasets.findIndex((d) => d.id === id);
+    if (index === -1) throw new NotFoundError(`Dataset ${id} not found`);
+    db.datasets.splice(index, 1);
+    delete db.contracts[id];
+    for (const pipeline of Object.values(db.pipelines)) {
+      if (pipeline.datasetId === id) delete db.pipelines[pipeline.id];
+    }
+    for (const record of Object.values(db.exports)) {
+      if (record.datasetId === id) delete db.exports[record.id];
+    }
+    dropHistory(db, id);
+  });
+}
+
+/** Fills in fields added after a dataset was first stored. */
+function withDefaults(dataset: Dataset): Dataset {
+  return {
+    ...dataset,
+    type: dataset.type ?? "generic",
+    tokenizerId: dataset.tokenizerId ?? null,
+  };
+}
+
+function assertUniqueName(datasets: Dataset[], name: string) {
+  if (datasets.some((d) => d.name === name)) {
+    throw new ConflictError(`A dataset named "${name}" already exists`);
+  }
+}
+
+function assertTokenizer(db: Database, id: string | null | undefined) {
+  if (id && !db.tokenizers.some((tokenizer) => tokenizer.id === id)) {
+    throw new HttpError(422, `Tokenizer ${id} does not exist`);
+  }
+}
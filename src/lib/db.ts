@@ -0,0 +1,148 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import type { ContaminationRecord } from "@/lib/contamination";
+import type { ContractCheckRecord, DataContract } from "@/lib/contracts";
+import type { Dataset } from "@/lib/datasets";
+import type { DedupRecord } from "@/lib/dedup";
+import type { DerivativeRecord } from "@/lib/derivatives";
+import type { ExportRecord } from "@/lib/exports";
+import type { LanguageTagRecord } from "@/lib/language/tags";
+import type { PiiRecord } from "@/lib/pii";
+import type { PreferenceStatsRecord } from "@/lib/preferences";
+import type { Pipeline, PipelineRun } from "@/lib/pipelines";
+import type { ProfileRecord } from "@/lib/profiles";
+import type { BlobRecord } from "@/lib/storage";
+import type { TokenizerRecord } from "@/lib/tokenizers";
+import type { TokenCountRecord } from "@/lib/tokenizers/counts";
+import type { UploadRecord } from "@/lib/uploads";
+import type { Commit, Ref } from "@/lib/versioning";
+
+/** Root directory for everything the app persists. Override with `DATA_DIR`. */
+export const DATA_DIR = path.resolve(
+  process.env.DATA_DIR ?? path.join(process.cwd(), ".data"),
+);
+
+const DB_FILE = path.join(DATA_DIR, "db.json");
+
+export interface Database {
+  datasets: Dataset[];
+  /** Blob table keyed by SHA-256. */
+  blobs: Record<string, BlobRecord>;
+  /** In-flight and recently finished resumable uploads keyed by id. */
+  uploads: Record<string, UploadRecord>;
+  /** Immutable dataset commits keyed by id. */
+  commits: Record<string, Commit>;
+  /** Branches and tags. */
+  refs: Ref[];
+  /** Media previews keyed by `<source hash>/<kind>`. */
+  derivatives: Record<string, DerivativeRecord>;
+  /** Column profiles of dataset versions keyed by commit id. */
+  profiles: Record<string, ProfileRecord>;
+  /** Uploaded tokenizer files. */
+  tokenizers: TokenizerRecord[];
+  /** Token counts keyed by `<file hash>/<tokenizer hash>`. */
+  tokenCounts: Record<string, TokenCountRecord>;
+  /** Duplicate scans keyed by `<commit id>/<options digest>`. */
+  dedupScans: Record<string, DedupRecord>;
+  /** Contamination checks keyed by `<training commit id>/<check id>`. */
+  contaminationReports: Record<string, ContaminationRecord>;
+  /** PII scans keyed by `<commit id>/<options digest>`. */
+  piiScans: Record<string, PiiRecord>;
+  /** Language tags keyed by `<file hash>/<classifier version>`. */
+  languageTags: Record<string, LanguageTagRecord>;
+  /** Preference pair statistics keyed by file hash. */
+  preferenceStats: Record<string, PreferenceStatsRecord>;
+  /** Data contracts keyed by dataset id. */
+  contracts: Record<string, DataContract>;
+  /** Contract checks keyed by `<commit id>/<contract digest>`. */
+  contractChecks: Record<string, ContractCheckRecord>;
+  /** Saved transformation pipelines keyed by id. */
+  pipelines: Record<string, Pipeline>;
+  /** Pipeline runs keyed by the id of the commit they made. */
+  pipelineRuns: Record<string, PipelineRun>;
+  /** Exported downloads keyed by id, kept until they expire. */
+  exports: Record<string, ExportRecord>;
+}
+
+function emptyDatabase(): Database {
+  return {
+    datasets: [],
+    blobs: {},
+    uploads: {},
+    commits: {},
+    refs: [],
+    derivatives: {},
+    profiles: {},
+    tokenizers: [],
+    tokenCounts: {},
+    dedupScans: {},
+    contaminationReports: {},
+    piiScans: {},
+    languageTags: {},
+    preferenceStats: {},
+    contracts: {},
+    contractChecks: {},
+    pipelines: {},
+    pipelineRuns: {},
+    exports: {},
+  };
+}
+
+interface DbState {
+  data: Database | null;
+  queue: Promise<unknown>;
+}
+
+// Survive module reloads in `next dev` so concurrent requests share one
+// in-memory copy and one write queue.
+const globalForDb = globalThis as unknown as { __datasetDb?: DbState };
+const state: DbState = (globalForDb.__datasetDb ??= {
+  data: null,
+  queue: Promise.resolve(),
+});
+
+async function load(): Promise<Database> {
+  if (state.data) return state.data;
+  let stored: Partial<Database> = {};
+  try {
+    stored = JSON.parse(await fs.readFile(DB_FILE, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+  // Tables added after a database was first written start out empty.
+  state.data = { ...emptyDatabase(), ...stored };
+  return state.data;
+}
+
+async function persist(data: Database) {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const tmp = `${DB_FILE}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data, null, 2));
+  await fs.rename(tmp, DB_FILE);
+}
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const result = state.queue.then(task, task);
+  state.queue = result.catch(() => undefined);
+  return result;
+}
+
+/** Runs a read-only query against a consistent snapshot of the database. */
+export function query<T>(fn: (db: Readonly<Database>) => T): Promise<T> {
+  return enqueue(async () => structuredClone(fn(await load())));
+}
+
+/**
+ * Applies `fn` to a draft of the database and atomically writes the result.
+ * If `fn` throws, nothing is written and the in-memory copy is untouched.
+ */
+export function transact<T>(fn: (db: Database) => T): Promise<T> {
+  return enqueue(async () => {
+    const draft = structuredClone(await load());
+    const result = fn(draft);
+    await persist(draft);
+    state.data = draft;
+    return structuredClone(result);
+  });
+}
@@ -0,0 +1,521 @@
+import { createHash } from "crypto";
+
+import { ConflictError, HttpError } from "@/lib/api";
+import type { DatasetFile } from "@/lib/datasets";
+import { query, transact } from "@/lib/db";
+import { dropRows, readRows, stableStringify } from "@/lib/formats";
+import { runJob, storedResult } from "@/lib/jobs";
+import {
+  dedupApplySchema,
+  dedupOptionsSchema,
+  type DedupApplyInput,
+  type DedupOptions,
+} from "@/lib/schemas";
+import { tabularFiles } from "@/lib/splits";
+import { readBlobBuffer, storeBlob } from "@/lib/storage";
+import { hashText, normalizeText, rowText } from "@/lib/text";
+import { checkout, createCommit, type Commit } from "@/lib/versioning";
+
+/**
+ * Exact and near-duplicate rows of a dataset version. A row's text is
+ * normalized (NFKC, lower case, punctuation dropped, whitespace collapsed):
+ * rows with the same normalized text are exact duplicates, and rows whose
+ * word or character n-grams overlap by at least the threshold (Jaccard
+ * similarity) are near duplicates.
+ *
+ * Similarity is estimated from MinHash signatures, and LSH banding finds the
+ * rows worth comparing, so a scan is one pass that never compares every pair.
+ * Scans run in the background, one per version and options, like profiles;
+ * resolving their clusters commits the version without the rows dropped.
+ */
+
+export interface DedupMember {
+  path: string;
+  /** 0-based row index within the file. */
+  row: number;
+  /** Estimated similarity to the cluster's first member. */
+  similarity: number;
+  /** Start of the row's text; only the first members of a cluster have it. */
+  text: string | null;
+}
+
+export interface DedupCluster {
+  id: number;
+  /** `exact` when every member has the same normalized text. */
+  kind: "exact" | "near";
+  size: number;
+  /** Lowest similarity of a member to the first one. */
+  similarity: number;
+  members: DedupMember[];
+}
+
+export interface DedupSummary {
+  rows: number;
+  /** Rows with text to compare. */
+  compared: number;
+  exactClusters: number;
+  nearClusters: number;
+  /** Rows that go when each cluster keeps one. */
+  duplicates: number;
+  duration: number;
+}
+
+export interface DedupRecord {
+  commit: string;
+  options: DedupOptions;
+  status: "ready" | "failed";
+  hash: string | null;
+  error: string | null;
+  createdAt: string;
+}
+
+export interface DedupResult {
+  commit: string;
+  options: DedupOptions;
+  status: "running" | "ready" | "failed";
+  summary: DedupSummary | null;
+  /** The page of clusters asked for, largest first. */
+  clusters: DedupCluster[];
+  /** Clusters of the kind asked for, across all pages. */
+  total: number;
+  error: string | null;
+}
+
+export interface DedupApplyResult {
+  commit: Commit;
+  dropped: number;
+}
+
+interface StoredMember {
+  file: number;
+  row: number;
+  similarity: number;
+  text?: string;
+}
+
+interface StoredCluster {
+  kind: DedupCluster["kind"];
+  similarity: number;
+  members: StoredMember[];
+}
+
+interface DedupScan {
+  files: string[];
+  summary: DedupSummary;
+  clusters: StoredCluster[];
+}
+
+const PERMUTATIONS = 128;
+/** Members per cluster stored with their text, for review. */
+const PREVIEW_MEMBERS = 8;
+const PREVIEW_CHARS = 300;
+
+// Each permutation XORs a shingle hash with its seed and remixes the bits.
+const SEEDS = Uint32Array.from({ length: PERMUTATIONS }, (_, i) =>
+  createHash("sha256").update(`minhash:${i}`).digest().readUInt32LE(0),
+);
+
+/** Bands and rows per band whose LSH threshold is closest below `threshold`. */
+function bandLayout(threshold: number): { bands: number; rows: number } {
+  let best = { bands: PERMUTATIONS, rows: 1, distance: Infinity };
+  for (let rows = 1; rows <= PERMUTATIONS; rows++) {
+    const bands = Math.floor(PERMUTATIONS / rows);
+    // Rows at this similarity become candidates half the time.
+    const curve = Math.pow(1 / bands, 1 / rows);
+    if (curve > threshold) break;
+    if (threshold - curve < best.distance) {
+      best = { bands, rows, distance: threshold - curve };
+    }
+  }
+  return { bands: best.bands, rows: best.rows };
+}
+
+function mix(value: number): number {
+  let h = value;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/** Hashes of the n-grams of a normalized text; a short text is one n-gram. */
+function shingles(text: string, options: DedupOptions): Set<number> {
+  const hashes = new Set<number>();
+  if (options.unit === "words") {
+    const words = text.split(" ");
+    const last = Math.max(0, words.length - options.ngram);
+    for (let i = 0; i <= last; i++) {
+      hashes.add(hashText(words.slice(i, i + options.ngram).join(" ")));
+    }
+  } else {
+    const last = Math.max(0, text.length - options.ngram);
+    for (let i = 0; i <= last; i++) {
+      hashes.add(hashText(text.slice(i, i + options.ngram)));
+    }
+  }
+  return hashes;
+}
+
+/** Normalized options, so equal scans share a key. */
+function canonicalOptions(input: unknown): DedupOptions {
+  const options = dedupOptionsSchema.parse(input);
+  return { ...options, columns: [...new Set(options.columns)].sort() };
+}
+
+function scanKey(commit: string, options: DedupOptions): string {
+  const digest = createHash("sha256")
+    .update(stableStringify(options))
+    .digest("hex");
+  return `${commit}/${digest.slice(0, 16)}`;
+}
+
+async function scanVersion(
+  files: DatasetFile[],
+  options: DedupOptions,
+): Promise<DedupScan> {
+  const started = Date.now();
+  const { bands, rows: bandRows } = bandLayout(options.threshold);
+  const columns = options.columns.length > 0 ? options.columns : undefined;
+
+  // Compared rows by id: where they are, their signature, and the id of the
+  // first row with the same normalized text.
+  const locations: [number, number][] = [];
+  const exactOf: number[] = [];
+  const parent: number[] = [];
+  let signatures = new Uint32Array(PERMUTATIONS * 1024);
+  const exact = new Map<string, number>();
+  const buckets = Array.from(
+    { length: bands },
+    () => new Map<number, number>(),
+  );
+
+  const find = (id: number): number => {
+    while (parent[id] !== id) {
+      parent[id] = parent[parent[id]];
+      id = parent[id];
+    }
+    return id;
+  };
+  const union = (a: number, b: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    // The earlier row stays the root, so clusters list rows in file order.
+    if (rootA !== rootB)
+      parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+  };
+  const similarity = (a: number, b: number) => {
+    let same = 0;
+    for (let i = 0; i < PERMUTATIONS; i++) {
+      if (
+        signatures[a * PERMUTATIONS + i] === signatures[b * PERMUTATIONS + i]
+      ) {
+        same++;
+      }
+    }
+    return same / PERMUTATIONS;
+  };
+
+  let total = 0;
+  for (const [fileIndex, file] of files.entries()) {
+    let rowIndex = 0;
+    for await (const row of readRows(file, { columns })) {
+      const index = rowIndex++;
+      total++;
+      const text = normalizeText(rowText(row));
+      if (!text) continue;
+      const id = locations.length;
+      locations.push([fileIndex, index]);
+      parent.push(id);
+      if ((id + 1) * PERMUTATIONS > signatures.length) {
+        const grown = new Uint32Array(signatures.length * 2);
+        grown.set(signatures);
+        signatures = grown;
+      }
+      const offset = id * PERMUTATIONS;
+
+      const digest = createHash("md5").update(text).digest("base64");
+      const first = exact.get(digest);
+      if (first !== undefined) {
+        exactOf.push(first);
+        signatures.copyWithin(
+          offset,
+          first * PERMUTATIONS,
+          (first + 1) * PERMUTATIONS,
+        );
+        union(first, id);
+        continue;
+      }
+      exact.set(digest, id);
+      exactOf.push(id);
+
+      signatures.fill(0xffffffff, offset, offset + PERMUTATIONS);
+      for (const shingle of shingles(text, options)) {
+        for (let i = 0; i < PERMUTATIONS; i++) {
+          const value = mix(shingle ^ SEEDS[i]);
+          if (value < signatures[offset + i]) signatures[offset + i] = value;
+        }
+      }
+      for (let band = 0; band < bands; band++) {
+        let h = band;
+        for (let i = band * bandRows; i < (band + 1) * bandRows; i++) {
+          h = mix(h ^ signatures[offset + i]);
+        }
+        // Each bucket is compared through the first row that landed in it.
+        const candidate = buckets[band].get(h);
+        if (candidate === undefined) {
+          buckets[band].set(h, id);
+        } else if (
+          find(candidate) !== find(id) &&
+          similarity(candidate, id) >= options.threshold
+        ) {
+          union(candidate, id);
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  for (let id = 0; id < locations.length; id++) {
+    const root = find(id);
+    const group = groups.get(root);
+    if (group) group.push(id);
+    else groups.set(root, [id]);
+  }
+  const clusters: StoredCluster[] = [];
+  const previews = new Map<string, StoredMember>();
+  for (const ids of groups.values()) {
+    if (ids.length < 2) continue;
+    const kind = ids.every((id) => exactOf[id] === exactOf[ids[0]])
+      ? "exact"
+      : "near";
+    const members = ids.map((id, index) => {
+      const [file, row] = locations[id];
+      const member: StoredMember = {
+        file,
+        row,
+        similarity: index === 0 ? 1 : similarity(ids[0], id),
+      };
+      if (index < PREVIEW_MEMBERS) previews.set(`${file}:${row}`, member);
+      return member;
+    });
+    clusters.push({
+      kind,
+      similarity: Math.min(...members.slice(1).map((m) => m.similarity)),
+      members,
+    });
+  }
+  clusters.sort(
+    (a, b) =>
+      b.members.length - a.members.length ||
+      a.members[0].file - b.members[0].file ||
+      a.members[0].row - b.members[0].row,
+  );
+
+  // A second pass picks up the text of the members shown for review.
+  const previewFiles = new Set([...previews.values()].map((m) => m.file));
+  for (const [fileIndex, file] of files.entries()) {
+    if (!previewFiles.has(fileIndex)) continue;
+    let rowIndex = 0;
+    for await (const row of readRows(file, { columns })) {
+      const member = previews.get(`${fileIndex}:${rowIndex++}`);
+      if (member) member.text = rowText(row).slice(0, PREVIEW_CHARS);
+    }
+  }
+
+  return {
+    files: files.map((file) => file.path),
+    summary: {
+      rows: total,
+      compared: locations.length,
+      exactClusters: clusters.filter((c) => c.kind === "exact").length,
+      nearClusters: clusters.filter((c) => c.kind === "near").length,
+      duplicates: clusters.reduce((sum, c) => sum + c.members.length - 1, 0),
+      duration: Date.now() - started,
+    },
+    clusters,
+  };
+}
+
+function generate(commit: Commit, options: DedupOptions): Promise<DedupRecord> {
+  return runJob("dedup", scanKey(commit.id, options), () =>
+    createScan(commit, options),
+  );
+}
+
+async function createScan(
+  commit: Commit,
+  options: DedupOptions,
+): Promise<DedupRecord> {
+  let record: DedupRecord;
+  try {
+    const scan = await scanVersion(tabularFiles(commit.manifest), options);
+    const blob = await storeBlob(Buffer.from(JSON.stringify(scan)));
+    record = {
+      commit: commit.id,
+      options,
+      status: "ready",
+      hash: blob.hash,
+      error: null,
+      createdAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    record = {
+      commit: commit.id,
+      options,
+      status: "failed",
+      hash: null,
+      error: (error as Error).message,
+      createdAt: new Date().toISOString(),
+    };
+  }
+  await transact((db) => {
+    db.dedupScans[scanKey(commit.id, options)] = record;
+  });
+  return record;
+}
+
+async function readScan(record: DedupRecord): Promise<DedupScan> {
+  return JSON.parse((await readBlobBuffer(record.hash!)).toString("utf8"));
+}
+
+function toCluster(
+  scan: DedupScan,
+  cluster: StoredCluster,
+  id: number,
+): DedupCluster {
+  return {
+    id,
+    kind: cluster.kind,
+    size: cluster.members.length,
+    similarity: cluster.similarity,
+    members: cluster.members.slice(0, PREVIEW_MEMBERS).map((member) => ({
+      path: scan.files[member.file],
+      row: member.row,
+      similarity: member.similarity,
+      text: member.text ?? null,
+    })),
+  };
+}
+
+/**
+ * Duplicate clusters of the version at `ref` under `options`, a page at a
+ * time. The first request for a version and options starts the scan and
+ * reports it running.
+ */
+export async function getDuplicates(
+  datasetId: string,
+  input: {
+    ref?: string;
+    options: unknown;
+    kind?: DedupCluster["kind"];
+    offset: number;
+    limit: number;
+  },
+): Promise<DedupResult> {
+  const options = canonicalOptions(input.options);
+  const commit = await checkout(datasetId, input.ref);
+  const record = storedResult(
+    await query((db) => db.dedupScans[scanKey(commit.id, options)]),
+  );
+  const result: DedupResult = {
+    commit: commit.id,
+    options,
+    status: "running",
+    summary: null,
+    clusters: [],
+    total: 0,
+    error: null,
+  };
+  if (!record) {
+    generate(commit, options).catch((error) => console.error(error));
+    return result;
+  }
+  if (!record.hash) {
+    return { ...result, status: "failed", error: record.error };
+  }
+  const scan = await readScan(record);
+  const matching = scan.clusters
+    .map((cluster, id) => ({ cluster, id }))
+    .filter(({ cluster }) => !input.kind || cluster.kind === input.kind);
+  return {
+    ...result,
+    status: "ready",
+    summary: scan.summary,
+    clusters: matching
+      .slice(input.offset, input.offset + input.limit)
+      .map(({ cluster, id }) => toCluster(scan, cluster, id)),
+    total: matching.length,
+  };
+}
+
+/**
+ * Commits the scanned version without the duplicates of the resolved
+ * clusters: each keeps the member chosen and drops the rest. The scan must
+ * be of the branch head, since it names rows by position.
+ */
+export async function resolveDuplicates(
+  datasetId: string,
+  input: DedupApplyInput,
+): Promise<DedupApplyResult> {
+  const fields = dedupApplySchema.parse(input);
+  const options = canonicalOptions(fields.options);
+  const head = await checkout(datasetId, fields.branch);
+  if (head.id !== fields.commit) {
+    throw new ConflictError(
+      "The branch has moved since the scan; scan its head again",
+    );
+  }
+  const record = await query((db) => db.dedupScans[scanKey(head.id, options)]);
+  if (!record?.hash) {
+    throw new ConflictError("Scan this version before resolving duplicates");
+  }
+  const scan = await readScan(record);
+
+  const keep = new Map<number, number>();
+  if (fields.all) {
+    for (const id of scan.clusters.keys()) keep.set(id, 0);
+  }
+  for (const { cluster, keep: member } of fields.resolutions) {
+    const members = scan.clusters[cluster]?.members;
+    if (!members) throw new HttpError(422, `Cluster ${cluster} not found`);
+    if (member >= members.length) {
+      throw new HttpError(422, `Cluster ${cluster} has no member ${member}`);
+    }
+    keep.set(cluster, member);
+  }
+  if (keep.size === 0) throw new HttpError(422, "Choose clusters to resolve");
+
+  const drop = new Map<number, Set<number>>();
+  for (const [cluster, kept] of keep) {
+    for (const [index, member] of scan.clusters[cluster].members.entries()) {
+      if (index === kept) continue;
+      let rows = drop.get(member.file);
+      if (!rows) {
+        rows = new Set();
+        drop.set(member.file, rows);
+      }
+      rows.add(member.row);
+    }
+  }
+
+  const add: { path: string; hash: string }[] = [];
+  let dropped = 0;
+  for (const [fileIndex, rows] of drop) {
+    const path = scan.files[fileIndex];
+    const file = head.manifest.find((f) => f.path === path)!;
+    const blob = await dropRows(file, rows);
+    add.push({ path, hash: blob.hash });
+    dropped += rows.size;
+  }
+  const commit = await createCommit(datasetId, {
+    branch: fields.branch,
+    expectedHead: head.id,
+    message:
+      fields.message ||
+      `Drop ${dropped} duplicate row${dropped === 1 ? "" : "s"} from ${keep.size} cluster${keep.size === 1 ? "" : "s"}`,
+    add,
+  });
+  return { commit, dropped };
+}
@@ -0,0 +1,246 @@
+import sharp from "sharp";
+
+import { HttpError } from "@/lib/api";
+import type { DatasetFile } from "@/lib/datasets";
+import { query, transact } from "@/lib/db";
+import { runJob, storedResult } from "@/lib/jobs";
+import {
+  UnsupportedMediaError,
+  decodeAudio,
+  videoFrame,
+  type DecodedAudio,
+} from "@/lib/media";
+import { blobPath, mediaType, storeBlob } from "@/lib/storage";
+
+/**
+ * Small previews of media files, stored in the blob store next to the
+ * original: thumbnails for images, first-frame posters for video, and a
+ * waveform image plus min/max peaks for audio. They are generated in the
+ * background when files are committed, or on first request, and keyed by
+ * the source blob so every version and dataset sharing a file shares them.
+ */
+
+export const DERIVATIVE_KINDS = [
+  "thumbnail",
+  "poster",
+  "waveform",
+  "peaks",
+] as const;
+
+export type DerivativeKind = (typeof DERIVATIVE_KINDS)[number];
+
+export const DERIVATIVE_TYPES: Record<DerivativeKind, string> = {
+  thumbnail: "image/webp",
+  poster: "image/webp",
+  waveform: "image/png",
+  peaks: "application/json",
+};
+
+export interface DerivativeRecord {
+  /** Hash of the file the derivative was made from. */
+  source: string;
+  kind: DerivativeKind;
+  status: "ready" | "failed";
+  hash: string | null;
+  size: number | null;
+  error: string | null;
+  createdAt: string;
+}
+
+/** The `peaks` derivative: min/max pairs across the length of a recording. */
+export interface WaveformPeaks {
+  duration: number;
+  sampleRate: number;
+  /** `[min, max]` of each of `PEAK_BUCKETS` equal slices, in [-1, 1]. */
+  peaks: [number, number][];
+}
+
+const THUMBNAIL_SIZE = 320;
+const POSTER_WIDTH = 640;
+const PEAK_BUCKETS = 800;
+const WAVEFORM_HEIGHT = 96;
+/** slate-500, readable on light and dark backgrounds. */
+const WAVEFORM_COLOR = [100, 116, 139];
+
+/** Derivatives produced for a file, by media type. */
+export function derivativeKinds(fileName: string): DerivativeKind[] {
+  switch (mediaType(fileName)) {
+    case "image":
+      return ["thumbnail"];
+    case "video":
+      return ["poster"];
+    case "audio":
+      return ["waveform", "peaks"];
+    default:
+      return [];
+  }
+}
+
+function derivativeKey(source: string, kind: DerivativeKind) {
+  return `${source}/${kind}`;
+}
+
+/**
+ * The `kind` derivative of the blob `source`, generating it first if needed.
+ * `fileName` identifies the media type, since blobs don't record one.
+ */
+export async function getDerivative(
+  source: string,
+  fileName: string,
+  kind: DerivativeKind,
+): Promise<DerivativeRecord> {
+  if (!derivativeKinds(fileName).includes(kind)) {
+    throw new HttpError(400, `${fileName} has no ${kind}`);
+  }
+  const stored = storedResult(
+    await query((db) => db.derivatives[derivativeKey(source, kind)]),
+  );
+  if (stored) return stored;
+  const records = await generate({ hash: source, path: fileName });
+  return records.find((record) => record.kind === kind)!;
+}
+
+/**
+ * Queues derivatives for committed files that don't have them yet. Returns
+ * immediately; failures are recorded against the file, not thrown.
+ */
+export async function scheduleDerivatives(
+  files: Pick<DatasetFile, "path" | "hash">[],
+): Promise<void> {
+  const missing = await query((db) =>
+    files.filter((file) =>
+      derivativeKinds(file.path).some(
+        (kind) => !storedResult(db.derivatives[derivativeKey(file.hash, kind)]),
+      ),
+    ),
+  );
+  for (const file of missing) {
+    generate(file).catch((error) => {
+      if (!(error instanceof UnsupportedMediaError)) console.error(error);
+    });
+  }
+}
+
+function generate(
+  file: Pick<DatasetFile, "path" | "hash">,
+): Promise<DerivativeRecord[]> {
+  return runJob("derivatives", file.hash, () => createDerivatives(file));
+}
+
+async function createDerivatives({
+  path,
+  hash,
+}: Pick<DatasetFile, "path" | "hash">): Promise<DerivativeRecord[]> {
+  const kinds = derivativeKinds(path);
+  let outputs: Partial<Record<DerivativeKind, Buffer>>;
+  let error: string | null = null;
+  try {
+    outputs = await render(hash, path);
+  } catch (cause) {
+    // Without ffmpeg nothing is wrong with the file, so try again next time.
+    if (cause instanceof UnsupportedMediaError) throw cause;
+    outputs = {};
+    error = (cause as Error).message;
+  }
+
+  const records: DerivativeRecord[] = [];
+  for (const kind of kinds) {
+    const output = outputs[kind];
+    const blob = output ? await storeBlob(output) : null;
+    records.push({
+      source: hash,
+      kind,
+      status: blob ? "ready" : "failed",
+      hash: blob?.hash ?? null,
+      size: blob?.size ?? null,
+      error: blob ? null : (error ?? "No output"),
+      createdAt: new Date().toISOString(),
+    });
+  }
+  await transact((db) => {
+    for (const record of records) {
+      db.derivatives[derivativeKey(record.source, record.kind)] = record;
+    }
+  });
+  return records;
+}
+
+async function render(
+  hash: string,
+  path: string,
+): Promise<Partial<Record<DerivativeKind, Buffer>>> {
+  switch (mediaType(path)) {
+    case "image":
+      return {
+        thumbnail: await sharp(blobPath(hash))
+          .rotate()
+          .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, {
+            fit: "inside",
+            withoutEnlargement: true,
+          })
+          .webp({ quality: 75 })
+          .toBuffer(),
+      };
+    case "video":
+      return {
+        poster: await sharp(await videoFrame(hash))
+          .resize(POSTER_WIDTH, null, { withoutEnlargement: true })
+          .webp({ quality: 75 })
+          .toBuffer(),
+      };
+    case "audio": {
+      const peaks = waveformPeaks(await decodeAudio(hash, path));
+      return {
+        peaks: Buffer.from(JSON.stringify(peaks)),
+        waveform: await drawWaveform(peaks),
+      };
+    }
+    default:
+      return {};
+  }
+}
+
+function waveformPeaks({
+  sampleRate,
+  length,
+  mins,
+  maxs,
+}: DecodedAudio): WaveformPeaks {
+  const buckets = Math.min(PEAK_BUCKETS, mins.length);
+  const peaks: [number, number][] = [];
+  for (let bucket = 0; bucket < buckets; bucket++) {
+    const start = Math.floor((bucket * mins.length) / buckets);
+    const end = Math.floor(((bucket + 1) * mins.length) / buckets);
+    let min = 0;
+    let max = 0;
+    for (let i = start; i < end; i++) {
+      if (mins[i] < min) min = mins[i];
+      if (maxs[i] > max) max = maxs[i];
+    }
+    peaks.push([round(Math.max(min, -1)), round(Math.min(max, 1))]);
+  }
+  return { duration: length / sampleRate, sampleRate, peaks };
+}
+
+function round(value: number) {
+  return Math.round(value * 1000) / 1000;
+}
+
+/** Renders peaks as a transparent PNG with one column per bucket. */
+function drawWaveform({ peaks }: WaveformPeaks): Promise<Buffer> {
+  const width = Math.max(peaks.length, 1);
+  const height = WAVEFORM_HEIGHT;
+  const pixels = Buffer.alloc(width * height * 4);
+  const middle = (height - 1) / 2;
+  peaks.forEach(([min, max], x) => {
+    const top = Math.floor(middle - max * middle);
+    const bottom = Math.ceil(middle - min * middle);
+    for (let y = top; y <= bottom; y++) {
+      const offset = (y * width + x) * 4;
+      pixels.set([...WAVEFORM_COLOR, 255], offset);
+    }
+  });
+  return sharp(pixels, { raw: { width, height, channels: 4 } })
+    .png()
+    .toBuffer();
+}
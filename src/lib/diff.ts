@@ -0,0 +1,211 @@
+import { HttpError, NotFoundError } from "@/lib/api";
+import {
+  collectColumns,
+  detectFormat,
+  hashRow,
+  readRows,
+  stableStringify,
+  type Row,
+  type RowSource,
+} from "@/lib/formats";
+import { checkout } from "@/lib/versioning";
+
+/**
+ * Row-level comparison of one file between two versions. Rows are matched by
+ * a primary key (one or more columns) or, without one, by content hash, in
+ * which case an edited row shows up as one removal plus one addition.
+ *
+ * Only keys and row hashes are held in memory for the whole file; full rows
+ * are kept for at most `limit` examples per kind of change.
+ */
+
+export interface RowDiffOptions {
+  from: string;
+  to: string;
+  path: string;
+  /** Path of the file in `to`, when it was renamed. Defaults to `path`. */
+  toPath?: string;
+  /** Primary key columns; empty to match rows by content. */
+  key?: string[];
+  limit?: number;
+}
+
+export interface ModifiedRow {
+  key: string;
+  before: Row;
+  after: Row;
+  changedColumns: string[];
+}
+
+export interface RowDiff {
+  from: string;
+  to: string;
+  path: string;
+  key: string[];
+  columns: string[];
+  summary: {
+    added: number;
+    removed: number;
+    modified: number;
+    unchanged: number;
+    /** Rows whose key was already seen earlier in the same file. */
+    duplicateKeys: number;
+  };
+  added: Row[];
+  removed: Row[];
+  modified: ModifiedRow[];
+  /** True when there were more changes than examples returned. */
+  truncated: boolean;
+}
+
+const DEFAULT_LIMIT = 200;
+
+export async function diffRows(
+  datasetId: string,
+  options: RowDiffOptions,
+): Promise<RowDiff> {
+  const key = options.key?.filter(Boolean) ?? [];
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const [fromCommit, toCommit] = await Promise.all([
+    checkout(datasetId, options.from),
+    checkout(datasetId, options.to),
+  ]);
+  const base = findFile(fromCommit.manifest, options.path, options.from);
+  const target = findFile(
+    toCommit.manifest,
+    options.toPath ?? options.path,
+    options.to,
+  );
+  if (!detectFormat(base.path) || !detectFormat(target.path)) {
+    throw new HttpError(
+      415,
+      "Row diffs need JSONL, JSON, CSV, TSV or Parquet files",
+    );
+  }
+
+  const rowKey = (row: Row) =>
+    key.length === 0
+      ? hashRow(row)
+      : stableStringify(key.map((column) => row[column] ?? null));
+
+  const result: RowDiff = {
+    from: fromCommit.id,
+    to: toCommit.id,
+    path: options.path,
+    key,
+    columns: [],
+    summary: {
+      added: 0,
+      removed: 0,
+      modified: 0,
+      unchanged: 0,
+      duplicateKeys: 0,
+    },
+    added: [],
+    removed: [],
+    modified: [],
+    truncated: false,
+  };
+
+  // Pass 1: index the base version. Without a primary key the index is a
+  // multiset of content hashes, so duplicate rows are matched one for one.
+  const baseIndex = new Map<string, { hash: string; count: number }>();
+  for await (const row of readRows(base)) {
+    const rowId = rowKey(row);
+    const entry = baseIndex.get(rowId);
+    if (!entry) {
+      baseIndex.set(rowId, {
+        hash: key.length ? hashRow(row) : rowId,
+        count: 1,
+      });
+    } else if (key.length) {
+      // With a primary key the first occurrence wins.
+      result.summary.duplicateKeys++;
+    } else {
+      entry.count++;
+    }
+  }
+
+  // Pass 2: walk the target version against the index.
+  const modifiedKeys = new Map<string, Row>();
+  const seenTargetKeys = new Set<string>();
+  for await (const row of readRows(target)) {
+    const rowId = rowKey(row);
+    if (key.length) {
+      if (seenTargetKeys.has(rowId)) {
+        result.summary.duplicateKeys++;
+        continue;
+      }
+      seenTargetKeys.add(rowId);
+    }
+    const entry = baseIndex.get(rowId);
+    if (!entry || entry.count === 0) {
+      result.summary.added++;
+      if (result.added.length < limit) result.added.push(row);
+      continue;
+    }
+    entry.count--;
+    if (key.length && entry.hash !== hashRow(row)) {
+      result.summary.modified++;
+      if (modifiedKeys.size < limit) modifiedKeys.set(rowId, row);
+    } else {
+      result.summary.unchanged++;
+    }
+  }
+
+  // Whatever is left in the index was removed.
+  const removedKeys = new Set<string>();
+  for (const [rowId, entry] of baseIndex) {
+    if (entry.count <= 0) continue;
+    result.summary.removed += key.length ? 1 : entry.count;
+    if (removedKeys.size < limit) removedKeys.add(rowId);
+  }
+
+  // Pass 3: fetch the base side of removed and modified examples.
+  if (removedKeys.size > 0 || modifiedKeys.size > 0) {
+    const claimed = new Set<string>();
+    for await (const row of readRows(base)) {
+      const rowId = rowKey(row);
+      const after = modifiedKeys.get(rowId);
+      if (after && !claimed.has(rowId)) {
+        claimed.add(rowId);
+        result.modified.push({
+          key: rowId,
+          before: row,
+          after,
+          changedColumns: changedColumns(row, after),
+        });
+      } else if (removedKeys.has(rowId) && result.removed.length < limit) {
+        result.removed.push(row);
+        const entry = baseIndex.get(rowId)!;
+        if (--entry.count <= 0) removedKeys.delete(rowId);
+      }
+      if (removedKeys.size === 0 && claimed.size === modifiedKeys.size) break;
+    }
+  }
+
+  const { added, removed, modified } = result.summary;
+  result.truncated =
+    result.added.length < added ||
+    result.removed.length < removed ||
+    result.modified.length < modified;
+  result.columns = collectColumns([
+    ...result.added,
+    ...result.removed,
+    ...result.modified.flatMap((m) => [m.before, m.after]),
+  ]);
+  return result;
+}
+
+function findFile(manifest: RowSource[], path: string, ref: string): RowSource {
+  const file = manifest.find((f) => f.path === path);
+  if (!file) throw new NotFoundError(`${path} does not exist at ${ref}`);
+  return file;
+}
+
+function changedColumns(before: Row, after: Row): string[] {
+  return collectColumns([before, after]).filter(
+    (column) =>
+      stableStringify(before[column]) !== stableStringify(after[column]),
+  );
+}
@@ -0,0 +1,109 @@
+import { randomUUID } from "crypto";
+
+import { NotFoundError } from "@/lib/api";
+import { query, transact } from "@/lib/db";
+
+/**
+ * Files written for download, such as WebDataset shards. No commit refers to
+ * them, so each export is recorded to keep its blobs from garbage collection
+ * until it expires or is deleted.
+ */
+
+export type ExportKind = "webdataset" | "huggingface";
+
+export interface ExportRecord {
+  id: string;
+  datasetId: string;
+  kind: ExportKind;
+  /** The commit that was exported. */
+  commit: string;
+  /** Every blob the export wrote. */
+  blobs: string[];
+  createdAt: string;
+  expiresAt: string;
+}
+
+/** How long exported files stay available for download. */
+const EXPORT_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Whether an export's files are still kept. */
+export function isLive(record: ExportRecord, now = Date.now()): boolean {
+  return Date.parse(record.expiresAt) > now;
+}
+
+/**
+ * Records an export before it writes anything, so each file it stores can be
+ * added as soon as it exists and no garbage collection in the meantime
+ * removes it.
+ */
+export function recordExport(
+  datasetId: string,
+  kind: ExportKind,
+  commit: string,
+): Promise<ExportRecord> {
+  const now = new Date();
+  const record: ExportRecord = {
+    id: randomUUID(),
+    datasetId,
+    kind,
+    commit,
+    blobs: [],
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + EXPORT_TTL_MS).toISOString(),
+  };
+  return transact((db) => {
+    db.exports[record.id] = record;
+    return record;
+  });
+}
+
+/** Keeps blobs an export has written. */
+export function addExportBlobs(
+  exportId: string,
+  blobs: string[],
+): Promise<void> {
+  return transact((db) => {
+    const record = db.exports[exportId];
+    if (!record) throw new NotFoundError(`Export ${exportId} not found`);
+    record.blobs = [...new Set([...record.blobs, ...blobs])];
+  });
+}
+
+/** Lets go of blobs an export only needed while it was written. */
+export function releaseExportBlobs(
+  exportId: string,
+  blobs: string[],
+): Promise<void> {
+  const released = new Set(blobs);
+  return transact((db) => {
+    const record = db.exports[exportId];
+    if (record) {
+      record.blobs = record.blobs.filter((hash) => !released.has(hash));
+    }
+  });
+}
+
+export async function getExport(
+  datasetId: string,
+  exportId: string,
+): Promise<ExportRecord> {
+  const record = await query((db) => db.exports[exportId]);
+  if (record?.datasetId !== datasetId || !isLive(record)) {
+    throw new NotFoundError(`Export ${exportId} not found`);
+  }
+  return record;
+}
+
+/**
+ * Releases an export's files before it expires; they are removed by the next
+ * garbage collection.
+ */
+export async function deleteExport(
+  datasetId: string,
+  exportId: string,
+): Promise<void> {
+  await getExport(datasetId, exportId);
+  await transact((db) => {
+    delete db.exports[exportId];
+  });
+}
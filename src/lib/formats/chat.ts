@@ -0,0 +1,274 @@
+import type { Row } from "@/lib/formats/rows";
+import type { SchemaField } from "@/lib/formats/schema";
+
+/**
+ * Supervised fine-tuning record layouts:
+ *
+ * - `openai`: `{ messages: [{ role, content }] }`
+ * - `sharegpt`: `{ conversations: [{ from, value }], system? }`
+ * - `alpaca`: `{ instruction, input, output, system?, history? }`, where
+ *   `history` holds earlier `[prompt, response]` turns
+ *
+ * Records are converted through `Conversation`. Fields a layout doesn't use,
+ * on the record or on individual messages, are carried across as is, so
+ * OpenAI and ShareGPT records round-trip exactly. Alpaca can only hold
+ * alternating user/assistant turns ending in a response; anything else is
+ * refused rather than dropped. Its instruction and input become one user turn
+ * joined by a blank line, as Alpaca's own prompt template does, and the turn
+ * keeps the input as its `input` field so the two are split again on the way
+ * back.
+ */
+
+export const CHAT_FORMATS = ["openai", "sharegpt", "alpaca"] as const;
+
+export type ChatFormat = (typeof CHAT_FORMATS)[number];
+
+export const CHAT_FORMAT_LABELS: Record<ChatFormat, string> = {
+  openai: "OpenAI messages",
+  sharegpt: "ShareGPT",
+  alpaca: "Alpaca",
+};
+
+export interface ChatMessage {
+  /** OpenAI role names: "system", "user", "assistant", "tool", ... */
+  role: string;
+  /** A string, or OpenAI content parts. */
+  content: unknown;
+  /** Other keys of the message, such as `name` or `tool_calls`. */
+  extra: Row;
+}
+
+export interface Conversation {
+  messages: ChatMessage[];
+  /** Other fields of the record. */
+  extra: Row;
+}
+
+/** ShareGPT speaker names and the OpenAI roles they stand for. */
+const SHAREGPT_ROLES: Record<string, string> = {
+  human: "user",
+  gpt: "assistant",
+  system: "system",
+  observation: "tool",
+};
+
+const SHAREGPT_SPEAKERS = Object.fromEntries(
+  Object.entries(SHAREGPT_ROLES).map(([from, role]) => [role, from]),
+);
+
+const ALPACA_SEPARATOR = "\n\n";
+
+function isObject(value: unknown): value is Row {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isMessageList(value: unknown, keys: [string, string]) {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((item) => isObject(item) && keys.every((key) => key in item))
+  );
+}
+
+function omit(row: Row, keys: string[]): Row {
+  return Object.fromEntries(
+    Object.entries(row).filter(([key]) => !keys.includes(key)),
+  );
+}
+
+/** The chat layout of one record, or null if it isn't a chat record. */
+export function detectChatFormat(row: Row): ChatFormat | null {
+  if (isMessageList(row.messages, ["role", "content"])) return "openai";
+  if (isMessageList(row.conversations, ["from", "value"])) return "sharegpt";
+  if (typeof row.instruction === "string" && typeof row.output === "string") {
+    return "alpaca";
+  }
+  return null;
+}
+
+/** The chat layout a schema describes, or null. */
+export function chatFormatOf(fields: SchemaField[]): ChatFormat | null {
+  const byName = new Map(fields.map((field) => [field.name, field]));
+  const itemKeys = (name: string) => {
+    const field = byName.get(name);
+    const item = field?.type === "list" ? field.children?.[0] : undefined;
+    return new Set(
+      item?.type === "struct" ? item.children?.map((c) => c.name) : [],
+    );
+  };
+  const messages = itemKeys("messages");
+  if (messages.has("role") && messages.has("content")) return "openai";
+  const conversations = itemKeys("conversations");
+  if (conversations.has("from") && conversations.has("value")) {
+    return "sharegpt";
+  }
+  if (
+    byName.get("instruction")?.type === "string" &&
+    byName.get("output")?.type === "string"
+  ) {
+    return "alpaca";
+  }
+  return null;
+}
+
+/** Reads a record in the given layout. */
+export function toConversation(row: Row, format: ChatFormat): Conversation {
+  switch (format) {
+    case "openai":
+      return {
+        messages: (row.messages as Row[]).map(
+          ({ role, content, ...extra }) => ({
+            role: String(role),
+            content,
+            extra,
+          }),
+        ),
+        extra: omit(row, ["messages"]),
+      };
+    case "sharegpt": {
+      const system = typeof row.system === "string" ? row.system : "";
+      const messages = (row.conversations as Row[]).map(
+        ({ from, value, ...extra }) => ({
+          role: SHAREGPT_ROLES[String(from)] ?? String(from),
+          content: value,
+          extra,
+        }),
+      );
+      return {
+        messages: system
+          ? [{ role: "system", content: system, extra: {} }, ...messages]
+          : messages,
+        extra: omit(
+          row,
+          system ? ["conversations", "system"] : ["conversations"],
+        ),
+      };
+    }
+    case "alpaca": {
+      const messages: ChatMessage[] = [];
+      const turn = (role: string, content: unknown, extra: Row = {}) =>
+        messages.push({ role, content, extra });
+      if (typeof row.system === "string" && row.system) {
+        turn("system", row.system);
+      }
+      for (const [prompt, response] of (row.history ?? []) as unknown[][]) {
+        turn("user", prompt);
+        turn("assistant", response);
+      }
+      const input = typeof row.input === "string" ? row.input : "";
+      if (input) {
+        turn("user", `${row.instruction}${ALPACA_SEPARATOR}${input}`, {
+          input,
+        });
+      } else {
+        turn("user", row.instruction);
+      }
+      turn("assistant", row.output);
+      return {
+        messages,
+        extra: omit(row, [
+          "instruction",
+          "input",
+          "output",
+          "system",
+          "history",
+        ]),
+      };
+    }
+  }
+}
+
+/** Writes a conversation in the given layout. */
+export function fromConversation(
+  conversation: Conversation,
+  format: ChatFormat,
+): Row {
+  const { messages, extra } = conversation;
+  switch (format) {
+    case "openai":
+      return {
+        messages: messages.map((message) => ({
+          role: message.role,
+          content: message.content,
+          ...message.extra,
+        })),
+        ...extra,
+      };
+    case "sharegpt":
+      return {
+        conversations: messages.map((message) => ({
+          from: SHAREGPT_SPEAKERS[message.role] ?? message.role,
+          value: message.content,
+          ...message.extra,
+        })),
+        ...extra,
+      };
+    case "alpaca":
+      return { ...toAlpaca(messages), ...extra };
+  }
+}
+
+/**
+ * The instruction and input of the last user turn. If its content no longer
+ * ends in the input it was read with, it was edited and is all instruction.
+ */
+function alpacaPrompt(message: ChatMessage): [string, string] {
+  const content = message.content as string;
+  const { input } = message.extra;
+  if (typeof input === "string" && input) {
+    const suffix = `${ALPACA_SEPARATOR}${input}`;
+    if (content.endsWith(suffix)) {
+      return [content.slice(0, -suffix.length), input];
+    }
+  }
+  return [content, ""];
+}
+
+function toAlpaca(messages: ChatMessage[]): Row {
+  const last = messages.findLastIndex((message) => message.role === "user");
+  for (const [index, message] of messages.entries()) {
+    const fields = Object.keys(
+      index === last ? omit(message.extra, ["input"]) : message.extra,
+    );
+    if (fields.length > 0) {
+      throw new Error(
+        `Alpaca records can't hold message fields (${fields.join(", ")})`,
+      );
+    }
+    if (typeof message.content !== "string") {
+      throw new Error("Alpaca records can only hold text content");
+    }
+  }
+  const system = messages[0]?.role === "system" ? messages[0].content : null;
+  const turns = system === null ? messages : messages.slice(1);
+  const pairs: string[][] = [];
+  for (let i = 0; i < turns.length; i += 2) {
+    if (turns[i].role !== "user" || turns[i + 1]?.role !== "assistant") {
+      throw new Error(
+        "Alpaca records need alternating user and assistant turns ending in a response",
+      );
+    }
+    pairs.push([turns[i].content as string, turns[i + 1].content as string]);
+  }
+  if (pairs.length === 0) {
+    throw new Error("Alpaca records need at least one user and assistant turn");
+  }
+  const output = pairs.pop()![1];
+  const [instruction, input] = alpacaPrompt(messages[last]);
+  return {
+    instruction,
+    input,
+    output,
+    ...(system === null ? {} : { system }),
+    ...(pairs.length > 0 ? { history: pairs } : {}),
+  };
+}
+
+/** Converts a chat record to `format`, detecting the layout it is in. */
+export function convertChatRow(row: Row, format: ChatFormat): Row {
+  const source = detectChatFormat(row);
+  if (!source) throw new Error("Not a chat record");
+  return source === format
+    ? row
+    : fromConversation(toConversation(row, source), format);
+}
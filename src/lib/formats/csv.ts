@@ -0,0 +1,100 @@
+import type { Readable } from "stream";
+
+export interface DelimitedRecord {
+  fields: string[];
+  /** Byte offset of the first byte of the record within the file. */
+  offset: number;
+}
+
+const LF = 0x0a;
+const CR = 0x0d;
+
+/**
+ * Streaming RFC 4180 parser: quoted fields may contain delimiters, doubled
+ * quotes and newlines. Works on raw bytes (the structural characters are all
+ * ASCII) so every record carries its byte offset, which lets readers resume
+ * from the middle of a file. Yields one array of raw string fields per record.
+ */
+export async function* parseDelimited(
+  stream: Readable | AsyncIterable<Buffer>,
+  delimiter = ",",
+  startOffset = 0,
+  quote = '"',
+): AsyncGenerator<DelimitedRecord> {
+  const separator = delimiter.charCodeAt(0);
+  const quoteByte = quote.charCodeAt(0);
+  let record: string[] = [];
+  let field: number[] = [];
+  let inQuotes = false;
+  // A quote seen inside a quoted field: either the closing quote or the first
+  // half of an escaped one, depending on the next byte.
+  let quotePending = false;
+  let fieldStarted = false;
+  let recordOffset = startOffset;
+  let position = startOffset;
+
+  const endField = () => {
+    if (!inQuotes && field[field.length - 1] === CR) field.pop();
+    record.push(Buffer.from(field).toString("utf8"));
+    field = [];
+    fieldStarted = false;
+  };
+
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    for (let i = 0; i < chunk.length; i++, position++) {
+      const byte = chunk[i];
+      if (quotePending) {
+        quotePending = false;
+        if (byte === quoteByte) {
+          field.push(quoteByte);
+          continue;
+        }
+        inQuotes = false;
+      }
+      if (inQuotes) {
+        if (byte === quoteByte) quotePending = true;
+        else field.push(byte);
+        continue;
+      }
+      if (byte === quoteByte && !fieldStarted) {
+        inQuotes = true;
+        fieldStarted = true;
+      } else if (byte === separator) {
+        endField();
+      } else if (byte === LF) {
+        endField();
+        yield { fields: record, offset: recordOffset };
+        record = [];
+        recordOffset = position + 1;
+      } else {
+        field.push(byte);
+        fieldStarted = true;
+      }
+    }
+  }
+  if (quotePending) inQuotes = false;
+  if (field.length > 0 || record.length > 0) {
+    inQuotes = false;
+    endField();
+    yield { fields: record, offset: recordOffset };
+  }
+}
+
+/** True for the record produced by a blank line. */
+export function isBlankRecord(record: DelimitedRecord) {
+  return record.fields.length === 1 && record.fields[0] === "";
+}
+
+/**
+ * One RFC 4180 record, without its line ending: fields holding the
+ * delimiter, a quote or a line break are quoted, with quotes doubled.
+ */
+export function formatDelimited(fields: string[], delimiter = ","): string {
+  return fields
+    .map((field) =>
+      field.includes(delimiter) || /["\r\n]/.test(field)
+        ? `"${field.replace(/"/g, '""')}"`
+        : field,
+    )
+    .join(delimiter);
+}
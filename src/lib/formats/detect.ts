@@ -0,0 +1,19 @@
+/** File formats whose contents can be read as rows. */
+export type TabularFormat =
+  "jsonl" | "csv" | "tsv" | "json" | "parquet" | "webdataset";
+
+const EXTENSIONS: Record<string, TabularFormat> = {
+  jsonl: "jsonl",
+  ndjson: "jsonl",
+  csv: "csv",
+  tsv: "tsv",
+  json: "json",
+  parquet: "parquet",
+  pq: "parquet",
+  tar: "webdataset",
+};
+
+export function detectFormat(path: string): TabularFormat | null {
+  const extension = path.split(".").pop()?.toLowerCase() ?? "";
+  return EXTENSIONS[extension] ?? null;
+}
@@ -0,0 +1,620 @@
+import { HttpError } from "@/lib/api";
+import {
+  chatFormatOf,
+  convertChatRow,
+  type ChatFormat,
+} from "@/lib/formats/chat";
+import {
+  formatDelimited,
+  isBlankRecord,
+  parseDelimited,
+} from "@/lib/formats/csv";
+import { detectFormat, type TabularFormat } from "@/lib/formats/detect";
+import { readLines } from "@/lib/formats/lines";
+import {
+  readParquetRows,
+  readParquetSchema,
+  writeParquet,
+} from "@/lib/formats/parquet";
+import { collectColumns, type Row } from "@/lib/formats/rows";
+import { groupSamples, indexTar, readSampleRow } from "@/lib/formats/tar";
+import {
+  schemaInference,
+  type FileSchema,
+  type SchemaField,
+} from "@/lib/formats/schema";
+import {
+  readBlob,
+  readBlobBuffer,
+  storeBlob,
+  type StoredBlob,
+} from "@/lib/storage";
+
+export * from "@/lib/formats/chat";
+export * from "@/lib/formats/detect";
+export * from "@/lib/formats/rows";
+export * from "@/lib/formats/schema";
+export { writeParquet };
+
+/** Largest plain `.json` file that will be parsed in one piece. */
+const MAX_JSON_BYTES = 256 * 1024 * 1024;
+
+export interface RowSource {
+  path: string;
+  hash: string;
+  size: number;
+}
+
+export interface ReadRowsOptions {
+  /**
+   * Columns to return. Parquet files decode only these; other formats still
+   * parse whole rows and drop the rest.
+   */
+  columns?: string[];
+}
+
+/** Streams the rows of a dataset file in file order. */
+export async function* readRows(
+  file: RowSource,
+  options: ReadRowsOptions = {},
+): AsyncGenerator<Row> {
+  const { columns } = options;
+  if (detectFormat(file.path) === "parquet") {
+    yield* readParquetRows(file, { columns });
+    return;
+  }
+  for await (const row of parseRows(file)) {
+    yield columns ? pick(row, columns) : row;
+  }
+}
+
+async function* parseRows(file: RowSource): AsyncGenerator<Row> {
+  const format = detectFormat(file.path);
+  switch (format) {
+    case "jsonl":
+      for await (const line of readLines(readBlob(file.hash))) {
+        if (!line.text.trim()) continue;
+        yield parseJsonRow(line.text, line.number, file.path);
+      }
+      return;
+    case "csv":
+    case "tsv": {
+      let header: string[] | null = null;
+      for await (const record of parseDelimited(
+        readBlob(file.hash),
+        delimiterFor(format),
+      )) {
+        if (isBlankRecord(record)) continue;
+        if (!header) {
+          header = record.fields;
+          continue;
+        }
+        yield recordToRow(header, record.fields);
+      }
+      return;
+    }
+    case "json": {
+      if (file.size > MAX_JSON_BYTES) {
+        throw new HttpError(
+          413,
+          `${file.path} is too large to read as JSON; use JSONL`,
+        );
+      }
+      const value = JSON.parse(
+        (await readBlobBuffer(file.hash)).toString("utf8"),
+      );
+      const rows: unknown[] = Array.isArray(value) ? value : [value];
+      for (const row of rows) yield toRow(row);
+      return;
+    }
+    case "webdataset":
+      for (const sample of groupSamples(await indexTar(file.hash))) {
+        yield readSampleRow(file.hash, sample);
+      }
+      return;
+    default:
+      throw new HttpError(415, `${file.path} is not a tabular file`);
+  }
+}
+
+export interface RowPage {
+  columns: string[];
+  rows: Row[];
+  /** 0-based index of the first row in the page. */
+  startRow: number;
+  /** Opaque cursor for the next page, or null at the end of the file. */
+  nextCursor: string | null;
+}
+
+/** Position of a page: byte offset of its first row plus its row index. */
+interface Cursor {
+  offset: number;
+  row: number;
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(value: string | null | undefined): Cursor {
+  if (!value) return { offset: 0, row: 0 };
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString());
+    if (
+      Number.isSafeInteger(cursor.offset) &&
+      Number.isSafeInteger(cursor.row)
+    ) {
+      return cursor;
+    }
+  } catch {
+    // Fall through to the error below.
+  }
+  throw new HttpError(400, "Invalid cursor");
+}
+
+/**
+ * Reads one page of rows. Line-based formats resume from a byte offset,
+ * Parquet decodes only the row groups the page overlaps and tar shards read
+ * only the page's samples, so fetching page N of a multi-gigabyte file never
+ * re-reads pages 0..N-1.
+ */
+export async function readPage(
+  file: RowSource,
+  cursorValue: string | null | undefined,
+  limit: number,
+): Promise<RowPage> {
+  const cursor = decodeCursor(cursorValue);
+  const format = detectFormat(file.path);
+  const rows: Row[] = [];
+  let nextCursor: string | null = null;
+
+  if (format === "jsonl") {
+    const stream = readBlob(file.hash, { start: cursor.offset, end: Infinity });
+    try {
+      for await (const line of readLines(stream, cursor.offset)) {
+        if (!line.text.trim()) continue;
+        if (rows.length === limit) {
+          nextCursor = encodeCursor({
+            offset: line.offset,
+            row: cursor.row + limit,
+          });
+          break;
+        }
+        rows.push(
+          parseJsonRow(line.text, cursor.row + rows.length + 1, file.path),
+        );
+      }
+    } finally {
+      stream.destroy();
+    }
+  } else if (format === "csv" || format === "tsv") {
+    const header = await readHeader(file, format);
+    // Skip past the header when starting from the top of the file.
+    const start = cursor.offset || header.end;
+    const stream = readBlob(file.hash, { start, end: Infinity });
+    try {
+      for await (const record of parseDelimited(
+        stream,
+        delimiterFor(format),
+        start,
+      )) {
+        if (isBlankRecord(record)) continue;
+        if (rows.length === limit) {
+          nextCursor = encodeCursor({
+            offset: record.offset,
+            row: cursor.row + limit,
+          });
+          break;
+        }
+        rows.push(recordToRow(header.fields, record.fields));
+      }
+    } finally {
+      stream.destroy();
+    }
+  } else if (format === "parquet") {
+    for await (const row of readParquetRows(file, {
+      rowStart: cursor.row,
+      rowEnd: cursor.row + limit + 1,
+    })) {
+      if (rows.length === limit) {
+        nextCursor = encodeCursor({ offset: 0, row: cursor.row + limit });
+        break;
+      }
+      rows.push(row);
+    }
+  } else if (format === "webdataset") {
+    const samples = groupSamples(await indexTar(file.hash));
+    for (const sample of samples.slice(cursor.row, cursor.row + limit)) {
+      rows.push(await readSampleRow(file.hash, sample));
+    }
+    if (cursor.row + limit < samples.length) {
+      nextCursor = encodeCursor({ offset: 0, row: cursor.row + limit });
+    }
+  } else {
+    let index = 0;
+    for await (const row of readRows(file)) {
+      if (index++ < cursor.row) continue;
+      if (rows.length === limit) {
+        nextCursor = encodeCursor({ offset: 0, row: cursor.row + limit });
+        break;
+      }
+      rows.push(row);
+    }
+  }
+
+  return {
+    columns: collectColumns(rows),
+    rows,
+    startRow: cursor.row,
+    nextCursor,
+  };
+}
+
+/** Rows sampled to infer the schema of formats that don't declare one. */
+const SCHEMA_SAMPLE_ROWS = 1000;
+
+/**
+ * The Arrow schema of a tabular file: read from the footer of Parquet files,
+ * inferred from the first rows of everything else.
+ */
+export async function readSchema(file: RowSource): Promise<FileSchema> {
+  const format = detectFormat(file.path);
+  if (!format) throw new HttpError(415, `${file.path} is not a tabular file`);
+  if (format === "parquet") {
+    const schema = await readParquetSchema(file);
+    return { ...schema, chat: chatFormatOf(schema.fields) };
+  }
+
+  const inference = schemaInference();
+  let complete = true;
+  for await (const row of readRows(file)) {
+    if (inference.rows === SCHEMA_SAMPLE_ROWS) {
+      complete = false;
+      break;
+    }
+    inference.add(row);
+  }
+  const fields = inference.fields();
+  return {
+    format,
+    fields,
+    numRows: complete ? inference.rows : null,
+    inferred: true,
+    sampledRows: inference.rows,
+    chat: chatFormatOf(fields),
+  };
+}
+
+/**
+ * Rewrites a tabular file as Parquet in the blob store. The schema is
+ * inferred from every row first, so the file is read twice but never held in
+ * memory.
+ */
+export async function convertToParquet(file: RowSource): Promise<StoredBlob> {
+  let fields: SchemaField[];
+  if (detectFormat(file.path) === "parquet") {
+    fields = (await readParquetSchema(file)).fields;
+  } else {
+    const inference = schemaInference();
+    for await (const row of readRows(file)) inference.add(row);
+    fields = inference.fields();
+  }
+  return writeParquet(readRows(file), fields);
+}
+
+/**
+ * Writes the rows of a tabular file in another format. Delimited files get a
+ * column for every key any row has, so the file is read twice, and nested
+ * values are written as JSON.
+ */
+export async function convertRows(
+  file: RowSource,
+  format: TabularFormat,
+): Promise<StoredBlob> {
+  switch (format) {
+    case "jsonl": {
+      async function* lines(): AsyncGenerator<Buffer> {
+        for await (const row of readRows(file)) {
+          yield Buffer.from(`${JSON.stringify(row)}\n`);
+        }
+      }
+      return storeBlob(lines());
+    }
+    case "json": {
+      async function* items(): AsyncGenerator<Buffer> {
+        let separator = "";
+        yield Buffer.from("[");
+        for await (const row of readRows(file)) {
+          yield Buffer.from(`${separator}${JSON.stringify(row)}`);
+          separator = ",";
+        }
+        yield Buffer.from("]");
+      }
+      return storeBlob(items());
+    }
+    case "csv":
+    case "tsv": {
+      const delimiter = delimiterFor(format);
+      const columns = new Set<string>();
+      for await (const row of readRows(file)) {
+        for (const key of Object.keys(row)) columns.add(key);
+      }
+      const header = [...columns];
+      async function* records(): AsyncGenerator<Buffer> {
+        yield Buffer.from(`${formatDelimited(header, delimiter)}\n`);
+        for await (const row of readRows(file)) {
+          const fields = header.map((name) => formatCell(row[name]));
+          yield Buffer.from(`${formatDelimited(fields, delimiter)}\n`);
+        }
+      }
+      return storeBlob(records());
+    }
+    case "parquet":
+      return convertToParquet(file);
+    default:
+      throw new HttpError(415, `Rows cannot be written as ${format}`);
+  }
+}
+
+/**
+ * Rewrites a file of chat records as JSONL in another chat layout. Records
+ * may mix layouts; one that isn't a chat record, or can't be expressed in
+ * `format`, fails the conversion instead of being dropped.
+ */
+export async function convertChatFile(
+  file: RowSource,
+  format: ChatFormat,
+): Promise<StoredBlob> {
+  async function* lines(): AsyncGenerator<Buffer> {
+    let number = 0;
+    for await (const row of readRows(file)) {
+      number++;
+      let converted: Row;
+      try {
+        converted = convertChatRow(row, format);
+      } catch (error) {
+        throw new HttpError(
+          422,
+          `Row ${number} of ${file.path}: ${(error as Error).message}`,
+        );
+      }
+      yield Buffer.from(`${JSON.stringify(converted)}\n`);
+    }
+  }
+  return storeBlob(lines());
+}
+
+/**
+ * Rewrites a tabular file in its own format without the rows at the 0-based
+ * indexes in `drop`, counted the way `readRows` counts them. JSONL and
+ * delimited files keep every other byte as it was; Parquet files are written
+ * again with their schema.
+ */
+export async function dropRows(
+  file: RowSource,
+  drop: ReadonlySet<number>,
+): Promise<StoredBlob> {
+  const format = detectFormat(file.path);
+  switch (format) {
+    case "jsonl":
+    case "csv":
+    case "tsv":
+      return storeBlob(
+        spliceRanges(readBlob(file.hash), await rowRanges(file, drop)),
+      );
+    case "json": {
+      const value = JSON.parse(
+        (await readBlobBuffer(file.hash)).toString("utf8"),
+      );
+      const rows: unknown[] = Array.isArray(value) ? value : [value];
+      return storeBlob(
+        Buffer.from(JSON.stringify(rows.filter((_, i) => !drop.has(i)))),
+      );
+    }
+    case "parquet": {
+      const { fields } = await readParquetSchema(file);
+      async function* kept(): AsyncGenerator<Row> {
+        let index = 0;
+        for await (const row of readParquetRows(file)) {
+          if (!drop.has(index++)) yield row;
+        }
+      }
+      return writeParquet(kept(), fields);
+    }
+    default:
+      throw new HttpError(415, `Rows cannot be dropped from ${file.path}`);
+  }
+}
+
+/**
+ * Rewrites a tabular file in its own format with the rows at the 0-based
+ * indexes in `replace` swapped for the rows given, like `dropRows`. Delimited
+ * files keep their header, so a replacement's other columns are left out.
+ */
+export async function replaceRows(
+  file: RowSource,
+  replace: ReadonlyMap<number, Row>,
+): Promise<StoredBlob> {
+  const format = detectFormat(file.path);
+  switch (format) {
+    case "jsonl":
+    case "csv":
+    case "tsv": {
+      const ranges = await rowRanges(file, new Set(replace.keys()));
+      let serialize = (row: Row) => JSON.stringify(row);
+      if (format !== "jsonl") {
+        const { fields } = await readHeader(file, format);
+        serialize = (row) =>
+          formatDelimited(
+            fields.map((name) => formatCell(row[name])),
+            delimiterFor(format),
+          );
+      }
+      return storeBlob(
+        spliceRanges(
+          readBlob(file.hash),
+          ranges.map((range) => ({
+            ...range,
+            text: `${serialize(replace.get(range.row)!)}\n`,
+          })),
+        ),
+      );
+    }
+    case "json": {
+      const value = JSON.parse(
+        (await readBlobBuffer(file.hash)).toString("utf8"),
+      );
+      const rows: unknown[] = Array.isArray(value) ? value : [value];
+      return storeBlob(
+        Buffer.from(
+          JSON.stringify(rows.map((row, i) => replace.get(i) ?? row)),
+        ),
+      );
+    }
+    case "parquet": {
+      const { fields } = await readParquetSchema(file);
+      async function* replaced(): AsyncGenerator<Row> {
+        let index = 0;
+        for await (const row of readParquetRows(file)) {
+          yield replace.get(index++) ?? row;
+        }
+      }
+      return writeParquet(replaced(), fields);
+    }
+    default:
+      throw new HttpError(415, `Rows cannot be rewritten in ${file.path}`);
+  }
+}
+
+/** A delimited field: strings as they are, anything else as JSON. */
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+interface RowRange {
+  /** 0-based index of the row, counted the way `readRows` counts them. */
+  row: number;
+  start: number;
+  end: number;
+}
+
+/** Byte ranges `[start, end)` of the rows in `rows` in a line-based file. */
+async function rowRanges(
+  file: RowSource,
+  rows: ReadonlySet<number>,
+): Promise<RowRange[]> {
+  const ranges: RowRange[] = [];
+  // A row's range ends where the next record of any kind starts.
+  let open: { row: number; start: number } | null = null;
+  const next = (offset: number) => {
+    if (open !== null) ranges.push({ ...open, end: offset });
+    open = null;
+  };
+  let index = 0;
+  const format = detectFormat(file.path);
+  if (format === "jsonl") {
+    for await (const line of readLines(readBlob(file.hash))) {
+      next(line.offset);
+      if (!line.text.trim()) continue;
+      const row = index++;
+      if (rows.has(row)) open = { row, start: line.offset };
+    }
+  } else {
+    let header = false;
+    for await (const record of parseDelimited(
+      readBlob(file.hash),
+      delimiterFor(format as "csv" | "tsv"),
+    )) {
+      next(record.offset);
+      if (isBlankRecord(record)) continue;
+      if (!header) {
+        header = true;
+        continue;
+      }
+      const row = index++;
+      if (rows.has(row)) open = { row, start: record.offset };
+    }
+  }
+  next(file.size);
+  return ranges;
+}
+
+/**
+ * Streams `source` with the sorted, disjoint byte ranges given cut out, or
+ * replaced by their `text` where they have one.
+ */
+async function* spliceRanges(
+  source: AsyncIterable<Buffer>,
+  ranges: { start: number; end: number; text?: string }[],
+): AsyncGenerator<Buffer> {
+  let position = 0;
+  let next = 0;
+  for await (const chunk of source) {
+    const end = position + chunk.length;
+    let start = 0;
+    while (start < chunk.length) {
+      while (next < ranges.length && ranges[next].end <= position + start) {
+        next++;
+      }
+      if (next === ranges.length || ranges[next].start >= end) {
+        yield chunk.subarray(start);
+        break;
+      }
+      const { start: from, end: to, text } = ranges[next];
+      if (from > position + start) {
+        yield chunk.subarray(start, from - position);
+      }
+      // A range is replaced where it starts, whichever chunk it ends in.
+      if (text !== undefined && from >= position + start) {
+        yield Buffer.from(text);
+      }
+      start = Math.min(chunk.length, to - position);
+    }
+    position = end;
+  }
+}
+
+/** The header fields and the byte offset where the first data record starts. */
+async function readHeader(file: RowSource, format: "csv" | "tsv") {
+  const stream = readBlob(file.hash);
+  let fields: string[] | null = null;
+  try {
+    for await (const record of parseDelimited(stream, delimiterFor(format))) {
+      if (fields) return { fields, end: record.offset };
+      if (!isBlankRecord(record)) fields = record.fields;
+    }
+  } finally {
+    stream.destroy();
+  }
+  return { fields: fields ?? [], end: file.size };
+}
+
+function parseJsonRow(text: string, lineNumber: number, path: string): Row {
+  try {
+    return toRow(JSON.parse(text));
+  } catch {
+    throw new HttpError(422, `${path}:${lineNumber} is not valid JSON`);
+  }
+}
+
+function pick(row: Row, columns: string[]): Row {
+  return Object.fromEntries(
+    columns.map((column) => [column, row[column] ?? null]),
+  );
+}
+
+function delimiterFor(format: "csv" | "tsv") {
+  return format === "tsv" ? "\t" : ",";
+}
+
+function recordToRow(header: string[], fields: string[]): Row {
+  return Object.fromEntries(header.map((name, i) => [name, fields[i] ?? null]));
+}
+
+/** Wraps scalars and arrays so every row is an object. */
+export function toRow(value: unknown): Row {
+  return value !== null && typeof value === "object" && !Array.isArray(value)
+    ? (value as Row)
+    : { value };
+}
@@ -0,0 +1,63 @@
+import type { Readable } from "stream";
+
+export interface Line {
+  text: string;
+  /** Byte offset of the first byte of the line within the file. */
+  offset: number;
+  /** 1-based line number, counted from the start of the read. */
+  number: number;
+}
+
+/**
+ * Splits a byte stream into lines without decoding more than one line at a
+ * time, tracking byte offsets so readers can later seek straight to a line.
+ * Handles `\n` and `\r\n`; a trailing line without a newline is still emitted.
+ */
+export async function* readLines(
+  stream: Readable | AsyncIterable<Buffer>,
+  startOffset = 0,
+): AsyncGenerator<Line> {
+  let pending: Buffer[] = [];
+  let pendingOffset = startOffset;
+  let position = startOffset;
+  let number = 0;
+
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    let start = 0;
+    let newline = chunk.indexOf(0x0a, start);
+    while (newline !== -1) {
+      pending.push(chunk.subarray(start, newline));
+      const bytes = Buffer.concat(pending);
+      yield {
+        text: decodeLine(bytes),
+        offset: pendingOffset,
+        number: ++number,
+      };
+      position += newline - start + 1;
+      pendingOffset = position;
+      pending = [];
+      start = newline + 1;
+      newline = chunk.indexOf(0x0a, start);
+    }
+    if (start < chunk.length) {
+      pending.push(chunk.subarray(start));
+      position += chunk.length - start;
+    }
+  }
+  if (pending.length > 0) {
+    const bytes = Buffer.concat(pending);
+    if (bytes.length > 0) {
+      yield {
+        text: decodeLine(bytes),
+        offset: pendingOffset,
+        number: ++number,
+      };
+    }
+  }
+}
+
+function decodeLine(bytes: Buffer) {
+  const end =
+    bytes.length > 0 && bytes[bytes.length - 1] === 0x0d ? -1 : undefined;
+  return bytes.subarray(0, end).toString("utf8");
+}
@@ -0,0 +1,469 @@
+import { promises as fs } from "fs";
+import {
+  parquetMetadataAsync,
+  parquetReadObjects,
+  parquetSchema,
+  type AsyncBuffer,
+  type FileMetaData,
+  type SchemaElement,
+  type SchemaTree,
+} from "hyparquet";
+import { ByteWriter, parquetWriteRows } from "hyparquet-writer";
+
+import { HttpError } from "@/lib/api";
+import type { Row } from "@/lib/formats/rows";
+import type { FileSchema, SchemaField } from "@/lib/formats/schema";
+import { blobPath, storeFile, tempPath, type StoredBlob } from "@/lib/storage";
+
+/**
+ * Parquet support. Files are read straight from the blob store through
+ * positional reads: the footer is fetched once per blob and cached, and rows
+ * are decoded one row group at a time, touching only the requested columns,
+ * so files larger than memory can be previewed and scanned.
+ */
+
+interface ParquetSource {
+  path: string;
+  hash: string;
+  size: number;
+}
+
+/** Rows per row group in files written here; small enough to page cheaply. */
+const ROW_GROUP_SIZE = 10_000;
+
+const METADATA_CACHE_SIZE = 64;
+const metadataCache = new Map<string, Promise<FileMetaData>>();
+
+/** A blob exposed as the random-access buffer hyparquet reads from. */
+function blobBuffer(file: ParquetSource): AsyncBuffer {
+  return {
+    byteLength: file.size,
+    async slice(start, end = file.size) {
+      const handle = await fs.open(blobPath(file.hash), "r");
+      try {
+        const buffer = new Uint8Array(end - start);
+        await handle.read(buffer, 0, buffer.length, start);
+        return buffer.buffer;
+      } finally {
+        await handle.close();
+      }
+    },
+  };
+}
+
+/** Footer metadata; blobs are immutable, so it is cached by hash. */
+export function readMetadata(file: ParquetSource): Promise<FileMetaData> {
+  let metadata = metadataCache.get(file.hash);
+  if (!metadata) {
+    metadata = parquetMetadataAsync(blobBuffer(file)).catch((error) => {
+      metadataCache.delete(file.hash);
+      throw new HttpError(
+        422,
+        `${file.path} is not a valid Parquet file: ${(error as Error).message}`,
+      );
+    });
+    metadataCache.set(file.hash, metadata);
+    if (metadataCache.size > METADATA_CACHE_SIZE) {
+      metadataCache.delete(metadataCache.keys().next().value!);
+    }
+  }
+  return metadata;
+}
+
+export async function readParquetSchema(
+  file: ParquetSource,
+): Promise<Omit<FileSchema, "chat">> {
+  const metadata = await readMetadata(file);
+  return {
+    format: "parquet",
+    fields: parquetSchema(metadata).children.map(toField),
+    numRows: Number(metadata.num_rows),
+    rowGroups: metadata.row_groups.map((group) => ({
+      numRows: Number(group.num_rows),
+      compressedBytes: Number(
+        group.total_compressed_size ??
+          group.columns.reduce(
+            (sum, column) =>
+              sum + (column.meta_data?.total_compressed_size ?? BigInt(0)),
+            BigInt(0),
+          ),
+      ),
+    })),
+    inferred: false,
+  };
+}
+
+export interface ParquetReadOptions {
+  /** Top-level columns to decode; all of them if omitted. */
+  columns?: string[];
+  rowStart?: number;
+  rowEnd?: number;
+}
+
+/**
+ * Streams rows between `rowStart` and `rowEnd`, decoding one row group at a
+ * time so memory use is bounded by the row group size.
+ */
+export async function* readParquetRows(
+  file: ParquetSource,
+  options: ParquetReadOptions = {},
+): AsyncGenerator<Row> {
+  const metadata = await readMetadata(file);
+  const buffer = blobBuffer(file);
+  const rowStart = options.rowStart ?? 0;
+  const rowEnd = Math.min(
+    options.rowEnd ?? Infinity,
+    Number(metadata.num_rows),
+  );
+  const topLevel = parquetSchema(metadata).children.map(
+    (child) => child.element.name,
+  );
+  const columns = options.columns?.filter((column) =>
+    topLevel.includes(column),
+  );
+  let groupStart = 0;
+  for (const group of metadata.row_groups) {
+    const groupEnd = groupStart + Number(group.num_rows);
+    if (groupEnd > rowStart && groupStart < rowEnd) {
+      const rows = await parquetReadObjects({
+        file: buffer,
+        metadata,
+        columns,
+        rowStart: Math.max(rowStart, groupStart),
+        rowEnd: Math.min(rowEnd, groupEnd),
+        utf8: false,
+      });
+      for (const row of rows) yield fromParquet(row) as Row;
+    }
+    groupStart = groupEnd;
+    if (groupStart >= rowEnd) return;
+  }
+}
+
+/**
+ * Converts decoded values into JSON-safe ones: 64-bit integers become numbers
+ * (or strings when they don't fit), timestamps ISO strings and binary base64.
+ */
+function fromParquet(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (typeof value === "bigint") {
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) &&
+      value <= BigInt(Number.MAX_SAFE_INTEGER)
+      ? Number(value)
+      : value.toString();
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value).toString("base64");
+  }
+  if (Array.isArray(value)) return value.map(fromParquet);
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, fromParquet(item)]),
+    );
+  }
+  return value;
+}
+
+function isList(element: SchemaElement) {
+  return (
+    element.converted_type === "LIST" || element.logical_type?.type === "LIST"
+  );
+}
+
+function isMap(element: SchemaElement) {
+  return (
+    element.converted_type === "MAP" ||
+    element.converted_type === "MAP_KEY_VALUE" ||
+    element.logical_type?.type === "MAP"
+  );
+}
+
+function toField(node: SchemaTree): SchemaField {
+  const { element } = node;
+  const name = element.name;
+  const nullable = element.repetition_type !== "REQUIRED";
+
+  // Legacy two-level lists: a bare repeated field.
+  if (element.repetition_type === "REPEATED") {
+    return {
+      name,
+      type: "list",
+      nullable: false,
+      children: [toField({ ...node, element: requiredCopy(element) })],
+    };
+  }
+  if (isList(element) && node.children.length === 1) {
+    const repeated = node.children[0];
+    const item =
+      repeated.children.length === 1 ? repeated.children[0] : repeated;
+    return {
+      name,
+      type: "list",
+      nullable,
+      children: [
+        item === repeated
+          ? toField({ ...repeated, element: requiredCopy(repeated.element) })
+          : toField(item),
+      ],
+    };
+  }
+  if (isMap(element) && node.children.length === 1) {
+    return {
+      name,
+      type: "map",
+      nullable,
+      children: node.children[0].children.map(toField),
+    };
+  }
+  if (node.children.length > 0) {
+    return {
+      name,
+      type: "struct",
+      nullable,
+      children: node.children.map(toField),
+    };
+  }
+  return { name, type: arrowType(element), nullable };
+}
+
+function requiredCopy(element: SchemaElement): SchemaElement {
+  return { ...element, repetition_type: "REQUIRED" };
+}
+
+const UNIT_ABBREVIATIONS = { MILLIS: "ms", MICROS: "us", NANOS: "ns" };
+
+/** Maps a physical + logical Parquet type to the Arrow type it reads as. */
+function arrowType(element: SchemaElement): string {
+  const logical = element.logical_type;
+  switch (logical?.type) {
+    case "STRING":
+    case "ENUM":
+      return "string";
+    case "JSON":
+      return "json";
+    case "UUID":
+      return "uuid";
+    case "FLOAT16":
+      return "halffloat";
+    case "DATE":
+      return "date32[day]";
+    case "NULL":
+      return "null";
+    case "DECIMAL":
+      return `decimal128(${logical.precision}, ${logical.scale})`;
+    case "INTEGER":
+      return `${logical.isSigned ? "" : "u"}int${logical.bitWidth}`;
+    case "TIME":
+      return `time${logical.unit === "MILLIS" ? 32 : 64}[${UNIT_ABBREVIATIONS[logical.unit]}]`;
+    case "TIMESTAMP":
+      return `timestamp[${UNIT_ABBREVIATIONS[logical.unit]}${logical.isAdjustedToUTC ? ", tz=UTC" : ""}]`;
+  }
+  switch (element.converted_type) {
+    case "UTF8":
+    case "ENUM":
+      return "string";
+    case "JSON":
+      return "json";
+    case "DATE":
+      return "date32[day]";
+    case "DECIMAL":
+      return `decimal128(${element.precision}, ${element.scale})`;
+    case "TIME_MILLIS":
+      return "time32[ms]";
+    case "TIME_MICROS":
+      return "time64[us]";
+    case "TIMESTAMP_MILLIS":
+      return "timestamp[ms]";
+    case "TIMESTAMP_MICROS":
+      return "timestamp[us]";
+    case "INT_8":
+    case "INT_16":
+    case "INT_32":
+    case "INT_64":
+    case "UINT_8":
+    case "UINT_16":
+    case "UINT_32":
+    case "UINT_64":
+      return element.converted_type.replace("_", "").toLowerCase();
+  }
+  switch (element.type) {
+    case "BOOLEAN":
+      return "bool";
+    case "INT32":
+      return "int32";
+    case "INT64":
+      return "int64";
+    case "INT96":
+      return "timestamp[ns]";
+    case "FLOAT":
+      return "float";
+    case "DOUBLE":
+      return "double";
+    case "FIXED_LEN_BYTE_ARRAY":
+      return `fixed_size_binary[${element.type_length}]`;
+    default:
+      return "binary";
+  }
+}
+
+/**
+ * Writes rows to a Parquet file in the blob store. Rows are pulled from the
+ * source one row group at a time, so the source may be larger than memory;
+ * values must match `schema` (see `schemaInference`). Types without a direct
+ * Parquet mapping are stored as JSON.
+ */
+export async function writeParquet(
+  rows: AsyncIterable<Row> | Iterable<Row>,
+  schema: SchemaField[],
+): Promise<StoredBlob> {
+  if (schema.length === 0) {
+    throw new HttpError(422, "Cannot write a Parquet file without columns");
+  }
+  const tmp = await tempPath(".parquet");
+  const handle = await fs.open(tmp, "w");
+  try {
+    // Buffers one row group at a time and appends it to the temp file.
+    const bytes = new ByteWriter();
+    const flush = async () => {
+      await handle.write(new Uint8Array(bytes.buffer, 0, bytes.index));
+      bytes.index = 0;
+    };
+    const writer = Object.assign(bytes, { flush, finish: flush });
+    await parquetWriteRows({
+      writer,
+      rows: prepareRows(rows, schema),
+      columns: schema.map((field) => ({ name: field.name })),
+      schema: [
+        { name: "root", num_children: schema.length },
+        ...schema.flatMap((field) => toElements(field)),
+      ],
+      rowGroupSize: ROW_GROUP_SIZE,
+    });
+  } catch (error) {
+    await handle.close();
+    await fs.rm(tmp, { force: true });
+    throw error;
+  }
+  await handle.close();
+  return storeFile(tmp);
+}
+
+async function* prepareRows(
+  rows: AsyncIterable<Row> | Iterable<Row>,
+  schema: SchemaField[],
+): AsyncGenerator<Row> {
+  for await (const row of rows) {
+    yield Object.fromEntries(
+      schema.map((field) => [field.name, toParquet(field, row[field.name])]),
+    );
+  }
+}
+
+function repetition(field: SchemaField): SchemaElement["repetition_type"] {
+  return field.nullable ? "OPTIONAL" : "REQUIRED";
+}
+
+/** Schema elements of one field, in the depth-first order Parquet uses. */
+function toElements(field: SchemaField): SchemaElement[] {
+  const repetition_type = repetition(field);
+  if (field.type === "struct" && field.children?.length) {
+    return [
+      {
+        name: field.name,
+        repetition_type,
+        num_children: field.children.length,
+      },
+      ...field.children.flatMap(toElements),
+    ];
+  }
+  if (field.type === "list" && field.children?.length === 1) {
+    return [
+      {
+        name: field.name,
+        repetition_type,
+        converted_type: "LIST",
+        num_children: 1,
+      },
+      { name: "list", repetition_type: "REPEATED", num_children: 1 },
+      ...toElements({ ...field.children[0], name: "element" }),
+    ];
+  }
+  return [{ name: field.name, repetition_type, ...leafType(field.type) }];
+}
+
+function leafType(type: string): Omit<SchemaElement, "name"> {
+  const integer = /^(u?)int(8|16|32|64)$/.exec(type);
+  if (integer) {
+    const bitWidth = Number(integer[2]);
+    return {
+      type: bitWidth === 64 ? "INT64" : "INT32",
+      logical_type: { type: "INTEGER", bitWidth, isSigned: !integer[1] },
+    };
+  }
+  if (type.startsWith("timestamp[")) {
+    return {
+      type: "INT64",
+      converted_type: "TIMESTAMP_MILLIS",
+      logical_type: {
+        type: "TIMESTAMP",
+        isAdjustedToUTC: true,
+        unit: "MILLIS",
+      },
+    };
+  }
+  switch (type) {
+    case "bool":
+      return { type: "BOOLEAN" };
+    case "float":
+      return { type: "FLOAT" };
+    case "double":
+      return { type: "DOUBLE" };
+    case "string":
+    case "null":
+      return { type: "BYTE_ARRAY", converted_type: "UTF8" };
+    case "binary":
+      return { type: "BYTE_ARRAY" };
+    case "date32[day]":
+      return { type: "INT32", converted_type: "DATE" };
+    default:
+      return { type: "BYTE_ARRAY", converted_type: "JSON" };
+  }
+}
+
+/** Converts a JSON-safe value back to what the writer expects for `field`. */
+function toParquet(field: SchemaField, value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  const { type, children } = field;
+  if (type === "struct" && children?.length) {
+    const record = value as Row;
+    return Object.fromEntries(
+      children.map((child) => [
+        child.name,
+        toParquet(child, record[child.name]),
+      ]),
+    );
+  }
+  if (type === "list" && children?.length === 1) {
+    return (value as unknown[]).map((item) => toParquet(children[0], item));
+  }
+  const element = leafType(type);
+  if (element.converted_type === "JSON") return value;
+  if (element.converted_type === "UTF8") {
+    return typeof value === "string" ? value : JSON.stringify(value);
+  }
+  switch (element.type) {
+    case "INT64":
+      return element.converted_type === "TIMESTAMP_MILLIS"
+        ? new Date(value as string)
+        : BigInt(value as number | string);
+    case "INT32":
+      return element.converted_type === "DATE"
+        ? new Date(value as string)
+        : Number(value);
+    case "BYTE_ARRAY":
+      return new Uint8Array(Buffer.from(value as string, "base64"));
+    default:
+      return value;
+  }
+}
@@ -0,0 +1,83 @@
+import { z } from "zod";
+
+/**
+ * Preference pairs for reward modelling and DPO: a prompt with a chosen and a
+ * rejected response, and optionally a score for each. Prompts and responses
+ * are plain text or OpenAI-style message lists, whose last message is taken
+ * as the response.
+ */
+
+const messageSchema = z
+  .object({ role: z.string(), content: z.unknown() })
+  .passthrough();
+
+const textSchema = z.union([z.string(), z.array(messageSchema).min(1)], {
+  errorMap: () => ({ message: "Expected text or a list of messages" }),
+});
+
+export const preferencePairSchema = z
+  .object({
+    prompt: textSchema,
+    chosen: textSchema,
+    rejected: textSchema,
+    score_chosen: z.number().nullish(),
+    score_rejected: z.number().nullish(),
+  })
+  .passthrough();
+
+export type PreferencePair = z.infer<typeof preferencePairSchema>;
+
+export const PAIR_ISSUES = ["identical", "empty", "inverted", "tied"] as const;
+
+export type PairIssue = (typeof PAIR_ISSUES)[number];
+
+export const PAIR_ISSUE_LABELS: Record<PairIssue, string> = {
+  identical: "Chosen and rejected are identical",
+  empty: "Empty response",
+  inverted: "Chosen scored below rejected",
+  tied: "Tied scores",
+};
+
+/** The text of a prompt or response; the last message of a message list. */
+export function responseText(value: PreferencePair["chosen"]): string {
+  if (typeof value === "string") return value;
+  const { content } = value[value.length - 1];
+  if (typeof content === "string") return content;
+  // OpenAI content parts.
+  return Array.isArray(content)
+    ? content
+        .map((part) => (typeof part?.text === "string" ? part.text : ""))
+        .join("")
+    : "";
+}
+
+/** Signs that a pair teaches the reward model nothing, or the wrong thing. */
+export function pairIssues(pair: PreferencePair): PairIssue[] {
+  const chosen = responseText(pair.chosen).trim();
+  const rejected = responseText(pair.rejected).trim();
+  const issues: PairIssue[] = [];
+  if (!chosen || !rejected) issues.push("empty");
+  else if (chosen === rejected) issues.push("identical");
+  const { score_chosen: scoreChosen, score_rejected: scoreRejected } = pair;
+  if (typeof scoreChosen === "number" && typeof scoreRejected === "number") {
+    if (scoreChosen < scoreRejected) issues.push("inverted");
+    else if (scoreChosen === scoreRejected) issues.push("tied");
+  }
+  return issues;
+}
+
+/** Buckets of chosen length / rejected length, in characters. */
+export const LENGTH_RATIO_BUCKETS = [
+  { label: "< 0.5×", max: 0.5 },
+  { label: "0.5–0.8×", max: 0.8 },
+  { label: "0.8–1.25×", max: 1.25 },
+  { label: "1.25–2×", max: 2 },
+  { label: "> 2×", max: Infinity },
+] as const;
+
+/** Index into `LENGTH_RATIO_BUCKETS` for a pair's response lengths. */
+export function lengthRatioBucket(chosen: number, rejected: number): number {
+  const ratio = rejected === 0 ? Infinity : chosen / rejected;
+  const index = LENGTH_RATIO_BUCKETS.findIndex((bucket) => ratio < bucket.max);
+  return index === -1 ? LENGTH_RATIO_BUCKETS.length - 1 : index;
+}
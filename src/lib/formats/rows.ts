@@ -0,0 +1,35 @@
+import { createHash } from "crypto";
+
+/** One record of a tabular dataset, whatever format it was read from. */
+export type Row = Record<string, unknown>;
+
+/** JSON with object keys sorted, so equal rows serialize identically. */
+export function stableStringify(value: unknown): string {
+  if (value === undefined) return "null";
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value) ?? "null";
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  const entries = Object.keys(value as Row)
+    .sort()
+    .map(
+      (key) => `${JSON.stringify(key)}:${stableStringify((value as Row)[key])}`,
+    );
+  return `{${entries.join(",")}}`;
+}
+
+/** Content hash of a row, independent of key order. */
+export function hashRow(row: unknown): string {
+  return createHash("sha256").update(stableStringify(row)).digest("hex");
+}
+
+/** Columns in first-seen order across the given rows. */
+export function collectColumns(rows: Iterable<Row>): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) columns.add(key);
+  }
+  return [...columns];
+}
@@ -0,0 +1,153 @@
+import type { ChatFormat } from "@/lib/formats/chat";
+import type { Row } from "@/lib/formats/rows";
+
+/**
+ * Arrow-style description of a column. Leaf types use Arrow's names
+ * ("int64", "double", "string", "timestamp[ms, tz=UTC]", ...); nested types
+ * are "struct", "list" and "map" and describe their contents in `children`.
+ */
+export interface SchemaField {
+  name: string;
+  type: string;
+  nullable: boolean;
+  /** Fields of a struct, the item of a list, or the key and value of a map. */
+  children?: SchemaField[];
+}
+
+/** Schema of one tabular file. */
+export interface FileSchema {
+  format: string;
+  fields: SchemaField[];
+  /** Total rows, when the format records it without a full scan. */
+  numRows: number | null;
+  /** Row group sizes of Parquet files. */
+  rowGroups?: { numRows: number; compressedBytes: number }[];
+  /** True when the schema was guessed from a sample of rows. */
+  inferred: boolean;
+  /** Rows sampled to infer the schema. */
+  sampledRows?: number;
+  /** Chat layout the columns follow, for fine-tuning datasets. */
+  chat: ChatFormat | null;
+}
+
+type ValueKind = "bool" | "int64" | "double" | "string" | "struct" | "list";
+
+/** Everything observed about the values at one position in the rows. */
+interface Shape {
+  /** Times the position was present, including null values. */
+  present: number;
+  nulls: number;
+  kinds: Set<ValueKind>;
+  /** Times the value was an object, to tell missing struct fields apart. */
+  objects: number;
+  fields: Map<string, Shape>;
+  item: Shape | null;
+}
+
+function emptyShape(): Shape {
+  return {
+    present: 0,
+    nulls: 0,
+    kinds: new Set(),
+    objects: 0,
+    fields: new Map(),
+    item: null,
+  };
+}
+
+function observe(shape: Shape, value: unknown) {
+  shape.present++;
+  if (value === null || value === undefined) {
+    shape.nulls++;
+  } else if (typeof value === "boolean") {
+    shape.kinds.add("bool");
+  } else if (typeof value === "number") {
+    shape.kinds.add(Number.isInteger(value) ? "int64" : "double");
+  } else if (typeof value === "string") {
+    shape.kinds.add("string");
+  } else if (Array.isArray(value)) {
+    shape.kinds.add("list");
+    shape.item ??= emptyShape();
+    for (const item of value) observe(shape.item, item);
+  } else if (typeof value === "object") {
+    shape.kinds.add("struct");
+    shape.objects++;
+    for (const [name, field] of Object.entries(value)) {
+      if (!shape.fields.has(name)) shape.fields.set(name, emptyShape());
+      observe(shape.fields.get(name)!, field);
+    }
+  } else {
+    shape.kinds.add("string");
+  }
+}
+
+function toField(name: string, shape: Shape, occurrences: number): SchemaField {
+  const nullable = shape.nulls > 0 || shape.present < occurrences;
+  const kinds = new Set(shape.kinds);
+  // Integers widen to doubles; any other mix has no common Arrow type.
+  if (kinds.has("int64") && kinds.has("double")) kinds.delete("int64");
+  if (kinds.size === 0) return { name, type: "null", nullable: true };
+  if (kinds.size > 1) return { name, type: "json", nullable };
+
+  const [kind] = kinds;
+  if (kind === "struct") {
+    return {
+      name,
+      type: "struct",
+      nullable,
+      children: structFields(shape),
+    };
+  }
+  if (kind === "list") {
+    const item = shape.item!;
+    return {
+      name,
+      type: "list",
+      nullable,
+      children: [toField("item", item, item.present)],
+    };
+  }
+  return { name, type: kind, nullable };
+}
+
+function structFields(shape: Shape): SchemaField[] {
+  return [...shape.fields].map(([name, field]) =>
+    toField(name, field, shape.objects),
+  );
+}
+
+/**
+ * Incrementally infers a schema from rows, the way Arrow's JSON reader does:
+ * integers widen to doubles, objects become structs (fields missing from some
+ * rows are nullable), arrays become lists, and columns whose values have no
+ * common type are kept as JSON.
+ */
+export function schemaInference() {
+  const root = emptyShape();
+  return {
+    add(row: Row) {
+      observe(root, row);
+    },
+    get rows() {
+      return root.objects;
+    },
+    fields(): SchemaField[] {
+      return structFields(root);
+    },
+  };
+}
+
+export function inferSchema(rows: Iterable<Row>): SchemaField[] {
+  const inference = schemaInference();
+  for (const row of rows) inference.add(row);
+  return inference.fields();
+}
+
+/** One-line rendering of a field type, e.g. `list<item: struct<a: int64>>`. */
+export function formatType(field: SchemaField): string {
+  if (!field.children) return field.type;
+  const children = field.children
+    .map((child) => `${child.name}: ${formatType(child)}`)
+    .join(", ");
+  return `${field.type}<${children}>`;
+}
@@ -0,0 +1,288 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+import { HttpError } from "@/lib/api";
+import { blobPath } from "@/lib/storage";
+
+/**
+ * Tar archives as WebDataset shards. Members are indexed by walking their
+ * 512-byte headers with positioned reads, so a shard is never extracted and
+ * member contents are read straight out of the blob by byte range.
+ *
+ * WebDataset groups consecutive members sharing a key into one sample: the
+ * key is the member path up to the first dot of its file name, and the rest
+ * is the field name, so `train/0001.jpg` and `train/0001.cls` make a sample
+ * `train/0001` with fields `jpg` and `cls`.
+ */
+
+const BLOCK = 512;
+/** Members indexed per blob, kept in memory. */
+const INDEX_CACHE_SIZE = 16;
+
+export interface TarMember {
+  name: string;
+  /** Byte offset of the member's contents within the archive. */
+  offset: number;
+  size: number;
+}
+
+export interface WebDatasetSample {
+  key: string;
+  /** Members by field name, in archive order. */
+  fields: Record<string, TarMember>;
+}
+
+const indexCache = new Map<string, Promise<TarMember[]>>();
+
+/** The regular-file members of the tar blob `hash`, cached per blob. */
+export function indexTar(hash: string): Promise<TarMember[]> {
+  let index = indexCache.get(hash);
+  if (!index) {
+    index = readMembers(hash);
+    index.catch(() => indexCache.delete(hash));
+    indexCache.set(hash, index);
+    if (indexCache.size > INDEX_CACHE_SIZE) {
+      indexCache.delete(indexCache.keys().next().value!);
+    }
+  }
+  return index;
+}
+
+async function readMembers(hash: string): Promise<TarMember[]> {
+  const handle = await fs.open(blobPath(hash));
+  try {
+    const { size: fileSize } = await handle.stat();
+    const members: TarMember[] = [];
+    const header = Buffer.alloc(BLOCK);
+    // Set by pax and GNU long-name headers for the member that follows.
+    let longName: string | null = null;
+    let offset = 0;
+    while (offset + BLOCK <= fileSize) {
+      await handle.read(header, 0, BLOCK, offset);
+      if (header.every((byte) => byte === 0)) break;
+      if (!validChecksum(header)) {
+        throw new HttpError(422, `Corrupt tar header at byte ${offset}`);
+      }
+      const size = readSize(header);
+      const type = String.fromCharCode(header[156] || 0x30);
+      const dataOffset = offset + BLOCK;
+      if (dataOffset + size > fileSize) {
+        throw new HttpError(422, "Tar archive is truncated");
+      }
+
+      if (type === "x" || type === "L") {
+        const data = Buffer.alloc(size);
+        await handle.read(data, 0, size, dataOffset);
+        longName =
+          type === "L"
+            ? readString(data, 0, size)
+            : (parsePax(data).path ?? longName);
+      } else if (type === "0" || type === "7") {
+        const prefix = readString(header, 345, 155);
+        const name = readString(header, 0, 100);
+        members.push({
+          name: longName ?? (prefix ? `${prefix}/${name}` : name),
+          offset: dataOffset,
+          size,
+        });
+        longName = null;
+      } else {
+        // Directories, links and global pax headers carry no sample data.
+        longName = null;
+      }
+      offset = dataOffset + Math.ceil(size / BLOCK) * BLOCK;
+    }
+    return members;
+  } finally {
+    await handle.close();
+  }
+}
+
+function readString(buffer: Buffer, start: number, length: number) {
+  const field = buffer.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.toString("utf8", 0, end === -1 ? field.length : end);
+}
+
+/** Octal, or base-256 with the high bit set for sizes of 8 GiB and up. */
+function readSize(header: Buffer): number {
+  if (header[124] & 0x80) {
+    let size = 0;
+    for (let i = 125; i < 136; i++) size = size * 256 + header[i];
+    return size;
+  }
+  return parseInt(readString(header, 124, 12).trim() || "0", 8);
+}
+
+function validChecksum(header: Buffer): boolean {
+  const stored = parseInt(readString(header, 148, 8).trim(), 8);
+  let sum = 0;
+  for (let i = 0; i < BLOCK; i++) {
+    // The checksum field counts as spaces.
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum === stored;
+}
+
+/** Records of a pax extended header: `<length> <key>=<value>\n`. */
+function parsePax(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    const length = parseInt(data.toString("ascii", offset, space), 10);
+    if (space === -1 || !(length > 0)) break;
+    const record = data.toString("utf8", space + 1, offset + length - 1);
+    const equals = record.indexOf("=");
+    records[record.slice(0, equals)] = record.slice(equals + 1);
+    offset += length;
+  }
+  return records;
+}
+
+/** Splits a member path into its WebDataset key and field name. */
+export function splitSampleKey(
+  name: string,
+): { key: string; field: string } | null {
+  const directory = path.posix.dirname(name);
+  const base = path.posix.basename(name);
+  const dot = base.indexOf(".");
+  if (dot <= 0 || dot === base.length - 1) return null;
+  const stem = base.slice(0, dot);
+  return {
+    key: directory === "." ? stem : `${directory}/${stem}`,
+    field: base.slice(dot + 1),
+  };
+}
+
+/**
+ * Groups members into samples. Members without a field name are skipped, as
+ * WebDataset readers do.
+ */
+export function groupSamples(members: TarMember[]): WebDatasetSample[] {
+  const samples: WebDatasetSample[] = [];
+  for (const member of members) {
+    const split = splitSampleKey(member.name);
+    if (!split) continue;
+    let sample = samples[samples.length - 1];
+    if (sample?.key !== split.key || split.field in sample.fields) {
+      sample = { key: split.key, fields: {} };
+      samples.push(sample);
+    }
+    sample.fields[split.field] = member;
+  }
+  return samples;
+}
+
+/** Bytes a member takes up in an archive, headers and padding included. */
+export function tarEntrySize(name: string, size: number): number {
+  const pax = paxHeader(name);
+  const paxBytes = pax ? BLOCK + Math.ceil(pax.length / BLOCK) * BLOCK : 0;
+  return paxBytes + BLOCK + Math.ceil(size / BLOCK) * BLOCK;
+}
+
+/**
+ * The header blocks for a member, with a pax header first when the name
+ * doesn't fit the ustar fields.
+ */
+export function tarHeader(name: string, size: number, mtime = 0): Buffer {
+  const pax = paxHeader(name);
+  if (!pax) return ustarHeader(name, size, mtime, "0");
+  return Buffer.concat([
+    ustarHeader("PaxHeader", pax.length, mtime, "x"),
+    pax,
+    tarPadding(pax.length),
+    ustarHeader(path.posix.basename(name).slice(-100), size, mtime, "0"),
+  ]);
+}
+
+/** Zeros that pad member contents of `size` bytes to a whole block. */
+export function tarPadding(size: number): Buffer {
+  return Buffer.alloc((BLOCK - (size % BLOCK)) % BLOCK);
+}
+
+/** The two empty blocks that end an archive. */
+export const TAR_END = Buffer.alloc(BLOCK * 2);
+
+function paxHeader(name: string): Buffer | null {
+  if (Buffer.byteLength(name) <= 100 && /^[\x20-\x7e]*$/.test(name)) {
+    return null;
+  }
+  const body = ` path=${name}\n`;
+  // The length prefix counts its own digits.
+  let length = Buffer.byteLength(body);
+  length += String(length + String(length).length).length;
+  return Buffer.from(`${length}${body}`);
+}
+
+function ustarHeader(
+  name: string,
+  size: number,
+  mtime: number,
+  type: string,
+): Buffer {
+  const header = Buffer.alloc(BLOCK);
+  header.write(name, 0, 100, "utf8");
+  header.write("0000644\0", 100, "ascii");
+  header.write("0000000\0", 108, "ascii");
+  header.write("0000000\0", 116, "ascii");
+  header.write(`${size.toString(8).padStart(11, "0")}\0`, 124, "ascii");
+  header.write(`${mtime.toString(8).padStart(11, "0")}\0`, 136, "ascii");
+  header.write(type, 156, "ascii");
+  header.write("ustar\0", 257, "ascii");
+  header.write("00", 263, "ascii");
+  header.fill(0x20, 148, 156);
+  let sum = 0;
+  for (const byte of header) sum += byte;
+  header.write(`${sum.toString(8).padStart(6, "0")}\0 `, 148, "ascii");
+  return header;
+}
+
+/** Fields decoded into rows as text; anything else is listed by size. */
+const TEXT_FIELDS = new Set(["txt", "text", "cls", "cls2", "id", "index"]);
+const JSON_FIELDS = new Set(["json", "jsn"]);
+/** Largest text or JSON member inlined into a row. */
+const MAX_INLINE_BYTES = 64 * 1024;
+
+/**
+ * A sample as a row: `__key__`, then each field's value. Small text fields
+ * are inlined (`cls` as a number, JSON parsed); other fields become
+ * `{ member, size }` references to their bytes in the shard.
+ */
+export async function readSampleRow(
+  hash: string,
+  sample: WebDatasetSample,
+): Promise<Record<string, unknown>> {
+  const row: Record<string, unknown> = { __key__: sample.key };
+  const handle = await fs.open(blobPath(hash));
+  try {
+    for (const [field, member] of Object.entries(sample.fields)) {
+      const extension = field.split(".").pop()!.toLowerCase();
+      const isText = TEXT_FIELDS.has(extension);
+      const isJson = JSON_FIELDS.has(extension);
+      if ((!isText && !isJson) || member.size > MAX_INLINE_BYTES) {
+        row[field] = { member: member.name, size: member.size };
+        continue;
+      }
+      const data = Buffer.alloc(member.size);
+      await handle.read(data, 0, member.size, member.offset);
+      const text = data.toString("utf8");
+      row[field] = isJson
+        ? parseJson(text)
+        : extension.startsWith("cls") && /^\s*-?\d+\s*$/.test(text)
+          ? Number(text)
+          : text.trim();
+    }
+  } finally {
+    await handle.close();
+  }
+  return row;
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
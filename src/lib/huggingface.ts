@@ -0,0 +1,440 @@
+import path from "path";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+
+import { HttpError } from "@/lib/api";
+import { getDataset } from "@/lib/datasets";
+import {
+  addExportBlobs,
+  deleteExport,
+  recordExport,
+  releaseExportBlobs,
+} from "@/lib/exports";
+import {
+  detectFormat,
+  schemaInference,
+  writeParquet,
+  type SchemaField,
+} from "@/lib/formats";
+import { TAR_END, tarHeader, tarPadding } from "@/lib/formats/tar";
+import {
+  huggingFaceExportSchema,
+  huggingFaceImportSchema,
+  type HuggingFaceExportInput,
+  type HuggingFaceImportInput,
+} from "@/lib/schemas";
+import {
+  inferSplit,
+  readSplit,
+  splitFiles,
+  tabularFiles,
+  versionSplits,
+} from "@/lib/splits";
+import { readBlob, readBlobBuffer, storeBlob } from "@/lib/storage";
+import { completeStagedUpload, getStagedUpload } from "@/lib/uploads";
+import { checkout, createCommit, type Commit } from "@/lib/versioning";
+
+/**
+ * The on-disk layout of a Hugging Face `datasets` repository: data files per
+ * split, conventionally `data/<split>-00000-of-00001.parquet`, and a
+ * `README.md` dataset card whose YAML front matter lists the configs (which
+ * files make up which split) and `dataset_info` (features and split sizes).
+ *
+ * Exports write each split of a version into one Parquet file and archive
+ * the folder as a tar; imports read the card back to learn which files
+ * belong to which split, and commit them under the same conventional names
+ * with those splits as the version's split definition.
+ */
+
+const CARD = "README.md";
+const DEFAULT_CONFIG = "default";
+
+export interface HuggingFaceSplit {
+  name: string;
+  /** Dataset files that make up the split. */
+  files: string[];
+  /** Rows written, for exports. */
+  rows?: number;
+}
+
+export interface HuggingFaceExport {
+  commit: string;
+  /** The folder, archived as a tar. */
+  archive: { name: string; hash: string; size: number };
+  splits: HuggingFaceSplit[];
+  /** The export recorded for the archive, which is kept until `expiresAt`. */
+  exportId: string;
+  expiresAt: string;
+}
+
+export interface HuggingFaceImportResult {
+  commit: Commit;
+  splits: HuggingFaceSplit[];
+}
+
+interface DatasetCard {
+  metadata: Record<string, unknown>;
+  body: string;
+}
+
+/**
+ * Writes the version at `ref` as a `datasets` folder, one Parquet file per
+ * split (see `@/lib/splits`), with a schema inferred over the rows of every
+ * split, so rows are read twice but never held in memory. An
+ * existing `README.md` in the version keeps its text and metadata; only
+ * `configs` and `dataset_info` are replaced. The archive is kept until the
+ * export expires or is deleted.
+ */
+export async function exportHuggingFace(
+  datasetId: string,
+  input: HuggingFaceExportInput,
+): Promise<HuggingFaceExport> {
+  const { ref } = huggingFaceExportSchema.parse(input);
+  const dataset = await getDataset(datasetId);
+  const commit = await checkout(datasetId, ref);
+  const { spec } = versionSplits(commit);
+  if (tabularFiles(commit.manifest).length === 0) {
+    throw new HttpError(422, "This version has no tabular files to export");
+  }
+
+  // Every split gets the same schema, as `datasets` requires of a config.
+  const inference = schemaInference();
+  const rowCounts = new Map<string, number>();
+  for (const { name } of spec.splits) {
+    const before = inference.rows;
+    for await (const row of readSplit(commit, spec, name)) inference.add(row);
+    rowCounts.set(name, inference.rows - before);
+  }
+  const features = inference.fields();
+  if (features.length === 0) {
+    throw new HttpError(
+      422,
+      "The tabular files of this version have no columns",
+    );
+  }
+
+  const record = await recordExport(datasetId, "huggingface", commit.id);
+  try {
+    return await writeFolder();
+  } catch (error) {
+    await deleteExport(datasetId, record.id);
+    throw error;
+  }
+
+  async function writeFolder(): Promise<HuggingFaceExport> {
+    const folder = dataset.name;
+    const entries: { path: string; hash: string; size: number }[] = [];
+    const exported: HuggingFaceSplit[] = [];
+    for (const [index, { name }] of spec.splits.entries()) {
+      const blob = await writeParquet(readSplit(commit, spec, name), features);
+      // Kept until the archive has read it back.
+      await addExportBlobs(record.id, [blob.hash]);
+      entries.push({
+        path: `data/${name}-00000-of-00001.parquet`,
+        hash: blob.hash,
+        size: blob.size,
+      });
+      exported.push({
+        name,
+        files: splitFiles(commit, spec, index).map((file) => file.path),
+        rows: rowCounts.get(name)!,
+      });
+    }
+
+    const existing = commit.manifest.find((file) => file.path === CARD);
+    const card = existing
+      ? parseCard((await readBlobBuffer(existing.hash)).toString("utf8"))
+      : {
+          metadata: {},
+          body: dataset.description
+            ? `# ${dataset.name}\n\n${dataset.description}\n`
+            : `# ${dataset.name}\n`,
+        };
+    const size = entries.reduce((sum, entry) => sum + entry.size, 0);
+    const readme = Buffer.from(
+      formatCard({
+        metadata: {
+          ...card.metadata,
+          configs: [
+            {
+              config_name: DEFAULT_CONFIG,
+              data_files: exported.map((split) => ({
+                split: split.name,
+                path: `data/${split.name}-*`,
+              })),
+            },
+          ],
+          dataset_info: {
+            features: features.map(toFeature),
+            splits: exported.map((split, index) => ({
+              name: split.name,
+              num_bytes: entries[index].size,
+              num_examples: split.rows,
+            })),
+            download_size: size,
+            dataset_size: size,
+          },
+        },
+        body: card.body,
+      }),
+    );
+
+    async function* archive(): AsyncGenerator<Buffer> {
+      yield tarHeader(`${folder}/${CARD}`, readme.length);
+      yield readme;
+      yield tarPadding(readme.length);
+      for (const entry of entries) {
+        yield tarHeader(`${folder}/${entry.path}`, entry.size);
+        for await (const chunk of readBlob(entry.hash)) yield chunk as Buffer;
+        yield tarPadding(entry.size);
+      }
+      yield TAR_END;
+    }
+    const blob = await storeBlob(archive());
+    await addExportBlobs(record.id, [blob.hash]);
+    await releaseExportBlobs(
+      record.id,
+      entries.map((entry) => entry.hash),
+    );
+    return {
+      commit: commit.id,
+      archive: { name: `${folder}.tar`, hash: blob.hash, size: blob.size },
+      splits: exported,
+      exportId: record.id,
+      expiresAt: record.expiresAt,
+    };
+  }
+}
+
+/**
+ * The `datasets` feature of a column: `dtype` for scalars, `sequence` for
+ * lists and `struct` for records. JSON columns have no feature type and are
+ * declared as the strings they are stored as.
+ */
+function toFeature(field: SchemaField): Record<string, unknown> {
+  return { name: field.name, ...featureType(field) };
+}
+
+function featureType(field: SchemaField): Record<string, unknown> {
+  if (field.type === "struct" && field.children) {
+    return { struct: field.children.map(toFeature) };
+  }
+  if (field.type === "list" && field.children?.length === 1) {
+    const item = featureType(field.children[0]);
+    return { sequence: "dtype" in item ? item.dtype : item };
+  }
+  return { dtype: featureDtype(field.type) };
+}
+
+function featureDtype(type: string): string {
+  switch (type) {
+    case "float":
+      return "float32";
+    case "double":
+      return "float64";
+    case "date32[day]":
+      return "date32";
+    case "json":
+    case "map":
+      return "string";
+    default:
+      return type.replace(/, tz=.*\]$/, "]");
+  }
+}
+
+function parseCard(text: string): DatasetCard {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/.exec(text);
+  if (!match) return { metadata: {}, body: text };
+  let metadata: unknown;
+  try {
+    metadata = parseYaml(match[1]);
+  } catch (error) {
+    throw new HttpError(
+      422,
+      `${CARD} has invalid YAML front matter: ${(error as Error).message}`,
+    );
+  }
+  return {
+    metadata:
+      metadata && typeof metadata === "object" && !Array.isArray(metadata)
+        ? (metadata as Record<string, unknown>)
+        : {},
+    body: text.slice(match[0].length),
+  };
+}
+
+function formatCard({ metadata, body }: DatasetCard): string {
+  return `---\n${stringifyYaml(metadata)}---\n${body}`;
+}
+
+/** `fnmatch`-style patterns as `datasets` uses them in `data_files`. */
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      source += ".*";
+      i++;
+      if (pattern[i + 1] === "/") i++;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/** `data_files` in any of its forms, as split names and path patterns. */
+function dataFilePatterns(dataFiles: unknown): [string, string[]][] {
+  const patterns = (value: unknown) =>
+    (Array.isArray(value) ? value : [value]).filter(
+      (item): item is string => typeof item === "string",
+    );
+  if (typeof dataFiles === "string" || isStringArray(dataFiles)) {
+    return [["train", patterns(dataFiles)]];
+  }
+  if (Array.isArray(dataFiles)) {
+    return dataFiles.flatMap((entry) =>
+      entry && typeof entry === "object" && "path" in entry
+        ? [[String(entry.split ?? "train"), patterns(entry.path)]]
+        : [],
+    );
+  }
+  if (dataFiles && typeof dataFiles === "object") {
+    return Object.entries(dataFiles).map(([split, value]) => [
+      split,
+      patterns(value),
+    ]);
+  }
+  return [];
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+/**
+ * Files of each split of each config, from the card's `configs` or, without
+ * them, from the split names in file paths as `datasets` infers them.
+ */
+function resolveSplits(
+  paths: string[],
+  card: DatasetCard | null,
+): Map<string, Map<string, string[]>> {
+  const dataPaths = paths.filter((file) => detectFormat(file));
+  const configs = new Map<string, Map<string, string[]>>();
+  const declared = card?.metadata.configs;
+  if (Array.isArray(declared) && declared.length > 0) {
+    for (const config of declared) {
+      if (!config || typeof config !== "object") continue;
+      const name = String(config.config_name ?? DEFAULT_CONFIG);
+      const splits = new Map<string, string[]>();
+      for (const [split, patterns] of dataFilePatterns(config.data_files)) {
+        const regexps = patterns.map(globToRegExp);
+        const files = dataPaths.filter((file) =>
+          regexps.some((regexp) => regexp.test(file)),
+        );
+        splits.set(split, [...(splits.get(split) ?? []), ...files]);
+      }
+      configs.set(name, splits);
+    }
+    return configs;
+  }
+
+  const splits = new Map<string, string[]>();
+  for (const file of dataPaths) {
+    const split = inferSplit(file) ?? "train";
+    splits.set(split, [...(splits.get(split) ?? []), file]);
+  }
+  configs.set(DEFAULT_CONFIG, splits);
+  return configs;
+}
+
+/**
+ * Commits a `datasets` folder uploaded as staged files. Data files are
+ * renamed to `data/<split>-NNNNN-of-NNNNN.<ext>` (`<config>/<split>-...`
+ * when the card declares several configs), the card and other files keep
+ * their paths, and hidden files such as `.gitattributes` are left out. With
+ * a single config, its splits become the split definition of the commit.
+ */
+export async function importHuggingFace(
+  datasetId: string,
+  input: HuggingFaceImportInput,
+): Promise<HuggingFaceImportResult> {
+  const fields = huggingFaceImportSchema.parse(input);
+  const uploads = await Promise.all(
+    fields.files.map(async (file) => ({
+      path: file.path,
+      upload: await getStagedUpload(datasetId, file.uploadId),
+    })),
+  );
+  const byPath = new Map(
+    uploads
+      .filter(({ path }) => !path.split("/").some((part) => part[0] === "."))
+      .map((entry) => [entry.path, entry.upload]),
+  );
+  const readme = byPath.get(CARD);
+  const card = readme
+    ? parseCard((await readBlobBuffer(readme.hash)).toString("utf8"))
+    : null;
+
+  const configs = resolveSplits([...byPath.keys()], card);
+  const renamed = new Map<string, string>();
+  const splits: HuggingFaceSplit[] = [];
+  for (const [config, configSplits] of configs) {
+    const prefix = configs.size > 1 ? config : "data";
+    for (const [split, files] of configSplits) {
+      if (files.length === 0) continue;
+      if (!/^\w+$/.test(split)) {
+        throw new HttpError(422, `Split name ${split} must be a word`);
+      }
+      const total = String(files.length).padStart(5, "0");
+      files.forEach((file, index) => {
+        // A file is written once, so it can only belong to one split.
+        if (renamed.has(file)) {
+          throw new HttpError(422, `${file} is in more than one split`);
+        }
+        const shard = String(index).padStart(5, "0");
+        renamed.set(
+          file,
+          `${prefix}/${split}-${shard}-of-${total}${path.posix.extname(file)}`,
+        );
+      });
+      splits.push({
+        name: configs.size > 1 ? `${config}/${split}` : split,
+        files: files.map((file) => renamed.get(file)!),
+      });
+    }
+  }
+  if (splits.length === 0) {
+    throw new HttpError(422, "The folder has no data files for any split");
+  }
+
+  const first = uploads[0].upload;
+  const commit = await createCommit(datasetId, {
+    branch: first.metadata.branch || undefined,
+    author: first.metadata.author || undefined,
+    message:
+      fields.message ||
+      `Import Hugging Face dataset with splits ${splits.map((split) => split.name).join(", ")}`,
+    add: [...byPath].map(([file, upload]) => ({
+      path: renamed.get(file) ?? file,
+      hash: upload.hash,
+    })),
+    splits:
+      configs.size === 1
+        ? {
+            method: "files",
+            splits: splits.map(({ name, files }) => ({ name, files })),
+          }
+        : undefined,
+  });
+  await Promise.all(
+    uploads.map(({ upload }) => completeStagedUpload(upload.id)),
+  );
+  return { commit, splits };
+}
@@ -0,0 +1,223 @@
+import { HttpError } from "@/lib/api";
+import {
+  detectFormat,
+  schemaInference,
+  type Row,
+  type SchemaField,
+} from "@/lib/formats";
+import { readLines, type Line } from "@/lib/formats/lines";
+import { ingestInputSchema, type IngestInput } from "@/lib/schemas";
+import { readBlob, storeBlob } from "@/lib/storage";
+import {
+  completeStagedUpload,
+  getStagedUpload,
+  type UploadRecord,
+} from "@/lib/uploads";
+import { createCommit, type Commit } from "@/lib/versioning";
+
+/**
+ * JSONL ingestion. A staged upload is streamed line by line: every line must
+ * be a JSON object, and the valid ones feed a unified schema. Files with
+ * malformed lines are rejected unless the caller asks to quarantine them, in
+ * which case the valid lines are committed and the rest are set aside under
+ * `quarantine/` with their line numbers and errors, so scraper breakage is
+ * caught at upload time instead of at training time.
+ */
+
+export interface LineIssue {
+  /** 1-based line number in the uploaded file. */
+  line: number;
+  /** Byte offset of the line in the uploaded file. */
+  offset: number;
+  error: string;
+  /** Start of the offending line. */
+  snippet: string;
+}
+
+export interface IngestReport {
+  uploadId: string;
+  path: string;
+  size: number;
+  totalLines: number;
+  validRows: number;
+  blankLines: number;
+  invalidLines: number;
+  /** The first malformed lines, in file order. */
+  issues: LineIssue[];
+  /** True when there were more malformed lines than issues listed. */
+  truncated: boolean;
+  /** Schema unified across every valid row. */
+  fields: SchemaField[];
+}
+
+export interface IngestResult {
+  report: IngestReport;
+  /** Null for dry runs. */
+  commit: Commit | null;
+  /** Where malformed lines were written, if any were quarantined. */
+  quarantinePath: string | null;
+}
+
+/** Directory malformed lines are written to, mirroring the file's path. */
+export const QUARANTINE_DIR = "quarantine";
+
+const MAX_ISSUES = 1000;
+const SNIPPET_CHARS = 200;
+/** Output is written to the blob store in chunks of about this size. */
+const WRITE_CHUNK_BYTES = 1024 * 1024;
+
+type ParsedLine =
+  | { kind: "blank" }
+  | { kind: "row"; row: Row }
+  | { kind: "invalid"; error: string };
+
+function parseLine(text: string): ParsedLine {
+  if (!text.trim()) return { kind: "blank" };
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return { kind: "invalid", error: (error as Error).message };
+  }
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    const type =
+      value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+    return { kind: "invalid", error: `Expected a JSON object, got ${type}` };
+  }
+  return { kind: "row", row: value as Row };
+}
+
+/** Streams a JSONL file and reports malformed lines and the unified schema. */
+async function validate(
+  upload: UploadRecord & { hash: string },
+): Promise<IngestReport> {
+  const report: IngestReport = {
+    uploadId: upload.id,
+    path: upload.path,
+    size: upload.length,
+    totalLines: 0,
+    validRows: 0,
+    blankLines: 0,
+    invalidLines: 0,
+    issues: [],
+    truncated: false,
+    fields: [],
+  };
+  const inference = schemaInference();
+  for await (const line of readLines(readBlob(upload.hash))) {
+    report.totalLines++;
+    const parsed = parseLine(line.text);
+    if (parsed.kind === "blank") {
+      report.blankLines++;
+    } else if (parsed.kind === "row") {
+      report.validRows++;
+      inference.add(parsed.row);
+    } else {
+      report.invalidLines++;
+      if (report.issues.length < MAX_ISSUES) {
+        report.issues.push({
+          line: line.number,
+          offset: line.offset,
+          error: parsed.error,
+          snippet: line.text.slice(0, SNIPPET_CHARS),
+        });
+      }
+    }
+  }
+  report.truncated = report.issues.length < report.invalidLines;
+  report.fields = inference.fields();
+  return report;
+}
+
+/**
+ * Re-reads the file and emits the lines `select` returns text for, batched
+ * into chunks for the blob store.
+ */
+async function* selectLines(
+  hash: string,
+  select: (line: Line) => string | null,
+): AsyncGenerator<Uint8Array> {
+  let batch: Buffer[] = [];
+  let batchBytes = 0;
+  for await (const line of readLines(readBlob(hash))) {
+    const text = select(line);
+    if (text === null) continue;
+    const bytes = Buffer.from(`${text}\n`);
+    batch.push(bytes);
+    batchBytes += bytes.length;
+    if (batchBytes >= WRITE_CHUNK_BYTES) {
+      yield Buffer.concat(batch);
+      batch = [];
+      batchBytes = 0;
+    }
+  }
+  if (batch.length > 0) yield Buffer.concat(batch);
+}
+
+/**
+ * Validates a staged JSONL upload and, unless it is a dry run, commits it to
+ * the branch the upload was staged for.
+ */
+export async function ingestUpload(
+  datasetId: string,
+  input: IngestInput,
+): Promise<IngestResult> {
+  const options = ingestInputSchema.parse(input);
+  const upload = await getStagedUpload(datasetId, options.uploadId);
+  if (detectFormat(upload.path) !== "jsonl") {
+    throw new HttpError(415, `${upload.path} is not a JSONL file`);
+  }
+  const report = await validate(upload);
+  if (options.dryRun) return { report, commit: null, quarantinePath: null };
+
+  if (report.invalidLines > 0 && !options.quarantine) {
+    throw new HttpError(
+      422,
+      `${upload.path} has ${report.invalidLines} malformed lines; fix them or quarantine them`,
+    );
+  }
+
+  const add: { path: string; hash: string }[] = [];
+  let quarantinePath: string | null = null;
+  if (report.invalidLines === 0) {
+    add.push({ path: upload.path, hash: upload.hash });
+  } else {
+    const valid = await storeBlob(
+      selectLines(upload.hash, (line) =>
+        parseLine(line.text).kind === "row" ? line.text : null,
+      ),
+    );
+    const rejected = await storeBlob(
+      selectLines(upload.hash, (line) => {
+        const parsed = parseLine(line.text);
+        return parsed.kind === "invalid"
+          ? JSON.stringify({
+              line: line.number,
+              offset: line.offset,
+              error: parsed.error,
+              text: line.text,
+            })
+          : null;
+      }),
+    );
+    quarantinePath = `${QUARANTINE_DIR}/${upload.path}`;
+    add.push(
+      { path: upload.path, hash: valid.hash },
+      { path: quarantinePath, hash: rejected.hash },
+    );
+  }
+
+  const commit = await createCommit(datasetId, {
+    branch: upload.metadata.branch || undefined,
+    author: options.author ?? (upload.metadata.author || undefined),
+    message:
+      options.message ??
+      (upload.metadata.message ||
+        (quarantinePath
+          ? `Ingest ${upload.path} (${report.invalidLines} malformed lines quarantined)`
+          : `Ingest ${upload.path}`)),
+    add,
+  });
+  await completeStagedUpload(upload.id);
+  return { report, commit, quarantinePath };
+}
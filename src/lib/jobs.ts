@@ -0,0 +1,56 @@
+/**
+ * The queue background work runs on: previews, profiles, token counts, tags,
+ * scans and checks. Each reads whole files or versions and some hold a lot in
+ * memory, so jobs of every kind run one at a time, and a job requested while
+ * it is queued or running shares that work.
+ */
+
+/** Failed work is tried again when asked for once its failure is this old. */
+const RETRY_FAILED_MS = 10 * 60 * 1000;
+
+const pending = new Map<string, Promise<unknown>>();
+let queue: Promise<unknown> = Promise.resolve();
+
+function jobKey(kind: string, key: string) {
+  return `${kind}:${key}`;
+}
+
+/**
+ * Runs `work` once every job queued before it is done, unless the `kind` job
+ * of `key` is already queued or running, whose result is shared instead.
+ */
+export function runJob<T>(
+  kind: string,
+  key: string,
+  work: () => Promise<T>,
+): Promise<T> {
+  const id = jobKey(kind, key);
+  let job = pending.get(id) as Promise<T> | undefined;
+  if (!job) {
+    job = queue.then(work);
+    queue = job.catch(() => undefined);
+    pending.set(id, job);
+    job.finally(() => pending.delete(id)).catch(() => undefined);
+  }
+  return job;
+}
+
+export function isJobPending(kind: string, key: string): boolean {
+  return pending.has(jobKey(kind, key));
+}
+
+/**
+ * A job's stored result, or undefined if there is none or it failed long
+ * enough ago to run the job again.
+ */
+export function storedResult<R extends { status: string; createdAt: string }>(
+  record: R | undefined,
+): R | undefined {
+  if (
+    record?.status === "failed" &&
+    Date.now() - Date.parse(record.createdAt) > RETRY_FAILED_MS
+  ) {
+    return undefined;
+  }
+  return record;
+}
@@ -0,0 +1,204 @@
+import { SCRIPTS, type Script } from "@/lib/language/names";
+import {
+  ARABIC_SAMPLES,
+  CYRILLIC_SAMPLES,
+  LATIN_SAMPLES,
+} from "@/lib/language/samples";
+
+export * from "@/lib/language/names";
+
+/**
+ * Local language identification. A text's letters are sorted by Unicode
+ * script first: most scripts are written by one language of those known
+ * (Hangul is Korean, kana Japanese), and the confidence is the share of
+ * letters in that script. Latin, Cyrillic and Arabic text is classified by
+ * a naive Bayes model over character 1- to 3-grams trained on the built-in
+ * samples.
+ */
+
+export interface LanguageGuess {
+  /** ISO 639-1 code, or null when the text has too few letters to tell. */
+  language: string | null;
+  /** Probability of the language among those of its script, 0–1. */
+  confidence: number;
+  /** Script most of the text's letters are written in. */
+  script: Script | null;
+}
+
+interface Model {
+  languages: string[];
+  /** Log-probability of each n-gram, per language. */
+  weights: Map<string, number>[];
+  /** Log-probability of an n-gram unseen in a language's sample. */
+  unseen: number[];
+}
+
+/** Characters of a text looked at; the start of a row says enough. */
+const MAX_CHARS = 1000;
+const MIN_LETTERS = 3;
+/**
+ * N-grams of evidence the confidence is scaled to. Bayes posteriors over
+ * hundreds of n-grams are all but certain even when the margin is thin.
+ */
+const EVIDENCE_NGRAMS = 30;
+
+const SCRIPT_PATTERNS: Record<Script, RegExp> = {
+  Latin: /\p{Script=Latin}/u,
+  Cyrillic: /\p{Script=Cyrillic}/u,
+  Greek: /\p{Script=Greek}/u,
+  Arabic: /\p{Script=Arabic}/u,
+  Hebrew: /\p{Script=Hebrew}/u,
+  Devanagari: /\p{Script=Devanagari}/u,
+  Bengali: /\p{Script=Bengali}/u,
+  Tamil: /\p{Script=Tamil}/u,
+  Thai: /\p{Script=Thai}/u,
+  Georgian: /\p{Script=Georgian}/u,
+  Armenian: /\p{Script=Armenian}/u,
+  Hangul: /\p{Script=Hangul}/u,
+  Kana: /[\p{Script=Hiragana}\p{Script=Katakana}]/u,
+  Han: /\p{Script=Han}/u,
+};
+
+const SCRIPT_LANGUAGES: Partial<Record<Script, string>> = {
+  Greek: "el",
+  Hebrew: "he",
+  Devanagari: "hi",
+  Bengali: "bn",
+  Tamil: "ta",
+  Thai: "th",
+  Georgian: "ka",
+  Armenian: "hy",
+  Hangul: "ko",
+  Kana: "ja",
+  Han: "zh",
+};
+
+const SCRIPT_SAMPLES: Partial<Record<Script, Record<string, string>>> = {
+  Latin: LATIN_SAMPLES,
+  Cyrillic: CYRILLIC_SAMPLES,
+  Arabic: ARABIC_SAMPLES,
+};
+
+const models = new Map<Script, Model>();
+
+function scriptOf(char: string): Script | null {
+  if ((char >= "a" && char <= "z") || (char >= "A" && char <= "Z")) {
+    return "Latin";
+  }
+  for (const script of SCRIPTS) {
+    if (SCRIPT_PATTERNS[script].test(char)) return script;
+  }
+  return null;
+}
+
+/** Lower-cased words of a text, one space apart and at either end. */
+function normalize(text: string): string {
+  const words = text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}]+/gu, " ")
+    .trim();
+  return ` ${words} `;
+}
+
+function ngrams(text: string): string[] {
+  const grams: string[] = [];
+  const chars = [...normalize(text)];
+  for (let n = 1; n <= 3; n++) {
+    for (let i = 0; i + n <= chars.length; i++) {
+      const gram = chars.slice(i, i + n).join("");
+      if (gram !== " " && gram !== "  ") grams.push(gram);
+    }
+  }
+  return grams;
+}
+
+function trainModel(samples: Record<string, string>): Model {
+  const languages = Object.keys(samples);
+  const counts = languages.map((language) => {
+    const count = new Map<string, number>();
+    for (const gram of ngrams(samples[language])) {
+      count.set(gram, (count.get(gram) ?? 0) + 1);
+    }
+    return count;
+  });
+  const vocabulary = new Set(counts.flatMap((count) => [...count.keys()]));
+  const weights: Map<string, number>[] = [];
+  const unseen: number[] = [];
+  for (const count of counts) {
+    let total = 0;
+    for (const value of count.values()) total += value;
+    const denominator = Math.log(total + vocabulary.size);
+    weights.push(
+      new Map(
+        [...count].map(([gram, value]) => [
+          gram,
+          Math.log(value + 1) - denominator,
+        ]),
+      ),
+    );
+    unseen.push(-denominator);
+  }
+  return { languages, weights, unseen };
+}
+
+function modelFor(script: Script): Model | null {
+  const samples = SCRIPT_SAMPLES[script];
+  if (!samples) return null;
+  let model = models.get(script);
+  if (!model) {
+    model = trainModel(samples);
+    models.set(script, model);
+  }
+  return model;
+}
+
+function classify(
+  model: Model,
+  text: string,
+): { language: string; confidence: number } {
+  const grams = ngrams(text);
+  const scores = model.weights.map((weights, i) => {
+    let score = 0;
+    for (const gram of grams) score += weights.get(gram) ?? model.unseen[i];
+    return (score / Math.max(grams.length, 1)) * EVIDENCE_NGRAMS;
+  });
+  const best = scores.indexOf(Math.max(...scores));
+  let sum = 0;
+  for (const score of scores) sum += Math.exp(score - scores[best]);
+  return { language: model.languages[best], confidence: 1 / sum };
+}
+
+/** The language and script of a text. */
+export function identifyLanguage(text: string): LanguageGuess {
+  const sample = text.slice(0, MAX_CHARS);
+  const letters = new Map<Script, number>();
+  let total = 0;
+  for (const char of sample) {
+    if (!/\p{L}/u.test(char)) continue;
+    const script = scriptOf(char);
+    if (!script) continue;
+    letters.set(script, (letters.get(script) ?? 0) + 1);
+    total++;
+  }
+  if (total < MIN_LETTERS)
+    return { language: null, confidence: 0, script: null };
+
+  let script = [...letters].reduce((a, b) => (b[1] > a[1] ? b : a))[0];
+  // Japanese mixes kanji with kana; any kana makes Han text Japanese.
+  if (script === "Han" && letters.has("Kana")) script = "Kana";
+  const share =
+    script === "Kana"
+      ? ((letters.get("Kana") ?? 0) + (letters.get("Han") ?? 0)) / total
+      : (letters.get(script) ?? 0) / total;
+
+  const model = modelFor(script);
+  if (model) {
+    const { language, confidence } = classify(model, sample);
+    return { language, confidence: confidence * share, script };
+  }
+  return {
+    language: SCRIPT_LANGUAGES[script] ?? null,
+    confidence: share,
+    script,
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Languages and scripts the classifier reports, by ISO 639-1 code and
+ * Unicode script name. Kept apart from the classifier so the UI can label
+ * them without loading its training text.
+ */
+
+export const LANGUAGE_NAMES: Record<string, string> = {
+  ar: "Arabic",
+  bg: "Bulgarian",
+  bn: "Bengali",
+  ca: "Catalan",
+  cs: "Czech",
+  da: "Danish",
+  de: "German",
+  el: "Greek",
+  en: "English",
+  es: "Spanish",
+  fa: "Persian",
+  fi: "Finnish",
+  fr: "French",
+  he: "Hebrew",
+  hi: "Hindi",
+  hu: "Hungarian",
+  hy: "Armenian",
+  id: "Indonesian",
+  it: "Italian",
+  ja: "Japanese",
+  ka: "Georgian",
+  ko: "Korean",
+  nb: "Norwegian",
+  nl: "Dutch",
+  pl: "Polish",
+  pt: "Portuguese",
+  ro: "Romanian",
+  ru: "Russian",
+  sv: "Swedish",
+  ta: "Tamil",
+  th: "Thai",
+  tr: "Turkish",
+  uk: "Ukrainian",
+  ur: "Urdu",
+  vi: "Vietnamese",
+  zh: "Chinese",
+};
+
+export const SCRIPTS = [
+  "Latin",
+  "Cyrillic",
+  "Greek",
+  "Arabic",
+  "Hebrew",
+  "Devanagari",
+  "Bengali",
+  "Tamil",
+  "Thai",
+  "Georgian",
+  "Armenian",
+  "Hangul",
+  "Kana",
+  "Han",
+] as const;
+
+export type Script = (typeof SCRIPTS)[number];
+
+/** ISO 639 code rows are tagged with when their language cannot be told. */
+export const UNDETERMINED = "und";
+
+export function languageName(code: string): string {
+  if (code === UNDETERMINED) return "Undetermined";
+  return LANGUAGE_NAMES[code] ?? code;
+}
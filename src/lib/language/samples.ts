@@ -0,0 +1,40 @@
+/**
+ * Training text of the languages told apart by character n-grams, grouped by
+ * the script they are written in. Each is everyday prose rich in the
+ * language's function words and endings: the opening of the Universal
+ * Declaration of Human Rights and a few plain sentences.
+ */
+
+export const LATIN_SAMPLES: Record<string, string> = {
+  en: `All human beings are born free and equal in dignity and rights. They are endowed with reason and conscience and should act towards one another in a spirit of brotherhood. Everyone has the right to life, liberty and security of person. We went to the market this morning and bought some bread, but the shop was closed when we came back. What do you think about the weather? It should be nicer than it was yesterday, and I would like to go for a walk with the children before dinner. The report that they published last week shows how many people have moved to the city.`,
+  es: `Todos los seres humanos nacen libres e iguales en dignidad y derechos y, dotados como están de razón y conciencia, deben comportarse fraternalmente los unos con los otros. Todo individuo tiene derecho a la vida, a la libertad y a la seguridad de su persona. Esta mañana fuimos al mercado y compramos pan, pero cuando volvimos la tienda estaba cerrada. ¿Qué piensas del tiempo? Creo que hoy hará mejor que ayer y me gustaría dar un paseo con los niños antes de la cena. El informe que publicaron la semana pasada muestra cuántas personas se han mudado a la ciudad.`,
+  pt: `Todos os seres humanos nascem livres e iguais em dignidade e em direitos. Dotados de razão e de consciência, devem agir uns para com os outros em espírito de fraternidade. Todo indivíduo tem direito à vida, à liberdade e à segurança pessoal. Hoje de manhã fomos ao mercado e compramos pão, mas quando voltamos a loja estava fechada. O que você acha do tempo? Acho que hoje vai estar melhor do que ontem e eu gostaria de dar um passeio com as crianças antes do jantar. O relatório que eles publicaram na semana passada mostra quantas pessoas se mudaram para a cidade, não é?`,
+  fr: `Tous les êtres humains naissent libres et égaux en dignité et en droits. Ils sont doués de raison et de conscience et doivent agir les uns envers les autres dans un esprit de fraternité. Tout individu a droit à la vie, à la liberté et à la sûreté de sa personne. Ce matin nous sommes allés au marché pour acheter du pain, mais le magasin était fermé quand nous sommes revenus. Qu'est-ce que tu penses du temps ? Il devrait faire plus beau qu'hier et j'aimerais me promener avec les enfants avant le dîner. Le rapport qu'ils ont publié la semaine dernière montre combien de personnes se sont installées en ville.`,
+  de: `Alle Menschen sind frei und gleich an Würde und Rechten geboren. Sie sind mit Vernunft und Gewissen begabt und sollen einander im Geist der Brüderlichkeit begegnen. Jeder hat das Recht auf Leben, Freiheit und Sicherheit der Person. Heute Morgen sind wir auf den Markt gegangen und haben Brot gekauft, aber als wir zurückkamen, war der Laden geschlossen. Was hältst du vom Wetter? Es sollte schöner sein als gestern, und ich würde gern vor dem Abendessen mit den Kindern spazieren gehen. Der Bericht, den sie letzte Woche veröffentlicht haben, zeigt, wie viele Menschen in die Stadt gezogen sind.`,
+  it: `Tutti gli esseri umani nascono liberi ed eguali in dignità e diritti. Essi sono dotati di ragione e di coscienza e devono agire gli uni verso gli altri in spirito di fratellanza. Ogni individuo ha diritto alla vita, alla libertà ed alla sicurezza della propria persona. Stamattina siamo andati al mercato e abbiamo comprato il pane, ma quando siamo tornati il negozio era chiuso. Che cosa pensi del tempo? Dovrebbe essere più bello di ieri e vorrei fare una passeggiata con i bambini prima di cena. Il rapporto che hanno pubblicato la settimana scorsa mostra quante persone si sono trasferite in città.`,
+  nl: `Alle mensen worden vrij en gelijk in waardigheid en rechten geboren. Zij zijn begiftigd met verstand en geweten, en behoren zich jegens elkander in een geest van broederschap te gedragen. Een ieder heeft recht op leven, vrijheid en onschendbaarheid van zijn persoon. Vanochtend zijn we naar de markt gegaan en hebben we brood gekocht, maar toen we terugkwamen was de winkel dicht. Wat vind jij van het weer? Het zou mooier moeten zijn dan gisteren, en ik wil graag met de kinderen wandelen voor het avondeten. Het rapport dat ze vorige week hebben gepubliceerd laat zien hoeveel mensen naar de stad zijn verhuisd.`,
+  sv: `Alla människor är födda fria och lika i värde och rättigheter. De har utrustats med förnuft och samvete och bör handla gentemot varandra i en anda av broderskap. Var och en har rätt till liv, frihet och personlig säkerhet. I morse gick vi till torget och köpte bröd, men när vi kom tillbaka var affären stängd. Vad tycker du om vädret? Det borde bli finare än i går, och jag skulle vilja ta en promenad med barnen före middagen. Rapporten som de publicerade förra veckan visar hur många människor som har flyttat till staden. Jag vet inte vad det är. Vi var där i går kväll, och allt var mycket bra. Om ni vill kan vi träffas i morgon efter jobbet. Det var den mest spännande dagen i mitt liv.`,
+  da: `Alle mennesker er født frie og lige i værdighed og rettigheder. De er udstyret med fornuft og samvittighed, og de bør handle mod hverandre i en broderskabets ånd. Enhver har ret til liv, frihed og personlig sikkerhed. I morges gik vi på markedet og købte brød, men da vi kom tilbage, var butikken lukket. Hvad synes du om vejret? Det skulle blive pænere end i går, og jeg vil gerne gå en tur med børnene før aftensmaden. Rapporten, som de offentliggjorde i sidste uge, viser, hvor mange mennesker der er flyttet til byen. Jeg ved ikke, hvad det er. Vi var der i går aftes, og det hele var meget godt. Hvis I vil, kan vi mødes i morgen efter arbejde. Det var den mest spændende dag i mit liv.`,
+  nb: `Alle mennesker er født frie og med samme menneskeverd og menneskerettigheter. De er utstyrt med fornuft og samvittighet og bør handle mot hverandre i brorskapets ånd. Enhver har rett til liv, frihet og personlig sikkerhet. I morges gikk vi på torget og kjøpte brød, men da vi kom tilbake, var butikken stengt. Hva synes du om været? Det burde bli finere enn i går, og jeg har lyst til å gå en tur med barna før middag. Rapporten som de publiserte forrige uke, viser hvor mange mennesker som har flyttet til byen. Jeg vet ikke hva det er. Vi var der i går kveld, og alt var veldig bra. Hvis dere vil, kan vi møtes i morgen etter jobb. Det var den mest spennende dagen i mitt liv.`,
+  fi: `Kaikki ihmiset syntyvät vapaina ja tasavertaisina arvoltaan ja oikeuksiltaan. Heille on annettu järki ja omatunto, ja heidän on toimittava toisiaan kohtaan veljeyden hengessä. Jokaisella on oikeus elämään, vapauteen ja henkilökohtaiseen turvallisuuteen. Tänä aamuna kävimme torilla ostamassa leipää, mutta kun tulimme takaisin, kauppa oli kiinni. Mitä mieltä olet säästä? Sen pitäisi olla kauniimpi kuin eilen, ja haluaisin mennä kävelylle lasten kanssa ennen päivällistä. Raportti, jonka he julkaisivat viime viikolla, näyttää kuinka moni ihminen on muuttanut kaupunkiin.`,
+  pl: `Wszyscy ludzie rodzą się wolni i równi pod względem swej godności i swych praw. Są oni obdarzeni rozumem i sumieniem i powinni postępować wobec innych w duchu braterstwa. Każdy człowiek ma prawo do życia, wolności i bezpieczeństwa swojej osoby. Dziś rano poszliśmy na targ i kupiliśmy chleb, ale kiedy wróciliśmy, sklep był już zamknięty. Co myślisz o pogodzie? Powinno być ładniej niż wczoraj i chciałbym pójść na spacer z dziećmi przed kolacją. Raport, który opublikowali w zeszłym tygodniu, pokazuje, ilu ludzi przeprowadziło się do miasta.`,
+  cs: `Všichni lidé rodí se svobodní a sobě rovní co do důstojnosti a práv. Jsou nadáni rozumem a svědomím a mají spolu jednat v duchu bratrství. Každý má právo na život, svobodu a osobní bezpečnost. Dnes ráno jsme šli na trh a koupili jsme chleba, ale když jsme se vrátili, obchod byl zavřený. Co si myslíš o počasí? Mělo by být hezčí než včera a rád bych se šel projít s dětmi před večeří. Zpráva, kterou zveřejnili minulý týden, ukazuje, kolik lidí se přestěhovalo do města.`,
+  ro: `Toate ființele umane se nasc libere și egale în demnitate și în drepturi. Ele sunt înzestrate cu rațiune și conștiință și trebuie să se comporte unele față de altele în spiritul fraternității. Orice ființă umană are dreptul la viață, la libertate și la securitatea persoanei sale. Azi dimineață am mers la piață și am cumpărat pâine, dar când ne-am întors magazinul era închis. Ce crezi despre vreme? Ar trebui să fie mai frumos decât ieri și aș vrea să mă plimb cu copiii înainte de cină. Raportul pe care l-au publicat săptămâna trecută arată câți oameni s-au mutat în oraș.`,
+  hu: `Minden emberi lény szabadnak születik és egyenlő méltósága és joga van. Az emberek, ésszel és lelkiismerettel bírván, egymással szemben testvéri szellemben kell hogy viseltessenek. Minden személynek joga van az élethez, a szabadsághoz és a személyi biztonsághoz. Ma reggel elmentünk a piacra és kenyeret vettünk, de amikor visszajöttünk, a bolt már zárva volt. Mit gondolsz az időjárásról? Szebbnek kellene lennie, mint tegnap, és szeretnék sétálni a gyerekekkel vacsora előtt. A jelentés, amelyet a múlt héten tettek közzé, megmutatja, hány ember költözött a városba.`,
+  tr: `Bütün insanlar hür, haysiyet ve haklar bakımından eşit doğarlar. Akıl ve vicdana sahiptirler ve birbirlerine karşı kardeşlik zihniyeti ile hareket etmelidirler. Yaşamak, hürriyet ve kişi emniyeti her ferdin hakkıdır. Bu sabah pazara gittik ve ekmek aldık, ama geri döndüğümüzde dükkan kapalıydı. Hava hakkında ne düşünüyorsun? Dünden daha güzel olması gerekiyor ve akşam yemeğinden önce çocuklarla yürüyüşe çıkmak istiyorum. Geçen hafta yayımladıkları rapor, kaç kişinin şehre taşındığını gösteriyor.`,
+  id: `Semua orang dilahirkan merdeka dan mempunyai martabat dan hak-hak yang sama. Mereka dikaruniai akal dan hati nurani dan hendaknya bergaul satu sama lain dalam semangat persaudaraan. Setiap orang berhak atas kehidupan, kebebasan dan keselamatan sebagai individu. Tadi pagi kami pergi ke pasar dan membeli roti, tetapi ketika kami kembali tokonya sudah tutup. Bagaimana menurutmu tentang cuaca? Seharusnya lebih cerah daripada kemarin, dan saya ingin berjalan-jalan dengan anak-anak sebelum makan malam. Laporan yang mereka terbitkan minggu lalu menunjukkan berapa banyak orang yang telah pindah ke kota.`,
+  vi: `Tất cả mọi người sinh ra đều được tự do và bình đẳng về nhân phẩm và quyền lợi. Mọi con người đều được tạo hóa ban cho lý trí và lương tâm và cần phải đối xử với nhau trong tình anh em. Mọi người đều có quyền sống, quyền tự do và an toàn cá nhân. Sáng nay chúng tôi đi chợ và mua bánh mì, nhưng khi chúng tôi quay lại thì cửa hàng đã đóng cửa. Bạn nghĩ gì về thời tiết? Hôm nay trời sẽ đẹp hơn hôm qua và tôi muốn đi dạo với các con trước bữa tối. Báo cáo mà họ công bố tuần trước cho thấy có bao nhiêu người đã chuyển đến thành phố.`,
+  ca: `Tots els éssers humans neixen lliures i iguals en dignitat i en drets. Són dotats de raó i de consciència, i han de comportar-se fraternalment els uns amb els altres. Tot individu té dret a la vida, a la llibertat i a la seguretat de la seva persona. Aquest matí hem anat al mercat i hem comprat pa, però quan hem tornat la botiga estava tancada. Què en penses, del temps? Avui hauria de fer millor que ahir i m'agradaria anar a passejar amb els nens abans del sopar. L'informe que van publicar la setmana passada mostra quantes persones s'han traslladat a la ciutat.`,
+};
+
+export const CYRILLIC_SAMPLES: Record<string, string> = {
+  ru: `Все люди рождаются свободными и равными в своем достоинстве и правах. Они наделены разумом и совестью и должны поступать в отношении друг друга в духе братства. Каждый человек имеет право на жизнь, на свободу и на личную неприкосновенность. Сегодня утром мы пошли на рынок и купили хлеб, но когда мы вернулись, магазин уже был закрыт. Что ты думаешь о погоде? Должно быть лучше, чем вчера, и я хотел бы погулять с детьми перед ужином. Отчёт, который они опубликовали на прошлой неделе, показывает, сколько людей переехало в город. Я не знаю, что это такое. Мы были там вчера вечером, и всё было очень хорошо. Если вы хотите, мы можем встретиться завтра после работы. Это был самый интересный день в моей жизни.`,
+  uk: `Всі люди народжуються вільними і рівними у своїй гідності та правах. Вони наділені розумом і совістю і повинні діяти у відношенні один до одного в дусі братерства. Кожна людина має право на життя, на свободу і на особисту недоторканність. Сьогодні вранці ми пішли на ринок і купили хліб, але коли ми повернулися, крамниця вже була зачинена. Що ти думаєш про погоду? Має бути краще, ніж учора, і я хотів би погуляти з дітьми перед вечерею. Звіт, який вони оприлюднили минулого тижня, показує, скільки людей переїхало до міста. Я не знаю, що це таке. Ми були там учора ввечері, і все було дуже добре. Якщо ви хочете, ми можемо зустрітися завтра після роботи. Це був найцікавіший день у моєму житті.`,
+  bg: `Всички хора се раждат свободни и равни по достойнство и права. Те са надарени с разум и съвест и следва да се отнасят помежду си в дух на братство. Всеки човек има право на живот, свобода и лична сигурност. Тази сутрин отидохме на пазара и купихме хляб, но когато се върнахме, магазинът вече беше затворен. Какво мислиш за времето? Трябва да е по-хубаво от вчера и бих искал да се разходя с децата преди вечеря. Докладът, който публикуваха миналата седмица, показва колко хора са се преместили в града. Не знам какво е това. Бяхме там снощи и всичко беше много хубаво. Ако искате, можем да се срещнем утре след работа. Това беше най-интересният ден в живота ми.`,
+};
+
+export const ARABIC_SAMPLES: Record<string, string> = {
+  ar: `يولد جميع الناس أحرارًا متساوين في الكرامة والحقوق. وقد وهبوا عقلًا وضميرًا وعليهم أن يعامل بعضهم بعضًا بروح الإخاء. لكل فرد الحق في الحياة والحرية وسلامة شخصه. ذهبنا هذا الصباح إلى السوق واشترينا الخبز، ولكن عندما عدنا كان المتجر مغلقًا. ما رأيك في الطقس؟ يجب أن يكون أجمل من الأمس، وأود أن أتمشى مع الأطفال قبل العشاء. يبين التقرير الذي نشروه الأسبوع الماضي كم عدد الناس الذين انتقلوا إلى المدينة.`,
+  fa: `تمام افراد بشر آزاد به دنیا می‌آیند و از لحاظ حیثیت و حقوق با هم برابرند. همه دارای عقل و وجدان هستند و باید نسبت به یکدیگر با روح برادری رفتار کنند. هر کس حق زندگی، آزادی و امنیت شخصی دارد. امروز صبح به بازار رفتیم و نان خریدیم، اما وقتی برگشتیم مغازه بسته بود. نظرت درباره هوا چیست؟ باید از دیروز بهتر باشد و دوست دارم قبل از شام با بچه‌ها قدم بزنم. گزارشی که هفته گذشته منتشر کردند نشان می‌دهد چند نفر به شهر نقل مکان کرده‌اند.`,
+  ur: `تمام انسان آزاد اور حقوق و عزت کے اعتبار سے برابر پیدا ہوئے ہیں۔ انہیں ضمیر اور عقل ودیعت ہوئی ہے۔ اس لیے انہیں ایک دوسرے کے ساتھ بھائی چارے کا سلوک کرنا چاہیے۔ ہر شخص کو اپنی جان، آزادی اور ذاتی تحفظ کا حق ہے۔ آج صبح ہم بازار گئے اور روٹی خریدی، لیکن جب ہم واپس آئے تو دکان بند تھی۔ موسم کے بارے میں آپ کا کیا خیال ہے؟ یہ کل سے بہتر ہونا چاہیے اور میں رات کے کھانے سے پہلے بچوں کے ساتھ سیر کرنا چاہتا ہوں۔`,
+};
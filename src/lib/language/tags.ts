@@ -0,0 +1,408 @@
+import { ConflictError, HttpError, NotFoundError } from "@/lib/api";
+import {
+  createDataset,
+  deleteDataset,
+  getDataset,
+  type Dataset,
+  type DatasetFile,
+} from "@/lib/datasets";
+import { query, transact } from "@/lib/db";
+import {
+  dropRows,
+  readPage,
+  readRows,
+  type Row,
+  type RowPage,
+} from "@/lib/formats";
+import { runJob, storedResult } from "@/lib/jobs";
+import {
+  identifyLanguage,
+  languageName,
+  UNDETERMINED,
+  type Script,
+} from "@/lib/language";
+import { languageCarveSchema, type LanguageCarveInput } from "@/lib/schemas";
+import { tabularFiles } from "@/lib/splits";
+import { readBlobBuffer, storeBlob } from "@/lib/storage";
+import { rowText } from "@/lib/text";
+import { checkout, createCommit, type Commit } from "@/lib/versioning";
+
+/**
+ * Language tags of dataset versions: the language, confidence and script of
+ * every row. Files are tagged in the background and keyed by file contents
+ * and classifier version, so a new version only tags the files it changed.
+ * Tags are served as derived columns of a file's rows, filter them, and
+ * carve the rows of chosen languages out into a new dataset.
+ */
+
+/** Raised when the classifier changes, so files are tagged again. */
+export const LANGUAGE_MODEL_VERSION = 1;
+
+/** Derived columns added to rows read with their tags. */
+export const LANGUAGE_COLUMNS = [
+  "_language",
+  "_language_confidence",
+  "_script",
+] as const;
+
+export interface LanguageCount {
+  /** ISO 639 code, or `und` for rows whose language cannot be told. */
+  code: string;
+  rows: number;
+  meanConfidence: number;
+}
+
+export interface ScriptCount {
+  script: Script;
+  rows: number;
+}
+
+/** Tags of every row of a file, by row index. */
+export interface FileLanguageTags {
+  languages: string[];
+  confidences: number[];
+  scripts: (Script | null)[];
+}
+
+export interface LanguageTagRecord {
+  /** Hash of the tagged file. */
+  source: string;
+  model: number;
+  status: "ready" | "failed";
+  /** Blob of the file's `FileLanguageTags`. */
+  hash: string | null;
+  rows: number;
+  languages: LanguageCount[];
+  scripts: ScriptCount[];
+  error: string | null;
+  createdAt: string;
+}
+
+export interface LanguageReport {
+  commit: string;
+  /** Running until every file of the version is tagged. */
+  status: "running" | "ready" | "failed";
+  rows: number;
+  languages: LanguageCount[];
+  scripts: ScriptCount[];
+  files: { path: string; rows: number; languages: LanguageCount[] }[];
+  error: string | null;
+}
+
+export interface LanguageRowPage extends RowPage {
+  commit: string;
+}
+
+export interface LanguageCarveResult {
+  dataset: Dataset;
+  commit: Commit;
+  rows: number;
+}
+
+/** Rows read per filtered page, so a rare language cannot stall a request. */
+const MAX_SCANNED_ROWS = 50_000;
+
+function tagKey(source: string) {
+  return `${source}/${LANGUAGE_MODEL_VERSION}`;
+}
+
+function generate(file: DatasetFile): Promise<LanguageTagRecord> {
+  return runJob("language-tags", tagKey(file.hash), () => createTags(file));
+}
+
+/** Languages and scripts by number of rows, most common first. */
+function summarize(tags: FileLanguageTags): {
+  languages: LanguageCount[];
+  scripts: ScriptCount[];
+} {
+  const languages = new Map<string, { rows: number; confidence: number }>();
+  const scripts = new Map<Script, number>();
+  for (const [index, code] of tags.languages.entries()) {
+    const count = languages.get(code) ?? { rows: 0, confidence: 0 };
+    count.rows++;
+    count.confidence += tags.confidences[index];
+    languages.set(code, count);
+    const script = tags.scripts[index];
+    if (script) scripts.set(script, (scripts.get(script) ?? 0) + 1);
+  }
+  return {
+    languages: [...languages]
+      .map(([code, count]) => ({
+        code,
+        rows: count.rows,
+        meanConfidence: count.confidence / count.rows,
+      }))
+      .sort((a, b) => b.rows - a.rows),
+    scripts: [...scripts]
+      .map(([script, rows]) => ({ script, rows }))
+      .sort((a, b) => b.rows - a.rows),
+  };
+}
+
+async function createTags(file: DatasetFile): Promise<LanguageTagRecord> {
+  const base = {
+    source: file.hash,
+    model: LANGUAGE_MODEL_VERSION,
+    createdAt: new Date().toISOString(),
+  };
+  let record: LanguageTagRecord;
+  try {
+    const tags: FileLanguageTags = {
+      languages: [],
+      confidences: [],
+      scripts: [],
+    };
+    for await (const row of readRows(file)) {
+      const guess = identifyLanguage(rowText(row));
+      tags.languages.push(guess.language ?? UNDETERMINED);
+      tags.confidences.push(Math.round(guess.confidence * 1000) / 1000);
+      tags.scripts.push(guess.script);
+    }
+    const blob = await storeBlob(Buffer.from(JSON.stringify(tags)));
+    record = {
+      ...base,
+      status: "ready",
+      hash: blob.hash,
+      rows: tags.languages.length,
+      ...summarize(tags),
+      error: null,
+    };
+  } catch (error) {
+    record = {
+      ...base,
+      status: "failed",
+      hash: null,
+      rows: 0,
+      languages: [],
+      scripts: [],
+      error: (error as Error).message,
+    };
+  }
+  await transact((db) => {
+    db.languageTags[tagKey(record.source)] = record;
+  });
+  return record;
+}
+
+async function readTags(record: LanguageTagRecord): Promise<FileLanguageTags> {
+  return JSON.parse((await readBlobBuffer(record.hash!)).toString("utf8"));
+}
+
+/** Tags of `file`, which must have been tagged already. */
+async function fileTags(file: DatasetFile): Promise<FileLanguageTags> {
+  const record = storedResult(
+    await query((db) => db.languageTags[tagKey(file.hash)]),
+  );
+  if (!record) {
+    generate(file).catch((error) => console.error(error));
+    throw new ConflictError(
+      `Languages of ${file.path} are still being identified; try again shortly`,
+    );
+  }
+  if (!record.hash) {
+    throw new HttpError(422, record.error ?? "Language identification failed");
+  }
+  return readTags(record);
+}
+
+function mergeLanguages(counts: LanguageCount[]): LanguageCount[] {
+  const merged = new Map<string, LanguageCount>();
+  for (const count of counts) {
+    const total = merged.get(count.code);
+    if (!total) {
+      merged.set(count.code, { ...count });
+      continue;
+    }
+    const rows = total.rows + count.rows;
+    total.meanConfidence =
+      (total.meanConfidence * total.rows + count.meanConfidence * count.rows) /
+      rows;
+    total.rows = rows;
+  }
+  return [...merged.values()].sort((a, b) => b.rows - a.rows);
+}
+
+/**
+ * Language and script distribution of the version at `ref`. Files not tagged
+ * yet are queued, and the report is `running` until they are done.
+ */
+export async function getLanguageReport(
+  datasetId: string,
+  ref?: string,
+): Promise<LanguageReport> {
+  const commit = await checkout(datasetId, ref);
+  const files = tabularFiles(commit.manifest);
+  const records = await query((db) =>
+    files.map((file) => db.languageTags[tagKey(file.hash)]),
+  );
+  const report: LanguageReport = {
+    commit: commit.id,
+    status: "ready",
+    rows: 0,
+    languages: [],
+    scripts: [],
+    files: [],
+    error: null,
+  };
+
+  const missing = files.filter((_, index) => !storedResult(records[index]));
+  if (missing.length > 0) {
+    for (const file of missing) {
+      generate(file).catch((error) => console.error(error));
+    }
+    return { ...report, status: "running" };
+  }
+  const scripts = new Map<Script, number>();
+  for (const [index, record] of records.entries()) {
+    if (!record.hash) {
+      return { ...report, status: "failed", error: record.error };
+    }
+    report.files.push({
+      path: files[index].path,
+      rows: record.rows,
+      languages: record.languages,
+    });
+    report.rows += record.rows;
+    for (const { script, rows } of record.scripts) {
+      scripts.set(script, (scripts.get(script) ?? 0) + rows);
+    }
+  }
+  report.languages = mergeLanguages(
+    records.flatMap((record) => record.languages),
+  );
+  report.scripts = [...scripts]
+    .map(([script, rows]) => ({ script, rows }))
+    .sort((a, b) => b.rows - a.rows);
+  return report;
+}
+
+function matches(
+  tags: FileLanguageTags,
+  index: number,
+  languages: readonly string[] | null,
+  minConfidence: number,
+): boolean {
+  const language = tags.languages[index] ?? UNDETERMINED;
+  if (languages && !languages.includes(language)) return false;
+  return (tags.confidences[index] ?? 0) >= minConfidence;
+}
+
+/**
+ * One page of rows of `path` with their tags as derived columns, only those
+ * in `language` if given. A filtered page may hold fewer rows than `limit`
+ * while `nextCursor` is set; keep reading until it is null.
+ */
+export async function getLanguageRows(
+  datasetId: string,
+  path: string,
+  options: {
+    ref?: string;
+    language?: string | null;
+    minConfidence?: number;
+    cursor?: string | null;
+    limit: number;
+  },
+): Promise<LanguageRowPage> {
+  const commit = await checkout(datasetId, options.ref);
+  const file = commit.manifest.find((f) => f.path === path);
+  if (!file) throw new NotFoundError(`${path} does not exist at this ref`);
+  const tags = await fileTags(file);
+  const languages = options.language ? [options.language] : null;
+
+  const rows: Row[] = [];
+  const columns: string[] = [];
+  let startRow: number | null = null;
+  let cursor = options.cursor ?? null;
+  let scanned = 0;
+  do {
+    const page = await readPage(file, cursor, options.limit - rows.length);
+    startRow ??= page.startRow;
+    for (const column of page.columns) {
+      if (!columns.includes(column)) columns.push(column);
+    }
+    for (const [offset, row] of page.rows.entries()) {
+      const index = page.startRow + offset;
+      if (!matches(tags, index, languages, options.minConfidence ?? 0)) {
+        continue;
+      }
+      rows.push({
+        ...row,
+        _language: tags.languages[index] ?? UNDETERMINED,
+        _language_confidence: tags.confidences[index] ?? 0,
+        _script: tags.scripts[index] ?? null,
+      });
+    }
+    scanned += page.rows.length;
+    cursor = page.nextCursor;
+  } while (cursor && rows.length < options.limit && scanned < MAX_SCANNED_ROWS);
+
+  return {
+    commit: commit.id,
+    columns: [...columns, ...LANGUAGE_COLUMNS],
+    rows,
+    startRow: startRow ?? 0,
+    nextCursor: cursor,
+  };
+}
+
+/**
+ * Creates a dataset from the rows of a tagged version that are in the chosen
+ * languages. Each tabular file keeps its path and format; files left without
+ * rows, and files that are not tabular, are left out.
+ */
+export async function carveLanguages(
+  datasetId: string,
+  input: LanguageCarveInput,
+): Promise<LanguageCarveResult> {
+  const {
+    commit: commitId,
+    languages,
+    minConfidence,
+    ...fields
+  } = languageCarveSchema.parse(input);
+  const source = await getDataset(datasetId);
+  const version = await checkout(datasetId, commitId);
+  const report = await getLanguageReport(datasetId, version.id);
+  if (report.status !== "ready") {
+    throw new ConflictError(
+      report.error ??
+        "Identify the languages of this version before carving it",
+    );
+  }
+
+  const add: { path: string; hash: string }[] = [];
+  let kept = 0;
+  for (const file of tabularFiles(version.manifest)) {
+    const tags = await fileTags(file);
+    const drop = new Set<number>();
+    for (let index = 0; index < tags.languages.length; index++) {
+      if (!matches(tags, index, languages, minConfidence)) drop.add(index);
+    }
+    if (drop.size === tags.languages.length) continue;
+    kept += tags.languages.length - drop.size;
+    const hash = drop.size > 0 ? (await dropRows(file, drop)).hash : file.hash;
+    add.push({ path: file.path, hash });
+  }
+  if (kept === 0) {
+    throw new HttpError(422, "No rows are in the chosen languages");
+  }
+
+  const dataset = await createDataset({
+    ...fields,
+    type: fields.type ?? source.type,
+    tokenizerId:
+      fields.tokenizerId === undefined
+        ? source.tokenizerId
+        : fields.tokenizerId,
+  });
+  try {
+    const commit = await createCommit(dataset.id, {
+      message: `Carve ${languages.map(languageName).join(", ")} rows out of ${source.name} at ${version.id.slice(0, 12)}`,
+      add,
+    });
+    return { dataset: await getDataset(dataset.id), commit, rows: kept };
+  } catch (error) {
+    await deleteDataset(dataset.id);
+    throw error;
+  }
+}
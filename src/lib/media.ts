@@ -0,0 +1,332 @@
+import { spawn } from "child_process";
+
+import { HttpError, NotFoundError } from "@/lib/api";
+import { blobPath, readBlob, statBlob } from "@/lib/storage";
+
+/**
+ * Decoding for audio and video blobs. WAV is parsed in-process; everything
+ * else goes through an ffmpeg binary, which is optional: without one those
+ * formats raise `UnsupportedMediaError` rather than failing outright.
+ */
+
+/** ffmpeg binary to run. Override with `FFMPEG_PATH`. */
+export const FFMPEG_PATH = process.env.FFMPEG_PATH ?? "ffmpeg";
+
+/** Sample rate audio is resampled to when ffmpeg decodes it. */
+const FFMPEG_SAMPLE_RATE = 8000;
+/** Longest stretch of audio decoded, in seconds. */
+const MAX_DECODE_SECONDS = 60 * 60;
+/** Largest output collected from ffmpeg, such as a video frame. */
+const MAX_FFMPEG_OUTPUT = 64 * 1024 * 1024;
+/** Bytes read to find the `fmt ` and `data` chunks of a WAV file. */
+const WAV_HEADER_BYTES = 64 * 1024;
+/**
+ * Blocks an audio envelope keeps between this and twice this, well above
+ * the resolution waveforms are drawn at.
+ */
+const ENVELOPE_BLOCKS = 8192;
+
+export class UnsupportedMediaError extends HttpError {
+  constructor(message: string) {
+    super(415, message);
+    this.name = "UnsupportedMediaError";
+  }
+}
+
+/** Runs ffmpeg, handing what it writes to stdout to `onData` as it comes. */
+function streamFfmpeg(
+  args: string[],
+  onData: (chunk: Buffer) => void,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(FFMPEG_PATH, ["-v", "error", "-nostdin", ...args], {
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    let failed = false;
+    let stderr = "";
+    child.stdout.on("data", (chunk: Buffer) => {
+      if (failed) return;
+      try {
+        onData(chunk);
+      } catch (error) {
+        failed = true;
+        child.kill();
+        reject(error);
+      }
+    });
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-2000);
+    });
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      failed = true;
+      reject(
+        error.code === "ENOENT"
+          ? new UnsupportedMediaError(
+              `ffmpeg was not found at ${FFMPEG_PATH}; install it or set FFMPEG_PATH`,
+            )
+          : error,
+      );
+    });
+    child.on("close", (code) => {
+      if (failed) return;
+      if (code === 0) resolve();
+      else {
+        const reason = stderr.trim().split("\n").pop() || `exit code ${code}`;
+        reject(new HttpError(422, `ffmpeg failed: ${reason}`));
+      }
+    });
+  });
+}
+
+/** Runs ffmpeg and collects what it writes to stdout. */
+export async function runFfmpeg(args: string[]): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  await streamFfmpeg(args, (chunk) => {
+    size += chunk.length;
+    if (size > MAX_FFMPEG_OUTPUT) {
+      throw new HttpError(413, "ffmpeg output is too large");
+    }
+    chunks.push(chunk);
+  });
+  return Buffer.concat(chunks);
+}
+
+export interface DecodedAudio {
+  sampleRate: number;
+  /** Samples decoded; multi-channel audio is mixed down to mono. */
+  length: number;
+  /**
+   * Lowest and highest sample of consecutive, equal blocks of samples, the
+   * last possibly shorter. Long audio gets longer blocks, so memory stays
+   * bounded however long the file is.
+   */
+  mins: number[];
+  maxs: number[];
+}
+
+/** Builds a `DecodedAudio` envelope from samples as they stream in. */
+function envelope(sampleRate: number) {
+  const audio: DecodedAudio = { sampleRate, length: 0, mins: [], maxs: [] };
+  let blockSize = 1;
+  let filled = 0;
+  return {
+    audio,
+    add(sample: number) {
+      const { mins, maxs } = audio;
+      if (filled === 0) {
+        mins.push(sample);
+        maxs.push(sample);
+      } else {
+        const last = mins.length - 1;
+        if (sample < mins[last]) mins[last] = sample;
+        if (sample > maxs[last]) maxs[last] = sample;
+      }
+      audio.length++;
+      if (++filled < blockSize) return;
+      filled = 0;
+      if (mins.length < 2 * ENVELOPE_BLOCKS) return;
+      // Every block is full here, so pairs merge into blocks twice as long.
+      for (let i = 0; i < ENVELOPE_BLOCKS; i++) {
+        mins[i] = Math.min(mins[2 * i], mins[2 * i + 1]);
+        maxs[i] = Math.max(maxs[2 * i], maxs[2 * i + 1]);
+      }
+      mins.length = ENVELOPE_BLOCKS;
+      maxs.length = ENVELOPE_BLOCKS;
+      blockSize *= 2;
+    },
+  };
+}
+
+/**
+ * Decodes the first hour of the audio blob `hash` into its envelope, as it
+ * streams; `fileName` picks the decoder.
+ */
+export async function decodeAudio(
+  hash: string,
+  fileName: string,
+): Promise<DecodedAudio> {
+  if (/\.wav$/i.test(fileName)) return decodeWav(hash);
+  const { audio, add } = envelope(FFMPEG_SAMPLE_RATE);
+  // Samples can straddle chunks; the bytes left over wait for the next one.
+  let rest = Buffer.alloc(0);
+  await streamFfmpeg(
+    [
+      "-t",
+      String(MAX_DECODE_SECONDS),
+      "-i",
+      blobPath(hash),
+      "-vn",
+      "-ac",
+      "1",
+      "-ar",
+      String(FFMPEG_SAMPLE_RATE),
+      "-f",
+      "f32le",
+      "-",
+    ],
+    (chunk) => {
+      const data = rest.length > 0 ? Buffer.concat([rest, chunk]) : chunk;
+      const end = data.length - (data.length % 4);
+      for (let offset = 0; offset < end; offset += 4) {
+        add(data.readFloatLE(offset));
+      }
+      rest = Buffer.from(data.subarray(end));
+    },
+  );
+  return audio;
+}
+
+/** The first frame of a video blob, as a PNG. */
+export function videoFrame(hash: string): Promise<Buffer> {
+  return runFfmpeg([
+    "-i",
+    blobPath(hash),
+    "-frames:v",
+    "1",
+    "-f",
+    "image2pipe",
+    "-vcodec",
+    "png",
+    "-",
+  ]);
+}
+
+export interface WavFormat {
+  /** 1 for integer PCM, 3 for IEEE float. */
+  encoding: number;
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  /** Byte range of the sample data. */
+  dataOffset: number;
+  dataLength: number;
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+/**
+ * Reads the `fmt ` and `data` chunks of a RIFF/WAVE file. `buffer` may be
+ * just the start of the file if `fileSize` gives the full length.
+ */
+export function readWavFormat(
+  buffer: Buffer,
+  fileSize = buffer.length,
+): WavFormat {
+  if (
+    buffer.length < 12 ||
+    buffer.toString("ascii", 0, 4) !== "RIFF" ||
+    buffer.toString("ascii", 8, 12) !== "WAVE"
+  ) {
+    throw new HttpError(422, "Not a RIFF/WAVE file");
+  }
+  let format: Omit<WavFormat, "dataOffset" | "dataLength"> | null = null;
+  for (let offset = 12; offset + 8 <= buffer.length;) {
+    const id = buffer.toString("ascii", offset, offset + 4);
+    const length = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+    if (id === "fmt ") {
+      let encoding = buffer.readUInt16LE(body);
+      if (encoding === WAVE_FORMAT_EXTENSIBLE && length >= 26) {
+        // The sub-format GUID starts with the real format code.
+        encoding = buffer.readUInt16LE(body + 24);
+      }
+      format = {
+        encoding,
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        bitsPerSample: buffer.readUInt16LE(body + 14),
+      };
+    } else if (id === "data") {
+      if (!format) throw new HttpError(422, "WAV data precedes its format");
+      return {
+        ...format,
+        dataOffset: body,
+        // Streams written without knowing their length leave this unset.
+        dataLength: Math.min(length || Infinity, fileSize - body),
+      };
+    }
+    // Chunks are padded to an even length.
+    offset = body + length + (length % 2);
+  }
+  throw new HttpError(422, "WAV file has no data chunk");
+}
+
+async function decodeWav(hash: string): Promise<DecodedAudio> {
+  const stat = await statBlob(hash);
+  if (!stat) throw new NotFoundError(`Blob ${hash} not found`);
+  const header = await readStream(
+    readBlob(hash, {
+      start: 0,
+      end: Math.max(Math.min(WAV_HEADER_BYTES, stat.size) - 1, 0),
+    }),
+  );
+  const format = readWavFormat(header, stat.size);
+  const { encoding, channels, bitsPerSample } = format;
+  const bytes = bitsPerSample / 8;
+  if (!sampleReader(header, encoding, bitsPerSample) || channels < 1) {
+    throw new UnsupportedMediaError(
+      `Unsupported WAV encoding (format ${encoding}, ${bitsPerSample}-bit)`,
+    );
+  }
+  const frameSize = bytes * channels;
+  const frames = Math.min(
+    Math.floor(format.dataLength / frameSize),
+    MAX_DECODE_SECONDS * format.sampleRate,
+  );
+  const { audio, add } = envelope(format.sampleRate);
+  if (frames === 0) return audio;
+  // Frames can straddle chunks; the bytes left over wait for the next one.
+  let rest = Buffer.alloc(0);
+  const stream = readBlob(hash, {
+    start: format.dataOffset,
+    end: format.dataOffset + frames * frameSize - 1,
+  });
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    const data = rest.length > 0 ? Buffer.concat([rest, chunk]) : chunk;
+    const read = sampleReader(data, encoding, bitsPerSample)!;
+    const end = data.length - (data.length % frameSize);
+    for (let start = 0; start < end; start += frameSize) {
+      let sum = 0;
+      for (let channel = 0; channel < channels; channel++) {
+        sum += read(start + channel * bytes);
+      }
+      add(sum / channels);
+    }
+    rest = Buffer.from(data.subarray(end));
+  }
+  return audio;
+}
+
+async function readStream(stream: AsyncIterable<Buffer>): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return Buffer.concat(chunks);
+}
+
+function sampleReader(
+  buffer: Buffer,
+  encoding: number,
+  bits: number,
+): ((offset: number) => number) | null {
+  if (encoding === WAVE_FORMAT_FLOAT) {
+    if (bits === 32) return (offset) => buffer.readFloatLE(offset);
+    if (bits === 64) return (offset) => buffer.readDoubleLE(offset);
+    return null;
+  }
+  if (encoding !== WAVE_FORMAT_PCM) return null;
+  switch (bits) {
+    case 8:
+      return (offset) => (buffer[offset] - 128) / 128;
+    case 16:
+      return (offset) => buffer.readInt16LE(offset) / 0x8000;
+    case 24:
+      return (offset) => buffer.readIntLE(offset, 3) / 0x800000;
+    case 32:
+      return (offset) => buffer.readInt32LE(offset) / 0x80000000;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,680 @@
+import { createHash, createHmac } from "crypto";
+import { isIPv4, isIPv6 } from "net";
+
+import { ConflictError, HttpError } from "@/lib/api";
+import type { DatasetFile } from "@/lib/datasets";
+import { query, transact } from "@/lib/db";
+import {
+  readRows,
+  replaceRows,
+  stableStringify,
+  type Row,
+} from "@/lib/formats";
+import { runJob, storedResult } from "@/lib/jobs";
+import {
+  DEFAULT_PII_TOKENS,
+  PII_TYPES,
+  piiOptionsSchema,
+  piiRedactSchema,
+  type PiiOptions,
+  type PiiRedactInput,
+  type PiiReplacement,
+  type PiiType,
+} from "@/lib/schemas";
+import { workspaceSecret } from "@/lib/secrets";
+import { tabularFiles } from "@/lib/splits";
+import { readBlobBuffer, storeBlob } from "@/lib/storage";
+import { checkout, createCommit, type Commit } from "@/lib/versioning";
+
+/**
+ * Personal data in the text of a dataset version: email addresses, phone
+ * numbers, IP addresses, credit-card numbers (Luhn-checked), national IDs
+ * (US SSN, UK National Insurance and Brazilian CPF numbers, the last
+ * checksummed) and API keys or other secrets. Detection is by local rules
+ * only; nothing leaves the server.
+ *
+ * Scans run in the background, one per version and options, like duplicate
+ * scans, and their report lists each row with findings. Redacting commits
+ * the scanned version with the findings replaced.
+ */
+
+export interface PiiFinding {
+  type: PiiType;
+  /** The rule that matched, e.g. `US SSN` or `AWS access key`. */
+  rule: string;
+  /** Path of the text within the row, e.g. `messages[2].content`. */
+  field: string;
+  /** UTF-16 offsets of the match within the field. */
+  start: number;
+  end: number;
+  value: string;
+  /** Text just before and after the match, for review. */
+  before: string;
+  after: string;
+}
+
+export interface PiiRow {
+  path: string;
+  /** 0-based row index within the file. */
+  row: number;
+  /** Findings in the row; only the first few are listed. */
+  count: number;
+  findings: PiiFinding[];
+}
+
+export interface PiiSummary {
+  rows: number;
+  /** Rows with at least one finding. */
+  flaggedRows: number;
+  findings: number;
+  byType: Record<PiiType, number>;
+  /** Findings by top-level column, most first. */
+  byColumn: { column: string; count: number }[];
+  duration: number;
+}
+
+export interface PiiRecord {
+  commit: string;
+  options: PiiOptions;
+  status: "ready" | "failed";
+  hash: string | null;
+  error: string | null;
+  createdAt: string;
+}
+
+export interface PiiResult {
+  commit: string;
+  options: PiiOptions;
+  status: "running" | "ready" | "failed";
+  summary: PiiSummary | null;
+  /** The page of flagged rows asked for, in file order. */
+  rows: PiiRow[];
+  /** Flagged rows with the kind asked for, across all pages. */
+  total: number;
+  error: string | null;
+}
+
+export interface PiiRedactResult {
+  commit: Commit;
+  rows: number;
+}
+
+export interface PiiMatch {
+  type: PiiType;
+  rule: string;
+  start: number;
+  end: number;
+}
+
+interface Rule {
+  type: PiiType;
+  name: string;
+  pattern: RegExp;
+  /** Capture group holding the value, when the pattern includes context. */
+  group?: number;
+  validate?: (value: string, text: string, index: number) => boolean;
+}
+
+interface StoredRow {
+  file: number;
+  row: number;
+  count: number;
+  findings: PiiFinding[];
+}
+
+interface PiiScan {
+  files: string[];
+  summary: PiiSummary;
+  rows: StoredRow[];
+}
+
+/** Findings listed per row; the rest are only counted. */
+const ROW_FINDINGS = 20;
+const CONTEXT_CHARS = 40;
+
+function digits(value: string): string {
+  return value.replace(/\D/g, "");
+}
+
+/** True when the match doesn't continue a longer word or number. */
+function standsAlone(value: string, text: string, index: number): boolean {
+  const before = text[index - 1] ?? "";
+  const after = text.slice(index + value.length, index + value.length + 2);
+  return !/[\w.]/.test(before) && !/^(?:\w|\.\d)/.test(after);
+}
+
+function luhn(number: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < number.length; i++) {
+    let digit = Number(number[number.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function validCpf(value: string): boolean {
+  const number = digits(value);
+  if (/^(\d)\1{10}$/.test(number)) return false;
+  for (const length of [9, 10]) {
+    let sum = 0;
+    for (let i = 0; i < length; i++) {
+      sum += Number(number[i]) * (length + 1 - i);
+    }
+    if (((sum * 10) % 11) % 10 !== Number(number[length])) return false;
+  }
+  return true;
+}
+
+function validSsn(value: string): boolean {
+  const [area, group, serial] = value.split("-");
+  return (
+    area !== "000" &&
+    area !== "666" &&
+    area[0] !== "9" &&
+    group !== "00" &&
+    serial !== "0000"
+  );
+}
+
+// Rules claim text in this order, so a Luhn-valid card number is not also
+// read as a phone number, nor a key's digits as an ID.
+const RULES: Rule[] = [
+  {
+    type: "secret",
+    name: "Private key",
+    pattern:
+      /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z]+ )*PRIVATE KEY-----/g,
+  },
+  {
+    type: "secret",
+    name: "AWS access key",
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  },
+  {
+    type: "secret",
+    name: "GitHub token",
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_\w{22,255})\b/g,
+  },
+  {
+    type: "secret",
+    name: "Slack token",
+    pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g,
+  },
+  {
+    type: "secret",
+    name: "Stripe key",
+    pattern: /\b[rs]k_(?:live|test)_[0-9A-Za-z]{16,}\b/g,
+  },
+  {
+    type: "secret",
+    name: "Google API key",
+    pattern: /\bAIza[0-9A-Za-z_-]{35}/g,
+  },
+  {
+    type: "secret",
+    name: "API secret key",
+    pattern: /\bsk-[A-Za-z0-9_-]{20,}/g,
+  },
+  {
+    type: "secret",
+    name: "JSON Web Token",
+    pattern: /\beyJ[\w-]{8,}\.eyJ[\w-]{8,}\.[\w-]{8,}/g,
+  },
+  {
+    type: "secret",
+    name: "Assigned secret",
+    pattern:
+      /\b(?:api[_-]?key|access[_-]?key|secret|token|passw(?:or)?d)["']?\s*[:=]\s*["']?([A-Za-z0-9_\-/+=.]{12,})/gi,
+    group: 1,
+    // Plain words after `password:` are prose more often than secrets.
+    validate: (value) => /\d/.test(value) && /[A-Za-z]/.test(value),
+  },
+  {
+    type: "email",
+    name: "Email address",
+    pattern:
+      /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+  },
+  {
+    type: "credit_card",
+    name: "Card number",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: (value) =>
+      /^\d+(?:([ -])\d+(?:\1\d+)*)?$/.test(value) && luhn(digits(value)),
+  },
+  {
+    type: "national_id",
+    name: "US SSN",
+    pattern: /\b\d{3}-\d{2}-\d{4}\b/g,
+    validate: (value, text, index) =>
+      validSsn(value) && standsAlone(value, text, index),
+  },
+  {
+    type: "national_id",
+    name: "UK National Insurance number",
+    pattern:
+      /\b[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g,
+  },
+  {
+    type: "national_id",
+    name: "Brazil CPF",
+    pattern: /\b\d{3}\.\d{3}\.\d{3}-\d{2}\b/g,
+    validate: (value, text, index) =>
+      validCpf(value) && standsAlone(value, text, index),
+  },
+  {
+    type: "ip_address",
+    name: "IPv4 address",
+    pattern: /\b(?:\d{1,3}\.){3}\d{1,3}\b/g,
+    validate: (value, text, index) =>
+      isIPv4(value) && standsAlone(value, text, index),
+  },
+  {
+    type: "ip_address",
+    name: "IPv6 address",
+    pattern: /(?:[0-9A-Fa-f]{0,4}:){2,7}[0-9A-Fa-f]{0,4}/g,
+    validate: (value, text, index) =>
+      isIPv6(value) &&
+      (value.match(/[0-9A-Fa-f]+/g)?.length ?? 0) >= 3 &&
+      !/[\w:]/.test(text[index - 1] ?? ""),
+  },
+  {
+    type: "phone",
+    name: "Phone number",
+    pattern:
+      /(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]?\d{2,5}){1,4}\b/g,
+    validate: (value, text, index) => {
+      const count = digits(value).length;
+      // Runs of digit groups are as often years, IDs or amounts as numbers,
+      // so only international, area-coded and North American layouts count.
+      const layout =
+        value.startsWith("+") ||
+        value.includes("(") ||
+        /^0\d{1,4}[ .-]\d/.test(value) ||
+        /^\d{3}([ .-])\d{3}\1\d{4}$/.test(value);
+      return (
+        count >= 10 &&
+        count <= 15 &&
+        layout &&
+        !/\w/.test(text[index - 1] ?? "")
+      );
+    },
+  },
+];
+
+/**
+ * PII in a text, of the kinds in `types`, in text order. Where matches of
+ * two rules overlap, the earlier rule's wins.
+ */
+export function detectPii(
+  text: string,
+  types: readonly PiiType[] = PII_TYPES,
+): PiiMatch[] {
+  const matches: PiiMatch[] = [];
+  const overlaps = (start: number, end: number) =>
+    matches.some((m) => start < m.end && m.start < end);
+  for (const rule of RULES) {
+    if (!types.includes(rule.type)) continue;
+    for (const match of text.matchAll(rule.pattern)) {
+      const value = match[rule.group ?? 0];
+      if (!value) continue;
+      const start =
+        match.index! + (rule.group ? match[0].lastIndexOf(value) : 0);
+      const end = start + value.length;
+      if (rule.validate && !rule.validate(value, text, start)) continue;
+      if (overlaps(start, end)) continue;
+      matches.push({ type: rule.type, rule: rule.name, start, end });
+    }
+  }
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/** Calls `visit` with each string in a value and its path within the row. */
+function visitText(
+  value: unknown,
+  path: string,
+  visit: (text: string, path: string) => void,
+) {
+  if (typeof value === "string") {
+    visit(value, path);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) => visitText(item, `${path}[${i}]`, visit));
+  } else if (value !== null && typeof value === "object") {
+    for (const [key, item] of Object.entries(value)) {
+      visitText(item, `${path}.${key}`, visit);
+    }
+  }
+}
+
+/** `value` with every string rewritten by `map`. */
+function mapText(value: unknown, map: (text: string) => string): unknown {
+  if (typeof value === "string") return map(value);
+  if (Array.isArray(value)) return value.map((item) => mapText(item, map));
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapText(item, map)]),
+    );
+  }
+  return value;
+}
+
+function scannedColumns(row: Row, options: PiiOptions): string[] {
+  return options.columns.length > 0
+    ? options.columns.filter((column) => column in row)
+    : Object.keys(row);
+}
+
+/**
+ * Key findings are hashed with. Phone numbers, card numbers and the like are
+ * few enough to enumerate, so a plain digest of one could be reversed.
+ */
+export function piiHashKey(): Promise<Buffer> {
+  return workspaceSecret("pii-hash");
+}
+
+/** What a finding is replaced by when redacting. */
+export function replacePii(
+  value: string,
+  type: PiiType,
+  replacement: PiiReplacement,
+  key: Buffer,
+  tokens: Partial<Record<PiiType, string>> = {},
+): string {
+  switch (replacement) {
+    case "token":
+      return tokens[type] ?? DEFAULT_PII_TOKENS[type];
+    case "hash":
+      return createHmac("sha256", key).update(value).digest("hex").slice(0, 16);
+    case "mask":
+      return value.replace(/[\p{L}\p{N}]/gu, "*");
+  }
+}
+
+/**
+ * `row` with the PII of the scanned columns replaced, or null when it has
+ * none. `key` is the one from `piiHashKey`.
+ */
+export function redactRow(
+  row: Row,
+  options: PiiOptions,
+  replacement: PiiReplacement,
+  key: Buffer,
+  tokens: Partial<Record<PiiType, string>> = {},
+): Row | null {
+  let changed = false;
+  const redact = (text: string) => {
+    const matches = detectPii(text, options.types);
+    if (matches.length === 0) return text;
+    changed = true;
+    let result = "";
+    let position = 0;
+    for (const match of matches) {
+      const value = text.slice(match.start, match.end);
+      result += text.slice(position, match.start);
+      result += replacePii(value, match.type, replacement, key, tokens);
+      position = match.end;
+    }
+    return result + text.slice(position);
+  };
+  const redacted = { ...row };
+  for (const column of scannedColumns(row, options)) {
+    redacted[column] = mapText(row[column], redact);
+  }
+  return changed ? redacted : null;
+}
+
+/** Normalized options, so equal scans share a key. */
+function canonicalOptions(input: unknown): PiiOptions {
+  const options = piiOptionsSchema.parse(input);
+  return {
+    columns: [...new Set(options.columns)].sort(),
+    types: PII_TYPES.filter((type) => options.types.includes(type)),
+  };
+}
+
+function scanKey(commit: string, options: PiiOptions): string {
+  const digest = createHash("sha256")
+    .update(stableStringify(options))
+    .digest("hex");
+  return `${commit}/${digest.slice(0, 16)}`;
+}
+
+async function scanVersion(
+  files: DatasetFile[],
+  options: PiiOptions,
+): Promise<PiiScan> {
+  const started = Date.now();
+  const columns = options.columns.length > 0 ? options.columns : undefined;
+  const byType = Object.fromEntries(
+    PII_TYPES.map((type) => [type, 0]),
+  ) as Record<PiiType, number>;
+  const byColumn = new Map<string, number>();
+  const rows: StoredRow[] = [];
+  let total = 0;
+  let findings = 0;
+
+  for (const [fileIndex, file] of files.entries()) {
+    let rowIndex = 0;
+    for await (const row of readRows(file, { columns })) {
+      const index = rowIndex++;
+      total++;
+      const stored: StoredRow = {
+        file: fileIndex,
+        row: index,
+        count: 0,
+        findings: [],
+      };
+      for (const column of scannedColumns(row, options)) {
+        visitText(row[column], column, (text, field) => {
+          for (const match of detectPii(text, options.types)) {
+            stored.count++;
+            byType[match.type]++;
+            byColumn.set(column, (byColumn.get(column) ?? 0) + 1);
+            if (stored.findings.length === ROW_FINDINGS) continue;
+            stored.findings.push({
+              ...match,
+              field,
+              value: text.slice(match.start, match.end),
+              before: text.slice(
+                Math.max(0, match.start - CONTEXT_CHARS),
+                match.start,
+              ),
+              after: text.slice(match.end, match.end + CONTEXT_CHARS),
+            });
+          }
+        });
+      }
+      if (stored.count === 0) continue;
+      findings += stored.count;
+      rows.push(stored);
+    }
+  }
+
+  return {
+    files: files.map((file) => file.path),
+    summary: {
+      rows: total,
+      flaggedRows: rows.length,
+      findings,
+      byType,
+      byColumn: [...byColumn]
+        .map(([column, count]) => ({ column, count }))
+        .sort((a, b) => b.count - a.count),
+      duration: Date.now() - started,
+    },
+    rows,
+  };
+}
+
+function generate(commit: Commit, options: PiiOptions): Promise<PiiRecord> {
+  return runJob("pii", scanKey(commit.id, options), () =>
+    createScan(commit, options),
+  );
+}
+
+async function createScan(
+  commit: Commit,
+  options: PiiOptions,
+): Promise<PiiRecord> {
+  let record: PiiRecord;
+  try {
+    const scan = await scanVersion(tabularFiles(commit.manifest), options);
+    const blob = await storeBlob(Buffer.from(JSON.stringify(scan)));
+    record = {
+      commit: commit.id,
+      options,
+      status: "ready",
+      hash: blob.hash,
+      error: null,
+      createdAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    record = {
+      commit: commit.id,
+      options,
+      status: "failed",
+      hash: null,
+      error: (error as Error).message,
+      createdAt: new Date().toISOString(),
+    };
+  }
+  await transact((db) => {
+    db.piiScans[scanKey(commit.id, options)] = record;
+  });
+  return record;
+}
+
+async function readScan(record: PiiRecord): Promise<PiiScan> {
+  return JSON.parse((await readBlobBuffer(record.hash!)).toString("utf8"));
+}
+
+/**
+ * PII report of the version at `ref` under `options`, with its flagged rows
+ * a page at a time. The first request for a version and options starts the
+ * scan and reports it running.
+ */
+export async function getPiiReport(
+  datasetId: string,
+  input: {
+    ref?: string;
+    options: unknown;
+    type?: PiiType;
+    offset: number;
+    limit: number;
+  },
+): Promise<PiiResult> {
+  const options = canonicalOptions(input.options);
+  const commit = await checkout(datasetId, input.ref);
+  const record = storedResult(
+    await query((db) => db.piiScans[scanKey(commit.id, options)]),
+  );
+  const result: PiiResult = {
+    commit: commit.id,
+    options,
+    status: "running",
+    summary: null,
+    rows: [],
+    total: 0,
+    error: null,
+  };
+  if (!record) {
+    generate(commit, options).catch((error) => console.error(error));
+    return result;
+  }
+  if (!record.hash) {
+    return { ...result, status: "failed", error: record.error };
+  }
+  const scan = await readScan(record);
+  const matching = scan.rows.filter(
+    (row) => !input.type || row.findings.some((f) => f.type === input.type),
+  );
+  return {
+    ...result,
+    status: "ready",
+    summary: scan.summary,
+    rows: matching
+      .slice(input.offset, input.offset + input.limit)
+      .map((row) => ({
+        path: scan.files[row.file],
+        row: row.row,
+        count: row.count,
+        findings: row.findings,
+      })),
+    total: matching.length,
+  };
+}
+
+/**
+ * Commits the scanned version with the PII of its flagged rows replaced.
+ * The scan must be of the branch head, since it names rows by position.
+ */
+export async function redactPii(
+  datasetId: string,
+  input: PiiRedactInput,
+): Promise<PiiRedactResult> {
+  const fields = piiRedactSchema.parse(input);
+  const options = canonicalOptions(fields.options);
+  const head = await checkout(datasetId, fields.branch);
+  if (head.id !== fields.commit) {
+    throw new ConflictError(
+      "The branch has moved since the scan; scan its head again",
+    );
+  }
+  const record = await query((db) => db.piiScans[scanKey(head.id, options)]);
+  if (!record?.hash) {
+    throw new ConflictError("Scan this version before redacting it");
+  }
+  const scan = await readScan(record);
+  if (scan.rows.length === 0) {
+    throw new HttpError(422, "The scan found nothing to redact");
+  }
+
+  const flagged = new Map<number, Set<number>>();
+  for (const { file, row } of scan.rows) {
+    let rows = flagged.get(file);
+    if (!rows) {
+      rows = new Set();
+      flagged.set(file, rows);
+    }
+    rows.add(row);
+  }
+
+  const key = await piiHashKey();
+  const add: { path: string; hash: string }[] = [];
+  let redacted = 0;
+  for (const [fileIndex, rows] of flagged) {
+    const path = scan.files[fileIndex];
+    const file = head.manifest.find((f) => f.path === path)!;
+    const replace = new Map<number, Row>();
+    let index = 0;
+    for await (const row of readRows(file)) {
+      const rowIndex = index++;
+      if (!rows.has(rowIndex)) continue;
+      const result = redactRow(
+        row,
+        options,
+        fields.replacement,
+        key,
+        fields.tokens,
+      );
+      if (result) replace.set(rowIndex, result);
+    }
+    if (replace.size === 0) continue;
+    const blob = await replaceRows(file, replace);
+    add.push({ path, hash: blob.hash });
+    redacted += replace.size;
+  }
+  const commit = await createCommit(datasetId, {
+    branch: fields.branch,
+    expectedHead: head.id,
+    message:
+      fields.message ||
+      `Redact PII in ${redacted} row${redacted === 1 ? "" : "s"}`,
+    add,
+  });
+  return { commit, rows: redacted };
+}
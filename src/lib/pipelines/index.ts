@@ -0,0 +1,267 @@
+import { randomUUID } from "crypto";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+
+import { ConflictError, HttpError, NotFoundError } from "@/lib/api";
+import { getDataset } from "@/lib/datasets";
+import { query, transact } from "@/lib/db";
+import {
+  convertRows,
+  detectFormat,
+  readRows,
+  type TabularFormat,
+} from "@/lib/formats";
+import { applySteps, compileSteps } from "@/lib/pipelines/steps";
+import {
+  pipelineInputSchema,
+  pipelineRunSchema,
+  type PipelineInput,
+  type PipelineRunInput,
+  type PipelineSpec,
+} from "@/lib/schemas";
+import { tabularFiles } from "@/lib/splits";
+import { storeBlob } from "@/lib/storage";
+import { checkout, createCommit, type Commit } from "@/lib/versioning";
+
+/**
+ * Transformation pipelines: named sequences of row steps saved with a
+ * dataset and run against any of its versions. A run rewrites the version's
+ * tabular files and commits them; the definition it ran is kept with the
+ * commit, so the output can be traced back to its source and steps.
+ */
+
+export interface Pipeline extends PipelineSpec {
+  id: string;
+  datasetId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** How a commit was made by a pipeline. */
+export interface PipelineRun {
+  /** The commit the run made. */
+  commit: string;
+  datasetId: string;
+  pipelineId: string;
+  /** The version the pipeline read. */
+  source: string;
+  /** The pipeline as it was run, even if it has been edited since. */
+  definition: PipelineSpec;
+  rowsIn: number;
+  rowsOut: number;
+  createdAt: string;
+}
+
+export interface PipelineRunResult {
+  commit: Commit;
+  run: PipelineRun;
+}
+
+/** Formats a pipeline definition can be exported in. */
+export type PipelineFileFormat = "yaml" | "json";
+
+/** Runs listed per dataset, newest first. */
+const MAX_LISTED_RUNS = 50;
+
+export function listPipelines(datasetId: string): Promise<Pipeline[]> {
+  return query((db) =>
+    Object.values(db.pipelines)
+      .filter((pipeline) => pipeline.datasetId === datasetId)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  );
+}
+
+export async function getPipeline(
+  datasetId: string,
+  pipelineId: string,
+): Promise<Pipeline> {
+  const pipeline = await query((db) => db.pipelines[pipelineId]);
+  if (pipeline?.datasetId !== datasetId) {
+    throw new NotFoundError(`Pipeline ${pipelineId} not found`);
+  }
+  return pipeline;
+}
+
+/**
+ * Creates a pipeline, or replaces the definition of `pipelineId`. Names are
+ * unique within a dataset.
+ */
+export async function savePipeline(
+  datasetId: string,
+  input: PipelineInput,
+  pipelineId?: string,
+): Promise<Pipeline> {
+  const fields = pipelineInputSchema.parse(input);
+  await getDataset(datasetId);
+  return transact((db) => {
+    const existing = pipelineId ? db.pipelines[pipelineId] : undefined;
+    if (pipelineId && existing?.datasetId !== datasetId) {
+      throw new NotFoundError(`Pipeline ${pipelineId} not found`);
+    }
+    const taken = Object.values(db.pipelines).some(
+      (p) =>
+        p.datasetId === datasetId && p.name === fields.name && p !== existing,
+    );
+    if (taken) {
+      throw new ConflictError(`A pipeline named ${fields.name} already exists`);
+    }
+    const now = new Date().toISOString();
+    const pipeline: Pipeline = {
+      id: existing?.id ?? randomUUID(),
+      datasetId,
+      ...fields,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    db.pipelines[pipeline.id] = pipeline;
+    return pipeline;
+  });
+}
+
+/** Deletes a pipeline; the runs it made keep their definitions. */
+export async function deletePipeline(
+  datasetId: string,
+  pipelineId: string,
+): Promise<void> {
+  await getPipeline(datasetId, pipelineId);
+  await transact((db) => {
+    delete db.pipelines[pipelineId];
+  });
+}
+
+/** Reads a pipeline definition written as YAML or JSON. */
+export function parsePipeline(text: string): PipelineInput {
+  let value: unknown;
+  try {
+    value = parseYaml(text);
+  } catch (error) {
+    throw new HttpError(
+      400,
+      `Not a YAML or JSON pipeline: ${(error as Error).message.split("\n")[0]}`,
+    );
+  }
+  return pipelineInputSchema.parse(value);
+}
+
+/** The definition of a pipeline as a file that can be imported again. */
+export function formatPipeline(
+  pipeline: PipelineSpec,
+  format: PipelineFileFormat,
+): string {
+  const { name, description, steps } = pipeline;
+  const definition = { name, description, steps };
+  return format === "yaml"
+    ? stringifyYaml(definition)
+    : `${JSON.stringify(definition, null, 2)}\n`;
+}
+
+export function listPipelineRuns(datasetId: string): Promise<PipelineRun[]> {
+  return query((db) =>
+    Object.values(db.pipelineRuns)
+      .filter((run) => run.datasetId === datasetId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, MAX_LISTED_RUNS),
+  );
+}
+
+/** Names of the pipelines that made the given commits, by commit id. */
+export function pipelineLineage(
+  commitIds: string[],
+): Promise<Record<string, string>> {
+  return query((db) =>
+    Object.fromEntries(
+      commitIds
+        .filter((id) => db.pipelineRuns[id])
+        .map((id) => [id, db.pipelineRuns[id].definition.name]),
+    ),
+  );
+}
+
+function withExtension(path: string, format: TabularFormat): string {
+  const slash = path.lastIndexOf("/");
+  const dot = path.lastIndexOf(".");
+  return `${dot > slash ? path.slice(0, dot) : path}.${format}`;
+}
+
+/**
+ * Runs a pipeline over the tabular files of the version at `ref` and commits
+ * the output to `branch`, in place of the files it was read from. Files no
+ * row survives are removed. The branch must not move during the run.
+ */
+export async function runPipeline(
+  datasetId: string,
+  pipelineId: string,
+  input: PipelineRunInput,
+): Promise<PipelineRunResult> {
+  const fields = pipelineRunSchema.parse(input);
+  const pipeline = await getPipeline(datasetId, pipelineId);
+  const head = await checkout(datasetId, fields.branch);
+  const source = fields.ref ? await checkout(datasetId, fields.ref) : head;
+  const steps = await compileSteps(pipeline.steps);
+  const last = pipeline.steps[pipeline.steps.length - 1];
+  const target = last.kind === "convert" ? last.format : null;
+
+  const onHead = new Set(head.manifest.map((file) => file.path));
+  const written = new Set<string>();
+  const add: { path: string; hash: string }[] = [];
+  const remove: string[] = [];
+  let rowsIn = 0;
+  let rowsOut = 0;
+  for (const file of tabularFiles(source.manifest)) {
+    let count = 0;
+    async function* lines(): AsyncGenerator<Buffer> {
+      for await (const row of readRows(file)) {
+        rowsIn++;
+        for (const output of applySteps(steps, row)) {
+          count++;
+          yield Buffer.from(`${JSON.stringify(output)}\n`);
+        }
+      }
+    }
+    // Rows are staged as JSONL so other formats can be written from them.
+    const staged = await storeBlob(lines());
+    rowsOut += count;
+    const format = target ?? detectFormat(file.path)!;
+    const path = target ? withExtension(file.path, target) : file.path;
+    if (path !== file.path || count === 0) {
+      if (onHead.has(file.path)) remove.push(file.path);
+    }
+    if (count === 0) continue;
+    if (written.has(path)) {
+      throw new ConflictError(`More than one file would be written to ${path}`);
+    }
+    written.add(path);
+    const blob =
+      format === "jsonl"
+        ? staged
+        : await convertRows({ path: `${path}.jsonl`, ...staged }, format);
+    add.push({ path, hash: blob.hash });
+  }
+
+  const commit = await createCommit(datasetId, {
+    branch: fields.branch,
+    expectedHead: head.id,
+    message:
+      fields.message ||
+      `Run pipeline ${pipeline.name} on ${source.id.slice(0, 12)}`,
+    add,
+    remove: remove.filter((path) => !written.has(path)),
+  });
+  const run: PipelineRun = {
+    commit: commit.id,
+    datasetId,
+    pipelineId,
+    source: source.id,
+    definition: {
+      name: pipeline.name,
+      description: pipeline.description,
+      steps: pipeline.steps,
+    },
+    rowsIn,
+    rowsOut,
+    createdAt: commit.createdAt,
+  };
+  await transact((db) => {
+    db.pipelineRuns[commit.id] = run;
+  });
+  return { commit, run };
+}
@@ -0,0 +1,201 @@
+import { HttpError } from "@/lib/api";
+import { hashRow, readRows, stableStringify, type Row } from "@/lib/formats";
+import { piiHashKey, redactRow } from "@/lib/pii";
+import type { PipelineStep } from "@/lib/schemas";
+import { tabularFiles } from "@/lib/splits";
+import { hashText, normalizeText } from "@/lib/text";
+import { checkout } from "@/lib/versioning";
+
+/**
+ * What each pipeline step does to a row. Steps are compiled once per run and
+ * keep their state across the files of a version, so duplicates are dropped
+ * and sample limits counted version-wide.
+ */
+
+/** A compiled step: the rows a row becomes, none to drop it. */
+export type RowStep = (row: Row) => Row[];
+
+/** Most rows a join reads into memory from the dataset it joins. */
+const MAX_JOIN_ROWS = 1_000_000;
+
+type StepOf<K extends PipelineStep["kind"]> = Extract<
+  PipelineStep,
+  { kind: K }
+>;
+
+/** A cell as text: strings as they are, null as empty, the rest as JSON. */
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function cellNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim()) return Number(value);
+  return NaN;
+}
+
+function filterStep(step: StepOf<"filter">): RowStep {
+  const pattern =
+    step.operator === "matches" ? new RegExp(step.value, "u") : null;
+  const bound = Number(step.value);
+  const keep = (value: unknown): boolean => {
+    switch (step.operator) {
+      case "equals":
+        return cellText(value) === step.value;
+      case "not_equals":
+        return cellText(value) !== step.value;
+      case "contains":
+        return cellText(value).includes(step.value);
+      case "matches":
+        return pattern!.test(cellText(value));
+      case "greater_than":
+        return cellNumber(value) > bound;
+      case "less_than":
+        return cellNumber(value) < bound;
+      // Delimited files have no nulls, only empty cells.
+      case "is_null":
+        return cellText(value) === "";
+      case "is_not_null":
+        return cellText(value) !== "";
+    }
+  };
+  return (row) => (keep(row[step.column]) ? [row] : []);
+}
+
+/** Columns are dropped by their names before any are renamed. */
+function mapStep(step: StepOf<"map">): RowStep {
+  const drop = new Set(step.drop);
+  const names = new Map(step.rename.map(({ from, to }) => [from, to]));
+  return (row) => [
+    Object.fromEntries(
+      Object.entries(row)
+        .filter(([column]) => !drop.has(column))
+        .map(([column, value]) => [names.get(column) ?? column, value]),
+    ),
+  ];
+}
+
+/** Keeps the first of each set of equal rows, across the version. */
+function dedupStep(step: StepOf<"dedup">): RowStep {
+  const seen = new Set<string>();
+  const key = (row: Row): unknown => {
+    const values =
+      step.columns.length > 0
+        ? step.columns.map((column) => row[column] ?? null)
+        : row;
+    if (!step.normalize) return values;
+    return JSON.parse(JSON.stringify(values), (_, value) =>
+      typeof value === "string" ? normalizeText(value) : value,
+    );
+  };
+  return (row) => {
+    const hash = hashRow(key(row));
+    if (seen.has(hash)) return [];
+    seen.add(hash);
+    return [row];
+  };
+}
+
+async function redactStep(step: StepOf<"redact">): Promise<RowStep> {
+  const options = { columns: step.columns, types: step.types };
+  const key = await piiHashKey();
+  return (row) => [redactRow(row, options, step.replacement, key) ?? row];
+}
+
+/**
+ * Keeps a row when a hash of it and the seed falls below the fraction, so a
+ * run keeps the same rows every time.
+ */
+function sampleStep(step: StepOf<"sample">): RowStep {
+  let kept = 0;
+  return (row) => {
+    if (step.limit !== null && kept >= step.limit) return [];
+    const draw = hashText(`${step.seed}:${stableStringify(row)}`) / 2 ** 32;
+    if (draw >= step.fraction) return [];
+    kept++;
+    return [row];
+  };
+}
+
+/**
+ * Reads every row of the joined version, by key. Rows match on the text of
+ * their keys; a joined column a row already has is added with a `_right`
+ * suffix.
+ */
+async function joinStep(step: StepOf<"join">): Promise<RowStep> {
+  const rightOn = step.rightOn || step.on;
+  const commit = await checkout(step.datasetId, step.ref || undefined);
+  const index = new Map<string, Row[]>();
+  let count = 0;
+  for (const file of tabularFiles(commit.manifest)) {
+    for await (const row of readRows(file)) {
+      if (++count > MAX_JOIN_ROWS) {
+        throw new HttpError(
+          422,
+          `The joined dataset has more than ${MAX_JOIN_ROWS.toLocaleString("en-US")} rows`,
+        );
+      }
+      const key = row[rightOn];
+      if (key === null || key === undefined) continue;
+      const values = { ...row };
+      delete values[rightOn];
+      const matches = index.get(cellText(key));
+      if (matches) matches.push(values);
+      else index.set(cellText(key), [values]);
+    }
+  }
+  return (row) => {
+    const key = row[step.on];
+    const matches =
+      key === null || key === undefined ? undefined : index.get(cellText(key));
+    if (!matches) return step.how === "left" ? [row] : [];
+    return matches.map((match) => {
+      const joined = { ...row };
+      for (const [column, value] of Object.entries(match)) {
+        joined[column in row ? `${column}_right` : column] = value;
+      }
+      return joined;
+    });
+  };
+}
+
+/** Prepares steps to run; a conversion changes the output, not the rows. */
+export async function compileSteps(steps: PipelineStep[]): Promise<RowStep[]> {
+  const compiled: RowStep[] = [];
+  for (const step of steps) {
+    switch (step.kind) {
+      case "filter":
+        compiled.push(filterStep(step));
+        break;
+      case "map":
+        compiled.push(mapStep(step));
+        break;
+      case "dedup":
+        compiled.push(dedupStep(step));
+        break;
+      case "redact":
+        compiled.push(await redactStep(step));
+        break;
+      case "sample":
+        compiled.push(sampleStep(step));
+        break;
+      case "join":
+        compiled.push(await joinStep(step));
+        break;
+      case "convert":
+        break;
+    }
+  }
+  return compiled;
+}
+
+/** The rows one row becomes after every step. */
+export function applySteps(steps: RowStep[], row: Row): Row[] {
+  let rows = [row];
+  for (const step of steps) {
+    rows = rows.flatMap(step);
+    if (rows.length === 0) break;
+  }
+  return rows;
+}
@@ -0,0 +1,193 @@
+import type { ZodError } from "zod";
+
+import { HttpError } from "@/lib/api";
+import { query, transact } from "@/lib/db";
+import { readRows, type RowSource } from "@/lib/formats";
+import {
+  LENGTH_RATIO_BUCKETS,
+  PAIR_ISSUES,
+  lengthRatioBucket,
+  pairIssues,
+  preferencePairSchema,
+  responseText,
+  type PairIssue,
+} from "@/lib/formats/preference";
+import { runJob, storedResult } from "@/lib/jobs";
+import { readBlobBuffer, storeBlob } from "@/lib/storage";
+
+/**
+ * Whole-file statistics for preference datasets. Every row is validated
+ * against `preferencePairSchema` and checked for degenerate pairs, and the
+ * lengths of chosen and rejected responses are compared, since reward models
+ * readily learn "longer is better" from data where chosen responses are
+ * systematically longer. A file's statistics are computed once, on first
+ * request; the result is stored as a JSON blob and recorded against the
+ * file's hash, so every version and dataset holding the file shares it.
+ */
+
+export interface InvalidPair {
+  /** 1-based row number. */
+  row: number;
+  error: string;
+}
+
+export interface FlaggedPair {
+  row: number;
+  issues: PairIssue[];
+}
+
+export interface PreferenceStats {
+  path: string;
+  rows: number;
+  validPairs: number;
+  /** The first rows that don't match the preference schema. */
+  invalid: InvalidPair[];
+  invalidCount: number;
+  /** The first valid pairs with issues. */
+  flagged: FlaggedPair[];
+  issueCounts: Record<PairIssue, number>;
+  /** Pairs with both scores. */
+  scoredPairs: number;
+  length: {
+    chosenMean: number;
+    rejectedMean: number;
+    /** Share of pairs whose chosen response is longer than the rejected one. */
+    chosenLongerShare: number;
+    /** Pairs per `LENGTH_RATIO_BUCKETS` entry. */
+    ratioBuckets: { label: string; count: number }[];
+  };
+}
+
+export interface PreferenceStatsRecord {
+  /** Hash of the file the statistics are of. */
+  source: string;
+  status: "ready" | "failed";
+  /** Blob of the file's `PreferenceStats`. */
+  hash: string | null;
+  error: string | null;
+  createdAt: string;
+}
+
+const MAX_LISTED = 1000;
+
+/** Describes the first problem zod found with a row. */
+function describeIssue(error: ZodError): string {
+  const [issue] = error.issues;
+  return issue.path.length > 0
+    ? `${issue.path.join(".")}: ${issue.message}`
+    : issue.message;
+}
+
+/** Validates every row of `file` and summarises its pairs. */
+async function computeStats(file: RowSource): Promise<PreferenceStats> {
+  const stats: PreferenceStats = {
+    path: file.path,
+    rows: 0,
+    validPairs: 0,
+    invalid: [],
+    invalidCount: 0,
+    flagged: [],
+    issueCounts: Object.fromEntries(
+      PAIR_ISSUES.map((issue) => [issue, 0]),
+    ) as Record<PairIssue, number>,
+    scoredPairs: 0,
+    length: {
+      chosenMean: 0,
+      rejectedMean: 0,
+      chosenLongerShare: 0,
+      ratioBuckets: LENGTH_RATIO_BUCKETS.map(({ label }) => ({
+        label,
+        count: 0,
+      })),
+    },
+  };
+  let chosenChars = 0;
+  let rejectedChars = 0;
+  let chosenLonger = 0;
+
+  for await (const row of readRows(file)) {
+    stats.rows++;
+    const parsed = preferencePairSchema.safeParse(row);
+    if (!parsed.success) {
+      stats.invalidCount++;
+      if (stats.invalid.length < MAX_LISTED) {
+        stats.invalid.push({
+          row: stats.rows,
+          error: describeIssue(parsed.error),
+        });
+      }
+      continue;
+    }
+    const pair = parsed.data;
+    stats.validPairs++;
+    if (
+      typeof pair.score_chosen === "number" &&
+      typeof pair.score_rejected === "number"
+    ) {
+      stats.scoredPairs++;
+    }
+
+    const issues = pairIssues(pair);
+    for (const issue of issues) stats.issueCounts[issue]++;
+    if (issues.length > 0 && stats.flagged.length < MAX_LISTED) {
+      stats.flagged.push({ row: stats.rows, issues });
+    }
+
+    const chosen = responseText(pair.chosen).length;
+    const rejected = responseText(pair.rejected).length;
+    chosenChars += chosen;
+    rejectedChars += rejected;
+    if (chosen > rejected) chosenLonger++;
+    stats.length.ratioBuckets[lengthRatioBucket(chosen, rejected)].count++;
+  }
+
+  if (stats.validPairs > 0) {
+    stats.length.chosenMean = chosenChars / stats.validPairs;
+    stats.length.rejectedMean = rejectedChars / stats.validPairs;
+    stats.length.chosenLongerShare = chosenLonger / stats.validPairs;
+  }
+  return stats;
+}
+
+async function createStats(file: RowSource): Promise<PreferenceStatsRecord> {
+  let record: PreferenceStatsRecord;
+  try {
+    const stats = await computeStats(file);
+    const blob = await storeBlob(Buffer.from(JSON.stringify(stats)));
+    record = {
+      source: file.hash,
+      status: "ready",
+      hash: blob.hash,
+      error: null,
+      createdAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    record = {
+      source: file.hash,
+      status: "failed",
+      hash: null,
+      error: (error as Error).message,
+      createdAt: new Date().toISOString(),
+    };
+  }
+  await transact((db) => {
+    db.preferenceStats[record.source] = record;
+  });
+  return record;
+}
+
+/** The statistics of `file`, computing them first if it has none stored. */
+export async function preferenceStats(
+  file: RowSource,
+): Promise<PreferenceStats> {
+  const record =
+    storedResult(await query((db) => db.preferenceStats[file.hash])) ??
+    (await runJob("preference-stats", file.hash, () => createStats(file)));
+  if (!record.hash) {
+    throw new HttpError(422, record.error ?? "The pairs could not be read");
+  }
+  const stats: PreferenceStats = JSON.parse(
+    (await readBlobBuffer(record.hash)).toString("utf8"),
+  );
+  return { ...stats, path: file.path };
+}
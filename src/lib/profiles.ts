@@ -0,0 +1,425 @@
+import { createHash } from "crypto";
+
+import { query, transact, type Database } from "@/lib/db";
+import { readRows, stableStringify, type RowSource } from "@/lib/formats";
+import { runJob, storedResult } from "@/lib/jobs";
+import { tabularFiles } from "@/lib/splits";
+import { readBlobBuffer, storeBlob } from "@/lib/storage";
+import { checkout, type Commit } from "@/lib/versioning";
+
+/**
+ * Per-column statistics of a dataset version: null rate, distinct count,
+ * range, most common values, and string and token length histograms. A
+ * version is profiled once, in the background, on first request; the result
+ * is stored as a JSON blob and recorded against the commit.
+ *
+ * Every statistic is computed in one streaming pass with bounded memory.
+ * Value counts stop being exact past `MAX_TRACKED` distinct values, and the
+ * distinct count is then a HyperLogLog estimate.
+ */
+
+export const VALUE_KINDS = [
+  "string",
+  "integer",
+  "float",
+  "boolean",
+  "list",
+  "struct",
+] as const;
+
+export type ValueKind = (typeof VALUE_KINDS)[number];
+
+export interface HistogramBucket {
+  label: string;
+  count: number;
+}
+
+export interface LengthStats {
+  mean: number;
+  max: number;
+  /** Values by length, in power-of-two buckets (0, 1, 2–3, 4–7, …). */
+  histogram: HistogramBucket[];
+}
+
+export interface ColumnProfile {
+  name: string;
+  /** Non-null values of each kind. */
+  kinds: Partial<Record<ValueKind, number>>;
+  /** Rows where the column is null or missing. */
+  nulls: number;
+  nullRate: number;
+  distinct: number;
+  /** False when `distinct` is an estimate. */
+  distinctExact: boolean;
+  /** Numeric range when the column holds numbers, else lexicographic. */
+  min: number | string | null;
+  max: number | string | null;
+  mean: number | null;
+  /** Most common values, serialized as JSON unless they are strings. */
+  top: { value: string; count: number }[];
+  /** False when `top` counts may be low. */
+  topExact: boolean;
+  /** Characters per string value; null for numeric or non-text columns. */
+  lengths: LengthStats | null;
+  /** Approximate tokens per string value. */
+  tokens: LengthStats | null;
+}
+
+export interface FileProfile {
+  path: string;
+  hash: string;
+  rows: number;
+  columns: ColumnProfile[];
+  /** Why the file could not be read to the end; its profile is partial. */
+  error: string | null;
+}
+
+export interface VersionProfile {
+  commit: string;
+  rows: number;
+  files: FileProfile[];
+  /** Wall time spent profiling, in milliseconds. */
+  duration: number;
+}
+
+export interface ProfileRecord {
+  commit: string;
+  status: "ready" | "failed";
+  hash: string | null;
+  size: number | null;
+  error: string | null;
+  createdAt: string;
+}
+
+export interface ProfileResult {
+  commit: string;
+  status: "running" | "ready" | "failed";
+  profile: VersionProfile | null;
+  error: string | null;
+}
+
+const TOP_VALUES = 10;
+/** Distinct values counted exactly per column before the rarest are dropped. */
+const MAX_TRACKED = 20_000;
+/** Longer values are counted by their prefix. */
+const MAX_VALUE_CHARS = 200;
+/** HyperLogLog register index bits: 4096 registers, about 1.6% error. */
+const HLL_BITS = 12;
+const HLL_REGISTERS = 1 << HLL_BITS;
+
+/**
+ * Words, numbers and single punctuation marks: the pre-tokenization step of
+ * BPE tokenizers, which subword tokens refine by a roughly constant factor.
+ */
+const TOKEN_PATTERN = /[\p{L}\p{M}]+|\p{N}+|[^\s\p{L}\p{M}\p{N}]/gu;
+
+/** Numbers written as text, as every CSV value is. */
+const NUMERIC_TEXT = /^\s*-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?\s*$/;
+
+export interface LengthAccumulator {
+  buckets: number[];
+  sum: number;
+  max: number;
+  count: number;
+}
+
+interface ColumnAccumulator {
+  name: string;
+  values: number;
+  kinds: Partial<Record<ValueKind, number>>;
+  numbers: { count: number; sum: number; min: number; max: number };
+  strings: { min: string | null; max: string | null; empty: number };
+  counts: Map<string, number>;
+  /** Whether `counts` has dropped values or merged long ones. */
+  approximate: boolean;
+  registers: Uint8Array;
+  lengths: LengthAccumulator;
+  tokens: LengthAccumulator;
+}
+
+export function lengthAccumulator(): LengthAccumulator {
+  return { buckets: [], sum: 0, max: 0, count: 0 };
+}
+
+function columnAccumulator(name: string): ColumnAccumulator {
+  return {
+    name,
+    values: 0,
+    kinds: {},
+    numbers: { count: 0, sum: 0, min: Infinity, max: -Infinity },
+    strings: { min: null, max: null, empty: 0 },
+    counts: new Map(),
+    approximate: false,
+    registers: new Uint8Array(HLL_REGISTERS),
+    lengths: lengthAccumulator(),
+    tokens: lengthAccumulator(),
+  };
+}
+
+function valueKind(value: unknown): ValueKind {
+  if (typeof value === "string") return "string";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "float";
+  }
+  if (typeof value === "boolean") return "boolean";
+  return Array.isArray(value) ? "list" : "struct";
+}
+
+function countTokens(text: string): number {
+  let count = 0;
+  for (const _ of text.matchAll(TOKEN_PATTERN)) count++;
+  return count;
+}
+
+/** 0 for 0, then ⌊log2(n)⌋ + 1, so bucket `b` holds [2^(b-1), 2^b). */
+function lengthBucket(length: number): number {
+  return length === 0 ? 0 : 32 - Math.clz32(length);
+}
+
+export function addLength(accumulator: LengthAccumulator, length: number) {
+  const bucket = lengthBucket(length);
+  accumulator.buckets[bucket] = (accumulator.buckets[bucket] ?? 0) + 1;
+  accumulator.sum += length;
+  accumulator.max = Math.max(accumulator.max, length);
+  accumulator.count++;
+}
+
+function addToSketch(registers: Uint8Array, key: string) {
+  const digest = createHash("md5").update(key).digest();
+  const index = digest.readUInt32BE(0) >>> (32 - HLL_BITS);
+  const rank = Math.clz32(digest.readUInt32BE(4)) + 1;
+  if (rank > registers[index]) registers[index] = rank;
+}
+
+function estimateDistinct(registers: Uint8Array): number {
+  let sum = 0;
+  let zeros = 0;
+  for (const register of registers) {
+    sum += 2 ** -register;
+    if (register === 0) zeros++;
+  }
+  const m = HLL_REGISTERS;
+  const estimate = ((0.7213 / (1 + 1.079 / m)) * m * m) / sum;
+  // Small cardinalities are counted more accurately from the empty registers.
+  return Math.round(
+    estimate <= 2.5 * m && zeros > 0 ? m * Math.log(m / zeros) : estimate,
+  );
+}
+
+function addNumber(column: ColumnAccumulator, value: number) {
+  const { numbers } = column;
+  numbers.count++;
+  numbers.sum += value;
+  numbers.min = Math.min(numbers.min, value);
+  numbers.max = Math.max(numbers.max, value);
+}
+
+function addValue(column: ColumnAccumulator, value: unknown) {
+  column.values++;
+  const kind = valueKind(value);
+  column.kinds[kind] = (column.kinds[kind] ?? 0) + 1;
+
+  let key: string;
+  if (typeof value === "string") {
+    key = value;
+    const { strings } = column;
+    if (strings.min === null || value < strings.min) strings.min = value;
+    if (strings.max === null || value > strings.max) strings.max = value;
+    if (value === "") strings.empty++;
+    else if (NUMERIC_TEXT.test(value)) addNumber(column, Number(value));
+    addLength(column.lengths, value.length);
+    addLength(column.tokens, countTokens(value));
+  } else {
+    key = stableStringify(value);
+    if (typeof value === "number") addNumber(column, value);
+  }
+
+  addToSketch(column.registers, key);
+  if (key.length > MAX_VALUE_CHARS) {
+    key = `${key.slice(0, MAX_VALUE_CHARS)}…`;
+    column.approximate = true;
+  }
+  const { counts } = column;
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+  if (counts.size > MAX_TRACKED) {
+    // Keep the more common half; values seen later start counting from zero.
+    const kept = [...counts]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_TRACKED / 2);
+    column.counts = new Map(kept);
+    column.approximate = true;
+  }
+}
+
+export function lengthStats(
+  accumulator: LengthAccumulator,
+): LengthStats | null {
+  if (accumulator.count === 0) return null;
+  const histogram: HistogramBucket[] = [];
+  for (let bucket = 0; bucket < accumulator.buckets.length; bucket++) {
+    const low = bucket === 0 ? 0 : 2 ** (bucket - 1);
+    const high = bucket === 0 ? 0 : 2 ** bucket - 1;
+    histogram.push({
+      label: low === high ? String(low) : `${low}–${high}`,
+      count: accumulator.buckets[bucket] ?? 0,
+    });
+  }
+  return {
+    mean: accumulator.sum / accumulator.count,
+    max: accumulator.max,
+    histogram,
+  };
+}
+
+function truncate(value: string | null): string | null {
+  return value && value.length > MAX_VALUE_CHARS
+    ? `${value.slice(0, MAX_VALUE_CHARS)}…`
+    : value;
+}
+
+function columnProfile(column: ColumnAccumulator, rows: number): ColumnProfile {
+  const { numbers, strings } = column;
+  const nulls = rows - column.values;
+  // Numeric when every value is a number or numeric text, blanks aside.
+  const numeric =
+    numbers.count > 0 && numbers.count === column.values - strings.empty;
+  return {
+    name: column.name,
+    kinds: column.kinds,
+    nulls,
+    nullRate: rows > 0 ? nulls / rows : 0,
+    distinct: column.approximate
+      ? estimateDistinct(column.registers)
+      : column.counts.size,
+    distinctExact: !column.approximate,
+    min: numeric ? numbers.min : truncate(strings.min),
+    max: numeric ? numbers.max : truncate(strings.max),
+    mean: numeric ? numbers.sum / numbers.count : null,
+    top: [...column.counts]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_VALUES)
+      .map(([value, count]) => ({ value, count })),
+    topExact: !column.approximate,
+    lengths: numeric ? null : lengthStats(column.lengths),
+    tokens: numeric ? null : lengthStats(column.tokens),
+  };
+}
+
+async function profileFile(file: RowSource): Promise<FileProfile> {
+  const columns = new Map<string, ColumnAccumulator>();
+  let rows = 0;
+  let error: string | null = null;
+  try {
+    for await (const row of readRows(file)) {
+      rows++;
+      for (const [name, value] of Object.entries(row)) {
+        if (value === null || value === undefined) continue;
+        let column = columns.get(name);
+        if (!column) {
+          column = columnAccumulator(name);
+          columns.set(name, column);
+        }
+        addValue(column, value);
+      }
+    }
+  } catch (cause) {
+    error = (cause as Error).message;
+  }
+  return {
+    path: file.path,
+    hash: file.hash,
+    rows,
+    columns: [...columns.values()].map((column) => columnProfile(column, rows)),
+    error,
+  };
+}
+
+function generate(commit: Commit): Promise<ProfileRecord> {
+  return runJob("profile", commit.id, () => createProfile(commit));
+}
+
+async function createProfile(commit: Commit): Promise<ProfileRecord> {
+  const started = Date.now();
+  let record: ProfileRecord;
+  let rows = 0;
+  try {
+    const files: FileProfile[] = [];
+    for (const file of tabularFiles(commit.manifest)) {
+      files.push(await profileFile(file));
+    }
+    const profile: VersionProfile = {
+      commit: commit.id,
+      rows: files.reduce((sum, file) => sum + file.rows, 0),
+      files,
+      duration: Date.now() - started,
+    };
+    rows = profile.rows;
+    const blob = await storeBlob(Buffer.from(JSON.stringify(profile)));
+    record = {
+      commit: commit.id,
+      status: "ready",
+      hash: blob.hash,
+      size: blob.size,
+      error: null,
+      createdAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    record = {
+      commit: commit.id,
+      status: "failed",
+      hash: null,
+      size: null,
+      error: (error as Error).message,
+      createdAt: new Date().toISOString(),
+    };
+  }
+  await transact((db) => {
+    db.profiles[commit.id] = record;
+    if (record.status === "ready") setRowCount(db, commit, rows);
+  });
+  return record;
+}
+
+/** Sizes a dataset in rows when `commit` is the head of its default branch. */
+function setRowCount(db: Database, commit: Commit, rows: number) {
+  const dataset = db.datasets.find((d) => d.id === commit.datasetId);
+  const head = db.refs.find(
+    (ref) =>
+      ref.datasetId === commit.datasetId && ref.name === dataset?.defaultBranch,
+  );
+  if (dataset && head?.commitId === commit.id) dataset.rowCount = rows;
+}
+
+/**
+ * Profiles a new commit to a default branch in the background, which also
+ * counts the rows the dataset is listed with.
+ */
+export async function scheduleProfile(commit: Commit): Promise<void> {
+  if (storedResult(await query((db) => db.profiles[commit.id]))) return;
+  await generate(commit);
+}
+
+/**
+ * The profile of the version at `ref` (the default branch if omitted). The
+ * first request for a version starts profiling it and reports it running,
+ * and so does a request after profiling it failed a while ago.
+ */
+export async function getProfile(
+  datasetId: string,
+  ref?: string,
+): Promise<ProfileResult> {
+  const commit = await checkout(datasetId, ref);
+  const record = storedResult(await query((db) => db.profiles[commit.id]));
+  if (!record) {
+    generate(commit).catch((error) => console.error(error));
+    return { commit: commit.id, status: "running", profile: null, error: null };
+  }
+  return {
+    commit: commit.id,
+    status: record.status,
+    profile: record.hash
+      ? JSON.parse((await readBlobBuffer(record.hash)).toString("utf8"))
+      : null,
+    error: record.error,
+  };
+}
@@ -0,0 +1,709 @@
+import { z } from "zod";
+
+// Request schemas shared by the route handlers and the client-side forms.
+// Keep this module free of server-only imports.
+
+/**
+ * What a dataset holds. Typed datasets get purpose-built views and checks on
+ * top of the generic file and row views.
+ */
+export const DATASET_TYPES = ["generic", "preference"] as const;
+
+export const DATASET_TYPE_LABELS: Record<DatasetType, string> = {
+  generic: "Generic",
+  preference: "Preference pairs",
+};
+
+export const datasetInputSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(100)
+    .regex(
+      /^[\w.-]+$/,
+      "Use letters, numbers, dots, dashes and underscores only",
+    ),
+  description: z.string().trim().max(2000).optional(),
+  owner: z.string().trim().min(1, "Owner is required").max(100),
+  type: z.enum(DATASET_TYPES).optional(),
+  /** Tokenizer that token counts of the dataset use. */
+  tokenizerId: z.string().uuid().nullable().optional(),
+});
+
+export const datasetUpdateSchema = datasetInputSchema.partial();
+
+export type DatasetType = (typeof DATASET_TYPES)[number];
+export type DatasetInput = z.infer<typeof datasetInputSchema>;
+export type DatasetUpdate = z.infer<typeof datasetUpdateSchema>;
+
+export const tokenizerInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+});
+
+export type TokenizerInput = z.infer<typeof tokenizerInputSchema>;
+
+/** A relative, slash-separated path for a file inside a dataset. */
+export const datasetPathSchema = z
+  .string()
+  .trim()
+  .min(1, "Path is required")
+  .max(1024)
+  .transform((value) => value.replace(/\\/g, "/").replace(/^\/+/, ""))
+  .refine(
+    (value) =>
+      value.split("/").every((part) => part && part !== ".." && part !== "."),
+    "Path must not contain empty, '.' or '..' segments",
+  );
+
+const blobHashSchema = z
+  .string()
+  .regex(/^[0-9a-f]{64}$/, "Expected a SHA-256 hex digest");
+
+const manifestEntrySchema = z.object({
+  path: datasetPathSchema,
+  hash: blobHashSchema,
+});
+
+export const refNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Name is required")
+  .max(100)
+  .regex(
+    /^[\w][\w.-]*$/,
+    "Use letters, numbers, dots, dashes and underscores only",
+  );
+
+/** Ways a version can be divided into splits; see `@/lib/splits`. */
+export const SPLIT_METHODS = [
+  "files",
+  "random",
+  "stratified",
+  "grouped",
+] as const;
+
+export const splitSpecSchema = z
+  .object({
+    method: z.enum(SPLIT_METHODS),
+    splits: z
+      .array(
+        z.object({
+          name: z
+            .string()
+            .trim()
+            .min(1, "Name is required")
+            .max(64)
+            .regex(/^\w+$/, "Use letters, digits and underscores only"),
+          /** Files of the split, for `files`. */
+          files: z.array(datasetPathSchema).default([]),
+          /** Share of rows, for the rule methods. */
+          percent: z.coerce.number().min(0).max(100).default(0),
+        }),
+      )
+      .min(1, "Define at least one split")
+      .max(20),
+    /** Files whose rows the rule methods divide; all tabular files if empty. */
+    sources: z.array(datasetPathSchema).default([]),
+    seed: z.coerce
+      .number()
+      .int()
+      .min(0)
+      .max(2 ** 31 - 1)
+      .default(0),
+    /** Column stratified on (`stratified`) or kept together (`grouped`). */
+    column: z.string().trim().max(200).optional(),
+    /** Column whose distribution is charted per split. */
+    labelColumn: z.string().trim().max(200).optional(),
+  })
+  .superRefine((spec, ctx) => {
+    const names = new Set<string>();
+    spec.splits.forEach((split, index) => {
+      if (names.has(split.name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["splits", index, "name"],
+          message: `${split.name} is defined twice`,
+        });
+      }
+      names.add(split.name);
+    });
+    if (spec.method === "files") {
+      const seen = new Set<string>();
+      for (const file of spec.splits.flatMap((split) => split.files)) {
+        if (seen.has(file)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["splits"],
+            message: `${file} is in more than one split`,
+          });
+        }
+        seen.add(file);
+      }
+      return;
+    }
+    const total = spec.splits.reduce((sum, split) => sum + split.percent, 0);
+    if (Math.abs(total - 100) > 1e-6) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["splits"],
+        message: `Percentages add up to ${total}, not 100`,
+      });
+    }
+    if (spec.method !== "random" && !spec.column) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["column"],
+        message: `A ${spec.method} split needs a column`,
+      });
+    }
+  });
+
+export const commitInputSchema = z.object({
+  branch: refNameSchema.optional(),
+  message: z.string().trim().min(1, "Commit message is required").max(5000),
+  author: z.string().trim().min(1).max(100).optional(),
+  expectedHead: blobHashSchema.optional(),
+  add: z.array(manifestEntrySchema).default([]),
+  remove: z.array(datasetPathSchema).default([]),
+  /** Replaces the whole tree instead of applying `add`/`remove` to it. */
+  manifest: z.array(manifestEntrySchema).optional(),
+  /** Split definition of the new version; the parent's if omitted. */
+  splits: splitSpecSchema.nullable().optional(),
+});
+
+export const refInputSchema = z.object({
+  name: refNameSchema,
+  kind: z.enum(["branch", "tag"]).default("branch"),
+  from: z.string().trim().min(1).optional(),
+});
+
+export const ingestInputSchema = z.object({
+  uploadId: z.string().uuid(),
+  /** Commit the valid lines and set malformed ones aside instead of failing. */
+  quarantine: z.boolean().default(false),
+  /** Only validate; nothing is committed. */
+  dryRun: z.boolean().default(false),
+  message: z.string().trim().min(1).max(5000).optional(),
+  author: z.string().trim().min(1).max(100).optional(),
+});
+
+/** Column types a CSV column can be converted to. */
+export const CSV_COLUMN_TYPES = [
+  "string",
+  "int64",
+  "double",
+  "bool",
+  "date32[day]",
+  "timestamp[ms, tz=UTC]",
+] as const;
+
+export const CSV_ENCODINGS = [
+  "utf-8",
+  "utf-16le",
+  "utf-16be",
+  "windows-1252",
+  "iso-8859-1",
+] as const;
+
+/** How a delimited file is laid out; everything the sniffer guesses. */
+export const csvDialectSchema = z.object({
+  delimiter: z.string().length(1, "Use a single character"),
+  quote: z.string().length(1, "Use a single character"),
+  encoding: z.enum(CSV_ENCODINGS),
+  header: z.boolean(),
+});
+
+export const csvColumnSchema = z.object({
+  name: z.string().trim().min(1, "Column name is required").max(200),
+  type: z.enum(CSV_COLUMN_TYPES),
+  include: z.boolean(),
+});
+
+/** Dialect fields left out are sniffed from the start of the file. */
+export const csvPreviewSchema = csvDialectSchema.partial().extend({
+  uploadId: z.string().uuid(),
+});
+
+export const csvImportSchema = csvDialectSchema.extend({
+  uploadId: z.string().uuid(),
+  path: datasetPathSchema.refine(
+    (value) => value.endsWith(".parquet"),
+    "The converted file must end in .parquet",
+  ),
+  message: z.string().trim().max(5000).optional(),
+  columns: z
+    .array(csvColumnSchema)
+    .refine(
+      (columns) => columns.some((column) => column.include),
+      "Include at least one column",
+    )
+    .superRefine((columns, context) => {
+      const seen = new Set<string>();
+      columns.forEach((column, index) => {
+        if (!column.include) return;
+        if (seen.has(column.name)) {
+          context.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [index, "name"],
+            message: "Column names must be unique",
+          });
+        }
+        seen.add(column.name);
+      });
+    }),
+});
+
+export const webDatasetExportSchema = z.object({
+  ref: z.string().trim().min(1).optional(),
+  /** Shards are named `<name>-000000.tar` and the shard list `<name>.json`. */
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(100)
+    .regex(/^[\w-]+$/, "Use letters, digits, - and _"),
+  maxShardMegabytes: z.coerce
+    .number()
+    .int("Use a whole number of megabytes")
+    .min(1, "Shards must be at least 1 MB")
+    .max(16384, "Shards can be at most 16 GB"),
+});
+
+export const splitsInputSchema = z.object({
+  branch: refNameSchema.optional(),
+  /** Drops the definition, so splits are read from file names again. */
+  splits: splitSpecSchema.nullable(),
+  message: z.string().trim().max(5000).optional(),
+  /** Only report the resulting splits; nothing is committed. */
+  dryRun: z.boolean().default(false),
+});
+
+export const huggingFaceExportSchema = z.object({
+  ref: z.string().trim().min(1).optional(),
+});
+
+export const huggingFaceImportSchema = z.object({
+  /** Staged uploads of the folder's files, by path relative to its root. */
+  files: z
+    .array(z.object({ uploadId: z.string().uuid(), path: datasetPathSchema }))
+    .min(1, "The folder is empty")
+    .max(10_000),
+  message: z.string().trim().max(5000).optional(),
+});
+
+/** What near-duplicate detection compares: word or character n-grams. */
+export const DEDUP_UNITS = ["words", "characters"] as const;
+
+export const dedupOptionsSchema = z.object({
+  /** Text columns to compare; every text value of a row if empty. */
+  columns: z.array(z.string().trim().min(1).max(200)).max(100).default([]),
+  /** Estimated Jaccard similarity at which two rows are near duplicates. */
+  threshold: z.coerce
+    .number()
+    .min(0.5, "Use a threshold of at least 0.5")
+    .max(1, "Use a threshold of at most 1")
+    .default(0.8),
+  unit: z.enum(DEDUP_UNITS).default("words"),
+  /** Length of the n-grams rows are compared by, in `unit`s. */
+  ngram: z.coerce.number().int().min(1).max(20).default(5),
+});
+
+export const dedupApplySchema = z.object({
+  /** Version the scan ran on; it must still be the head of `branch`. */
+  commit: blobHashSchema,
+  options: dedupOptionsSchema,
+  branch: refNameSchema.optional(),
+  /** Member to keep, by index, in the clusters to resolve. */
+  resolutions: z
+    .array(
+      z.object({
+        cluster: z.number().int().min(0),
+        keep: z.number().int().min(0),
+      }),
+    )
+    .default([]),
+  /** Resolve every cluster, keeping the first member where none is chosen. */
+  all: z.boolean().default(false),
+  message: z.string().trim().max(5000).optional(),
+});
+
+export const contaminationInputSchema = z.object({
+  /** Training version to check; the default branch if omitted. */
+  ref: z.string().trim().min(1).optional(),
+  evals: z
+    .array(
+      z.object({
+        datasetId: z.string().uuid(),
+        ref: z.string().trim().min(1).optional(),
+      }),
+    )
+    .min(1, "Choose at least one eval dataset")
+    .max(20),
+  /** Length, in words, of the n-grams compared. */
+  ngram: z.coerce
+    .number()
+    .int()
+    .min(8, "Use n-grams of at least 8 words")
+    .max(50, "Use n-grams of at most 50 words")
+    .default(13),
+  /**
+   * Share of an eval example's n-grams that must occur in the training data
+   * for it to count as contaminated; 0 flags any overlap.
+   */
+  threshold: z.coerce.number().min(0).max(1).default(0),
+  /** Eval columns to compare; every text value of a row if empty. */
+  columns: z.array(z.string().trim().min(1).max(200)).max(100).default([]),
+});
+
+export const PII_TYPES = [
+  "email",
+  "phone",
+  "ip_address",
+  "credit_card",
+  "national_id",
+  "secret",
+] as const;
+
+export const PII_REPLACEMENTS = ["token", "hash", "mask"] as const;
+
+/** What each kind of PII is redacted to unless other tokens are given. */
+export const DEFAULT_PII_TOKENS: Record<(typeof PII_TYPES)[number], string> = {
+  email: "<EMAIL>",
+  phone: "<PHONE>",
+  ip_address: "<IP_ADDRESS>",
+  credit_card: "<CREDIT_CARD>",
+  national_id: "<NATIONAL_ID>",
+  secret: "<SECRET>",
+};
+
+export const piiOptionsSchema = z.object({
+  /** Columns to scan; every text value of a row if empty. */
+  columns: z.array(z.string().trim().min(1).max(200)).max(100).default([]),
+  types: z
+    .array(z.enum(PII_TYPES))
+    .min(1, "Choose at least one kind of PII")
+    .default([...PII_TYPES]),
+});
+
+export const piiRedactSchema = z.object({
+  /** Version the scan ran on; it must still be the head of `branch`. */
+  commit: blobHashSchema,
+  options: piiOptionsSchema,
+  branch: refNameSchema.optional(),
+  /**
+   * How findings are replaced: by a token such as `<EMAIL>`, by a digest of
+   * the value (equal values get equal digests), or masked character by
+   * character.
+   */
+  replacement: z.enum(PII_REPLACEMENTS).default("token"),
+  /** Tokens to use instead of the defaults, by kind of PII. */
+  tokens: z
+    .record(z.enum(PII_TYPES), z.string().trim().min(1).max(100))
+    .default({}),
+  message: z.string().trim().max(5000).optional(),
+});
+
+/** A new dataset made of the rows of a version in some languages. */
+export const languageCarveSchema = datasetInputSchema.extend({
+  /** Version the rows are taken from. */
+  commit: blobHashSchema,
+  /** ISO 639 codes of the languages kept; `und` keeps undetermined rows. */
+  languages: z
+    .array(z.string().trim().min(1).max(10))
+    .min(1, "Choose at least one language")
+    .max(50),
+  /** Rows tagged with less confidence than this are left out. */
+  minConfidence: z.coerce.number().min(0).max(1).default(0),
+});
+
+/** Value types a data contract can require of a column. */
+export const CONTRACT_TYPES = [
+  "any",
+  "string",
+  "number",
+  "integer",
+  "boolean",
+  "array",
+  "object",
+] as const;
+
+/** A number that may be left blank, as forms send it. */
+function optionalNumber(schema: z.ZodNumber = z.coerce.number()) {
+  return z.preprocess(
+    (value) => (value === "" || value === undefined ? null : value),
+    schema.nullable(),
+  );
+}
+
+function isRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "u");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const contractColumnSchema = z
+  .object({
+    name: z.string().trim().min(1, "Column is required").max(200),
+    /** Every tabular file must have the column. */
+    required: z.boolean().default(false),
+    /**
+     * Type of the column's non-null values. Cells of CSV and TSV files are
+     * text, so numbers and booleans may be written as text there.
+     */
+    type: z.enum(CONTRACT_TYPES).default("any"),
+    /** Inclusive bounds of numeric values. */
+    min: optionalNumber(),
+    max: optionalNumber(),
+    /** Regular expression every scalar value must match; none if empty. */
+    pattern: z
+      .string()
+      .trim()
+      .max(500)
+      .refine(isRegExp, "Not a valid regular expression")
+      .default(""),
+    /** Largest share of rows, 0–1, that may be null or lack the column. */
+    maxNullRate: optionalNumber(z.coerce.number().min(0).max(1)),
+    /** No two non-null values may be equal, across the version. */
+    unique: z.boolean().default(false),
+  })
+  .refine(
+    (column) =>
+      column.min === null || column.max === null || column.min <= column.max,
+    { message: "Must not be below the minimum", path: ["max"] },
+  );
+
+/** Rules every version of a dataset is checked against. */
+export const contractInputSchema = z.object({
+  columns: z
+    .array(contractColumnSchema)
+    .max(100)
+    .default([])
+    .refine(
+      (columns) =>
+        new Set(columns.map((column) => column.name)).size === columns.length,
+      "Give each column one set of rules",
+    ),
+  /** Fewest rows a version may have, across its tabular files. */
+  minRows: optionalNumber(z.coerce.number().int().min(0)),
+  /**
+   * Branches that refuse commits breaking the contract. Commits to other
+   * branches are kept and marked failing.
+   */
+  protectedBranches: z.array(refNameSchema).max(50).default([]),
+});
+
+/** Ways a pipeline's filter step compares a column's values. */
+export const FILTER_OPERATORS = [
+  "equals",
+  "not_equals",
+  "contains",
+  "matches",
+  "greater_than",
+  "less_than",
+  "is_null",
+  "is_not_null",
+] as const;
+
+/** Formats a pipeline can write its output in. */
+export const PIPELINE_FORMATS = [
+  "jsonl",
+  "csv",
+  "tsv",
+  "json",
+  "parquet",
+] as const;
+
+export const PIPELINE_STEP_KINDS = [
+  "filter",
+  "map",
+  "dedup",
+  "redact",
+  "sample",
+  "join",
+  "convert",
+] as const;
+
+export const PIPELINE_STEP_LABELS: Record<PipelineStepKind, string> = {
+  filter: "Filter rows",
+  map: "Rename and drop columns",
+  dedup: "Drop duplicates",
+  redact: "Redact PII",
+  sample: "Sample rows",
+  join: "Join a dataset",
+  convert: "Convert format",
+};
+
+const columnNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Column is required")
+  .max(200);
+
+/** Column names, as a list or as one comma-separated string. */
+const columnListSchema = z.preprocess(
+  (value) =>
+    typeof value === "string"
+      ? value
+          .split(",")
+          .map((column) => column.trim())
+          .filter(Boolean)
+      : value,
+  z.array(columnNameSchema).max(100).default([]),
+);
+
+export const pipelineStepSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("filter"),
+    column: columnNameSchema,
+    operator: z.enum(FILTER_OPERATORS).default("equals"),
+    /** What the column is compared to; a regular expression for `matches`. */
+    value: z.string().max(1000).default(""),
+  }),
+  z.object({
+    kind: z.literal("map"),
+    rename: z
+      .array(z.object({ from: columnNameSchema, to: columnNameSchema }))
+      .max(100)
+      .default([]),
+    drop: columnListSchema,
+  }),
+  z.object({
+    kind: z.literal("dedup"),
+    /** Columns rows are compared by; the whole row if empty. */
+    columns: columnListSchema,
+    /** Compare text case-, accent- and whitespace-insensitively. */
+    normalize: z.boolean().default(false),
+  }),
+  z.object({
+    kind: z.literal("redact"),
+    /** Columns to redact; every text value of a row if empty. */
+    columns: columnListSchema,
+    types: z
+      .array(z.enum(PII_TYPES))
+      .min(1, "Choose at least one kind of PII")
+      .default([...PII_TYPES]),
+    replacement: z.enum(PII_REPLACEMENTS).default("token"),
+  }),
+  z.object({
+    kind: z.literal("sample"),
+    /** Share of rows kept, chosen by a hash of the row and `seed`. */
+    fraction: z.coerce
+      .number()
+      .gt(0, "Keep more than none of the rows")
+      .max(1)
+      .default(0.1),
+    seed: z.coerce.number().int().min(0).default(0),
+    /** Most rows kept, across the version; no limit if blank. */
+    limit: optionalNumber(z.coerce.number().int().min(1)),
+  }),
+  z.object({
+    kind: z.literal("join"),
+    datasetId: z.string().uuid("Choose a dataset"),
+    /** Version of the joined dataset; its default branch if blank. */
+    ref: z.string().trim().max(100).default(""),
+    /** Key column of this dataset's rows. */
+    on: columnNameSchema,
+    /** Key column of the joined rows; the same name as `on` if blank. */
+    rightOn: z.string().trim().max(200).default(""),
+    /** Whether rows without a match are kept (`left`) or dropped. */
+    how: z.enum(["inner", "left"]).default("inner"),
+  }),
+  z.object({
+    kind: z.literal("convert"),
+    format: z.enum(PIPELINE_FORMATS),
+  }),
+]);
+
+/** A named sequence of steps rows go through, saved with a dataset. */
+export const pipelineInputSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(100)
+    .regex(
+      /^[\w.-]+$/,
+      "Use letters, numbers, dots, dashes and underscores only",
+    ),
+  description: z.string().trim().max(2000).default(""),
+  steps: z
+    .array(pipelineStepSchema)
+    .min(1, "Add at least one step")
+    .max(50)
+    .refine(
+      (steps) =>
+        steps.every(
+          (step, i) => step.kind !== "convert" || i === steps.length - 1,
+        ),
+      "Only the last step can convert the format",
+    )
+    .superRefine((steps, ctx) =>
+      steps.forEach((step, i) => {
+        if (step.kind !== "filter") return;
+        if (step.operator === "matches" && !isRegExp(step.value)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Not a valid regular expression",
+            path: [i, "value"],
+          });
+        }
+        if (
+          (step.operator === "greater_than" || step.operator === "less_than") &&
+          !Number.isFinite(Number(step.value.trim() || NaN))
+        ) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Compare to a number",
+            path: [i, "value"],
+          });
+        }
+      }),
+    ),
+});
+
+export const pipelineRunSchema = z.object({
+  /** Version the pipeline reads; the head of `branch` if omitted. */
+  ref: z.string().trim().min(1).optional(),
+  /** Branch the output is committed to; the default branch if omitted. */
+  branch: refNameSchema.optional(),
+  message: z.string().trim().max(5000).optional(),
+});
+
+export type CommitInput = z.input<typeof commitInputSchema>;
+export type RefInput = z.input<typeof refInputSchema>;
+export type IngestInput = z.input<typeof ingestInputSchema>;
+export type CsvColumnType = (typeof CSV_COLUMN_TYPES)[number];
+export type CsvDialect = z.infer<typeof csvDialectSchema>;
+export type CsvPreviewInput = z.infer<typeof csvPreviewSchema>;
+export type CsvImportInput = z.infer<typeof csvImportSchema>;
+export type WebDatasetExportInput = z.infer<typeof webDatasetExportSchema>;
+export type SplitMethod = (typeof SPLIT_METHODS)[number];
+export type SplitSpec = z.infer<typeof splitSpecSchema>;
+export type SplitsInput = z.input<typeof splitsInputSchema>;
+export type HuggingFaceExportInput = z.infer<typeof huggingFaceExportSchema>;
+export type HuggingFaceImportInput = z.infer<typeof huggingFaceImportSchema>;
+export type DedupUnit = (typeof DEDUP_UNITS)[number];
+export type DedupOptions = z.infer<typeof dedupOptionsSchema>;
+export type DedupApplyInput = z.input<typeof dedupApplySchema>;
+export type ContaminationInput = z.input<typeof contaminationInputSchema>;
+export type PiiType = (typeof PII_TYPES)[number];
+export type PiiReplacement = (typeof PII_REPLACEMENTS)[number];
+export type PiiOptions = z.infer<typeof piiOptionsSchema>;
+export type PiiRedactInput = z.input<typeof piiRedactSchema>;
+export type LanguageCarveInput = z.input<typeof languageCarveSchema>;
+export type ContractType = (typeof CONTRACT_TYPES)[number];
+export type ContractColumn = z.infer<typeof contractColumnSchema>;
+export type ContractInput = z.input<typeof contractInputSchema>;
+export type ContractSpec = z.infer<typeof contractInputSchema>;
+export type FilterOperator = (typeof FILTER_OPERATORS)[number];
+export type PipelineFormat = (typeof PIPELINE_FORMATS)[number];
+export type PipelineStepKind = (typeof PIPELINE_STEP_KINDS)[number];
+export type PipelineStep = z.infer<typeof pipelineStepSchema>;
+export type PipelineStepInput = z.input<typeof pipelineStepSchema>;
+export type PipelineInput = z.input<typeof pipelineInputSchema>;
+export type PipelineSpec = z.infer<typeof pipelineInputSchema>;
+export type PipelineRunInput = z.input<typeof pipelineRunSchema>;
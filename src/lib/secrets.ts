@@ -0,0 +1,45 @@
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+import { DATA_DIR } from "@/lib/db";
+
+/**
+ * Random keys that belong to this workspace, such as the key PII is hashed
+ * with. Each is made on first use and kept in `secrets/` under the data
+ * directory, readable only by the server, and never sent to clients.
+ */
+
+const SECRETS_DIR = path.join(DATA_DIR, "secrets");
+const SECRET_BYTES = 32;
+
+const secrets = new Map<string, Promise<Buffer>>();
+
+export function workspaceSecret(name: string): Promise<Buffer> {
+  let secret = secrets.get(name);
+  if (!secret) {
+    secret = loadSecret(name);
+    secrets.set(name, secret);
+    secret.catch(() => secrets.delete(name));
+  }
+  return secret;
+}
+
+async function loadSecret(name: string): Promise<Buffer> {
+  const file = path.join(SECRETS_DIR, name);
+  try {
+    return await fs.readFile(file);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+  await fs.mkdir(SECRETS_DIR, { recursive: true, mode: 0o700 });
+  const secret = randomBytes(SECRET_BYTES);
+  try {
+    await fs.writeFile(file, secret, { flag: "wx", mode: 0o600 });
+    return secret;
+  } catch (error) {
+    // Another process made it first.
+    if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    return fs.readFile(file);
+  }
+}
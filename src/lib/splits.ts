@@ -0,0 +1,412 @@
+import { createHash } from "crypto";
+
+import { HttpError, NotFoundError } from "@/lib/api";
+import type { DatasetFile } from "@/lib/datasets";
+import {
+  detectFormat,
+  readRows,
+  stableStringify,
+  type Row,
+} from "@/lib/formats";
+import {
+  splitsInputSchema,
+  type SplitSpec,
+  type SplitsInput,
+} from "@/lib/schemas";
+import { checkout, createCommit, type Commit } from "@/lib/versioning";
+
+/**
+ * Train/validation/test splits. A version either defines its splits, stored
+ * on its commit and inherited by later commits, or they are read off file
+ * names the way Hugging Face `datasets` does (`train.jsonl`, `data/test-*`).
+ *
+ * A definition assigns whole files to splits (`files`), or divides the rows
+ * of the version's tabular files by a deterministic rule:
+ *
+ * - `random`: rows are ordered by a seeded hash of their contents and cut at
+ *   the percentages, so shares are exact and don't depend on file order
+ * - `stratified`: the same within each value of a label column, so every
+ *   split gets each label in proportion
+ * - `grouped`: rows sharing a column's value (a user, a document) stay
+ *   together; groups in seeded hash order fill the splits by row count
+ *
+ * The same definition over the same files always gives the same splits.
+ */
+
+/** Path keywords `datasets` recognises as splits, in its own order. */
+const SPLIT_KEYWORDS: [string, string[]][] = [
+  ["train", ["train", "training"]],
+  ["validation", ["validation", "valid", "val", "dev"]],
+  ["test", ["test", "testing", "eval", "evaluation"]],
+];
+
+/** Labels charted per split; rarer ones are counted together. */
+const MAX_LABELS = 20;
+export const OTHER_LABEL = "(other)";
+export const NULL_LABEL = "(null)";
+
+const CACHE_SIZE = 8;
+
+export interface SplitCount {
+  name: string;
+  rows: number;
+  /** Files the split's rows come from. */
+  files: string[];
+}
+
+export interface SplitReport {
+  commit: string;
+  /** False when the splits are read from file names. */
+  defined: boolean;
+  spec: SplitSpec;
+  splits: SplitCount[];
+  totalRows: number;
+  /** Column charted per split, if any. */
+  labelColumn: string | null;
+  /** Rows per label value and split, most common labels first. */
+  labels: { label: string; counts: Record<string, number> }[];
+}
+
+export interface SplitsResult {
+  /** The commit storing the definition; null for a dry run. */
+  commit: Commit | null;
+  report: SplitReport;
+}
+
+/** Split index of every row, per source file path. */
+type Assignment = Map<string, Uint8Array>;
+
+const assignmentCache = new Map<string, Promise<Assignment>>();
+const reportCache = new Map<string, Promise<Omit<SplitReport, "commit">>>();
+
+function cached<T>(
+  cache: Map<string, Promise<T>>,
+  key: string,
+  build: () => Promise<T>,
+): Promise<T> {
+  let value = cache.get(key);
+  if (!value) {
+    value = build();
+    value.catch(() => cache.delete(key));
+    cache.set(key, value);
+    if (cache.size > CACHE_SIZE) cache.delete(cache.keys().next().value!);
+  }
+  return value;
+}
+
+/**
+ * The split a file belongs to by name: the first of its file name and
+ * directories, innermost first, that starts with or is delimited around a
+ * split keyword (`train.jsonl`, `data/test-00000-of-00001.parquet`,
+ * `dev/part-1.csv`). Null when the path names no split.
+ */
+export function inferSplit(filePath: string): string | null {
+  const parts = filePath.toLowerCase().split("/");
+  parts[parts.length - 1] = parts[parts.length - 1].replace(/\.[^.]*$/, "");
+  for (const part of parts.reverse()) {
+    for (const [split, keywords] of SPLIT_KEYWORDS) {
+      const pattern = new RegExp(
+        `(^|[-._ ])(${keywords.join("|")})([-._ 0-9]|$)`,
+      );
+      if (pattern.test(part)) return split;
+    }
+  }
+  return null;
+}
+
+/** Files whose rows can be split; tar shards hold samples, not rows. */
+export function tabularFiles(manifest: DatasetFile[]): DatasetFile[] {
+  return manifest.filter((file) => {
+    const format = detectFormat(file.path);
+    return format !== null && format !== "webdataset";
+  });
+}
+
+/**
+ * The split definition of a version: its own, or one assigning its tabular
+ * files to splits by name, with unnamed files in train.
+ */
+export function versionSplits(commit: Commit): {
+  spec: SplitSpec;
+  defined: boolean;
+} {
+  if (commit.splits) return { spec: commit.splits, defined: true };
+  const files = new Map<string, string[]>(
+    SPLIT_KEYWORDS.map(([split]) => [split, []]),
+  );
+  for (const file of tabularFiles(commit.manifest)) {
+    files.get(inferSplit(file.path) ?? "train")!.push(file.path);
+  }
+  return {
+    spec: {
+      method: "files",
+      splits: [...files]
+        .filter(([, paths]) => paths.length > 0)
+        .map(([name, paths]) => ({ name, files: paths, percent: 0 })),
+      sources: [],
+      seed: 0,
+    },
+    defined: false,
+  };
+}
+
+function sourceFiles(commit: Commit, spec: SplitSpec): DatasetFile[] {
+  const files = tabularFiles(commit.manifest);
+  if (spec.sources.length === 0) return files;
+  return files.filter((file) => spec.sources.includes(file.path));
+}
+
+/** Files the rows of the split at `index` come from. */
+export function splitFiles(
+  commit: Commit,
+  spec: SplitSpec,
+  index: number,
+): DatasetFile[] {
+  const files = tabularFiles(commit.manifest);
+  return spec.method === "files"
+    ? files.filter((file) => spec.splits[index].files.includes(file.path))
+    : sourceFiles(commit, spec);
+}
+
+/** Cache key of a definition over particular file contents. */
+function contentKey(commit: Commit, spec: SplitSpec): string {
+  const files = sourceFiles(commit, spec).map((file) => [file.path, file.hash]);
+  return createHash("sha256")
+    .update(stableStringify({ files, spec }))
+    .digest("hex");
+}
+
+/** A number in [0, 1) fixed by the seed and the key. */
+function seededOrder(seed: number, key: string): number {
+  const digest = createHash("sha256").update(`${seed}:${key}`).digest();
+  return digest.readUIntBE(0, 6) / 2 ** 48;
+}
+
+/** The row, out of `total`, at which each split ends. */
+function cutPoints(spec: SplitSpec, total: number): number[] {
+  let cumulative = 0;
+  return spec.splits.map((split) => {
+    cumulative += split.percent;
+    return Math.round((cumulative / 100) * total);
+  });
+}
+
+function assignRows(commit: Commit, spec: SplitSpec): Promise<Assignment> {
+  return cached(assignmentCache, contentKey(commit, spec), async () => {
+    const files = sourceFiles(commit, spec);
+    const assignment: Assignment = new Map();
+    // Parallel arrays over every row of every file, to keep memory flat.
+    const rowFile: number[] = [];
+    const rowIndex: number[] = [];
+    const order: number[] = [];
+    const groups = new Map<string, number[]>();
+    let columnSeen = false;
+
+    for (const [fileIndex, file] of files.entries()) {
+      let count = 0;
+      for await (const row of readRows(file)) {
+        const position = order.length;
+        rowFile.push(fileIndex);
+        rowIndex.push(count++);
+        let group = "";
+        if (spec.method === "random") {
+          order.push(seededOrder(spec.seed, stableStringify(row)));
+        } else {
+          const value = row[spec.column!];
+          if (value !== undefined) columnSeen = true;
+          group = stableStringify(value);
+          order.push(
+            spec.method === "grouped"
+              ? seededOrder(spec.seed, group)
+              : seededOrder(spec.seed, stableStringify(row)),
+          );
+        }
+        const members = groups.get(group);
+        if (members) members.push(position);
+        else groups.set(group, [position]);
+      }
+      assignment.set(file.path, new Uint8Array(count));
+    }
+    if (spec.method !== "random" && order.length > 0 && !columnSeen) {
+      throw new HttpError(422, `No row has a column ${spec.column}`);
+    }
+
+    const assign = (position: number, split: number) => {
+      assignment.get(files[rowFile[position]].path)![rowIndex[position]] =
+        split;
+    };
+    if (spec.method === "grouped") {
+      // Groups fill splits in order; a group goes where its middle row falls.
+      const cuts = cutPoints(spec, order.length);
+      const sorted = [...groups.values()].sort(
+        (a, b) => order[a[0]] - order[b[0]],
+      );
+      let filled = 0;
+      for (const members of sorted) {
+        const middle = filled + members.length / 2;
+        let split = cuts.findIndex((cut) => middle < cut);
+        if (split === -1) split = cuts.length - 1;
+        for (const position of members) assign(position, split);
+        filled += members.length;
+      }
+    } else {
+      for (const members of groups.values()) {
+        members.sort((a, b) => order[a] - order[b]);
+        const cuts = cutPoints(spec, members.length);
+        let split = 0;
+        members.forEach((position, rank) => {
+          while (split < cuts.length - 1 && rank >= cuts[split]) split++;
+          assign(position, split);
+        });
+      }
+    }
+    return assignment;
+  });
+}
+
+/** Streams the rows of split `name` of a version under `spec`. */
+export async function* readSplit(
+  commit: Commit,
+  spec: SplitSpec,
+  name: string,
+  options: { columns?: string[] } = {},
+): AsyncGenerator<Row> {
+  const index = spec.splits.findIndex((split) => split.name === name);
+  if (index === -1) throw new NotFoundError(`Split ${name} is not defined`);
+  const files = splitFiles(commit, spec, index);
+  if (spec.method === "files") {
+    for (const file of files) yield* readRows(file, options);
+    return;
+  }
+  const assignment = await assignRows(commit, spec);
+  for (const file of files) {
+    const splits = assignment.get(file.path)!;
+    let row = 0;
+    for await (const value of readRows(file, options)) {
+      if (splits[row++] === index) yield value;
+    }
+  }
+}
+
+/** Row counts and label distribution of every split of a version. */
+export async function splitReport(
+  commit: Commit,
+  spec: SplitSpec,
+  defined: boolean,
+): Promise<SplitReport> {
+  const labelColumn =
+    spec.labelColumn ||
+    (spec.method === "stratified" ? (spec.column ?? null) : null);
+  const key = `${contentKey(commit, spec)}:${defined}`;
+  const report = await cached(reportCache, key, async () => {
+    const labelCounts = new Map<string, Record<string, number>>();
+    const splits: SplitCount[] = [];
+    for (const split of spec.splits) {
+      let rows = 0;
+      const columns = labelColumn ? [labelColumn] : undefined;
+      for await (const row of readSplit(commit, spec, split.name, {
+        columns,
+      })) {
+        rows++;
+        if (!labelColumn) continue;
+        const value = row[labelColumn];
+        const label =
+          value === null || value === undefined
+            ? NULL_LABEL
+            : typeof value === "string"
+              ? value
+              : stableStringify(value);
+        const counts = labelCounts.get(label) ?? {};
+        counts[split.name] = (counts[split.name] ?? 0) + 1;
+        labelCounts.set(label, counts);
+      }
+      splits.push({
+        name: split.name,
+        rows,
+        files: splitFiles(commit, spec, splits.length).map((file) => file.path),
+      });
+    }
+
+    const total = (counts: Record<string, number>) =>
+      Object.values(counts).reduce((sum, count) => sum + count, 0);
+    const labels = [...labelCounts]
+      .map(([label, counts]) => ({ label, counts }))
+      .sort((a, b) => total(b.counts) - total(a.counts));
+    if (labels.length > MAX_LABELS) {
+      const other: Record<string, number> = {};
+      for (const { counts } of labels.splice(MAX_LABELS - 1)) {
+        for (const [split, count] of Object.entries(counts)) {
+          other[split] = (other[split] ?? 0) + count;
+        }
+      }
+      labels.push({ label: OTHER_LABEL, counts: other });
+    }
+    return {
+      defined,
+      spec,
+      splits,
+      totalRows: splits.reduce((sum, split) => sum + split.rows, 0),
+      labelColumn,
+      labels,
+    };
+  });
+  return { ...report, commit: commit.id };
+}
+
+/** The splits of the version at `ref` (the default branch if omitted). */
+export async function getSplits(
+  datasetId: string,
+  ref?: string,
+): Promise<SplitReport> {
+  const commit = await checkout(datasetId, ref);
+  const { spec, defined } = versionSplits(commit);
+  return splitReport(commit, spec, defined);
+}
+
+/**
+ * Stores a split definition on a new commit of a branch, or with `dryRun`
+ * only reports the splits it would give. Every file it names must be a
+ * tabular file of the branch head.
+ */
+export async function defineSplits(
+  datasetId: string,
+  input: SplitsInput,
+): Promise<SplitsResult> {
+  const fields = splitsInputSchema.parse(input);
+  const head = await checkout(datasetId, fields.branch);
+  const spec = fields.splits;
+  if (spec) {
+    const tabular = new Set(
+      tabularFiles(head.manifest).map((file) => file.path),
+    );
+    for (const file of [
+      ...spec.splits.flatMap((split) => split.files),
+      ...spec.sources,
+    ]) {
+      if (!tabular.has(file)) {
+        throw new HttpError(422, `${file} is not a tabular file at this ref`);
+      }
+    }
+  }
+
+  if (fields.dryRun) {
+    const preview = { ...head, splits: spec ?? undefined };
+    const { spec: resolved, defined } = versionSplits(preview);
+    return {
+      commit: null,
+      report: await splitReport(preview, resolved, defined),
+    };
+  }
+  const commit = await createCommit(datasetId, {
+    branch: fields.branch,
+    expectedHead: head.id,
+    message:
+      fields.message ||
+      (spec
+        ? `Define ${spec.method} splits ${spec.splits.map((split) => split.name).join(", ")}`
+        : "Remove split definition"),
+    splits: spec,
+  });
+  const { spec: resolved, defined } = versionSplits(commit);
+  return { commit, report: await splitReport(commit, resolved, defined) };
+}
@@ -0,0 +1,74 @@
+import * as tus from "tus-js-client";
+
+import { sha256File } from "@/lib/checksum";
+
+const CHUNK_BYTES = 64 * 1024 * 1024;
+
+export type StagePhase = "hashing" | "uploading";
+
+interface StageOptions {
+  datasetId: string;
+  /** Branch the file will eventually be committed to. */
+  branch: string;
+  onProgress?: (phase: StagePhase, bytes: number) => void;
+  /** Aborting stops hashing, or terminates the upload on the server. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Uploads a file through tus with `stage` metadata, so it is checksummed and
+ * stored but not committed, and resolves to the upload id an ingester takes.
+ */
+export async function stageUpload(
+  file: File,
+  { datasetId, branch, onProgress, signal }: StageOptions,
+): Promise<string> {
+  const sha256 = await sha256File(
+    file,
+    (bytes) => onProgress?.("hashing", bytes),
+    signal,
+  );
+  signal?.throwIfAborted();
+  onProgress?.("uploading", 0);
+
+  return new Promise((resolve, reject) => {
+    const upload = new tus.Upload(file, {
+      endpoint: "/api/uploads",
+      chunkSize: CHUNK_BYTES,
+      retryDelays: [0, 1000, 3000, 5000],
+      metadata: {
+        datasetId,
+        branch,
+        filename: file.name,
+        filetype: file.type,
+        sha256,
+        stage: "true",
+      },
+      onProgress: (sent) => onProgress?.("uploading", sent),
+      onSuccess: () => resolve(upload.url!.split("/").pop()!),
+      onError: (error) => {
+        const response = (error as tus.DetailedError).originalResponse;
+        reject(
+          new Error(
+            response?.getStatus()
+              ? (JSON.parse(response.getBody() || "{}").error ?? error.message)
+              : error.message,
+          ),
+        );
+      },
+    });
+    signal?.addEventListener("abort", () => {
+      upload.abort(!!upload.url).catch(() => undefined);
+      reject(signal.reason);
+    });
+    upload.start();
+  });
+}
+
+/** Drops a staged upload that will not be committed. */
+export async function discardUpload(uploadId: string): Promise<void> {
+  await fetch(`/api/uploads/${uploadId}`, {
+    method: "DELETE",
+    headers: { "Tus-Resumable": "1.0.0" },
+  });
+}
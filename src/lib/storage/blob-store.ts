@@ -0,0 +1,160 @@
+import { createHash, randomUUID } from "crypto";
+import { createReadStream, createWriteStream, promises as fs } from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+
+import { DATA_DIR } from "@/lib/db";
+
+/**
+ * Content-addressed blob storage. Every file is stored once under its SHA-256
+ * at `blobs/<aa>/<bb>/<hash>`, so identical shards uploaded to different
+ * datasets share the same bytes on disk. Blobs are immutable once written.
+ */
+export const BLOB_DIR = path.join(DATA_DIR, "blobs");
+const TMP_DIR = path.join(DATA_DIR, "tmp");
+
+// Blobs touched this recently are never collected, which covers the window
+// between an upload deduplicating against a blob and registering its reference.
+const GC_GRACE_MS = 10 * 60 * 1000;
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+export interface StoredBlob {
+  hash: string;
+  size: number;
+  /** False when the content was already present and only deduplicated. */
+  created: boolean;
+}
+
+export type BlobSource =
+  Uint8Array | ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>;
+
+export function isBlobHash(value: string): boolean {
+  return HASH_PATTERN.test(value);
+}
+
+export function blobPath(hash: string): string {
+  if (!isBlobHash(hash)) throw new Error(`Invalid blob hash: ${hash}`);
+  return path.join(BLOB_DIR, hash.slice(0, 2), hash.slice(2, 4), hash);
+}
+
+/** Returns a fresh path in the storage volume for staging writes. */
+export async function tempPath(suffix = ".tmp"): Promise<string> {
+  await fs.mkdir(TMP_DIR, { recursive: true });
+  return path.join(TMP_DIR, `${randomUUID()}${suffix}`);
+}
+
+/** Streams `source` into the store, hashing it on the way. */
+export async function writeBlob(source: BlobSource): Promise<StoredBlob> {
+  const tmp = await tempPath();
+  const hasher = createHash("sha256");
+  let size = 0;
+
+  const input =
+    source instanceof Uint8Array
+      ? Readable.from([source])
+      : source instanceof ReadableStream
+        ? Readable.fromWeb(source as import("stream/web").ReadableStream)
+        : Readable.from(source);
+
+  try {
+    await pipeline(
+      input,
+      async function* (chunks: AsyncIterable<Buffer>) {
+        for await (const chunk of chunks) {
+          hasher.update(chunk);
+          size += chunk.length;
+          yield chunk;
+        }
+      },
+      createWriteStream(tmp),
+    );
+  } catch (error) {
+    await fs.rm(tmp, { force: true });
+    throw error;
+  }
+
+  const hash = hasher.digest("hex");
+  return { hash, size, created: await commitTemp(tmp, hash) };
+}
+
+/**
+ * Moves an already-written file (for example a finished upload) into the
+ * store. The file is hashed from disk; the original path is consumed.
+ */
+export async function importFile(file: string): Promise<StoredBlob> {
+  const hash = await hashFile(file);
+  const { size } = await fs.stat(file);
+  return { hash, size, created: await commitTemp(file, hash) };
+}
+
+export async function hashFile(file: string): Promise<string> {
+  const hasher = createHash("sha256");
+  await pipeline(createReadStream(file), hasher);
+  return hasher.digest("hex");
+}
+
+async function commitTemp(tmp: string, hash: string): Promise<boolean> {
+  const target = blobPath(hash);
+  if (await exists(target)) {
+    await fs.rm(tmp, { force: true });
+    const now = new Date();
+    await fs.utimes(target, now, now);
+    return false;
+  }
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await fs.rename(tmp, target);
+  // Blobs are content-addressed, so nothing should ever modify them.
+  await fs.chmod(target, 0o444);
+  return true;
+}
+
+export async function hasBlob(hash: string): Promise<boolean> {
+  return isBlobHash(hash) && exists(blobPath(hash));
+}
+
+export async function statBlob(hash: string) {
+  try {
+    return await fs.stat(blobPath(hash));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+/** Opens a blob for reading; `end` is inclusive, as in HTTP ranges. */
+export function readBlob(
+  hash: string,
+  range?: { start: number; end: number },
+): Readable {
+  return createReadStream(blobPath(hash), range);
+}
+
+export async function readBlobBuffer(hash: string): Promise<Buffer> {
+  return fs.readFile(blobPath(hash));
+}
+
+/**
+ * Deletes the given blobs unless they were written or deduplicated against
+ * within the grace period. Returns the hashes actually removed.
+ */
+export async function deleteBlobs(hashes: Iterable<string>): Promise<string[]> {
+  const removed: string[] = [];
+  for (const hash of hashes) {
+    const stat = await statBlob(hash);
+    if (!stat || Date.now() - stat.mtimeMs < GC_GRACE_MS) continue;
+    await fs.rm(blobPath(hash), { force: true });
+    removed.push(hash);
+  }
+  return removed;
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
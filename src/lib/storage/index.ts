@@ -0,0 +1,197 @@
+import { query, transact, type Database } from "@/lib/db";
+import { isLive } from "@/lib/exports";
+import {
+  deleteBlobs,
+  importFile,
+  writeBlob,
+  type BlobSource,
+  type StoredBlob,
+} from "@/lib/storage/blob-store";
+
+export * from "@/lib/storage/blob-store";
+export * from "@/lib/storage/mime";
+
+export interface BlobRecord {
+  hash: string;
+  size: number;
+  createdAt: string;
+}
+
+export interface StorageStats {
+  /** Bytes if every file of every version were stored separately. */
+  logicalBytes: number;
+  /** Bytes actually occupied on disk by distinct blobs. */
+  physicalBytes: number;
+  blobCount: number;
+  referenceCount: number;
+}
+
+/** Writes content to the blob store and records it in the blob table. */
+export async function storeBlob(source: BlobSource): Promise<StoredBlob> {
+  return registerBlob(await writeBlob(source));
+}
+
+/** Moves a file on disk into the blob store and records it. */
+export async function storeFile(file: string): Promise<StoredBlob> {
+  return registerBlob(await importFile(file));
+}
+
+async function registerBlob(blob: StoredBlob): Promise<StoredBlob> {
+  await transact((db) => {
+    db.blobs[blob.hash] ??= {
+      hash: blob.hash,
+      size: blob.size,
+      createdAt: new Date().toISOString(),
+    };
+  });
+  return blob;
+}
+
+/**
+ * Every blob reference held by dataset history, one entry per file in each
+ * commit. Old commits keep their blobs alive so any version can be restored.
+ */
+export function blobReferences(db: Readonly<Database>): string[] {
+  return Object.values(db.commits).flatMap((commit) =>
+    commit.manifest.map((file) => file.hash),
+  );
+}
+
+export function storageStats(): Promise<StorageStats> {
+  return query((db) => {
+    const references = blobReferences(db);
+    const blobs = Object.values(db.blobs);
+    return {
+      logicalBytes: references.reduce(
+        (sum, hash) => sum + (db.blobs[hash]?.size ?? 0),
+        0,
+      ),
+      physicalBytes: blobs.reduce((sum, blob) => sum + blob.size, 0),
+      blobCount: blobs.length,
+      referenceCount: references.length,
+    };
+  });
+}
+
+/** Storage used by one dataset's full history. */
+export function datasetStorageStats(datasetId: string): Promise<StorageStats> {
+  return query((db) => {
+    const references = Object.values(db.commits)
+      .filter((commit) => commit.datasetId === datasetId)
+      .flatMap((commit) => commit.manifest);
+    const distinct = new Map(references.map((f) => [f.hash, f.size]));
+    return {
+      logicalBytes: references.reduce((sum, file) => sum + file.size, 0),
+      physicalBytes: [...distinct.values()].reduce(
+        (sum, size) => sum + size,
+        0,
+      ),
+      blobCount: distinct.size,
+      referenceCount: references.length,
+    };
+  });
+}
+
+/**
+ * Blobs that must survive garbage collection: history, uploads stored but
+ * not committed yet and tokenizers, the previews of either, the profiles,
+ * token counts, language tags and duplicate, contamination and PII scans of
+ * what history still holds, and exports that have not expired.
+ */
+function retainedBlobs(db: Readonly<Database>): Set<string> {
+  const stored = Object.values(db.uploads)
+    .filter((upload) => upload.status !== "completed" && upload.hash)
+    .map((upload) => upload.hash!);
+  const retained = new Set([
+    ...blobReferences(db),
+    ...stored,
+    ...db.tokenizers.map((tokenizer) => tokenizer.hash),
+    ...Object.values(db.exports)
+      .filter((record) => isLive(record))
+      .flatMap((record) => record.blobs),
+  ]);
+  for (const derivative of Object.values(db.derivatives)) {
+    if (derivative.hash && retained.has(derivative.source)) {
+      retained.add(derivative.hash);
+    }
+  }
+  for (const profile of Object.values(db.profiles)) {
+    if (profile.hash && db.commits[profile.commit]) retained.add(profile.hash);
+  }
+  for (const scan of Object.values(db.dedupScans)) {
+    if (scan.hash && db.commits[scan.commit]) retained.add(scan.hash);
+  }
+  for (const report of Object.values(db.contaminationReports)) {
+    if (report.hash && db.commits[report.commit]) retained.add(report.hash);
+  }
+  for (const scan of Object.values(db.piiScans)) {
+    if (scan.hash && db.commits[scan.commit]) retained.add(scan.hash);
+  }
+  for (const count of Object.values(db.tokenCounts)) {
+    if (
+      count.hash &&
+      retained.has(count.source) &&
+      retained.has(count.tokenizer)
+    ) {
+      retained.add(count.hash);
+    }
+  }
+  for (const tags of Object.values(db.languageTags)) {
+    if (tags.hash && retained.has(tags.source)) retained.add(tags.hash);
+  }
+  for (const stats of Object.values(db.preferenceStats)) {
+    if (stats.hash && retained.has(stats.source)) retained.add(stats.hash);
+  }
+  return retained;
+}
+
+/** Removes blobs that no dataset references any more. */
+export async function collectGarbage(): Promise<string[]> {
+  const candidates = await query((db) => {
+    const referenced = retainedBlobs(db);
+    return Object.keys(db.blobs).filter((hash) => !referenced.has(hash));
+  });
+  const removed = await deleteBlobs(candidates);
+  await transact((db) => {
+    const referenced = retainedBlobs(db);
+    for (const hash of removed) {
+      if (!referenced.has(hash)) delete db.blobs[hash];
+    }
+    for (const [key, derivative] of Object.entries(db.derivatives)) {
+      if (!referenced.has(derivative.source)) delete db.derivatives[key];
+    }
+    for (const commit of Object.keys(db.profiles)) {
+      if (!db.commits[commit]) delete db.profiles[commit];
+    }
+    for (const [key, scan] of Object.entries(db.dedupScans)) {
+      if (!db.commits[scan.commit]) delete db.dedupScans[key];
+    }
+    for (const [key, report] of Object.entries(db.contaminationReports)) {
+      if (!db.commits[report.commit]) delete db.contaminationReports[key];
+    }
+    for (const [key, scan] of Object.entries(db.piiScans)) {
+      if (!db.commits[scan.commit]) delete db.piiScans[key];
+    }
+    for (const [key, count] of Object.entries(db.tokenCounts)) {
+      if (!referenced.has(count.source) || !referenced.has(count.tokenizer)) {
+        delete db.tokenCounts[key];
+      }
+    }
+    for (const [key, tags] of Object.entries(db.languageTags)) {
+      if (!referenced.has(tags.source)) delete db.languageTags[key];
+    }
+    for (const [key, stats] of Object.entries(db.preferenceStats)) {
+      if (!referenced.has(stats.source)) delete db.preferenceStats[key];
+    }
+    for (const [key, check] of Object.entries(db.contractChecks)) {
+      if (!db.commits[check.commit]) delete db.contractChecks[key];
+    }
+    for (const commit of Object.keys(db.pipelineRuns)) {
+      if (!db.commits[commit]) delete db.pipelineRuns[commit];
+    }
+    for (const [id, record] of Object.entries(db.exports)) {
+      if (!isLive(record)) delete db.exports[id];
+    }
+  });
+  return removed;
+}
@@ -0,0 +1,74 @@
+const MIME_TYPES: Record<string, string> = {
+  csv: "text/csv",
+  tsv: "text/tab-separated-values",
+  txt: "text/plain",
+  md: "text/markdown",
+  json: "application/json",
+  jsonl: "application/x-ndjson",
+  ndjson: "application/x-ndjson",
+  parquet: "application/vnd.apache.parquet",
+  tar: "application/x-tar",
+  gz: "application/gzip",
+  xml: "application/xml",
+  yaml: "application/yaml",
+  yml: "application/yaml",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  bmp: "image/bmp",
+  svg: "image/svg+xml",
+  wav: "audio/wav",
+  flac: "audio/flac",
+  mp3: "audio/mpeg",
+  ogg: "audio/ogg",
+  mp4: "video/mp4",
+  webm: "video/webm",
+  mov: "video/quicktime",
+};
+
+/** Guesses a content type from a file name, defaulting to binary. */
+export function mimeType(fileName: string): string {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  return MIME_TYPES[extension] ?? "application/octet-stream";
+}
+
+/** Types a browser only displays, without running anything they contain. */
+const PASSIVE_TYPES = new Set([
+  "text/plain",
+  "text/csv",
+  "text/tab-separated-values",
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "image/bmp",
+]);
+
+/**
+ * True when a file can be shown inline on the app's own origin: raster
+ * images, audio, video and plain text. SVG, HTML and XML can carry script,
+ * so they are only ever downloaded.
+ */
+export function isPassive(fileName: string): boolean {
+  const type = mimeType(fileName);
+  return (
+    PASSIVE_TYPES.has(type) ||
+    type.startsWith("audio/") ||
+    type.startsWith("video/")
+  );
+}
+
+/** True for file types browsers can display as images. */
+export function isImage(fileName: string): boolean {
+  return mimeType(fileName).startsWith("image/");
+}
+
+export type MediaType = "image" | "audio" | "video";
+
+/** The broad kind of media a file holds, or null for everything else. */
+export function mediaType(fileName: string): MediaType | null {
+  const [type] = mimeType(fileName).split("/");
+  return type === "image" || type === "audio" || type === "video" ? type : null;
+}
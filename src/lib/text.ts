@@ -0,0 +1,46 @@
+import type { Row } from "@/lib/formats";
+
+/**
+ * Text helpers shared by the checks that read rows as text: duplicate
+ * detection, benchmark contamination and language identification.
+ */
+
+/**
+ * Text compared by content only: NFKC, lower case, and every run of
+ * punctuation and whitespace collapsed to one space, so words are split by
+ * single spaces.
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function collectText(value: unknown, parts: string[]) {
+  if (typeof value === "string") {
+    parts.push(value);
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectText(item, parts);
+  } else if (value !== null && typeof value === "object") {
+    for (const item of Object.values(value)) collectText(item, parts);
+  }
+}
+
+/** The text of a row's columns, nested strings included, one per line. */
+export function rowText(row: Row): string {
+  const parts: string[] = [];
+  collectText(row, parts);
+  return parts.join("\n");
+}
+
+/** 32-bit FNV-1a of a string's UTF-16 code units. */
+export function hashText(text: string, basis = 0x811c9dc5): number {
+  let h = basis;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
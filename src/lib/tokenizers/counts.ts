@@ -0,0 +1,262 @@
+import { HttpError, NotFoundError } from "@/lib/api";
+import { getDataset, type DatasetFile } from "@/lib/datasets";
+import { query, transact } from "@/lib/db";
+import { readPage, readRows } from "@/lib/formats";
+import { runJob, storedResult } from "@/lib/jobs";
+import {
+  addLength,
+  lengthAccumulator,
+  lengthStats,
+  type LengthAccumulator,
+  type LengthStats,
+} from "@/lib/profiles";
+import { tabularFiles } from "@/lib/splits";
+import { readBlobBuffer, storeBlob } from "@/lib/storage";
+import {
+  countValueTokens,
+  getTokenizer,
+  loadTokenizer,
+  type TokenizerRecord,
+} from "@/lib/tokenizers";
+import { checkout } from "@/lib/versioning";
+
+/**
+ * Token counts of dataset versions under a stored tokenizer: per dataset,
+ * per file, per column, and per row with a length histogram. Files are
+ * counted in the background and keyed by file and tokenizer contents, so a
+ * new version only counts the files it changed.
+ */
+
+export interface ColumnTokenCount {
+  name: string;
+  tokens: number;
+  /** Tokens per non-null value. */
+  lengths: LengthStats | null;
+}
+
+export interface FileTokenCount {
+  rows: number;
+  tokens: number;
+  /** Tokens per row, across all columns. */
+  perRow: LengthStats | null;
+  columns: ColumnTokenCount[];
+  /** Why the file could not be read to the end; its counts are partial. */
+  error: string | null;
+}
+
+export interface TokenCountRecord {
+  /** Hash of the counted file. */
+  source: string;
+  /** Hash of the tokenizer file. */
+  tokenizer: string;
+  status: "ready" | "failed";
+  hash: string | null;
+  error: string | null;
+  createdAt: string;
+}
+
+export interface TokenReport {
+  commit: string;
+  tokenizer: Pick<TokenizerRecord, "id" | "name">;
+  /** Running until every file of the version is counted. */
+  status: "running" | "ready" | "failed";
+  tokens: number;
+  rows: number;
+  files: (FileTokenCount & { path: string })[];
+  error: string | null;
+}
+
+export interface RowTokenCount {
+  tokens: number;
+  columns: Record<string, number>;
+}
+
+export interface RowTokenPage {
+  commit: string;
+  tokenizer: Pick<TokenizerRecord, "id" | "name">;
+  startRow: number;
+  rows: RowTokenCount[];
+  nextCursor: string | null;
+}
+
+function countKey(source: string, tokenizer: string) {
+  return `${source}/${tokenizer}`;
+}
+
+/** The `?tokenizer=` asked for, or else the one the dataset counts with. */
+async function resolveTokenizer(
+  datasetId: string,
+  tokenizerId?: string,
+): Promise<TokenizerRecord> {
+  const id = tokenizerId || (await getDataset(datasetId)).tokenizerId;
+  if (!id) {
+    throw new HttpError(400, "Choose a tokenizer for this dataset first");
+  }
+  return getTokenizer(id);
+}
+
+function generate(
+  file: DatasetFile,
+  tokenizer: TokenizerRecord,
+): Promise<TokenCountRecord> {
+  return runJob("token-count", countKey(file.hash, tokenizer.hash), () =>
+    createCount(file, tokenizer),
+  );
+}
+
+async function countFile(
+  file: DatasetFile,
+  tokenizer: TokenizerRecord,
+): Promise<FileTokenCount> {
+  const runtime = await loadTokenizer(tokenizer);
+  const columns = new Map<string, LengthAccumulator>();
+  const perRow = lengthAccumulator();
+  let error: string | null = null;
+  try {
+    for await (const row of readRows(file)) {
+      let rowTokens = 0;
+      for (const [name, value] of Object.entries(row)) {
+        if (value === null || value === undefined) continue;
+        const tokens = countValueTokens(runtime, value);
+        let column = columns.get(name);
+        if (!column) {
+          column = lengthAccumulator();
+          columns.set(name, column);
+        }
+        addLength(column, tokens);
+        rowTokens += tokens;
+      }
+      addLength(perRow, rowTokens);
+    }
+  } catch (cause) {
+    error = (cause as Error).message;
+  }
+  return {
+    rows: perRow.count,
+    tokens: perRow.sum,
+    perRow: lengthStats(perRow),
+    // Columns without text, such as numbers, have no tokens to report.
+    columns: [...columns]
+      .filter(([, column]) => column.sum > 0)
+      .map(([name, column]) => ({
+        name,
+        tokens: column.sum,
+        lengths: lengthStats(column),
+      })),
+    error,
+  };
+}
+
+async function createCount(
+  file: DatasetFile,
+  tokenizer: TokenizerRecord,
+): Promise<TokenCountRecord> {
+  let record: TokenCountRecord;
+  try {
+    const count = await countFile(file, tokenizer);
+    const blob = await storeBlob(Buffer.from(JSON.stringify(count)));
+    record = {
+      source: file.hash,
+      tokenizer: tokenizer.hash,
+      status: "ready",
+      hash: blob.hash,
+      error: null,
+      createdAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    record = {
+      source: file.hash,
+      tokenizer: tokenizer.hash,
+      status: "failed",
+      hash: null,
+      error: (error as Error).message,
+      createdAt: new Date().toISOString(),
+    };
+  }
+  await transact((db) => {
+    db.tokenCounts[countKey(record.source, record.tokenizer)] = record;
+  });
+  return record;
+}
+
+/**
+ * Token counts of the version at `ref` under `tokenizerId` (the dataset's
+ * tokenizer if omitted). Files not counted yet are queued, and the report
+ * is `running` until they are done.
+ */
+export async function getTokenReport(
+  datasetId: string,
+  ref?: string,
+  tokenizerId?: string,
+): Promise<TokenReport> {
+  const tokenizer = await resolveTokenizer(datasetId, tokenizerId);
+  const commit = await checkout(datasetId, ref);
+  const files = tabularFiles(commit.manifest);
+  const records = await query((db) =>
+    files.map((file) => db.tokenCounts[countKey(file.hash, tokenizer.hash)]),
+  );
+  const report: TokenReport = {
+    commit: commit.id,
+    tokenizer: { id: tokenizer.id, name: tokenizer.name },
+    status: "ready",
+    tokens: 0,
+    rows: 0,
+    files: [],
+    error: null,
+  };
+
+  const missing = files.filter((_, index) => !storedResult(records[index]));
+  if (missing.length > 0) {
+    for (const file of missing) {
+      generate(file, tokenizer).catch((error) => console.error(error));
+    }
+    return { ...report, status: "running" };
+  }
+  for (const [index, record] of records.entries()) {
+    if (!record.hash) {
+      return { ...report, status: "failed", error: record.error };
+    }
+    const count: FileTokenCount = JSON.parse(
+      (await readBlobBuffer(record.hash)).toString("utf8"),
+    );
+    report.files.push({ path: files[index].path, ...count });
+    report.tokens += count.tokens;
+    report.rows += count.rows;
+  }
+  return report;
+}
+
+/** Token counts of one page of rows of `path`, counted as they are read. */
+export async function getRowTokens(
+  datasetId: string,
+  path: string,
+  options: {
+    ref?: string;
+    tokenizerId?: string;
+    cursor?: string | null;
+    limit: number;
+  },
+): Promise<RowTokenPage> {
+  const tokenizer = await resolveTokenizer(datasetId, options.tokenizerId);
+  const commit = await checkout(datasetId, options.ref);
+  const file = commit.manifest.find((f) => f.path === path);
+  if (!file) throw new NotFoundError(`${path} does not exist at this ref`);
+
+  const runtime = await loadTokenizer(tokenizer);
+  const page = await readPage(file, options.cursor, options.limit);
+  return {
+    commit: commit.id,
+    tokenizer: { id: tokenizer.id, name: tokenizer.name },
+    startRow: page.startRow,
+    rows: page.rows.map((row) => {
+      const columns: Record<string, number> = {};
+      let tokens = 0;
+      for (const [name, value] of Object.entries(row)) {
+        columns[name] = countValueTokens(runtime, value);
+        tokens += columns[name];
+      }
+      return { tokens, columns };
+    }),
+    nextCursor: page.nextCursor,
+  };
+}
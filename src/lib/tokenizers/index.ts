@@ -0,0 +1,174 @@
+import { randomUUID } from "crypto";
+import { Tokenizer } from "@huggingface/tokenizers";
+
+import { ConflictError, HttpError, NotFoundError } from "@/lib/api";
+import { query, transact } from "@/lib/db";
+import { tokenizerInputSchema, type TokenizerInput } from "@/lib/schemas";
+import { readBlobBuffer, storeBlob } from "@/lib/storage";
+import { sentencePieceToTokenizerJson } from "@/lib/tokenizers/sentencepiece";
+
+/**
+ * Tokenizers uploaded to the workspace, for counting tokens the way a model
+ * will see them. Hugging Face `tokenizer.json` files (BPE, Unigram and
+ * WordPiece) and SentencePiece `.model` files are stored as blobs and loaded
+ * in-process, so counting never goes to the network.
+ */
+
+export const TOKENIZER_FORMATS = ["tokenizer.json", "sentencepiece"] as const;
+
+export type TokenizerFormat = (typeof TOKENIZER_FORMATS)[number];
+
+export interface TokenizerRecord {
+  id: string;
+  name: string;
+  /** Name of the uploaded file. */
+  fileName: string;
+  format: TokenizerFormat;
+  /** Model type, e.g. BPE or Unigram. */
+  model: string;
+  vocabSize: number;
+  hash: string;
+  size: number;
+  createdAt: string;
+}
+
+/** Largest tokenizer file accepted; big vocabularies run to tens of MB. */
+export const MAX_TOKENIZER_BYTES = 256 * 1024 * 1024;
+
+const CACHE_SIZE = 2;
+
+// Loaded tokenizers hold their whole vocabulary, so only a few stay loaded.
+const loaded = new Map<string, Promise<Tokenizer>>();
+
+function tokenizerFormat(fileName: string): TokenizerFormat {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".json")) return "tokenizer.json";
+  if (lower.endsWith(".model")) return "sentencepiece";
+  throw new HttpError(
+    415,
+    `${fileName} is not a tokenizer.json or SentencePiece .model file`,
+  );
+}
+
+function build(
+  buffer: Buffer,
+  format: TokenizerFormat,
+): { tokenizer: Tokenizer; model: string } {
+  let json: { model?: { type?: string } };
+  let model: string;
+  try {
+    if (format === "sentencepiece") {
+      const converted = sentencePieceToTokenizerJson(buffer);
+      json = converted.json;
+      model = converted.model;
+    } else {
+      json = JSON.parse(buffer.toString("utf8"));
+      model = json.model?.type ?? "unknown";
+    }
+    return { tokenizer: new Tokenizer(json, {}), model };
+  } catch (error) {
+    throw new HttpError(
+      422,
+      `Cannot load the tokenizer: ${(error as Error).message}`,
+    );
+  }
+}
+
+export function listTokenizers(): Promise<TokenizerRecord[]> {
+  return query((db) =>
+    [...db.tokenizers].sort((a, b) => a.name.localeCompare(b.name)),
+  );
+}
+
+export async function getTokenizer(id: string): Promise<TokenizerRecord> {
+  const record = await query((db) => db.tokenizers.find((t) => t.id === id));
+  if (!record) throw new NotFoundError(`Tokenizer ${id} not found`);
+  return record;
+}
+
+/** Stores an uploaded tokenizer file once it loads and encodes text. */
+export async function addTokenizer(
+  file: File,
+  input: TokenizerInput,
+): Promise<TokenizerRecord> {
+  const fields = tokenizerInputSchema.parse(input);
+  const format = tokenizerFormat(file.name);
+  if (file.size > MAX_TOKENIZER_BYTES) {
+    throw new HttpError(413, `${file.name} is too large for a tokenizer`);
+  }
+  const buffer = Buffer.from(await file.arrayBuffer());
+  const { tokenizer, model } = build(buffer, format);
+  tokenizer.encode("Tokenizer check.", { add_special_tokens: false });
+  const blob = await storeBlob(buffer);
+  return transact((db) => {
+    if (db.tokenizers.some((t) => t.name === fields.name)) {
+      throw new ConflictError(`A tokenizer named "${fields.name}" exists`);
+    }
+    const record: TokenizerRecord = {
+      id: randomUUID(),
+      name: fields.name,
+      fileName: file.name,
+      format,
+      model,
+      vocabSize: tokenizer.get_vocab(true).size,
+      hash: blob.hash,
+      size: blob.size,
+      createdAt: new Date().toISOString(),
+    };
+    db.tokenizers.push(record);
+    return record;
+  });
+}
+
+/** Removes a tokenizer; datasets counting with it go back to none. */
+export function deleteTokenizer(id: string): Promise<void> {
+  return transact((db) => {
+    const index = db.tokenizers.findIndex((t) => t.id === id);
+    if (index === -1) throw new NotFoundError(`Tokenizer ${id} not found`);
+    db.tokenizers.splice(index, 1);
+    for (const dataset of db.datasets) {
+      if (dataset.tokenizerId === id) dataset.tokenizerId = null;
+    }
+  });
+}
+
+/** The runtime tokenizer for a stored tokenizer file. */
+export function loadTokenizer(record: TokenizerRecord): Promise<Tokenizer> {
+  let tokenizer = loaded.get(record.hash);
+  if (!tokenizer) {
+    tokenizer = readBlobBuffer(record.hash).then(
+      (buffer) => build(buffer, record.format).tokenizer,
+    );
+    tokenizer.catch(() => loaded.delete(record.hash));
+    loaded.set(record.hash, tokenizer);
+    if (loaded.size > CACHE_SIZE) loaded.delete(loaded.keys().next().value!);
+  }
+  return tokenizer;
+}
+
+/** Tokens in a text, without the special tokens a model adds around it. */
+export function countTokens(tokenizer: Tokenizer, text: string): number {
+  if (!text) return 0;
+  return tokenizer.encode(text, { add_special_tokens: false }).ids.length;
+}
+
+/**
+ * Tokens in a cell: its text, or all the text nested in a list or struct
+ * (the turns of a conversation, say). Numbers and booleans count as none.
+ */
+export function countValueTokens(tokenizer: Tokenizer, value: unknown): number {
+  if (typeof value === "string") return countTokens(tokenizer, value);
+  if (Array.isArray(value)) {
+    return value.reduce<number>(
+      (sum, item) => sum + countValueTokens(tokenizer, item),
+      0,
+    );
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.values(value).reduce<number>(
+      (sum, item) => sum + countValueTokens(tokenizer, item),
+      0,
+    );
+  }
+  return 0;
+}
@@ -0,0 +1,287 @@
+/**
+ * SentencePiece `.model` files, converted to the `tokenizer.json` layout the
+ * tokenizer runtime loads. The conversion follows the one `transformers`
+ * applies to slow SentencePiece tokenizers: Unigram models keep their scored
+ * pieces, and BPE models get merges recovered from the vocabulary, ranked by
+ * the score of the merged piece.
+ */
+
+// `sentencepiece_model.proto` field numbers and enum values.
+const MODEL_PIECES = 1;
+const MODEL_TRAINER_SPEC = 2;
+const MODEL_NORMALIZER_SPEC = 3;
+const PIECE_TEXT = 1;
+const PIECE_SCORE = 2;
+const PIECE_TYPE = 3;
+const TRAINER_MODEL_TYPE = 3;
+const TRAINER_BYTE_FALLBACK = 35;
+const TRAINER_UNK_ID = 40;
+const NORMALIZER_CHARSMAP = 2;
+const NORMALIZER_ADD_DUMMY_PREFIX = 3;
+
+const MODEL_TYPES: Record<number, string> = {
+  1: "Unigram",
+  2: "BPE",
+  3: "Word",
+  4: "Char",
+};
+
+const PIECE_TYPES = {
+  normal: 1,
+  unknown: 2,
+  control: 3,
+  userDefined: 4,
+  unused: 5,
+  byte: 6,
+};
+
+/** Stands for a space in SentencePiece vocabularies. */
+const SPACE = "▁";
+
+interface Piece {
+  text: string;
+  score: number;
+  type: number;
+}
+
+interface ModelProto {
+  pieces: Piece[];
+  modelType: number;
+  byteFallback: boolean;
+  unkId: number;
+  charsmap: Uint8Array | null;
+  addDummyPrefix: boolean;
+}
+
+/** Field number, wire type and payload of each field of a message. */
+function* fields(
+  buffer: Uint8Array,
+): Generator<[number, number, number | Uint8Array]> {
+  let offset = 0;
+  const varint = () => {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      if (offset >= buffer.length) throw new Error("Truncated varint");
+      const byte = buffer[offset++];
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 128;
+    }
+  };
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.length);
+  while (offset < buffer.length) {
+    const key = varint();
+    const field = Math.floor(key / 8);
+    const wireType = key & 7;
+    switch (wireType) {
+      case 0:
+        yield [field, wireType, varint()];
+        break;
+      case 1:
+        yield [field, wireType, view.getFloat64(offset, true)];
+        offset += 8;
+        break;
+      case 2: {
+        const length = varint();
+        if (offset + length > buffer.length) {
+          throw new Error("Truncated field");
+        }
+        yield [field, wireType, buffer.subarray(offset, offset + length)];
+        offset += length;
+        break;
+      }
+      case 5:
+        yield [field, wireType, view.getFloat32(offset, true)];
+        offset += 4;
+        break;
+      default:
+        throw new Error(`Unsupported wire type ${wireType}`);
+    }
+  }
+}
+
+function parseModel(buffer: Uint8Array): ModelProto {
+  const model: ModelProto = {
+    pieces: [],
+    modelType: 1,
+    byteFallback: false,
+    unkId: 0,
+    charsmap: null,
+    addDummyPrefix: true,
+  };
+  const text = new TextDecoder("utf-8", { fatal: true });
+  for (const [field, , value] of fields(buffer)) {
+    if (!(value instanceof Uint8Array)) continue;
+    if (field === MODEL_PIECES) {
+      const piece: Piece = { text: "", score: 0, type: PIECE_TYPES.normal };
+      for (const [pieceField, , pieceValue] of fields(value)) {
+        if (pieceField === PIECE_TEXT && pieceValue instanceof Uint8Array) {
+          piece.text = text.decode(pieceValue);
+        } else if (pieceField === PIECE_SCORE) {
+          piece.score = pieceValue as number;
+        } else if (pieceField === PIECE_TYPE) {
+          piece.type = pieceValue as number;
+        }
+      }
+      model.pieces.push(piece);
+    } else if (field === MODEL_TRAINER_SPEC) {
+      for (const [specField, , specValue] of fields(value)) {
+        if (specField === TRAINER_MODEL_TYPE)
+          model.modelType = specValue as number;
+        if (specField === TRAINER_BYTE_FALLBACK) {
+          model.byteFallback = specValue === 1;
+        }
+        if (specField === TRAINER_UNK_ID) model.unkId = specValue as number;
+      }
+    } else if (field === MODEL_NORMALIZER_SPEC) {
+      for (const [specField, , specValue] of fields(value)) {
+        if (
+          specField === NORMALIZER_CHARSMAP &&
+          specValue instanceof Uint8Array
+        ) {
+          model.charsmap = specValue.length > 0 ? specValue : null;
+        }
+        if (specField === NORMALIZER_ADD_DUMMY_PREFIX) {
+          model.addDummyPrefix = specValue === 1;
+        }
+      }
+    }
+  }
+  if (model.pieces.length === 0) {
+    throw new Error("Not a SentencePiece model: it has no pieces");
+  }
+  return model;
+}
+
+/**
+ * BPE merges implied by a vocabulary: every split of a piece into two
+ * pieces, most important (lowest id, as pieces are stored by score) first.
+ */
+function recoverMerges(vocab: Map<string, number>): [string, string][] {
+  const merges: [string, string, number, number, number][] = [];
+  for (const [piece, id] of vocab) {
+    const chars = [...piece];
+    for (let split = 1; split < chars.length; split++) {
+      const left = chars.slice(0, split).join("");
+      const right = chars.slice(split).join("");
+      const leftId = vocab.get(left);
+      const rightId = vocab.get(right);
+      if (leftId !== undefined && rightId !== undefined) {
+        merges.push([left, right, id, leftId, rightId]);
+      }
+    }
+  }
+  merges.sort((a, b) => a[2] - b[2] || a[3] - b[3] || a[4] - b[4]);
+  return merges.map(([left, right]) => [left, right]);
+}
+
+/** The `tokenizer.json` equivalent of a SentencePiece model file. */
+export function sentencePieceToTokenizerJson(buffer: Uint8Array): {
+  json: object;
+  model: string;
+} {
+  const spm = parseModel(buffer);
+  const type = MODEL_TYPES[spm.modelType] ?? `type ${spm.modelType}`;
+  const unk = spm.pieces[spm.unkId]?.text ?? "<unk>";
+  const addedTokens = spm.pieces
+    .map((piece, id) => ({ piece, id }))
+    .filter(
+      ({ piece }) =>
+        piece.type === PIECE_TYPES.control ||
+        piece.type === PIECE_TYPES.userDefined ||
+        piece.type === PIECE_TYPES.unknown,
+    )
+    .map(({ piece, id }) => ({
+      id,
+      content: piece.text,
+      single_word: false,
+      lstrip: false,
+      rstrip: false,
+      normalized: piece.type === PIECE_TYPES.userDefined,
+      special: piece.type !== PIECE_TYPES.userDefined,
+    }));
+  const charsmap = spm.charsmap && {
+    type: "Precompiled",
+    precompiled_charsmap: Buffer.from(spm.charsmap).toString("base64"),
+  };
+
+  if (type === "Unigram") {
+    return {
+      model: type,
+      json: {
+        version: "1.0",
+        added_tokens: addedTokens,
+        normalizer: {
+          type: "Sequence",
+          normalizers: [
+            ...(charsmap ? [charsmap] : []),
+            { type: "Replace", pattern: { Regex: " {2,}" }, content: " " },
+          ],
+        },
+        pre_tokenizer: {
+          type: "Metaspace",
+          replacement: SPACE,
+          prepend_scheme: spm.addDummyPrefix ? "always" : "never",
+          split: true,
+        },
+        post_processor: null,
+        decoder: {
+          type: "Metaspace",
+          replacement: SPACE,
+          prepend_scheme: spm.addDummyPrefix ? "always" : "never",
+          split: true,
+        },
+        model: {
+          type: "Unigram",
+          unk_id: spm.unkId,
+          vocab: spm.pieces.map((piece) => [piece.text, piece.score]),
+          byte_fallback: spm.byteFallback,
+        },
+      },
+    };
+  }
+
+  if (type === "BPE") {
+    const vocab = new Map(spm.pieces.map((piece, id) => [piece.text, id]));
+    return {
+      model: type,
+      json: {
+        version: "1.0",
+        added_tokens: addedTokens,
+        normalizer: {
+          type: "Sequence",
+          normalizers: [
+            ...(spm.addDummyPrefix
+              ? [{ type: "Prepend", prepend: SPACE }]
+              : []),
+            { type: "Replace", pattern: { String: " " }, content: SPACE },
+          ],
+        },
+        pre_tokenizer: null,
+        post_processor: null,
+        decoder: {
+          type: "Sequence",
+          decoders: [
+            { type: "Replace", pattern: { String: SPACE }, content: " " },
+            { type: "ByteFallback" },
+            { type: "Fuse" },
+          ],
+        },
+        model: {
+          type: "BPE",
+          dropout: null,
+          unk_token: unk,
+          continuing_subword_prefix: null,
+          end_of_word_suffix: null,
+          fuse_unk: true,
+          byte_fallback: spm.byteFallback,
+          vocab: Object.fromEntries(vocab),
+          merges: recoverMerges(vocab),
+        },
+      },
+    };
+  }
+
+  throw new Error(`SentencePiece ${type} models are not supported`);
+}
@@ -0,0 +1,334 @@
+import { randomUUID } from "crypto";
+import { createWriteStream, promises as fs } from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+
+import { ConflictError, HttpError, NotFoundError } from "@/lib/api";
+import { getDataset } from "@/lib/datasets";
+import { DATA_DIR, query, transact } from "@/lib/db";
+import { datasetPathSchema } from "@/lib/schemas";
+import { hashFile, storeFile } from "@/lib/storage";
+import { createCommit, listRefs } from "@/lib/versioning";
+
+/**
+ * Server side of the tus 1.0.0 resumable upload protocol
+ * (https://tus.io/protocols/resumable-upload), with the creation, termination
+ * and expiration extensions. A finished upload becomes a commit on the
+ * `branch` named in its metadata, or on the default branch; uploads created
+ * with `stage` metadata are only stored, for an ingester to validate and
+ * commit later (see `ingest.ts`). Partial data lives in `uploads/<id>` and the
+ * bytes on disk are the source of truth for the upload offset, so an upload
+ * interrupted mid-request resumes from whatever actually reached the disk.
+ */
+export const TUS_VERSION = "1.0.0";
+export const TUS_EXTENSIONS = "creation,termination,expiration";
+export const MAX_UPLOAD_BYTES = 1024 ** 4;
+
+const UPLOAD_DIR = path.join(DATA_DIR, "uploads");
+const UPLOAD_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** tus checksum extension status for a failed checksum verification. */
+export const CHECKSUM_MISMATCH_STATUS = 460;
+
+export type UploadStatus = "pending" | "staged" | "completed" | "failed";
+
+export interface UploadRecord {
+  id: string;
+  datasetId: string;
+  /** Destination path inside the dataset. */
+  path: string;
+  length: number;
+  /** Expected SHA-256 of the whole file, as announced by the client. */
+  sha256: string | null;
+  metadata: Record<string, string>;
+  status: UploadStatus;
+  error?: string;
+  /** Blob hash once the upload has been stored. */
+  hash?: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface UploadState extends UploadRecord {
+  offset: number;
+}
+
+// Uploads currently receiving a PATCH in this process.
+const activeUploads = new Set<string>();
+
+function partPath(id: string) {
+  return path.join(UPLOAD_DIR, id);
+}
+
+/** Decodes an `Upload-Metadata` header: comma-separated `key base64` pairs. */
+export function parseUploadMetadata(header: string | null) {
+  const metadata: Record<string, string> = {};
+  for (const pair of header?.split(",") ?? []) {
+    const [key, value] = pair.trim().split(" ");
+    if (!key) continue;
+    metadata[key] = value ? Buffer.from(value, "base64").toString("utf8") : "";
+  }
+  return metadata;
+}
+
+export async function createUpload(
+  length: number,
+  metadata: Record<string, string>,
+): Promise<UploadRecord> {
+  if (!Number.isSafeInteger(length) || length < 0) {
+    throw new HttpError(400, "Upload-Length must be a non-negative integer");
+  }
+  if (length > MAX_UPLOAD_BYTES) {
+    throw new HttpError(413, "Upload exceeds the maximum size");
+  }
+  const datasetId = metadata.datasetId;
+  if (!datasetId) throw new HttpError(400, "Missing datasetId metadata");
+  await getDataset(datasetId);
+  if (metadata.branch) {
+    const refs = await listRefs(datasetId);
+    if (!refs.some((r) => r.kind === "branch" && r.name === metadata.branch)) {
+      throw new NotFoundError(`Branch ${metadata.branch} not found`);
+    }
+  }
+  const filePath = datasetPathSchema.parse(
+    metadata.path || metadata.filename || "",
+  );
+  const sha256 = metadata.sha256?.toLowerCase() || null;
+  if (sha256 && !/^[0-9a-f]{64}$/.test(sha256)) {
+    throw new HttpError(400, "sha256 metadata must be a hex digest");
+  }
+
+  await expireUploads();
+  const now = Date.now();
+  const upload: UploadRecord = {
+    id: randomUUID(),
+    datasetId,
+    path: filePath,
+    length,
+    sha256,
+    metadata,
+    status: "pending",
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + UPLOAD_TTL_MS).toISOString(),
+  };
+  await fs.mkdir(UPLOAD_DIR, { recursive: true });
+  await fs.writeFile(partPath(upload.id), "");
+  await transact((db) => {
+    db.uploads[upload.id] = upload;
+  });
+  // Zero-length files are complete as soon as they exist.
+  if (length === 0) return finalizeUpload(upload);
+  return upload;
+}
+
+export async function getUpload(id: string): Promise<UploadState> {
+  const upload = await query((db) => db.uploads[id]);
+  if (!upload) throw new NotFoundError(`Upload ${id} not found`);
+  return { ...upload, offset: await currentOffset(upload) };
+}
+
+export function listUploads(datasetId: string): Promise<UploadState[]> {
+  return query((db) =>
+    Object.values(db.uploads).filter(
+      (upload) => upload.datasetId === datasetId && upload.status === "pending",
+    ),
+  ).then((uploads) =>
+    Promise.all(
+      uploads.map(async (upload) => ({
+        ...upload,
+        offset: await currentOffset(upload),
+      })),
+    ),
+  );
+}
+
+async function currentOffset(upload: UploadRecord) {
+  // Stored uploads have moved their data into the blob store.
+  if (upload.hash) return upload.length;
+  try {
+    return (await fs.stat(partPath(upload.id))).size;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Appends a PATCH body at `offset`. Returns the new offset; when the upload is
+ * complete the file is checksummed and committed to its dataset.
+ */
+export async function appendToUpload(
+  id: string,
+  offset: number,
+  body: ReadableStream<Uint8Array> | null,
+): Promise<UploadState> {
+  if (activeUploads.has(id)) {
+    throw new HttpError(423, "Upload is already receiving data");
+  }
+  activeUploads.add(id);
+  try {
+    const upload = await getUpload(id);
+    if (upload.status !== "pending") {
+      throw new HttpError(410, `Upload is ${upload.status}`);
+    }
+    if (offset !== upload.offset) {
+      throw new ConflictError(
+        `Upload-Offset ${offset} does not match current offset ${upload.offset}`,
+      );
+    }
+    if (body) {
+      await writeChunk(upload, body);
+    }
+    const updated = await getUpload(id);
+    if (updated.offset < updated.length) return updated;
+    return { ...(await finalizeUpload(updated)), offset: updated.length };
+  } finally {
+    activeUploads.delete(id);
+  }
+}
+
+async function writeChunk(
+  upload: UploadState,
+  body: ReadableStream<Uint8Array>,
+) {
+  const remaining = upload.length - upload.offset;
+  let written = 0;
+  try {
+    await pipeline(
+      Readable.fromWeb(body as import("stream/web").ReadableStream),
+      async function* (chunks: AsyncIterable<Buffer>) {
+        for await (const chunk of chunks) {
+          written += chunk.length;
+          if (written > remaining) {
+            throw new HttpError(400, "Body exceeds the declared Upload-Length");
+          }
+          yield chunk;
+        }
+      },
+      createWriteStream(partPath(upload.id), { flags: "a" }),
+    );
+  } catch (error) {
+    // A dropped connection keeps whatever was written so the client can
+    // resume; only protocol violations are reported back.
+    if (error instanceof HttpError) {
+      await fs.truncate(partPath(upload.id), upload.offset);
+      throw error;
+    }
+  }
+}
+
+async function finalizeUpload(upload: UploadRecord): Promise<UploadRecord> {
+  if (upload.hash) return commitUpload({ ...upload, hash: upload.hash });
+  const file = partPath(upload.id);
+  if (upload.sha256) {
+    const actual = await hashFile(file);
+    if (actual !== upload.sha256) {
+      await fs.rm(file, { force: true });
+      await markUpload(upload.id, {
+        status: "failed",
+        error: `Checksum mismatch: expected ${upload.sha256}, got ${actual}`,
+      });
+      throw new HttpError(
+        CHECKSUM_MISMATCH_STATUS,
+        "Checksum mismatch; the upload was discarded",
+      );
+    }
+  }
+  const blob = await storeFile(file);
+  if (upload.metadata.stage) {
+    return markUpload(upload.id, { status: "staged", hash: blob.hash });
+  }
+  // The part file is gone once stored, so the hash is kept before committing
+  // for a failed commit to be retried from the blob.
+  const stored = await markUpload(upload.id, { hash: blob.hash });
+  return commitUpload({ ...stored, hash: blob.hash });
+}
+
+async function commitUpload(
+  upload: UploadRecord & { hash: string },
+): Promise<UploadRecord> {
+  try {
+    await createCommit(upload.datasetId, {
+      branch: upload.metadata.branch || undefined,
+      author: upload.metadata.author || undefined,
+      message: upload.metadata.message || `Upload ${upload.path}`,
+      add: [{ path: upload.path, hash: upload.hash }],
+    });
+  } catch (error) {
+    await markUpload(upload.id, {
+      status: "failed",
+      error: (error as Error).message,
+    });
+    throw error;
+  }
+  return markUpload(upload.id, { status: "completed", error: undefined });
+}
+
+/**
+ * Commits an upload whose data was stored but whose commit failed, say
+ * because it broke a protected branch's contract, without sending it again.
+ */
+export async function retryUpload(id: string): Promise<UploadRecord> {
+  const upload = await getUpload(id);
+  if (upload.status !== "failed" || !upload.hash) {
+    throw new HttpError(409, `Upload is ${upload.status}, not a failed commit`);
+  }
+  return commitUpload({ ...upload, hash: upload.hash });
+}
+
+function markUpload(id: string, changes: Partial<UploadRecord>) {
+  return transact((db) => Object.assign(db.uploads[id], changes));
+}
+
+/** A staged upload of `datasetId`, ready to be validated and committed. */
+export async function getStagedUpload(
+  datasetId: string,
+  id: string,
+): Promise<UploadRecord & { hash: string }> {
+  const upload = await getUpload(id);
+  if (upload.datasetId !== datasetId) {
+    throw new NotFoundError(`Upload ${id} not found`);
+  }
+  if (upload.status !== "staged" || !upload.hash) {
+    throw new HttpError(409, `Upload is ${upload.status}, not staged`);
+  }
+  return { ...upload, hash: upload.hash };
+}
+
+/** Marks a staged upload as committed by whoever validated it. */
+export async function completeStagedUpload(id: string): Promise<void> {
+  await markUpload(id, { status: "completed" });
+}
+
+export async function terminateUpload(id: string): Promise<void> {
+  if (activeUploads.has(id)) {
+    throw new HttpError(423, "Upload is receiving data");
+  }
+  await getUpload(id);
+  await fs.rm(partPath(id), { force: true });
+  await transact((db) => {
+    delete db.uploads[id];
+  });
+}
+
+/** Drops uploads past their expiry along with their partial data. */
+async function expireUploads() {
+  const now = new Date().toISOString();
+  const expired = await transact((db) => {
+    const ids = Object.values(db.uploads)
+      .filter((upload) => upload.expiresAt < now)
+      .map((upload) => upload.id);
+    for (const id of ids) delete db.uploads[id];
+    return ids;
+  });
+  await Promise.all(expired.map((id) => fs.rm(partPath(id), { force: true })));
+}
+
+/** Headers every tus response carries, merged with `extra`. */
+export function tusHeaders(extra: Record<string, string> = {}) {
+  return new Headers({
+    "Tus-Resumable": TUS_VERSION,
+    "Cache-Control": "no-store",
+    ...extra,
+  });
+}
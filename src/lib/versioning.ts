@@ -0,0 +1,421 @@
+import { createHash } from "crypto";
+
+import { ConflictError, HttpError, NotFoundError } from "@/lib/api";
+import {
+  enforceContract,
+  recordPassedCheck,
+  scheduleContractCheck,
+} from "@/lib/contracts";
+import type { Dataset, DatasetFile } from "@/lib/datasets";
+import { query, transact, type Database } from "@/lib/db";
+import { scheduleDerivatives } from "@/lib/derivatives";
+import { scheduleProfile } from "@/lib/profiles";
+import {
+  commitInputSchema,
+  refInputSchema,
+  type CommitInput,
+  type RefInput,
+  type SplitSpec,
+} from "@/lib/schemas";
+
+/**
+ * Git-like history for datasets. A commit is an immutable manifest of file
+ * hashes plus a message and author; its id is the SHA-256 of that content,
+ * so a commit id pins the exact bytes a model was trained on. Branches are
+ * movable pointers to commits, tags are fixed ones.
+ */
+
+export interface Commit {
+  id: string;
+  datasetId: string;
+  parents: string[];
+  /** Files in this version, sorted by path. */
+  manifest: DatasetFile[];
+  message: string;
+  author: string;
+  createdAt: string;
+  /** How the version divides into splits, when it defines that itself. */
+  splits?: SplitSpec;
+}
+
+export type RefKind = "branch" | "tag";
+
+export interface Ref {
+  datasetId: string;
+  name: string;
+  kind: RefKind;
+  commitId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FileChange {
+  path: string;
+  status: "added" | "removed" | "modified";
+  hash?: string;
+  previousHash?: string;
+  size?: number;
+}
+
+export interface HistoryEntry extends Commit {
+  /** Changes relative to the first parent. */
+  changes: FileChange[];
+}
+
+export const DEFAULT_BRANCH = "main";
+
+function hashCommit(commit: Omit<Commit, "id">): string {
+  return createHash("sha256").update(JSON.stringify(commit)).digest("hex");
+}
+
+function findDataset(db: Readonly<Database>, datasetId: string): Dataset {
+  const dataset = db.datasets.find((d) => d.id === datasetId);
+  if (!dataset) throw new NotFoundError(`Dataset ${datasetId} not found`);
+  return dataset;
+}
+
+function findRef(db: Readonly<Database>, datasetId: string, name: string) {
+  return db.refs.find((r) => r.datasetId === datasetId && r.name === name);
+}
+
+/** Creates a commit record inside an open transaction. */
+export function writeCommit(
+  db: Database,
+  fields: Omit<Commit, "id" | "createdAt">,
+): Commit {
+  const content = {
+    datasetId: fields.datasetId,
+    parents: fields.parents,
+    manifest: [...fields.manifest].sort((a, b) => a.path.localeCompare(b.path)),
+    message: fields.message,
+    author: fields.author,
+    createdAt: new Date().toISOString(),
+    // Left out when unset, so ids of commits without splits are unchanged.
+    ...(fields.splits && { splits: fields.splits }),
+  };
+  const commit: Commit = { id: hashCommit(content), ...content };
+  db.commits[commit.id] = commit;
+  return commit;
+}
+
+/** Starts the history of a new dataset with an empty root commit. */
+export function initHistory(db: Database, dataset: Dataset): Commit {
+  const root = writeCommit(db, {
+    datasetId: dataset.id,
+    parents: [],
+    manifest: [],
+    message: "Create dataset",
+    author: dataset.owner,
+  });
+  const now = root.createdAt;
+  db.refs.push({
+    datasetId: dataset.id,
+    name: DEFAULT_BRANCH,
+    kind: "branch",
+    commitId: root.id,
+    createdAt: now,
+    updatedAt: now,
+  });
+  return root;
+}
+
+/** Drops the refs and commits of a dataset that is being deleted. */
+export function dropHistory(db: Database, datasetId: string) {
+  db.refs = db.refs.filter((ref) => ref.datasetId !== datasetId);
+  for (const commit of Object.values(db.commits)) {
+    if (commit.datasetId === datasetId) delete db.commits[commit.id];
+  }
+}
+
+/**
+ * Resolves a branch name, tag name, full commit id or unambiguous commit id
+ * prefix (at least 7 characters) to a commit.
+ */
+export function resolveRef(
+  db: Readonly<Database>,
+  datasetId: string,
+  ref: string,
+): Commit {
+  const named = findRef(db, datasetId, ref);
+  if (named) return db.commits[named.commitId];
+  if (db.commits[ref]?.datasetId === datasetId) return db.commits[ref];
+  if (/^[0-9a-f]{7,64}$/.test(ref)) {
+    const matches = Object.values(db.commits).filter(
+      (c) => c.datasetId === datasetId && c.id.startsWith(ref),
+    );
+    if (matches.length === 1) return matches[0];
+    if (matches.length > 1) {
+      throw new HttpError(400, `Commit prefix ${ref} is ambiguous`);
+    }
+  }
+  throw new NotFoundError(`Ref ${ref} not found`);
+}
+
+/** Returns the commit and manifest at `ref` (the default branch if omitted). */
+export function checkout(datasetId: string, ref?: string): Promise<Commit> {
+  return query((db) => {
+    const dataset = findDataset(db, datasetId);
+    return resolveRef(db, datasetId, ref || dataset.defaultBranch);
+  });
+}
+
+/** Commits reachable from `ref`, newest first. */
+export function listHistory(
+  datasetId: string,
+  ref?: string,
+  limit = 200,
+): Promise<HistoryEntry[]> {
+  return query((db) => {
+    const dataset = findDataset(db, datasetId);
+    const head = resolveRef(db, datasetId, ref || dataset.defaultBranch);
+    const seen = new Set<string>();
+    const history: HistoryEntry[] = [];
+    const queue = [head];
+    while (queue.length > 0 && history.length < limit) {
+      queue.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      const commit = queue.shift()!;
+      if (seen.has(commit.id)) continue;
+      seen.add(commit.id);
+      const parent = db.commits[commit.parents[0]];
+      history.push({
+        ...commit,
+        changes: diffManifests(parent?.manifest ?? [], commit.manifest),
+      });
+      queue.push(...commit.parents.map((id) => db.commits[id]));
+    }
+    return history;
+  });
+}
+
+export function listRefs(datasetId: string): Promise<Ref[]> {
+  return query((db) => {
+    findDataset(db, datasetId);
+    return db.refs
+      .filter((ref) => ref.datasetId === datasetId)
+      .sort(
+        (a, b) => a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name),
+      );
+  });
+}
+
+/** The branch a commit moves and the tree it leaves, without writing it. */
+function planCommit(
+  db: Readonly<Database>,
+  datasetId: string,
+  fields: ReturnType<typeof commitInputSchema.parse>,
+) {
+  const dataset = findDataset(db, datasetId);
+  const branchName = fields.branch ?? dataset.defaultBranch;
+  const branch = findRef(db, datasetId, branchName);
+  if (!branch) throw new NotFoundError(`Branch ${branchName} not found`);
+  if (branch.kind !== "branch") {
+    throw new HttpError(400, `${branchName} is a tag; tags cannot move`);
+  }
+  if (fields.expectedHead && fields.expectedHead !== branch.commitId) {
+    throw new ConflictError(
+      `Branch ${branchName} has moved to ${branch.commitId.slice(0, 12)}`,
+    );
+  }
+  const parent = db.commits[branch.commitId];
+
+  const files = new Map<string, { path: string; hash: string }>(
+    (fields.manifest ?? parent.manifest).map((f) => [f.path, f]),
+  );
+  for (const path of fields.remove) {
+    if (!files.delete(path)) {
+      throw new NotFoundError(`File ${path} not found on ${branchName}`);
+    }
+  }
+  for (const file of fields.add) files.set(file.path, file);
+  const manifest = [...files.values()].map(({ path, hash }) => {
+    const blob = db.blobs[hash];
+    if (!blob) throw new HttpError(400, `Blob ${hash} is not stored`);
+    return { path, hash, size: blob.size };
+  });
+  return { dataset, branch, parent, manifest };
+}
+
+/**
+ * Records a new commit on a branch. `add` entries replace files at the same
+ * path and `remove` drops paths; with `manifest` the whole tree is replaced.
+ * Pass `expectedHead` to fail instead of committing on top of someone else's
+ * concurrent change. Commits to a branch the dataset's contract protects are
+ * refused if they break it; others are checked after they are made.
+ */
+export async function createCommit(
+  datasetId: string,
+  input: CommitInput,
+): Promise<Commit> {
+  const fields = commitInputSchema.parse(input);
+  // Checking reads every row, so it runs before the transaction, and the
+  // commit only goes ahead if the branch has not moved in the meantime.
+  const planned = await query((db) => planCommit(db, datasetId, fields));
+  const check = await enforceContract(
+    datasetId,
+    planned.branch.name,
+    planned.manifest,
+  );
+  let onDefaultBranch = false;
+  const commit = await transact((db) => {
+    const { dataset, branch, parent, manifest } = planCommit(
+      db,
+      datasetId,
+      fields,
+    );
+    if (check && parent.id !== planned.parent.id) {
+      throw new ConflictError(
+        `Branch ${branch.name} moved while the contract was checked; commit again`,
+      );
+    }
+
+    const splits =
+      fields.splits === undefined
+        ? parent.splits
+        : (fields.splits ?? undefined);
+
+    const commit = writeCommit(db, {
+      datasetId,
+      parents: [parent.id],
+      manifest,
+      message: fields.message,
+      author: fields.author ?? dataset.owner,
+      splits: splits && pruneSplits(splits, manifest),
+    });
+    branch.commitId = commit.id;
+    branch.updatedAt = commit.createdAt;
+    if (branch.name === dataset.defaultBranch) {
+      dataset.sizeBytes = commit.manifest.reduce((sum, f) => sum + f.size, 0);
+      // Rows are counted when the version is profiled.
+      onDefaultBranch = true;
+    }
+    dataset.updatedAt = commit.createdAt;
+    if (check) recordPassedCheck(db, commit, check);
+    return commit;
+  });
+  // Previews are made in the background so committing stays fast.
+  scheduleDerivatives(commit.manifest).catch((error) => console.error(error));
+  scheduleContractCheck(commit).catch((error) => console.error(error));
+  if (onDefaultBranch) {
+    scheduleProfile(commit).catch((error) => console.error(error));
+  }
+  return commit;
+}
+
+/** Drops files a split definition names that are not in `manifest`. */
+function pruneSplits(spec: SplitSpec, manifest: DatasetFile[]): SplitSpec {
+  const paths = new Set(manifest.map((file) => file.path));
+  return {
+    ...spec,
+    splits: spec.splits.map((split) => ({
+      ...split,
+      files: split.files.filter((file) => paths.has(file)),
+    })),
+    sources: spec.sources.filter((file) => paths.has(file)),
+  };
+}
+
+/**
+ * Creates a branch or tag pointing at `from` (the default branch if omitted).
+ * A branch the dataset's contract protects is only created at a commit that
+ * passes it.
+ */
+export async function createRef(
+  datasetId: string,
+  input: RefInput,
+): Promise<Ref> {
+  const fields = refInputSchema.parse(input);
+  const plan = (db: Readonly<Database>) => {
+    const dataset = findDataset(db, datasetId);
+    if (findRef(db, datasetId, fields.name)) {
+      throw new ConflictError(`Ref ${fields.name} already exists`);
+    }
+    return resolveRef(db, datasetId, fields.from ?? dataset.defaultBranch);
+  };
+  const planned = await query(plan);
+  const check =
+    fields.kind === "branch"
+      ? await enforceContract(datasetId, fields.name, planned.manifest)
+      : null;
+  return transact((db) => {
+    const target = plan(db);
+    if (check && target.id !== planned.id) {
+      throw new ConflictError(
+        "The ref to branch from moved while the contract was checked; try again",
+      );
+    }
+    const now = new Date().toISOString();
+    const ref: Ref = {
+      datasetId,
+      name: fields.name,
+      kind: fields.kind,
+      commitId: target.id,
+      createdAt: now,
+      updatedAt: now,
+    };
+    db.refs.push(ref);
+    if (check) recordPassedCheck(db, target, check);
+    return ref;
+  });
+}
+
+/**
+ * Deletes a branch. The default branch and protected branches are kept, and
+ * tags are never deleted, so a tag always names the commit it was made at.
+ */
+export function deleteRef(datasetId: string, name: string): Promise<void> {
+  return transact((db) => {
+    const dataset = findDataset(db, datasetId);
+    if (name === dataset.defaultBranch) {
+      throw new HttpError(400, "The default branch cannot be deleted");
+    }
+    if (db.contracts[datasetId]?.protectedBranches.includes(name)) {
+      throw new HttpError(
+        400,
+        `Branch ${name} is protected by the contract and cannot be deleted`,
+      );
+    }
+    const ref = findRef(db, datasetId, name);
+    if (!ref) throw new NotFoundError(`Ref ${name} not found`);
+    if (ref.kind === "tag") {
+      throw new ConflictError(`Tag ${name} is immutable and cannot be deleted`);
+    }
+    db.refs = db.refs.filter((r) => r !== ref);
+  });
+}
+
+/** File-level changes from `base` to `target`. */
+export function diffManifests(
+  base: DatasetFile[],
+  target: DatasetFile[],
+): FileChange[] {
+  const before = new Map(base.map((f) => [f.path, f]));
+  const changes: FileChange[] = [];
+  for (const file of target) {
+    const previous = before.get(file.path);
+    before.delete(file.path);
+    if (!previous) {
+      changes.push({
+        path: file.path,
+        status: "added",
+        hash: file.hash,
+        size: file.size,
+      });
+    } else if (previous.hash !== file.hash) {
+      changes.push({
+        path: file.path,
+        status: "modified",
+        hash: file.hash,
+        previousHash: previous.hash,
+        size: file.size,
+      });
+    }
+  }
+  for (const file of before.values()) {
+    changes.push({
+      path: file.path,
+      status: "removed",
+      previousHash: file.hash,
+    });
+  }
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -0,0 +1,260 @@
+import path from "path";
+
+import { HttpError } from "@/lib/api";
+import type { DatasetFile } from "@/lib/datasets";
+import { addExportBlobs, deleteExport, recordExport } from "@/lib/exports";
+import { detectFormat, readRows, type Row } from "@/lib/formats";
+import {
+  TAR_END,
+  groupSamples,
+  indexTar,
+  splitSampleKey,
+  tarEntrySize,
+  tarHeader,
+  tarPadding,
+} from "@/lib/formats/tar";
+import {
+  webDatasetExportSchema,
+  type WebDatasetExportInput,
+} from "@/lib/schemas";
+import { readBlob, storeBlob } from "@/lib/storage";
+import { checkout } from "@/lib/versioning";
+
+/**
+ * Writes a dataset version as WebDataset shards: tar files of at most a given
+ * size, each holding whole samples, plus a shard list in the `wids` index
+ * format WebDataset's indexed readers load. Samples come from
+ *
+ * - the samples of any `.tar` shards in the version, re-sharded as they are
+ * - the rows of tabular files, one sample per row keyed `<file>/<row>`, with
+ *   a field per column
+ * - every other file, grouped by key as WebDataset groups members, so
+ *   `img/0001.jpg` and `img/0001.json` become one sample
+ *
+ * Tabular files that share a key with other files (a `.json` caption next to
+ * its image, say) are fields of that sample rather than row sources.
+ */
+
+export interface ShardInfo {
+  name: string;
+  hash: string;
+  size: number;
+  samples: number;
+}
+
+export interface WebDatasetExport {
+  commit: string;
+  /** The `wids` shard list, stored as a blob next to the shards. */
+  manifest: { name: string; hash: string };
+  shards: ShardInfo[];
+  samples: number;
+  /** The export recorded for the files, which are kept until `expiresAt`. */
+  exportId: string;
+  expiresAt: string;
+}
+
+interface SampleField {
+  name: string;
+  size: number;
+  read: () => AsyncIterable<Buffer> | Buffer;
+}
+
+interface Sample {
+  key: string;
+  fields: SampleField[];
+}
+
+/** Digits in row numbers used as sample keys. */
+const ROW_KEY_DIGITS = 9;
+
+/**
+ * Shards a dataset version into tar files of at most the given size. The
+ * files are kept until the export expires or is deleted.
+ */
+export async function exportWebDataset(
+  datasetId: string,
+  input: WebDatasetExportInput,
+): Promise<WebDatasetExport> {
+  const { ref, name, maxShardMegabytes } = webDatasetExportSchema.parse(input);
+  const maxShardBytes = maxShardMegabytes * 1024 * 1024;
+  const commit = await checkout(datasetId, ref);
+  const samples = collectSamples(commit.manifest)[Symbol.asyncIterator]();
+  let next = await samples.next();
+  if (next.done) throw new HttpError(422, "This version has no samples");
+
+  const record = await recordExport(datasetId, "webdataset", commit.id);
+  try {
+    return await writeShards();
+  } catch (error) {
+    await deleteExport(datasetId, record.id);
+    throw error;
+  }
+
+  async function writeShards(): Promise<WebDatasetExport> {
+    const shards: ShardInfo[] = [];
+    while (!next.done) {
+      let count = 0;
+      let bytes = TAR_END.length;
+      async function* shard(): AsyncGenerator<Buffer> {
+        while (!next.done) {
+          const sample = next.value;
+          const size = sampleSize(sample);
+          // An oversized sample still gets a shard of its own.
+          if (count > 0 && bytes + size > maxShardBytes) break;
+          for (const field of sample.fields) {
+            const member = `${sample.key}.${field.name}`;
+            yield tarHeader(member, field.size);
+            let written = 0;
+            for await (const chunk of toIterable(field.read())) {
+              written += chunk.length;
+              yield chunk;
+            }
+            if (written !== field.size) {
+              throw new HttpError(
+                500,
+                `${member} changed size while exporting`,
+              );
+            }
+            yield tarPadding(field.size);
+          }
+          count++;
+          bytes += size;
+          next = await samples.next();
+        }
+        yield TAR_END;
+      }
+      const blob = await storeBlob(shard());
+      await addExportBlobs(record.id, [blob.hash]);
+      shards.push({
+        name: `${name}-${String(shards.length).padStart(6, "0")}.tar`,
+        hash: blob.hash,
+        size: blob.size,
+        samples: count,
+      });
+    }
+
+    const manifest = {
+      __kind__: "wids-shard-index-v1",
+      wids_version: 1,
+      name,
+      shardlist: shards.map((shard) => ({
+        url: shard.name,
+        nsamples: shard.samples,
+        filesize: shard.size,
+      })),
+    };
+    const manifestBlob = await storeBlob(
+      Buffer.from(`${JSON.stringify(manifest, null, 2)}\n`),
+    );
+    await addExportBlobs(record.id, [manifestBlob.hash]);
+    return {
+      commit: commit.id,
+      manifest: { name: `${name}.json`, hash: manifestBlob.hash },
+      shards,
+      samples: shards.reduce((sum, shard) => sum + shard.samples, 0),
+      exportId: record.id,
+      expiresAt: record.expiresAt,
+    };
+  }
+}
+
+function sampleSize(sample: Sample): number {
+  return sample.fields.reduce(
+    (sum, field) =>
+      sum + tarEntrySize(`${sample.key}.${field.name}`, field.size),
+    0,
+  );
+}
+
+function toIterable(
+  source: AsyncIterable<Buffer> | Buffer,
+): AsyncIterable<Buffer> | Buffer[] {
+  return Buffer.isBuffer(source) ? [source] : source;
+}
+
+function blobRange(hash: string, start: number, size: number) {
+  return () =>
+    size === 0
+      ? Buffer.alloc(0)
+      : (readBlob(hash, {
+          start,
+          end: start + size - 1,
+        }) as AsyncIterable<Buffer>);
+}
+
+async function* collectSamples(files: DatasetFile[]): AsyncGenerator<Sample> {
+  const keyed = new Map<string, { field: string; file: DatasetFile }[]>();
+  for (const file of files) {
+    if (detectFormat(file.path) === "webdataset") continue;
+    const split = splitSampleKey(file.path);
+    if (!split) continue;
+    const group = keyed.get(split.key) ?? [];
+    group.push({ field: split.field, file });
+    keyed.set(split.key, group);
+  }
+
+  for (const file of files) {
+    const format = detectFormat(file.path);
+    if (format === "webdataset") {
+      for (const sample of groupSamples(await indexTar(file.hash))) {
+        yield {
+          key: sample.key,
+          fields: Object.entries(sample.fields).map(([name, member]) => ({
+            name,
+            size: member.size,
+            read: blobRange(file.hash, member.offset, member.size),
+          })),
+        };
+      }
+    } else if (format) {
+      const split = splitSampleKey(file.path);
+      if (split && keyed.get(split.key)!.length > 1) continue;
+      const stem = file.path.slice(0, -path.posix.extname(file.path).length);
+      // Keys can't contain dots, which would start the field name.
+      const prefix = stem.replace(/\./g, "_");
+      let number = 0;
+      for await (const row of readRows(file)) {
+        yield rowSample(
+          `${prefix}/${String(number++).padStart(ROW_KEY_DIGITS, "0")}`,
+          row,
+        );
+      }
+    }
+  }
+
+  for (const [key, group] of keyed) {
+    if (group.length === 1 && detectFormat(group[0].file.path)) continue;
+    yield {
+      key,
+      fields: group.map(({ field, file }) => ({
+        name: field,
+        size: file.size,
+        read: blobRange(file.hash, 0, file.size),
+      })),
+    };
+  }
+}
+
+/** A row as a sample: strings as `.txt`-style text, everything else JSON. */
+function rowSample(key: string, row: Row): Sample {
+  const fields: SampleField[] = [];
+  for (const [column, value] of Object.entries(row)) {
+    if (value === null || value === undefined) continue;
+    const name = column.replace(/[/\s]/g, "_") || "_";
+    const data =
+      value instanceof Uint8Array
+        ? Buffer.from(value)
+        : Buffer.from(
+            typeof value === "string" ? value : JSON.stringify(value),
+          );
+    fields.push({
+      name:
+        typeof value === "string" || value instanceof Uint8Array
+          ? name
+          : `${name}.json`,
+      size: data.length,
+      read: () => data,
+    });
+  }
+  return { key, fields };
+}